@@ -23,14 +23,23 @@ import ProfessionalRegister from "@/pages/professionals/register";
 import ProfessionalEdit from "@/pages/professionals/edit";
 import Procedures from "@/pages/procedures";
 import ProcedureEdit from "@/pages/procedures/edit";
-// Módulo financeiro temporariamente desativado
-// import Financial from "@/pages/financial";
+import Resources from "@/pages/resources";
+import Waitlist from "@/pages/waitlist";
+import WaitTimesReport from "@/pages/reports/wait-times";
+import WaitingRoomDisplay from "@/pages/display";
+import Kiosk from "@/pages/kiosk";
+import Financial from "@/pages/financial";
+import Payouts from "@/pages/financial/payouts";
+import CommissionRules from "@/pages/financial/commission-rules";
+import HealthPlans from "@/pages/health-plans";
+import Cashier from "@/pages/cashier";
 import Users from "@/pages/users";
 import Profile from "@/pages/profile";
 import MedicalConsultation from "@/pages/medical-consultation";
 import MedicalConsultationEdit from "@/pages/medical-consultation/edit";
 import MedicalRecords from "@/pages/medical-records";
 import { useAuth } from "./hooks/use-auth";
+import { useRealtimeUpdates } from "./hooks/use-realtime";
 
 // Doctor Pages
 import DoctorDashboard from "@/pages/doctors/dashboard";
@@ -58,6 +67,8 @@ function PrivateRoute({ component: Component, roles = [], ...rest }: { component
 
 function AuthenticatedApp() {
   const { user } = useAuth();
+  // Fila e agenda se atualizam sozinhas quando o status de um agendamento muda
+  useRealtimeUpdates(!!user);
 
   if (!user) {
     return null;
@@ -109,11 +120,30 @@ function AuthenticatedApp() {
             <Route path="/procedures/edit/:id">
               {(params) => <PrivateRoute component={ProcedureEdit} path={`/procedures/edit/${params.id}`} roles={['admin']} />}
             </Route>
-            {/* Módulo financeiro temporariamente desativado 
+            <Route path="/resources">
+              {() => <PrivateRoute component={Resources} path="/resources" roles={['admin']} />}
+            </Route>
+            <Route path="/health-plans">
+              {() => <PrivateRoute component={HealthPlans} path="/health-plans" roles={['admin']} />}
+            </Route>
+            <Route path="/waitlist">
+              {() => <PrivateRoute component={Waitlist} path="/waitlist" roles={['admin', 'recepcionista']} />}
+            </Route>
+            <Route path="/reports/wait-times">
+              {() => <PrivateRoute component={WaitTimesReport} path="/reports/wait-times" roles={['admin', 'recepcionista']} />}
+            </Route>
+            <Route path="/cashier">
+              {() => <PrivateRoute component={Cashier} path="/cashier" roles={['admin', 'recepcionista']} />}
+            </Route>
+            <Route path="/financial/commission-rules">
+              {() => <PrivateRoute component={CommissionRules} path="/financial/commission-rules" roles={['admin']} />}
+            </Route>
+            <Route path="/financial/payouts">
+              {() => <PrivateRoute component={Payouts} path="/financial/payouts" roles={['admin', 'medico']} />}
+            </Route>
             <Route path="/financial">
               {() => <PrivateRoute component={Financial} path="/financial" roles={['admin', 'medico']} />}
             </Route>
-            */}
             <Route path="/users">
               {() => <PrivateRoute component={Users} path="/users" roles={['admin']} />}
             </Route>
@@ -167,6 +197,14 @@ function AppRoutes() {
       <Route path="/login">
         {user ? <Redirect to="/" /> : <Login />}
       </Route>
+      {/* Painel da TV da sala de espera: autenticado pelo token na URL, sem login */}
+      <Route path="/display">
+        <WaitingRoomDisplay />
+      </Route>
+      {/* Totem de check-in da recepção: autenticado pelo token na URL, sem login */}
+      <Route path="/kiosk">
+        <Kiosk />
+      </Route>
       <Route path="*">
         {user ? <AuthenticatedApp /> : <Redirect to="/login" />}
       </Route>
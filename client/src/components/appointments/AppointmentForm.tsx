@@ -4,9 +4,21 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { insertAppointmentSchema } from "@shared/schema";
+import {
+  insertAppointmentSchema,
+  recurrenceRuleSchema,
+  refineRecurrenceStart,
+  type HealthPlan,
+  type HealthPlanPrice,
+  type PatientHealthPlan,
+  type Resource,
+} from "@shared/schema";
+import { formatMoney, sumCents } from "@shared/money";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import RecurrenceFields from "@/components/appointments/RecurrenceFields";
 
 import {
   Form,
@@ -26,6 +38,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 // Extend the insertAppointmentSchema with additional validation
 const formSchema = insertAppointmentSchema.extend({
@@ -37,7 +57,9 @@ const formSchema = insertAppointmentSchema.extend({
   selectedProcedures: z.array(z.number())
     .min(1, { message: "Selecione pelo menos um procedimento" })
     .optional(),
-});
+  resourceIds: z.array(z.number()).optional(),
+  recurrenceRule: recurrenceRuleSchema.optional(),
+}).superRefine(refineRecurrenceStart);
 
 // Combined form values with time separate from date
 type AppointmentFormValues = z.infer<typeof formSchema> & {
@@ -49,13 +71,63 @@ interface AppointmentFormProps {
   onSuccess?: () => void;
 }
 
+type AppointmentSubmission = AppointmentFormValues & {
+  allowOverlap?: boolean;
+  skipConflicts?: boolean;
+};
+
+interface ConflictingAppointment {
+  id: number;
+  date: string;
+  durationMinutes: number;
+}
+
+// Conflito de um agendamento simples ou, em séries, a lista de sessões em conflito
+interface AppointmentConflict {
+  message: string;
+  conflictingAppointment?: ConflictingAppointment;
+  occurrences?: { date: string; message: string; conflictingAppointment: ConflictingAppointment }[];
+}
+
+// Combina a data do formulário (yyyy-MM-dd) com o horário (HH:mm) no fuso local
+function combineDateAndTime(date: Date | string, time: string): Date {
+  const dateStr = typeof date === 'string' 
+    ? date 
+    : date instanceof Date 
+      ? date.toISOString().split('T')[0] 
+      : new Date().toISOString().split('T')[0];
+  
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hours, minutes] = (time || "00:00").split(":").map(Number);
+  
+  // Criar um novo objeto de data local para manter o horário exato
+  const dateObj = new Date();
+  dateObj.setFullYear(year, month - 1, day);
+  dateObj.setHours(hours, minutes, 0, 0);
+  return dateObj;
+}
+
+// apiRequest lança "409: {json}"; extrai o corpo da resposta de conflito de horário
+function parseConflictError(error: unknown): AppointmentConflict | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4));
+  } catch {
+    return null;
+  }
+}
+
 export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [searchProcedure, setSearchProcedure] = useState('');
   const [searchPatient, setSearchPatient] = useState('');
   const [showQuickPatient, setShowQuickPatient] = useState(false);
   const [quickPatientName, setQuickPatientName] = useState('');
+  const [conflict, setConflict] = useState<
+    (AppointmentConflict & { values: AppointmentSubmission }) | null
+  >(null);
   const { toast } = useToast();
+  const { user } = useAuth();
   const [_, setLocation] = useLocation();
 
   // Função para criar um paciente rapidamente com apenas o nome
@@ -113,6 +185,11 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
     refetchOnWindowFocus: true,
     staleTime: 30000,
   });
+  
+  const { data: resources = [] } = useQuery<Resource[]>({ 
+    queryKey: ["/api/resources"],
+    staleTime: 30000,
+  });
 
   const form = useForm<AppointmentFormValues>({
     resolver: zodResolver(formSchema),
@@ -124,38 +201,78 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
       status: "scheduled",
       notes: "",
       selectedProcedures: [],
+      resourceIds: [],
+      healthPlanId: null,
     },
   });
   
-  // Calcular valor total dos procedimentos selecionados
+  // Salas/equipamentos exigidos pelos procedimentos marcados são reservados automaticamente
+  const watchedProcedureIds = form.watch("selectedProcedures") || [];
+  const requiredResourceIds = useMemo(() => new Set<number>(
+    procedures
+      .filter((procedure: any) => watchedProcedureIds.includes(procedure.id))
+      .flatMap((procedure: any) => (procedure.resources || []).map((resource: Resource) => resource.id))
+  ), [procedures, watchedProcedureIds]);
+  
+  // Horários livres do profissional no dia selecionado
+  const watchedDate = form.watch("date");
+  const watchedProfessionalId = form.watch("professionalId");
+  const selectedDay = watchedDate instanceof Date
+    ? watchedDate.toISOString().split('T')[0]
+    : watchedDate;
+  
+  const { data: availability } = useQuery<{ slots: { start: string; end: string }[] }>({
+    queryKey: [`/api/professionals/${watchedProfessionalId}/availability`, selectedDay],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/professionals/${watchedProfessionalId}/availability?from=${selectedDay}&to=${selectedDay}`
+      );
+      return res.json();
+    },
+    enabled: !!watchedProfessionalId && !!selectedDay,
+    staleTime: 0,
+  });
+
+  // Convênios em que o paciente tem carteirinha válida na data; sem nenhum, só particular
+  const watchedPatientId = form.watch("patientId");
+  const watchedHealthPlanId = form.watch("healthPlanId");
+  const { data: healthPlans = [] } = useQuery<HealthPlan[]>({ queryKey: ["/api/health-plans"] });
+  const { data: patientCards = [] } = useQuery<PatientHealthPlan[]>({
+    queryKey: [`/api/patients/${watchedPatientId}/health-plans`],
+    enabled: !!watchedPatientId,
+  });
+  const coveredPlans = healthPlans.filter((plan) =>
+    plan.isActive && patientCards.some((card) =>
+      card.healthPlanId === plan.id &&
+      (!card.validUntil || format(new Date(card.validUntil), "yyyy-MM-dd") >= selectedDay)
+    )
+  );
+  
+  useEffect(() => {
+    form.setValue("healthPlanId", null);
+  }, [watchedPatientId]);
+  
+  const { data: planPrices = [] } = useQuery<HealthPlanPrice[]>({
+    queryKey: [`/api/health-plans/${watchedHealthPlanId}/prices`],
+    enabled: !!watchedHealthPlanId,
+  });
+
+  // Valor total dos procedimentos selecionados, pela tabela do convênio quando houver
   const selectedProceduresTotal = useMemo(() => {
     const selectedProcedureIds = form.watch("selectedProcedures") || [];
+    const prices = watchedHealthPlanId ? planPrices : [];
     
-    return procedures
+    return sumCents(procedures
       .filter(proc => selectedProcedureIds.includes(proc.id))
-      .reduce((total, proc) => total + proc.value, 0);
-  }, [procedures, form.watch("selectedProcedures")]);
+      .map(proc => prices.find((price) => price.procedureId === proc.id)?.value ?? proc.value));
+  }, [procedures, form.watch("selectedProcedures"), watchedHealthPlanId, planPrices]);
 
   const createAppointmentMutation = useMutation({
-    mutationFn: async (data: AppointmentFormValues) => {
+    mutationFn: async (data: AppointmentSubmission) => {
       // Combine date and time preservando a data correta
       // Garantir que a data seja tratada corretamente (problema com timezone)
-      const dateStr = typeof data.date === 'string' 
-        ? data.date 
-        : data.date instanceof Date 
-          ? data.date.toISOString().split('T')[0] 
-          : new Date().toISOString().split('T')[0];
-          
-      console.log("Data selecionada:", dateStr);
-      
-      // Criar a data com o formato correto
-      const [year, month, day] = dateStr.split('-').map(Number);
-      const [hours, minutes] = data.time.split(":").map(Number);
-      
-      // Criar um novo objeto de data local para manter o horário exato
-      const dateObj = new Date();
-      dateObj.setFullYear(year, month - 1, day);
-      dateObj.setHours(hours, minutes, 0, 0);
+      const dateObj = combineDateAndTime(data.date, data.time);
       
       console.log("Data formatada para agendamento:", dateObj.toISOString());
       
@@ -174,7 +291,13 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
         date: dateObj, // Enviar objeto de data em vez de string
         status: data.status,
         notes: data.notes,
+        healthPlanId: data.healthPlanId ?? null, // Vazio = particular
         procedureIds: selectedProcedures, // Enviar array de procedimentos
+        resourceIds: data.resourceIds, // Recursos extras; os dos procedimentos são incluídos pelo servidor
+        durationMinutes: data.durationMinutes || undefined, // Vazio = duração dos procedimentos/agenda
+        allowOverlap: data.allowOverlap,
+        recurrenceRule: data.recurrenceRule, // Série recorrente (RRULE), se marcada
+        skipConflicts: data.skipConflicts,
       };
 
       console.log("Enviando dados para API:", appointmentData);
@@ -187,16 +310,22 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
       
       return appointmentResponse;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       // Invalidar todas as consultas que possam ser afetadas pelo novo agendamento
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
       queryClient.invalidateQueries({ queryKey: ["/api/appointments/waiting-queue"] });
       
-      toast({
-        title: "Agendamento criado com sucesso",
-        description: "O agendamento foi criado com sucesso no sistema.",
-      });
+      toast(result.series
+        ? {
+            title: "Série de agendamentos criada",
+            description: `${result.appointments.length} sessões agendadas` +
+              (result.skipped.length > 0 ? `, ${result.skipped.length} ignoradas por conflito.` : "."),
+          }
+        : {
+            title: "Agendamento criado com sucesso",
+            description: "O agendamento foi criado com sucesso no sistema.",
+          });
       
       // Chama o callback de sucesso, se fornecido
       if (onSuccess) {
@@ -205,7 +334,22 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
         setLocation("/appointments");
       }
     },
-    onError: (error: any) => {
+    onError: (error: any, values) => {
+      const appointmentConflict = parseConflictError(error);
+      if (appointmentConflict) {
+        // Administradores podem confirmar o encaixe; em séries, qualquer um pode criar só as sessões livres
+        if (user?.role === "admin" || appointmentConflict.occurrences) {
+          setConflict({ ...appointmentConflict, values });
+          return;
+        }
+        toast({
+          title: "Horário indisponível",
+          description: `${appointmentConflict.message} (${format(new Date(appointmentConflict.conflictingAppointment!.date), "dd/MM/yyyy HH:mm")}). Escolha outro horário.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      
       toast({
         title: "Erro ao criar agendamento",
         description: error.message || "Ocorreu um erro ao criar o agendamento. Tente novamente.",
@@ -343,6 +487,40 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="healthPlanId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Atendimento</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "private" ? null : parseInt(value))}
+                    value={field.value?.toString() ?? "private"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="private">Particular</SelectItem>
+                      {coveredPlans.map((plan) => (
+                        <SelectItem key={plan.id} value={plan.id.toString()}>
+                          Convênio: {plan.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!!watchedPatientId && coveredPlans.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      O paciente não tem carteirinha de convênio válida nesta data
+                    </p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <FormField
               control={form.control}
               name="date"
@@ -370,6 +548,51 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
                   <FormControl>
                     <Input type="time" {...field} />
                   </FormControl>
+                  {availability && (
+                    availability.slots.length > 0 ? (
+                      <div className="flex flex-wrap gap-2 pt-1">
+                        {availability.slots.map((slot) => {
+                          const time = format(new Date(slot.start), "HH:mm");
+                          return (
+                            <Button
+                              key={slot.start}
+                              type="button"
+                              size="sm"
+                              variant={field.value === time ? "default" : "outline"}
+                              onClick={() => field.onChange(time)}
+                            >
+                              {time}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Nenhum horário livre para este profissional na data selecionada
+                      </p>
+                    )
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="durationMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Duração (min)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="5"
+                      step="5"
+                      placeholder="Automática (procedimentos ou agenda do profissional)"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                    />
+                  </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
@@ -449,19 +672,97 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
                           >
                             {procedure.name} ({procedure.type === "consultation" ? "Consulta" : 
                               procedure.type === "exam" ? "Exame" : "Procedimento"})
+                            {procedure.durationMinutes ? ` - ${procedure.durationMinutes} min` : ""}
                           </label>
                         </div>
                         <div className="text-sm text-gray-500">
-                          R$ {procedure.value.toFixed(2)}
+                          {formatMoney(procedure.value)}
                         </div>
                       </div>
                     ))}
                   </div>
+                  {procedures
+                    .filter((procedure: any) =>
+                      field.value?.includes(procedure.id) &&
+                      (procedure.preparationInstructions || procedure.resources?.length > 0))
+                    .map((procedure: any) => (
+                      <div key={procedure.id} className="text-xs p-2 rounded-md bg-amber-50 border border-amber-200 text-amber-800">
+                        <span className="font-medium">{procedure.name}:</span>{" "}
+                        {[
+                          procedure.preparationInstructions && `Preparo: ${procedure.preparationInstructions}`,
+                          procedure.resources?.length > 0 &&
+                            `Reserva: ${procedure.resources.map((resource: Resource) => resource.name).join(", ")}`,
+                        ].filter(Boolean).join(" · ")}
+                      </div>
+                    ))}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="recurrenceRule"
+              render={({ field }) => (
+                <FormItem>
+                  <RecurrenceFields
+                    startDate={combineDateAndTime(watchedDate, form.watch("time"))}
+                    onChange={field.onChange}
+                  />
                   <FormMessage />
                 </FormItem>
               )}
             />
             
+            {resources.some((resource) => resource.isActive) && (
+              <FormField
+                control={form.control}
+                name="resourceIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Salas e equipamentos</FormLabel>
+                    <div className="border border-gray-200 rounded-md p-4 space-y-2 max-h-48 overflow-y-auto">
+                      {resources
+                        .filter((resource) => resource.isActive)
+                        .map((resource) => {
+                          const isRequired = requiredResourceIds.has(resource.id);
+                          return (
+                            <div key={resource.id} className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                id={`resource-${resource.id}`}
+                                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                                checked={isRequired || field.value?.includes(resource.id)}
+                                disabled={isRequired}
+                                onChange={(e) => {
+                                  if (e.target.checked) {
+                                    field.onChange([...(field.value || []), resource.id]);
+                                  } else {
+                                    field.onChange(
+                                      (field.value || []).filter((id: number) => id !== resource.id)
+                                    );
+                                  }
+                                }}
+                              />
+                              <label
+                                htmlFor={`resource-${resource.id}`}
+                                className="text-sm text-gray-700"
+                              >
+                                {resource.name} ({resource.type === "room" ? "Sala" : "Equipamento"})
+                                {isRequired && (
+                                  <span className="text-xs text-muted-foreground"> - exigido pelo procedimento</span>
+                                )}
+                              </label>
+                            </div>
+                          );
+                        })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             <FormField
               control={form.control}
               name="notes"
@@ -491,7 +792,7 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
                   Valor Total dos Procedimentos:
                 </div>
                 <div className="text-lg font-semibold text-primary">
-                  R$ {selectedProceduresTotal.toFixed(2)}
+                  {formatMoney(selectedProceduresTotal)}
                 </div>
               </div>
             </div>
@@ -514,6 +815,66 @@ export default function AppointmentForm({ onSuccess }: AppointmentFormProps) {
           </form>
         </Form>
       </div>
+      
+      <Dialog open={!!conflict} onOpenChange={(open) => !open && setConflict(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Horário já ocupado</DialogTitle>
+            {conflict?.occurrences ? (
+              <DialogDescription>
+                {conflict.message}. Crie apenas as sessões livres
+                {user?.role === "admin" && " ou agende todas mesmo assim (o encaixe ficará registrado em seu nome)"}.
+              </DialogDescription>
+            ) : (
+              <DialogDescription>
+                {conflict?.message} às{" "}
+                {conflict?.conflictingAppointment && format(new Date(conflict.conflictingAppointment.date), "dd/MM/yyyy HH:mm")}
+                {" "}(agendamento #{conflict?.conflictingAppointment?.id}). Deseja agendar mesmo assim?
+                O encaixe ficará registrado em seu nome.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {conflict?.occurrences && (
+            <ul className="text-sm space-y-1 max-h-48 overflow-y-auto">
+              {conflict.occurrences.map((occurrence) => (
+                <li key={occurrence.date}>
+                  <span className="font-medium">{format(new Date(occurrence.date), "dd/MM/yyyy HH:mm")}</span>
+                  {" - "}{occurrence.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setConflict(null)}>
+              Escolher outro horário
+            </Button>
+            {conflict?.occurrences && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => {
+                  createAppointmentMutation.mutate({ ...conflict.values, skipConflicts: true });
+                  setConflict(null);
+                }}
+              >
+                Criar só as sessões livres
+              </Button>
+            )}
+            {user?.role === "admin" && (
+              <Button
+                type="button"
+                onClick={() => {
+                  if (!conflict) return;
+                  createAppointmentMutation.mutate({ ...conflict.values, allowOverlap: true });
+                  setConflict(null);
+                }}
+              >
+                Agendar mesmo assim
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
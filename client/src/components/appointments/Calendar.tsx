@@ -12,13 +12,22 @@ import {
   addMonths,
   subMonths,
   addDays,
+  addMinutes,
   parseISO,
   isToday
 } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import type { Resource } from "@shared/schema";
 
 interface CalendarProps {
   onDateSelect: (date: Date) => void;
@@ -28,12 +37,19 @@ interface CalendarProps {
 export default function Calendar({ onDateSelect, professionalId }: CalendarProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
+  // Com um recurso selecionado, o calendário mostra a agenda da sala/equipamento
+  const [resourceId, setResourceId] = useState<number | undefined>();
+  
+  const { data: resources = [] } = useQuery<Resource[]>({
+    queryKey: ["/api/resources"],
+  });
   
   const { data: appointments = [], isLoading, refetch } = useQuery<any[]>({
     queryKey: [
       "/api/appointments",
       {
         professionalId,
+        resourceId,
         startDate: format(startOfMonth(currentMonth), "yyyy-MM-dd"),
         endDate: format(endOfMonth(currentMonth), "yyyy-MM-dd"),
         timestamp: Date.now() // Adicionar timestamp para evitar cache
@@ -41,12 +57,14 @@ export default function Calendar({ onDateSelect, professionalId }: CalendarProps
     ],
     queryFn: async ({ queryKey }) => {
       // @ts-ignore
-      const { professionalId, startDate, endDate } = queryKey[1] as any;
+      const { professionalId, resourceId, startDate, endDate } = queryKey[1] as any;
       
       const params = new URLSearchParams();
       params.append("startDate", startDate);
       params.append("endDate", endDate);
-      if (professionalId) {
+      if (resourceId) {
+        params.append("resourceId", resourceId.toString());
+      } else if (professionalId) {
         params.append("professionalId", professionalId.toString());
       }
       // Adicionar timestamp para evitar cache
@@ -70,14 +88,8 @@ export default function Calendar({ onDateSelect, professionalId }: CalendarProps
     refetch();
   }, [currentMonth, refetch]);
   
-  // Atualizar periodicamente
-  useEffect(() => {
-    const interval = setInterval(() => {
-      refetch();
-    }, 30000); // Atualizar a cada 30 segundos
-    
-    return () => clearInterval(interval);
-  }, [refetch]);
+  // Novos agendamentos, remarcações e mudanças de status chegam pelo canal de tempo real
+  // (useRealtimeUpdates), sem polling
 
   // Group appointments by date
   const appointmentsByDate = appointments.reduce((acc: Record<string, any[]>, appointment: any) => {
@@ -118,11 +130,33 @@ export default function Calendar({ onDateSelect, professionalId }: CalendarProps
     onDateSelect(day);
   };
 
+  const activeResources = resources.filter((resource) => resource.isActive);
+
   const renderHeader = () => {
     return (
       <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
         <h3 className="font-medium">{format(currentMonth, "MMMM yyyy", { locale: ptBR })}</h3>
         <div className="flex space-x-2">
+          {activeResources.length > 0 && (
+            <Select
+              value={resourceId?.toString() ?? "professional"}
+              onValueChange={(value) =>
+                setResourceId(value === "professional" ? undefined : parseInt(value))
+              }
+            >
+              <SelectTrigger className="w-[200px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="professional">Agenda do profissional</SelectItem>
+                {activeResources.map((resource) => (
+                  <SelectItem key={resource.id} value={resource.id.toString()}>
+                    {resource.type === "room" ? "Sala" : "Equipamento"}: {resource.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button variant="ghost" size="icon" onClick={prevMonth}>
             <ChevronLeft className="h-4 w-4" />
           </Button>
@@ -219,21 +253,31 @@ export default function Calendar({ onDateSelect, professionalId }: CalendarProps
     for (let hour = startHour; hour < endHour; hour++) {
       for (let minute = 0; minute < 60; minute += interval) {
         const timeStr = `${hour.toString().padStart(2, "0")}:${minute.toString().padStart(2, "0")}`;
-        const isBooked = dateAppointments.some((appointment: any) => {
-          const appointmentTime = format(parseISO(appointment.date), "HH:mm");
-          return appointmentTime === timeStr;
+        const slotStart = new Date(selectedDate);
+        slotStart.setHours(hour, minute, 0, 0);
+        
+        // O horário está ocupado enquanto durar algum agendamento não cancelado
+        const booking = dateAppointments.find((appointment: any) => {
+          if (appointment.status === "cancelled") return false;
+          const start = parseISO(appointment.date);
+          const end = addMinutes(start, appointment.durationMinutes ?? interval);
+          return start < addMinutes(slotStart, interval) && end > slotStart;
         });
         
         timeSlots.push({
           time: timeStr,
-          isBooked
+          isBooked: !!booking,
+          bookedBy: booking?.patient?.name ?? booking?.patientName
         });
       }
     }
 
     return (
       <div className="p-4 border-t border-gray-200">
-        <h3 className="font-medium mb-3">Horários - {format(selectedDate, "dd/MM/yyyy")}</h3>
+        <h3 className="font-medium mb-3">
+          Horários - {format(selectedDate, "dd/MM/yyyy")}
+          {resourceId && ` - ${resources.find((resource) => resource.id === resourceId)?.name ?? ""}`}
+        </h3>
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
           {timeSlots.map((slot, index) => (
             <Button
@@ -244,6 +288,7 @@ export default function Calendar({ onDateSelect, professionalId }: CalendarProps
                 slot.isBooked && "bg-primary-100 text-primary-700 font-medium"
               )}
               disabled={slot.isBooked}
+              title={slot.bookedBy ? `Reservado: ${slot.bookedBy}` : undefined}
               onClick={() => {
                 const [hours, minutes] = slot.time.split(":").map(Number);
                 const dateWithTime = new Date(selectedDate);
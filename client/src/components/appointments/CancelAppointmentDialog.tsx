@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { CancellationReason } from "@shared/schema";
+import { CANCELLATION_REASON_LABELS } from "@shared/appointment-status";
+
+interface CancelAppointmentDialogProps {
+  appointmentId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lista de motivos para seleção; usada também no cancelamento de séries
+export function CancellationReasonSelect({
+  value,
+  onChange,
+}: {
+  value: CancellationReason | "";
+  onChange: (reason: CancellationReason) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(reason) => onChange(reason as CancellationReason)}>
+      <SelectTrigger>
+        <SelectValue placeholder="Selecione o motivo" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(CANCELLATION_REASON_LABELS) as CancellationReason[]).map((reason) => (
+          <SelectItem key={reason} value={reason}>
+            {CANCELLATION_REASON_LABELS[reason]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Cancela um agendamento registrando o motivo
+export default function CancelAppointmentDialog({ appointmentId, onOpenChange }: CancelAppointmentDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<CancellationReason | "">("");
+
+  useEffect(() => {
+    if (appointmentId !== null) setReason("");
+  }, [appointmentId]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/appointments/${appointmentId}/status`, {
+        status: "cancelled",
+        cancellationReason: reason,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/offers"] });
+      toast({ title: "Agendamento cancelado" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cancelar agendamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={appointmentId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Cancelar agendamento</DialogTitle>
+          <DialogDescription>O motivo fica registrado junto com quem cancelou.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label>Motivo</Label>
+          <CancellationReasonSelect value={reason} onChange={setReason} />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Voltar
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            disabled={!reason || cancelMutation.isPending}
+            onClick={() => cancelMutation.mutate()}
+          >
+            {cancelMutation.isPending ? "Cancelando..." : "Cancelar agendamento"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  expandRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+
+const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+interface RecurrenceFieldsProps {
+  // Primeira sessão; define o horário de todas as demais
+  startDate: Date;
+  onChange: (recurrenceRule: string | undefined) => void;
+}
+
+// Monta a regra de recorrência (RRULE) do agendamento e mostra as sessões que serão geradas
+export default function RecurrenceFields({ startDate, onChange }: RecurrenceFieldsProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [freq, setFreq] = useState<RecurrenceRule["freq"]>("WEEKLY");
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  // Vazio = mesmo dia da semana da primeira sessão
+  const [byDay, setByDay] = useState<string[]>([]);
+  const [endMode, setEndMode] = useState<"count" | "until">("count");
+  const [count, setCount] = useState(10);
+  const [until, setUntil] = useState("");
+
+  const rule = enabled
+    ? formatRecurrenceRule({
+        freq,
+        interval: repeatInterval,
+        byDay: freq === "WEEKLY" && byDay.length > 0 ? byDay.map(Number) : undefined,
+        ...(endMode === "count"
+          ? { count }
+          : { until: until ? new Date(`${until}T00:00:00`) : undefined }),
+      })
+    : undefined;
+
+  useEffect(() => {
+    onChange(rule);
+  }, [rule]);
+
+  let preview: Date[] = [];
+  let error: string | null = null;
+  if (rule) {
+    try {
+      preview = expandRecurrence(parseRecurrenceRule(rule), startDate);
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Regra de recorrência inválida";
+    }
+  }
+
+  return (
+    <div className="space-y-3 border border-gray-200 rounded-md p-4">
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="recurrence-enabled"
+          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+        />
+        <Label htmlFor="recurrence-enabled">Repetir agendamento (série de sessões)</Label>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Frequência</Label>
+              <Select value={freq} onValueChange={(value) => setFreq(value as RecurrenceRule["freq"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="WEEKLY">Semanal</SelectItem>
+                  <SelectItem value="DAILY">Diária</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{freq === "WEEKLY" ? "A cada (semanas)" : "A cada (dias)"}</Label>
+              <Input
+                type="number"
+                min="1"
+                value={repeatInterval}
+                onChange={(e) => setRepeatInterval(Math.max(1, parseInt(e.target.value) || 1))}
+              />
+            </div>
+          </div>
+
+          {freq === "WEEKLY" && (
+            <div className="space-y-1">
+              <Label>Dias da semana</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start flex-wrap"
+                value={byDay.length > 0 ? byDay : [startDate.getDay().toString()]}
+                onValueChange={(value) => value.length > 0 && setByDay(value)}
+              >
+                {WEEKDAY_LABELS.map((label, index) => (
+                  <ToggleGroupItem key={index} value={index.toString()} size="sm">
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Termina</Label>
+              <Select value={endMode} onValueChange={(value) => setEndMode(value as "count" | "until")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="count">Após N sessões</SelectItem>
+                  <SelectItem value="until">Em uma data</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{endMode === "count" ? "Sessões" : "Última data"}</Label>
+              {endMode === "count" ? (
+                <Input
+                  type="number"
+                  min="1"
+                  value={count}
+                  onChange={(e) => setCount(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              ) : (
+                <Input type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+              )}
+            </div>
+          </div>
+
+          {error ? (
+            <p className="text-xs text-destructive">{error}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {preview.length} sessões: {preview.map((date) => format(date, "dd/MM")).join(", ")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Appointment, AppointmentChange, Procedure } from "@shared/schema";
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatus } from "@shared/appointment-status";
+
+type AppointmentDetails = Appointment & { procedures: Procedure[] };
+type HistoryEntry = AppointmentChange & { changedByName: string | null };
+
+interface RescheduleDialogProps {
+  appointmentId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<AppointmentChange["field"], string> = {
+  date: "Data/horário",
+  professional: "Profissional",
+  duration: "Duração (min)",
+  procedures: "Procedimentos",
+  resources: "Salas e equipamentos",
+  notes: "Observações",
+  health_plan: "Convênio",
+  status: "Status",
+  priority: "Prioridade",
+};
+
+function formatChangeValue(field: AppointmentChange["field"], value: string | null) {
+  if (!value) return "-";
+  if (field === "status") return APPOINTMENT_STATUS_LABELS[value as AppointmentStatus] ?? value;
+  return field === "date" ? format(new Date(value), "dd/MM/yyyy HH:mm") : value;
+}
+
+// apiRequest lança "409: {json}"; extrai a mensagem de conflito de horário
+function parseConflictMessage(error: unknown): string | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4)).message;
+  } catch {
+    return null;
+  }
+}
+
+// Remarca/edita um agendamento e mostra o histórico de alterações
+export default function RescheduleDialog({ appointmentId, onOpenChange }: RescheduleDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [day, setDay] = useState("");
+  const [time, setTime] = useState("");
+  const [professionalId, setProfessionalId] = useState("");
+  const [procedureIds, setProcedureIds] = useState<number[]>([]);
+  const [notes, setNotes] = useState("");
+  const [conflict, setConflict] = useState<string | null>(null);
+
+  const { data: appointment } = useQuery<AppointmentDetails>({
+    queryKey: [`/api/appointments/${appointmentId}`],
+    enabled: appointmentId !== null,
+  });
+
+  const { data: history = [] } = useQuery<HistoryEntry[]>({
+    queryKey: [`/api/appointments/${appointmentId}/history`],
+    enabled: appointmentId !== null,
+  });
+
+  const { data: professionals = [] } = useQuery<any[]>({
+    queryKey: ["/api/professionals"],
+    enabled: appointmentId !== null,
+  });
+
+  const { data: procedures = [] } = useQuery<Procedure[]>({
+    queryKey: ["/api/procedures"],
+    enabled: appointmentId !== null,
+  });
+
+  useEffect(() => {
+    if (appointment) {
+      const date = new Date(appointment.date);
+      setDay(format(date, "yyyy-MM-dd"));
+      setTime(format(date, "HH:mm"));
+      setProfessionalId(appointment.professionalId.toString());
+      setProcedureIds(appointment.procedures.map((procedure) => procedure.id));
+      setNotes(appointment.notes ?? "");
+      setConflict(null);
+    }
+  }, [appointment]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (allowOverlap: boolean) => {
+      const res = await apiRequest("PUT", `/api/appointments/${appointmentId}`, {
+        // Data e horário no fuso local
+        date: new Date(`${day}T${time}:00`).toISOString(),
+        professionalId: parseInt(professionalId),
+        procedureIds,
+        notes: notes || null,
+        allowOverlap,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointmentId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/appointments/${appointmentId}/history`] });
+      toast({ title: "Agendamento alterado com sucesso" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      const message = parseConflictMessage(error);
+      if (message) {
+        setConflict(message);
+        return;
+      }
+      toast({ title: "Erro ao alterar agendamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleProcedure = (procedureId: number, checked: boolean) => {
+    setProcedureIds((current) =>
+      checked ? [...current, procedureId] : current.filter((id) => id !== procedureId)
+    );
+    setConflict(null);
+  };
+
+  const canSubmit = !!day && !!time && !!professionalId && procedureIds.length > 0;
+
+  return (
+    <Dialog open={appointmentId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Remarcar / editar agendamento</DialogTitle>
+          <DialogDescription>
+            O novo horário é conferido na agenda do profissional e das salas/equipamentos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!appointment ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Carregando agendamento...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="reschedule-day">Data</Label>
+                <Input
+                  id="reschedule-day"
+                  type="date"
+                  value={day}
+                  onChange={(e) => {
+                    setDay(e.target.value);
+                    setConflict(null);
+                  }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="reschedule-time">Horário</Label>
+                <Input
+                  id="reschedule-time"
+                  type="time"
+                  value={time}
+                  onChange={(e) => {
+                    setTime(e.target.value);
+                    setConflict(null);
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Profissional</Label>
+              <Select
+                value={professionalId}
+                onValueChange={(value) => {
+                  setProfessionalId(value);
+                  setConflict(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o profissional" />
+                </SelectTrigger>
+                <SelectContent>
+                  {professionals.map((professional) => (
+                    <SelectItem key={professional.id} value={professional.id.toString()}>
+                      {professional.user?.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Procedimentos</Label>
+              <div className="border rounded-md p-3 max-h-40 overflow-y-auto space-y-2">
+                {procedures.map((procedure) => (
+                  <div key={procedure.id} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`reschedule-procedure-${procedure.id}`}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                      checked={procedureIds.includes(procedure.id)}
+                      onChange={(e) => toggleProcedure(procedure.id, e.target.checked)}
+                    />
+                    <label htmlFor={`reschedule-procedure-${procedure.id}`} className="text-sm">
+                      {procedure.name}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="reschedule-notes">Observações</Label>
+              <Textarea
+                id="reschedule-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            {conflict && (
+              <p className="text-sm text-destructive">
+                {conflict}.{" "}
+                {user?.role === "admin"
+                  ? "Confirme para remarcar mesmo assim; o encaixe ficará registrado em seu nome."
+                  : "Escolha outro horário."}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Histórico de alterações</h4>
+              {history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma alteração registrada.</p>
+              ) : (
+                <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+                  {[...history].reverse().map((change) => (
+                    <li key={change.id}>
+                      <span className="text-muted-foreground">
+                        {format(new Date(change.changedAt), "dd/MM/yyyy HH:mm")} - {change.changedByName ?? "?"}:
+                      </span>{" "}
+                      {FIELD_LABELS[change.field]}: {formatChangeValue(change.field, change.oldValue)}
+                      {" → "}
+                      {formatChangeValue(change.field, change.newValue)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          {conflict && user?.role === "admin" ? (
+            <Button
+              type="button"
+              disabled={updateMutation.isPending}
+              onClick={() => updateMutation.mutate(true)}
+            >
+              Remarcar mesmo assim
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              disabled={!appointment || !canSubmit || !!conflict || updateMutation.isPending}
+              onClick={() => updateMutation.mutate(false)}
+            >
+              {updateMutation.isPending ? "Salvando..." : "Salvar alterações"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
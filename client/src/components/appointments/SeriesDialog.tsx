@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Appointment, CancellationReason, SeriesScope } from "@shared/schema";
+import { CancellationReasonSelect } from "./CancelAppointmentDialog";
+
+interface SeriesConflictReport {
+  message: string;
+  occurrences: { date: string; message: string }[];
+}
+
+interface SeriesDialogProps {
+  appointment: Pick<Appointment, "id" | "date"> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: "Somente esta sessão",
+  following: "Esta e as seguintes",
+  all: "Todas as sessões da série",
+};
+
+// apiRequest lança "409: {json}"; extrai o relatório de sessões em conflito
+function parseSeriesConflict(error: unknown): SeriesConflictReport | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4));
+  } catch {
+    return null;
+  }
+}
+
+// Altera o horário ou cancela sessões de uma série de agendamentos recorrentes
+export default function SeriesDialog({ appointment, onOpenChange }: SeriesDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [scope, setScope] = useState<SeriesScope>("this");
+  const [time, setTime] = useState("");
+  const [conflict, setConflict] = useState<SeriesConflictReport | null>(null);
+  const [cancellationReason, setCancellationReason] = useState<CancellationReason | "">("");
+
+  useEffect(() => {
+    if (appointment) {
+      setScope("this");
+      setTime(format(new Date(appointment.date), "HH:mm"));
+      setConflict(null);
+      setCancellationReason("");
+    }
+  }, [appointment]);
+
+  const onSeriesChanged = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/waitlist/offers"] });
+    toast({ title });
+    onOpenChange(false);
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async (allowOverlap: boolean) => {
+      const res = await apiRequest("PUT", `/api/appointments/${appointment!.id}/series`, {
+        scope,
+        time,
+        allowOverlap,
+      });
+      return res.json();
+    },
+    onSuccess: (updated: Appointment[]) => {
+      onSeriesChanged(`${updated.length} sessões alteradas`);
+    },
+    onError: (error: Error) => {
+      const report = parseSeriesConflict(error);
+      if (report) {
+        setConflict(report);
+        return;
+      }
+      toast({ title: "Erro ao alterar sessões", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/appointments/${appointment!.id}/series/cancel`, {
+        scope,
+        cancellationReason,
+      });
+      return res.json();
+    },
+    onSuccess: (cancelled: Appointment[]) => {
+      onSeriesChanged(`${cancelled.length} sessões canceladas`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cancelar sessões", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isPending = rescheduleMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Sessões recorrentes</DialogTitle>
+          <DialogDescription>
+            Sessão de {appointment && format(new Date(appointment.date), "dd/MM/yyyy HH:mm")}.
+            Somente sessões ainda agendadas são alteradas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={scope}
+            onValueChange={(value) => {
+              setScope(value as SeriesScope);
+              setConflict(null);
+            }}
+          >
+            {(Object.keys(SCOPE_LABELS) as SeriesScope[]).map((value) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`series-scope-${value}`} />
+                <Label htmlFor={`series-scope-${value}`}>{SCOPE_LABELS[value]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-1">
+            <Label htmlFor="series-time">Novo horário</Label>
+            <Input
+              id="series-time"
+              type="time"
+              value={time}
+              onChange={(e) => {
+                setTime(e.target.value);
+                setConflict(null);
+              }}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Motivo do cancelamento</Label>
+            <CancellationReasonSelect value={cancellationReason} onChange={setCancellationReason} />
+          </div>
+
+          {conflict && (
+            <div className="text-sm rounded-md border border-destructive/50 p-3 space-y-1">
+              <p className="font-medium text-destructive">{conflict.message}</p>
+              <ul className="max-h-40 overflow-y-auto">
+                {conflict.occurrences.map((occurrence) => (
+                  <li key={occurrence.date}>
+                    {format(new Date(occurrence.date), "dd/MM/yyyy HH:mm")} - {occurrence.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="ghost"
+            className="text-destructive"
+            disabled={isPending || !cancellationReason}
+            onClick={() => cancelMutation.mutate()}
+          >
+            Cancelar sessões
+          </Button>
+          {conflict && user?.role === "admin" ? (
+            <Button type="button" disabled={isPending} onClick={() => rescheduleMutation.mutate(true)}>
+              Alterar mesmo assim
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              disabled={isPending || !time || !!conflict}
+              onClick={() => rescheduleMutation.mutate(false)}
+            >
+              Alterar horário
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
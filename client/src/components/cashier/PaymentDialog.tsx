@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { PaymentMethod } from '@shared/schema';
+import { PAYMENT_METHOD_LABELS, type AppointmentPayments, type CashierEntry } from '@shared/payments';
+import { formatMoney, formatMoneyInput, parseMoney } from '@shared/money';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// apiRequest lança "<status>: {json}"; extrai a mensagem do servidor
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return 'Não foi possível concluir a operação';
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Caixa, fechamento e saldos dependem dos pagamentos
+export function invalidatePaymentQueries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const [key] = query.queryKey;
+      return typeof key === 'string' && (
+        key.startsWith('/api/cashier') ||
+        key.startsWith('/api/reports/cash-closing') ||
+        (key.startsWith('/api/patients/') && key.endsWith('/balance')) ||
+        /^\/api\/appointments\/\d+\/payments$/.test(key)
+      );
+    },
+  });
+}
+
+interface PaymentDialogProps {
+  entry: CashierEntry | null;
+  onClose: () => void;
+}
+
+// Recebimento de um atendimento: aceita pagamentos parciais até quitar o saldo
+// e permite estornar pagamentos lançados por engano
+export default function PaymentDialog({ entry, onClose }: PaymentDialogProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('pix');
+  const [installments, setInstallments] = useState('1');
+  const [notes, setNotes] = useState('');
+  const [cancelling, setCancelling] = useState<number | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const { data } = useQuery<AppointmentPayments>({
+    queryKey: [`/api/appointments/${entry?.appointmentId}/payments`],
+    enabled: !!entry,
+  });
+  const balance = data?.balance.balance ?? entry?.balance ?? 0;
+
+  useEffect(() => {
+    setAmount(balance > 0 ? formatMoneyInput(balance) : '');
+  }, [entry?.appointmentId, balance]);
+
+  useEffect(() => {
+    setMethod(entry?.healthPlanName ? 'health_plan' : 'pix');
+    setInstallments('1');
+    setNotes('');
+    setCancelling(null);
+    setCancelReason('');
+  }, [entry?.appointmentId]);
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/appointments/${entry!.appointmentId}/payments`, {
+        amount: parseMoney(amount),
+        method,
+        installments: method === 'credit' ? parseInt(installments) : 1,
+        notes: notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidatePaymentQueries();
+      setNotes('');
+      toast({ title: 'Pagamento registrado' });
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao registrar pagamento', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (paymentId: number) => {
+      const res = await apiRequest('POST', `/api/payments/${paymentId}/cancel`, { reason: cancelReason });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidatePaymentQueries();
+      setCancelling(null);
+      setCancelReason('');
+      toast({ title: 'Pagamento estornado' });
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao estornar', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={!!entry} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Receber pagamento</DialogTitle>
+          <DialogDescription>
+            {entry && `${entry.patientName} · ${format(new Date(entry.date), 'dd/MM/yyyy HH:mm')} · ${entry.professionalName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-xs text-gray-500">Valor</div>
+            <div className="text-lg font-semibold">{formatMoney(data?.balance.charge ?? entry?.charge ?? 0)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Pago</div>
+            <div className="text-lg font-semibold text-green-700">{formatMoney(data?.balance.paid ?? entry?.paid ?? 0)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Saldo</div>
+            <div className="text-lg font-semibold text-amber-700">{formatMoney(balance)}</div>
+          </div>
+        </div>
+
+        {entry && entry.previousOutstanding > 0 && (
+          <p className="text-sm text-amber-700">
+            O paciente tem {formatMoney(entry.previousOutstanding)} em aberto de atendimentos anteriores.
+          </p>
+        )}
+
+        {balance > 0 && (
+          <form
+            className="space-y-3 border-t pt-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              paymentMutation.mutate();
+            }}
+          >
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Valor recebido</label>
+                <Input inputMode="decimal" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Forma de pagamento</label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {method === 'credit' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Parcelas</label>
+                  <Select value={installments} onValueChange={setInstallments}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 12 }, (_, index) => index + 1).map((count) => (
+                        <SelectItem key={count} value={count.toString()}>{count}x</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className={method === 'credit' ? '' : 'col-span-2'}>
+                <label className="block text-sm font-medium text-gray-700">Observações</label>
+                <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={parseMoney(amount) === null || paymentMutation.isPending}>
+              {paymentMutation.isPending ? 'Registrando...' : 'Registrar pagamento'}
+            </Button>
+          </form>
+        )}
+
+        {data && data.payments.length > 0 && (
+          <div className="border-t pt-4 space-y-2">
+            <div className="text-sm font-medium text-gray-700">Pagamentos</div>
+            {data.payments.map((payment) => (
+              <div key={payment.id} className="rounded-md border p-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <div className={payment.cancelledAt ? 'text-gray-400 line-through' : ''}>
+                    {formatMoney(payment.amount)} · {PAYMENT_METHOD_LABELS[payment.method]}
+                    {payment.installments > 1 && ` em ${payment.installments}x`}
+                    <span className="text-gray-500"> · {format(new Date(payment.receivedAt), 'dd/MM HH:mm')} · {payment.receivedByName}</span>
+                  </div>
+                  {payment.cancelledAt ? (
+                    <span className="text-xs text-red-600">Estornado</span>
+                  ) : (
+                    <Button variant="ghost" size="sm" onClick={() => setCancelling(payment.id)}>
+                      Estornar
+                    </Button>
+                  )}
+                </div>
+                {payment.cancellationNotes && (
+                  <div className="text-xs text-gray-500">Motivo do estorno: {payment.cancellationNotes}</div>
+                )}
+                {cancelling === payment.id && (
+                  <div className="mt-2 flex gap-2">
+                    <Input
+                      autoFocus
+                      placeholder="Motivo do estorno"
+                      value={cancelReason}
+                      onChange={(e) => setCancelReason(e.target.value)}
+                    />
+                    <Button
+                      variant="destructive"
+                      disabled={!cancelReason.trim() || cancelMutation.isPending}
+                      onClick={() => cancelMutation.mutate(payment.id)}
+                    >
+                      Confirmar
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -40,9 +40,9 @@ export default function WaitingRoom() {
     }
   };
 
-  const formatWaitingTime = (waitingSince: string) => {
-    if (!waitingSince) return "Não chegou";
-    return formatDistanceToNow(new Date(waitingSince), { 
+  const formatWaitingTime = (checkedInAt: string) => {
+    if (!checkedInAt) return "Não chegou";
+    return formatDistanceToNow(new Date(checkedInAt), { 
       addSuffix: false, 
       locale: ptBR 
     });
@@ -57,7 +57,7 @@ export default function WaitingRoom() {
   }
 
   const waitingPatients = queue?.filter((appointment: any) => 
-    appointment.status === "confirmed" || appointment.status === "in_progress"
+    appointment.status === "waiting" || appointment.status === "in_progress"
   ).slice(0, 4);
 
   return (
@@ -83,7 +83,7 @@ export default function WaitingRoom() {
                     <span>
                       {patient.status === "in_progress" 
                         ? "Em atendimento" 
-                        : `Aguardando há ${formatWaitingTime(patient.waitingSince)}`}
+                        : `Aguardando há ${formatWaitingTime(patient.checkedInAt)}`}
                     </span>
                   </div>
                 </div>
@@ -1,12 +1,12 @@
 import { useQuery } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/use-auth";
+import type { FinancialSummary as FinancialSummaryData } from "@shared/financial";
+import { formatMoney } from "@shared/money";
 import { 
   DollarSign, 
   Users, 
   Building, 
   User
 } from "lucide-react";
-import { format, subDays, startOfMonth, endOfMonth } from "date-fns";
 
 interface FinancialSummaryProps {
   startDate: string;
@@ -14,49 +14,25 @@ interface FinancialSummaryProps {
   professionalId?: number;
 }
 
+// Totais do período; a variação compara com o período anterior de mesma duração
+// (médicos recebem apenas os próprios valores, filtrados no servidor)
 export default function FinancialSummary({ 
   startDate, 
   endDate, 
   professionalId 
 }: FinancialSummaryProps) {
-  const { user } = useAuth();
-  
-  // Set professionalId if user is a professional
-  const effectiveProfessionalId = user?.role === "professional" ? user.professionalId : professionalId;
+  const params = new URLSearchParams({ startDate, endDate });
+  if (professionalId) params.append("professionalId", professionalId.toString());
 
-  const { data: summary, isLoading } = useQuery({
-    queryKey: [
-      "/api/financial/summary", 
-      { startDate, endDate, professionalId: effectiveProfessionalId }
-    ],
+  const { data: summary, isLoading } = useQuery<FinancialSummaryData>({
+    queryKey: [`/api/financial/summary?${params.toString()}`],
     enabled: !!startDate && !!endDate,
   });
 
-  // Calculate percentage change
-  const { data: prevPeriodSummary } = useQuery({
-    queryKey: [
-      "/api/financial/summary",
-      {
-        startDate: format(subDays(new Date(startDate), 30), "yyyy-MM-dd"),
-        endDate: format(subDays(new Date(endDate), 30), "yyyy-MM-dd"),
-        professionalId: effectiveProfessionalId
-      }
-    ],
-    enabled: !!startDate && !!endDate,
-  });
-
-  const calculatePercentageChange = (current: number, previous: number) => {
-    if (!previous) return 0;
-    return ((current - previous) / previous) * 100;
-  };
-
-  const revenueChange = prevPeriodSummary?.totalValue 
-    ? calculatePercentageChange(summary?.totalValue || 0, prevPeriodSummary.totalValue)
-    : 0;
-
-  const appointmentsChange = prevPeriodSummary?.appointmentsCount
-    ? calculatePercentageChange(summary?.appointmentsCount || 0, prevPeriodSummary.appointmentsCount)
-    : 0;
+  const revenueChange = summary?.change.totalValue ?? 0;
+  const appointmentsChange = summary?.change.appointmentsCount ?? 0;
+  const shareOfRevenue = (value: number) =>
+    summary?.totalValue ? (value / summary.totalValue) * 100 : 0;
 
   if (isLoading) {
     return (
@@ -79,10 +55,7 @@ export default function FinancialSummary({
           <div>
             <p className="text-sm text-gray-500 font-medium">Faturamento Total</p>
             <p className="text-2xl font-semibold mt-1">
-              {new Intl.NumberFormat('pt-BR', {
-                style: 'currency',
-                currency: 'BRL'
-              }).format(summary?.totalValue || 0)}
+              {formatMoney(summary?.totalValue || 0)}
             </p>
           </div>
           <DollarSign className="text-primary-500 h-8 w-8" />
@@ -104,7 +77,9 @@ export default function FinancialSummary({
             </svg>
           ) : null}
           <span>
-            {revenueChange ? `${Math.abs(revenueChange).toFixed(0)}% do período anterior` : "Mesmo valor do período anterior"}
+            {summary?.change.totalValue === null
+              ? "Sem faturamento no período anterior"
+              : revenueChange ? `${Math.abs(revenueChange).toFixed(0)}% do período anterior` : "Mesmo valor do período anterior"}
           </span>
         </div>
       </div>
@@ -114,17 +89,14 @@ export default function FinancialSummary({
           <div>
             <p className="text-sm text-gray-500 font-medium">Valor do Profissional</p>
             <p className="text-2xl font-semibold mt-1">
-              {new Intl.NumberFormat('pt-BR', {
-                style: 'currency',
-                currency: 'BRL'
-              }).format(summary?.professionalValue || 0)}
+              {formatMoney(summary?.professionalValue || 0)}
             </p>
           </div>
           <User className="text-success-500 h-8 w-8" />
         </div>
         <div className="mt-3 text-xs font-medium text-gray-600 flex items-center">
           <span>
-            {((summary?.professionalValue / summary?.totalValue) * 100 || 0).toFixed(0)}% do faturamento
+            {shareOfRevenue(summary?.professionalValue || 0).toFixed(0)}% do faturamento
           </span>
         </div>
       </div>
@@ -134,17 +106,14 @@ export default function FinancialSummary({
           <div>
             <p className="text-sm text-gray-500 font-medium">Valor da Clínica</p>
             <p className="text-2xl font-semibold mt-1">
-              {new Intl.NumberFormat('pt-BR', {
-                style: 'currency',
-                currency: 'BRL'
-              }).format(summary?.clinicValue || 0)}
+              {formatMoney(summary?.clinicValue || 0)}
             </p>
           </div>
           <Building className="text-indigo-500 h-8 w-8" />
         </div>
         <div className="mt-3 text-xs font-medium text-gray-600 flex items-center">
           <span>
-            {((summary?.clinicValue / summary?.totalValue) * 100 || 0).toFixed(0)}% do faturamento
+            {shareOfRevenue(summary?.clinicValue || 0).toFixed(0)}% do faturamento
           </span>
         </div>
       </div>
@@ -174,7 +143,9 @@ export default function FinancialSummary({
             </svg>
           ) : null}
           <span>
-            {appointmentsChange ? `${Math.abs(appointmentsChange).toFixed(0)}% do período anterior` : "Mesmo número do período anterior"}
+            {summary?.change.appointmentsCount === null
+              ? "Sem atendimentos no período anterior"
+              : appointmentsChange ? `${Math.abs(appointmentsChange).toFixed(0)}% do período anterior` : "Mesmo número do período anterior"}
           </span>
         </div>
       </div>
@@ -1,14 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { User, ArrowUpDown } from "lucide-react";
 import { useState } from "react";
-import { Button } from "@/components/ui/button";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import type { ProfessionalRevenue as ProfessionalRevenueRow } from "@shared/financial";
+import { formatMoney } from "@shared/money";
 
 interface ProfessionalRevenueProps {
   startDate: string;
@@ -16,15 +10,12 @@ interface ProfessionalRevenueProps {
 }
 
 export default function ProfessionalRevenue({ startDate, endDate }: ProfessionalRevenueProps) {
-  const [period, setPeriod] = useState<string>("month");
   const [sortField, setSortField] = useState<string>("totalValue");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   
-  const { data: professionalRevenue, isLoading } = useQuery({
-    queryKey: [
-      "/api/financial/by-professional", 
-      { startDate, endDate }
-    ],
+  const params = new URLSearchParams({ startDate, endDate });
+  const { data: professionalRevenue, isLoading } = useQuery<ProfessionalRevenueRow[]>({
+    queryKey: [`/api/financial/by-professional?${params.toString()}`],
     enabled: !!startDate && !!endDate,
   });
 
@@ -37,11 +28,11 @@ export default function ProfessionalRevenue({ startDate, endDate }: Professional
     }
   };
 
-  const sortData = (data: any[]) => {
+  const sortData = (data: ProfessionalRevenueRow[] | undefined) => {
     if (!data) return [];
     
     return [...data].sort((a, b) => {
-      let aValue, bValue;
+      let aValue: string | number, bValue: string | number;
       
       switch (sortField) {
         case "professional.name":
@@ -71,12 +62,12 @@ export default function ProfessionalRevenue({ startDate, endDate }: Professional
       
       if (sortDirection === "asc") {
         return typeof aValue === "string" 
-          ? aValue.localeCompare(bValue)
-          : aValue - bValue;
+          ? aValue.localeCompare(bValue as string)
+          : aValue - (bValue as number);
       } else {
-        return typeof aValue === "string"
-          ? bValue.localeCompare(aValue)
-          : bValue - aValue;
+        return typeof bValue === "string"
+          ? bValue.localeCompare(aValue as string)
+          : bValue - (aValue as number);
       }
     });
   };
@@ -88,7 +79,6 @@ export default function ProfessionalRevenue({ startDate, endDate }: Professional
       <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
         <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
           <h3 className="font-medium">Faturamento por Profissional</h3>
-          <div className="animate-pulse w-32 h-8 bg-gray-200 rounded"></div>
         </div>
         <div className="p-4">
           <div className="animate-pulse space-y-3">
@@ -106,19 +96,6 @@ export default function ProfessionalRevenue({ startDate, endDate }: Professional
     <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
       <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
         <h3 className="font-medium">Faturamento por Profissional</h3>
-        <Select 
-          value={period} 
-          onValueChange={setPeriod}
-        >
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Selecione o período" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="month">Este Mês</SelectItem>
-            <SelectItem value="prev_month">Mês Anterior</SelectItem>
-            <SelectItem value="quarter">Últimos 3 Meses</SelectItem>
-          </SelectContent>
-        </Select>
       </div>
       <div className="p-4">
         <div className="overflow-x-auto">
@@ -189,8 +166,8 @@ export default function ProfessionalRevenue({ startDate, endDate }: Professional
             </thead>
             <tbody>
               {sortedData && sortedData.length > 0 ? (
-                sortedData.map((prof: any, index: number) => (
-                  <tr key={index} className="hover:bg-gray-50 transition-all">
+                sortedData.map((prof) => (
+                  <tr key={prof.professional.id} className="hover:bg-gray-50 transition-all">
                     <td>
                       <div className="flex items-center">
                         <div className="h-8 w-8 rounded-full bg-gray-200 flex items-center justify-center text-gray-500 mr-3">
@@ -207,10 +184,7 @@ export default function ProfessionalRevenue({ startDate, endDate }: Professional
                     </td>
                     <td>
                       <div className="text-sm">
-                        {new Intl.NumberFormat('pt-BR', {
-                          style: 'currency',
-                          currency: 'BRL'
-                        }).format(prof.totalValue)}
+                        {formatMoney(prof.totalValue)}
                       </div>
                     </td>
                     <td>
@@ -218,10 +192,7 @@ export default function ProfessionalRevenue({ startDate, endDate }: Professional
                     </td>
                     <td>
                       <div className="text-sm font-medium">
-                        {new Intl.NumberFormat('pt-BR', {
-                          style: 'currency',
-                          currency: 'BRL'
-                        }).format(prof.professionalValue)}
+                        {formatMoney(prof.professionalValue)}
                       </div>
                     </td>
                   </tr>
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/use-auth";
+import type { RevenueByType as RevenueByTypeData } from "@shared/financial";
+import { formatMoney } from "@shared/money";
 import { Button } from "@/components/ui/button";
 
 interface RevenueByTypeProps {
@@ -13,16 +14,11 @@ export default function RevenueByType({
   endDate, 
   professionalId 
 }: RevenueByTypeProps) {
-  const { user } = useAuth();
-  
-  // Set professionalId if user is a professional
-  const effectiveProfessionalId = user?.role === "professional" ? user.professionalId : professionalId;
+  const params = new URLSearchParams({ startDate, endDate });
+  if (professionalId) params.append("professionalId", professionalId.toString());
 
-  const { data: revenueByType, isLoading } = useQuery({
-    queryKey: [
-      "/api/financial/by-type", 
-      { startDate, endDate, professionalId: effectiveProfessionalId }
-    ],
+  const { data: revenueByType, isLoading } = useQuery<RevenueByTypeData>({
+    queryKey: [`/api/financial/by-type?${params.toString()}`],
     enabled: !!startDate && !!endDate,
   });
 
@@ -76,8 +72,10 @@ export default function RevenueByType({
       </div>
       <div className="p-4">
         <div className="space-y-4">
-          {revenueByType?.byType && Object.keys(revenueByType.byType).map((type: string) => {
-            const data = revenueByType.byType[type];
+          {revenueByType && revenueByType.totalValue === 0 && (
+            <p className="py-4 text-center text-sm text-gray-500">Nenhum faturamento no período</p>
+          )}
+          {revenueByType && Object.entries(revenueByType.byType).map(([type, data]) => {
             if (data.count === 0) return null;
             
             return (
@@ -88,10 +86,7 @@ export default function RevenueByType({
                     <p className="text-xs text-gray-500">{data.count} atendimentos</p>
                   </div>
                   <span className="text-sm font-medium">
-                    {new Intl.NumberFormat('pt-BR', {
-                      style: 'currency',
-                      currency: 'BRL'
-                    }).format(data.value)}
+                    {formatMoney(data.value)}
                   </span>
                 </div>
                 <div className="mt-2 h-2 bg-gray-200 rounded-full">
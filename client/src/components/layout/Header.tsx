@@ -11,8 +11,15 @@ export default function Header() {
     if (path.startsWith("/patients")) return "Pacientes";
     if (path.startsWith("/appointments")) return "Agenda";
     if (path.startsWith("/queue")) return "Fila de Espera";
+    if (path.startsWith("/waitlist")) return "Lista de Espera";
+    if (path.startsWith("/reports/wait-times")) return "Tempos de Espera";
     if (path.startsWith("/evolutions")) return "Atendimentos";
     if (path.startsWith("/procedures")) return "Procedimentos";
+    if (path.startsWith("/resources")) return "Salas e Equipamentos";
+    if (path.startsWith("/health-plans")) return "Convênios";
+    if (path.startsWith("/cashier")) return "Caixa";
+    if (path.startsWith("/financial/payouts")) return "Repasses";
+    if (path.startsWith("/financial/commission-rules")) return "Regras de Comissão";
     if (path.startsWith("/financial")) return "Financeiro";
     if (path.startsWith("/users")) return "Usuários";
     return "Clínica Médica";
@@ -9,6 +9,11 @@ import {
   ClipboardList, 
   Clock, 
   User,
+  DoorOpen,
+  ListOrdered,
+  Timer,
+  Wallet,
+  ShieldCheck,
   LogOut, 
   Menu,
   X
@@ -113,14 +118,27 @@ export default function Sidebar() {
             <NavItem href="/procedures" icon={<FileText />} active={isActive("/procedures")} onClick={() => setOpen(false)}>
               Procedimentos
             </NavItem>
+            <NavItem href="/resources" icon={<DoorOpen />} active={isActive("/resources")} onClick={() => setOpen(false)}>
+              Salas e Equipamentos
+            </NavItem>
+            <NavItem href="/health-plans" icon={<ShieldCheck />} active={isActive("/health-plans")} onClick={() => setOpen(false)}>
+              Convênios
+            </NavItem>
             <NavItem href="/appointments" icon={<Calendar />} active={isActive("/appointments")} onClick={() => setOpen(false)}>
               Agendamentos
             </NavItem>
-            {/* Módulo financeiro temporariamente desativado 
+            <NavItem href="/waitlist" icon={<ListOrdered />} active={isActive("/waitlist")} onClick={() => setOpen(false)}>
+              Lista de Espera
+            </NavItem>
+            <NavItem href="/reports/wait-times" icon={<Timer />} active={isActive("/reports/wait-times")} onClick={() => setOpen(false)}>
+              Tempos de Espera
+            </NavItem>
+            <NavItem href="/cashier" icon={<Wallet />} active={isActive("/cashier")} onClick={() => setOpen(false)}>
+              Caixa
+            </NavItem>
             <NavItem href="/financial" icon={<BarChart2 />} active={isActive("/financial")} onClick={() => setOpen(false)}>
               Financeiro
             </NavItem>
-            */}
           </>
         )}
         
@@ -167,7 +185,6 @@ export default function Sidebar() {
             >
               Prontuários
             </NavItem>
-            {/* Módulo financeiro temporariamente desativado 
             <NavItem 
               href="/financial" 
               icon={<BarChart2 />} 
@@ -176,7 +193,6 @@ export default function Sidebar() {
             >
               Financeiro
             </NavItem>
-            */}
           </>
         )}
         
@@ -195,6 +211,15 @@ export default function Sidebar() {
             <NavItem href="/waiting-queue" icon={<Clock />} active={isActive("/waiting-queue")} onClick={() => setOpen(false)}>
               Fila de Espera
             </NavItem>
+            <NavItem href="/waitlist" icon={<ListOrdered />} active={isActive("/waitlist")} onClick={() => setOpen(false)}>
+              Lista de Espera
+            </NavItem>
+            <NavItem href="/reports/wait-times" icon={<Timer />} active={isActive("/reports/wait-times")} onClick={() => setOpen(false)}>
+              Tempos de Espera
+            </NavItem>
+            <NavItem href="/cashier" icon={<Wallet />} active={isActive("/cashier")} onClick={() => setOpen(false)}>
+              Caixa
+            </NavItem>
           </>
         )}
         
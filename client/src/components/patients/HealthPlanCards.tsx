@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, startOfDay } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { HealthPlan, HealthPlanTier, PatientHealthPlan } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { IdCard, Plus } from "lucide-react";
+
+// apiRequest lança "<status>: {json}"; extrai a mensagem do servidor
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return "Não foi possível concluir a operação";
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message;
+  } catch {
+    return error.message;
+  }
+}
+
+const emptyCard = { healthPlanId: "", tierId: "none", cardNumber: "", validUntil: "" };
+
+interface HealthPlanCardsProps {
+  patientId: number;
+  canEdit: boolean;
+}
+
+// Carteirinhas de convênio do paciente. Não são excluídas: ao trocar de convênio,
+// encerra-se a validade da antiga
+export default function HealthPlanCards({ patientId, canEdit }: HealthPlanCardsProps) {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [card, setCard] = useState(emptyCard);
+
+  const { data: cards = [] } = useQuery<PatientHealthPlan[]>({
+    queryKey: [`/api/patients/${patientId}/health-plans`],
+  });
+  const { data: healthPlans = [] } = useQuery<HealthPlan[]>({ queryKey: ["/api/health-plans"] });
+  const { data: tiers = [] } = useQuery<HealthPlanTier[]>({
+    queryKey: [`/api/health-plans/${card.healthPlanId}/tiers`],
+    enabled: isDialogOpen && !!card.healthPlanId,
+  });
+
+  const healthPlanName = (id: number) => healthPlans.find((plan) => plan.id === id)?.name ?? `Convênio ${id}`;
+
+  const openDialog = (existing?: PatientHealthPlan) => {
+    setEditingId(existing?.id ?? null);
+    setCard(existing
+      ? {
+          healthPlanId: existing.healthPlanId.toString(),
+          tierId: existing.tierId?.toString() ?? "none",
+          cardNumber: existing.cardNumber,
+          validUntil: existing.validUntil ? format(new Date(existing.validUntil), "yyyy-MM-dd") : "",
+        }
+      : emptyCard);
+    setIsDialogOpen(true);
+  };
+
+  const saveCardMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        healthPlanId: parseInt(card.healthPlanId),
+        tierId: card.tierId === "none" ? null : parseInt(card.tierId),
+        cardNumber: card.cardNumber.trim(),
+        validUntil: card.validUntil || null,
+      };
+      return editingId
+        ? apiRequest("PUT", `/api/patient-health-plans/${editingId}`, payload)
+        : apiRequest("POST", `/api/patients/${patientId}/health-plans`, payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${patientId}/health-plans`] });
+      toast({ title: editingId ? "Carteirinha atualizada" : "Carteirinha cadastrada" });
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: "Erro ao salvar carteirinha", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const today = startOfDay(new Date());
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center">
+            <IdCard className="mr-2 h-4 w-4" />
+            Convênios
+          </span>
+          {canEdit && (
+            <Button variant="ghost" size="sm" onClick={() => openDialog()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {cards.length > 0 ? (
+          cards.map((item) => {
+            const expired = !!item.validUntil && new Date(item.validUntil) < today;
+            return (
+              <div key={item.id} className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium">
+                    {healthPlanName(item.healthPlanId)}
+                    {expired && <Badge variant="secondary" className="ml-2">Vencida</Badge>}
+                  </p>
+                  <p className="text-muted-foreground">Nº {item.cardNumber}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {item.validUntil ? `Válida até ${format(new Date(item.validUntil), "dd/MM/yyyy")}` : "Sem validade"}
+                  </p>
+                </div>
+                {canEdit && (
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(item)}>
+                    Editar
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        ) : (
+          <p className="text-muted-foreground">Particular (sem convênio)</p>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Editar Carteirinha" : "Nova Carteirinha"}</DialogTitle>
+            <DialogDescription>
+              Agendamentos pelo convênio exigem uma carteirinha válida na data do atendimento.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveCardMutation.mutate();
+            }}
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Convênio*</label>
+              <Select
+                value={card.healthPlanId}
+                onValueChange={(value) => setCard({ ...card, healthPlanId: value, tierId: "none" })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o convênio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {healthPlans
+                    .filter((plan) => plan.isActive || plan.id.toString() === card.healthPlanId)
+                    .map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id.toString()}>
+                        {plan.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Plano</label>
+              <Select value={card.tierId} onValueChange={(value) => setCard({ ...card, tierId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Não informado</SelectItem>
+                  {tiers
+                    .filter((tier) => tier.isActive || tier.id.toString() === card.tierId)
+                    .map((tier) => (
+                      <SelectItem key={tier.id} value={tier.id.toString()}>
+                        {tier.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Número da carteirinha*</label>
+                <Input
+                  maxLength={30}
+                  value={card.cardNumber}
+                  onChange={(e) => setCard({ ...card, cardNumber: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Validade</label>
+                <Input
+                  type="date"
+                  value={card.validUntil}
+                  onChange={(e) => setCard({ ...card, validUntil: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                type="submit"
+                disabled={!card.healthPlanId || !card.cardNumber.trim() || saveCardMutation.isPending}
+              >
+                {saveCardMutation.isPending ? "Salvando..." : "Salvar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  professionalScheduleFormSchema,
+  type ProfessionalSchedule,
+  type ProfessionalScheduleFormData,
+} from "@shared/schema";
+
+export const WEEKDAYS = [
+  "Domingo",
+  "Segunda-feira",
+  "Terça-feira",
+  "Quarta-feira",
+  "Quinta-feira",
+  "Sexta-feira",
+  "Sábado",
+];
+
+const emptySchedule: ProfessionalScheduleFormData = {
+  weekday: 1,
+  startTime: "08:00",
+  endTime: "17:00",
+  slotMinutes: 30,
+  breakStart: null,
+  breakEnd: null,
+};
+
+interface ScheduleEditorProps {
+  professionalId: number;
+}
+
+export default function ScheduleEditor({ professionalId }: ScheduleEditorProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const schedulesUrl = `/api/professionals/${professionalId}/schedules`;
+
+  const { data: schedules = [], isLoading } = useQuery<ProfessionalSchedule[]>({
+    queryKey: [schedulesUrl],
+  });
+
+  const form = useForm<ProfessionalScheduleFormData>({
+    resolver: zodResolver(professionalScheduleFormSchema),
+    defaultValues: emptySchedule,
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.reset(emptySchedule);
+  };
+
+  const onMutationSuccess = (description: string) => {
+    toast({ title: "Horários atualizados", description });
+    queryClient.invalidateQueries({ queryKey: [schedulesUrl] });
+    queryClient.invalidateQueries({ queryKey: [`/api/professionals/${professionalId}/availability`] });
+    resetForm();
+  };
+
+  const onMutationError = (error: unknown) => {
+    toast({
+      title: "Erro ao salvar horário",
+      description: error instanceof Error ? error.message : "Ocorreu um erro ao salvar o horário.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ProfessionalScheduleFormData) => {
+      const response = editingId
+        ? await apiRequest("PUT", `${schedulesUrl}/${editingId}`, data)
+        : await apiRequest("POST", schedulesUrl, data);
+      return response.json();
+    },
+    onSuccess: () => onMutationSuccess("O horário de atendimento foi salvo."),
+    onError: onMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (scheduleId: number) => {
+      await apiRequest("DELETE", `${schedulesUrl}/${scheduleId}`);
+    },
+    onSuccess: () => onMutationSuccess("O horário de atendimento foi removido."),
+    onError: onMutationError,
+  });
+
+  const startEditing = (schedule: ProfessionalSchedule) => {
+    setEditingId(schedule.id);
+    form.reset({
+      weekday: schedule.weekday,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      slotMinutes: schedule.slotMinutes,
+      breakStart: schedule.breakStart,
+      breakEnd: schedule.breakEnd,
+    });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Horários de Atendimento</CardTitle>
+        <CardDescription>
+          Dias, turnos e duração das consultas usados para calcular os horários livres
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum horário cadastrado.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dia</TableHead>
+                <TableHead>Horário</TableHead>
+                <TableHead>Duração</TableHead>
+                <TableHead>Intervalo</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell>{WEEKDAYS[schedule.weekday]}</TableCell>
+                  <TableCell>{schedule.startTime} - {schedule.endTime}</TableCell>
+                  <TableCell>{schedule.slotMinutes} min</TableCell>
+                  <TableCell>
+                    {schedule.breakStart && schedule.breakEnd
+                      ? `${schedule.breakStart} - ${schedule.breakEnd}`
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => startEditing(schedule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+            className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end"
+          >
+            <FormField
+              control={form.control}
+              name="weekday"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dia</FormLabel>
+                  <Select
+                    value={field.value.toString()}
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {WEEKDAYS.map((weekday, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {weekday}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {(["startTime", "endTime"] as const).map((name) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{name === "startTime" ? "Início" : "Término"}</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="slotMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Duração (min)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="5"
+                      step="5"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {(["breakStart", "breakEnd"] as const).map((name) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{name === "breakStart" ? "Intervalo de" : "Intervalo até"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="time"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value || null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <div className="md:col-span-6 flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancelar edição
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                {editingId ? "Salvar horário" : "Adicionar horário"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,8 @@ import {
   CheckCircle,
   Timer,
   Calendar,
+  ArrowUp,
+  ArrowDown,
 } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -38,6 +40,17 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { format as formatDate } from "date-fns";
+import {
+  APPOINTMENT_STATUS_LABELS,
+  APPOINTMENT_STATUS_TRANSITIONS,
+  canTransitionStatus,
+  type AppointmentStatus,
+} from "@shared/appointment-status";
+import { QUEUE_PRIORITY_LABELS } from "@shared/queue-priority";
+import type { QueuePriority } from "@shared/schema";
+import CancelAppointmentDialog from "@/components/appointments/CancelAppointmentDialog";
+
+const QUEUE_PRIORITIES = Object.keys(QUEUE_PRIORITY_LABELS) as QueuePriority[];
 
 interface QueueFilters {
   professionalId?: number;
@@ -52,6 +65,7 @@ export default function QueueTable() {
   });
   const [selectedAppointment, setSelectedAppointment] = useState<any>(null);
   const [showAppointmentDialog, setShowAppointmentDialog] = useState(false);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
   const { toast } = useToast();
   const [_, setLocation] = useLocation();
   const { user } = useAuth();
@@ -98,6 +112,14 @@ export default function QueueTable() {
     }
   });
 
+  // Código de check-in no totem (conteúdo do QR da confirmação) de quem ainda não chegou
+  const { data: checkInCode } = useQuery<{ code: string }>({
+    queryKey: [`/api/appointments/${selectedAppointment?.id}/check-in-code`],
+    enabled:
+      selectedAppointment?.status === "scheduled" &&
+      (user?.role === "admin" || user?.role === "recepcionista"),
+  });
+
   // Start appointment mutation
   const startAppointmentMutation = useMutation({
     mutationFn: async (appointmentId: number) => {
@@ -173,6 +195,52 @@ export default function QueueTable() {
     },
   });
 
+  // Reordenação manual da fila de espera
+  const moveInQueueMutation = useMutation({
+    mutationFn: async ({ appointmentId, direction }: { appointmentId: number; direction: "up" | "down" }) => {
+      return apiRequest("POST", `/api/appointments/${appointmentId}/queue-move`, { direction });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao reordenar a fila",
+        description: error.message || "Não foi possível mover o paciente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Prioridades do paciente (idoso é reconhecido pela idade)
+  const updatePriorityMutation = useMutation({
+    mutationFn: async ({ appointmentId, priorityFlags }: { appointmentId: number; priorityFlags: QueuePriority[] }) => {
+      const res = await apiRequest("PATCH", `/api/appointments/${appointmentId}/priority`, { priorityFlags });
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+      setSelectedAppointment((current: any) =>
+        current ? { ...current, priorityFlags: updated.priorityFlags } : current
+      );
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao atualizar prioridade",
+        description: error.message || "Não foi possível atualizar a prioridade.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTogglePriority = (appointment: any, flag: QueuePriority, checked: boolean) => {
+    const current: QueuePriority[] = appointment.priorityFlags ?? [];
+    updatePriorityMutation.mutate({
+      appointmentId: appointment.id,
+      priorityFlags: checked ? [...current, flag] : current.filter((value) => value !== flag),
+    });
+  };
+
   const handleStartAppointment = (appointmentId: number) => {
     startAppointmentMutation.mutate(appointmentId);
   };
@@ -182,6 +250,12 @@ export default function QueueTable() {
   };
 
   const handleStatusChange = (appointmentId: number, status: string) => {
+    // Cancelamento pede o motivo antes de alterar o status
+    if (status === "cancelled") {
+      setShowAppointmentDialog(false);
+      setCancellingId(appointmentId);
+      return;
+    }
     updateStatusMutation.mutate({ appointmentId, status });
   };
 
@@ -202,7 +276,7 @@ export default function QueueTable() {
             Agendado
           </span>
         );
-      case "confirmed":
+      case "waiting":
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
             Aguardando
@@ -270,8 +344,27 @@ export default function QueueTable() {
     }
   };
 
+  const renderPriorityBadges = (appointment: any) => {
+    const flags: QueuePriority[] = appointment.effectivePriorityFlags ?? [];
+    if (flags.length === 0) return null;
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {flags.map((flag) => (
+          <span
+            key={flag}
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+              flag === "urgent" ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"
+            }`}
+          >
+            {QUEUE_PRIORITY_LABELS[flag]}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
   const renderStatusIcon = (appointment: any) => {
-    if (!appointment.waitingSince) {
+    if (!appointment.checkedInAt) {
       return <div className="h-3 w-3 rounded-full bg-gray-300"></div>;
     }
 
@@ -292,19 +385,26 @@ export default function QueueTable() {
       );
     }
 
-    if (!appointment.waitingSince) {
+    if (!appointment.checkedInAt) {
       return <span className="text-gray-500">Não chegou</span>;
     }
 
     return (
-      <div className="flex items-center">
-        <Timer className="h-4 w-4 mr-1 text-yellow-500" />
-        <span>
-          {formatDistanceToNow(new Date(appointment.waitingSince), {
-            locale: ptBR,
-            addSuffix: false,
-          })}
-        </span>
+      <div>
+        <div className="flex items-center">
+          <Timer className="h-4 w-4 mr-1 text-yellow-500" />
+          <span>
+            {formatDistanceToNow(new Date(appointment.checkedInAt), {
+              locale: ptBR,
+              addSuffix: false,
+            })}
+          </span>
+        </div>
+        {appointment.estimatedWaitMinutes !== null && appointment.estimatedWaitMinutes !== undefined && (
+          <div className="text-xs text-gray-500">
+            Previsão: {appointment.estimatedWaitMinutes === 0 ? "próximo" : `~${appointment.estimatedWaitMinutes} min`}
+          </div>
+        )}
       </div>
     );
   };
@@ -320,8 +420,12 @@ export default function QueueTable() {
   // Count summary data
   const totalScheduled = queue?.length || 0;
   const totalAttended = queue?.filter((a: any) => a.status === "completed").length || 0;
-  const totalWaiting = queue?.filter((a: any) => a.status === "confirmed").length || 0;
-  const totalNotArrived = queue?.filter((a: any) => !a.waitingSince && a.status === "scheduled").length || 0;
+  const totalWaiting = queue?.filter((a: any) => a.status === "waiting").length || 0;
+  const totalNotArrived = queue?.filter((a: any) => !a.checkedInAt && a.status === "scheduled").length || 0;
+  // Duração média de consulta (últimos 30 dias) do profissional filtrado
+  const averageConsultation = filters.professionalId
+    ? queue?.find((a: any) => a.averageConsultationMinutes !== null)?.averageConsultationMinutes ?? null
+    : null;
 
   return (
     <>
@@ -424,7 +528,7 @@ export default function QueueTable() {
               <SelectContent>
                 <SelectItem value="all">Todos</SelectItem>
                 <SelectItem value="scheduled">Agendado</SelectItem>
-                <SelectItem value="confirmed">Aguardando</SelectItem>
+                <SelectItem value="waiting">Aguardando</SelectItem>
                 <SelectItem value="in_progress">Em Atendimento</SelectItem>
                 <SelectItem value="completed">Concluído</SelectItem>
                 <SelectItem value="cancelled">Cancelado</SelectItem>
@@ -519,6 +623,7 @@ export default function QueueTable() {
                                       .replace("há ", "")
                                       .replace(" anos", " anos")}`}
                                 </div>
+                                {renderPriorityBadges(appointment)}
                               </div>
                             </div>
                           </td>
@@ -526,6 +631,11 @@ export default function QueueTable() {
                             <div className="text-sm text-gray-900">
                               {format(new Date(appointment.date), "HH:mm")}
                             </div>
+                            {appointment.checkedInAt && (
+                              <div className="text-xs text-gray-500">
+                                Chegada {format(new Date(appointment.checkedInAt), "HH:mm")}
+                              </div>
+                            )}
                           </td>
                           <td className="px-3 py-4 whitespace-nowrap">
                             {renderProcedureTypeBadge(appointment.procedure.type)}
@@ -534,7 +644,35 @@ export default function QueueTable() {
                             {renderWaitingTime(appointment)}
                           </td>
                           <td className="px-3 py-4 whitespace-nowrap text-right text-sm font-medium">
-                            {appointment.status === "scheduled" && (
+                            {appointment.status === "waiting" && (
+                              <span className="inline-flex mr-3">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Subir na fila"
+                                  disabled={moveInQueueMutation.isPending}
+                                  onClick={() =>
+                                    moveInQueueMutation.mutate({ appointmentId: appointment.id, direction: "up" })
+                                  }
+                                >
+                                  <ArrowUp className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  title="Descer na fila"
+                                  disabled={moveInQueueMutation.isPending}
+                                  onClick={() =>
+                                    moveInQueueMutation.mutate({ appointmentId: appointment.id, direction: "down" })
+                                  }
+                                >
+                                  <ArrowDown className="h-4 w-4" />
+                                </Button>
+                              </span>
+                            )}
+                            {canTransitionStatus(appointment.status, "waiting") && (
                               <Button
                                 variant="default"
                                 size="sm"
@@ -546,7 +684,7 @@ export default function QueueTable() {
                                 Check-in
                               </Button>
                             )}
-                            {appointment.status === "confirmed" && (
+                            {canTransitionStatus(appointment.status, "in_progress") && (
                               <Button
                                 variant="default"
                                 size="sm"
@@ -558,7 +696,7 @@ export default function QueueTable() {
                                 Iniciar Atendimento
                               </Button>
                             )}
-                            {appointment.status === "in_progress" && (
+                            {canTransitionStatus(appointment.status, "completed") && (
                               <Button
                                 variant="default"
                                 size="sm"
@@ -629,6 +767,12 @@ export default function QueueTable() {
               <div className="text-sm text-gray-500">Não Chegaram</div>
             </div>
           </div>
+
+          {averageConsultation !== null && (
+            <p className="mt-3 text-sm text-gray-500">
+              Duração média de consulta nos últimos 30 dias: {averageConsultation} min
+            </p>
+          )}
         </div>
       </div>
 
@@ -696,6 +840,43 @@ export default function QueueTable() {
                     {renderStatusBadge(selectedAppointment.status)}
                   </div>
                 </div>
+                {selectedAppointment.status === "scheduled" && checkInCode && (
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-500">
+                      Código para o totem
+                    </h4>
+                    <p className="text-base font-mono">{checkInCode.code}</p>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-500">
+                  Prioridade
+                </h4>
+                <div className="flex flex-wrap gap-4 mt-1">
+                  {QUEUE_PRIORITIES.map((flag) => {
+                    const byAge =
+                      flag === "elderly" &&
+                      !selectedAppointment.priorityFlags?.includes("elderly") &&
+                      selectedAppointment.effectivePriorityFlags?.includes("elderly");
+                    return (
+                      <label key={flag} className="flex items-center space-x-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                          checked={!!selectedAppointment.priorityFlags?.includes(flag) || byAge}
+                          disabled={byAge || updatePriorityMutation.isPending}
+                          onChange={(e) => handleTogglePriority(selectedAppointment, flag, e.target.checked)}
+                        />
+                        <span>
+                          {QUEUE_PRIORITY_LABELS[flag]}
+                          {byAge && " (pela idade)"}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
               </div>
 
               <div>
@@ -711,30 +892,35 @@ export default function QueueTable() {
                 <h4 className="text-sm font-medium text-gray-500">
                   Alterar Status
                 </h4>
-                <Select
-                  onValueChange={(value) =>
-                    handleStatusChange(selectedAppointment.id, value)
-                  }
-                  defaultValue={selectedAppointment.status}
-                >
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Selecione um status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="scheduled">Agendado</SelectItem>
-                    <SelectItem value="confirmed">Confirmado</SelectItem>
-                    <SelectItem value="in_progress">Em Atendimento</SelectItem>
-                    <SelectItem value="completed">Concluído</SelectItem>
-                    <SelectItem value="cancelled">Cancelado</SelectItem>
-                    <SelectItem value="no_show">Não Compareceu</SelectItem>
-                  </SelectContent>
-                </Select>
+                {/* Apenas as transições permitidas a partir do status atual */}
+                {APPOINTMENT_STATUS_TRANSITIONS[selectedAppointment.status as AppointmentStatus]?.length > 0 ? (
+                  <Select
+                    onValueChange={(value) =>
+                      handleStatusChange(selectedAppointment.id, value)
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Selecione um status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {APPOINTMENT_STATUS_TRANSITIONS[selectedAppointment.status as AppointmentStatus].map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {APPOINTMENT_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    Atendimento encerrado; o status não pode mais ser alterado.
+                  </p>
+                )}
               </div>
             </div>
           )}
 
           <DialogFooter className="flex justify-end space-x-2">
-            {selectedAppointment?.status === "confirmed" && (
+            {selectedAppointment && canTransitionStatus(selectedAppointment.status, "in_progress") && (
               <Button
                 onClick={() => {
                   handleStartAppointment(selectedAppointment.id);
@@ -745,7 +931,7 @@ export default function QueueTable() {
                 Iniciar Atendimento
               </Button>
             )}
-            {selectedAppointment?.status === "in_progress" && (
+            {selectedAppointment && canTransitionStatus(selectedAppointment.status, "completed") && (
               <Button
                 onClick={() => {
                   handleStartEvolution(selectedAppointment.id);
@@ -764,6 +950,11 @@ export default function QueueTable() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <CancelAppointmentDialog
+        appointmentId={cancellingId}
+        onOpenChange={(open) => !open && setCancellingId(null)}
+      />
     </>
   );
 }
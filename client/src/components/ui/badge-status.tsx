@@ -1,26 +1,20 @@
 import * as React from "react";
 import { cn } from "@/lib/utils";
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatus } from "@shared/appointment-status";
 
 interface BadgeStatusProps {
-  status: 'scheduled' | 'waiting' | 'in_progress' | 'completed' | 'cancelled';
+  status: AppointmentStatus;
   className?: string;
 }
 
 export function BadgeStatus({ status, className }: BadgeStatusProps) {
-  const statusStyles = {
+  const statusStyles: Record<AppointmentStatus, string> = {
     scheduled: "bg-gray-100 text-gray-800",
     waiting: "bg-yellow-100 text-yellow-800",
     in_progress: "bg-green-100 text-green-800",
     completed: "bg-blue-100 text-blue-800",
     cancelled: "bg-red-100 text-red-800",
-  };
-
-  const statusLabels = {
-    scheduled: "Agendado",
-    waiting: "Aguardando",
-    in_progress: "Em Atendimento",
-    completed: "Finalizado",
-    cancelled: "Cancelado",
+    no_show: "bg-orange-100 text-orange-800",
   };
 
   return (
@@ -29,7 +23,7 @@ export function BadgeStatus({ status, className }: BadgeStatusProps) {
       statusStyles[status],
       className
     )}>
-      {statusLabels[status]}
+      {APPOINTMENT_STATUS_LABELS[status]}
     </span>
   );
 }
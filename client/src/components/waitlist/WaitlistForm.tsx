@@ -0,0 +1,327 @@
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { waitlistEntryFormSchema, type Procedure, type WaitlistEntryFormData } from "@shared/schema";
+
+export const WEEKDAY_LABELS = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+
+interface WaitlistFormProps {
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+const defaultValues: WaitlistEntryFormData = {
+  patientId: null,
+  patientName: "",
+  patientPhone: "",
+  professionalId: null,
+  specialty: "",
+  notes: "",
+  procedureIds: [],
+  windows: [],
+};
+
+// Cadastro na lista de espera: paciente (ou pré-cadastro), profissional ou especialidade,
+// procedimentos desejados e janelas de horário preferidas
+export default function WaitlistForm({ onSuccess, onCancel }: WaitlistFormProps) {
+  const { toast } = useToast();
+
+  const { data: patients = [] } = useQuery<any[]>({ queryKey: ["/api/patients"] });
+  const { data: professionals = [] } = useQuery<any[]>({ queryKey: ["/api/professionals"] });
+  const { data: procedures = [] } = useQuery<Procedure[]>({ queryKey: ["/api/procedures"] });
+
+  const form = useForm<WaitlistEntryFormData>({
+    resolver: zodResolver(waitlistEntryFormSchema),
+    defaultValues,
+  });
+  const windows = useFieldArray({ control: form.control, name: "windows" });
+
+  const patientId = form.watch("patientId");
+  const professionalId = form.watch("professionalId");
+
+  const createMutation = useMutation({
+    mutationFn: async (data: WaitlistEntryFormData) => {
+      const res = await apiRequest("POST", "/api/waitlist", {
+        ...data,
+        patientName: data.patientId ? null : data.patientName,
+        patientPhone: data.patientId ? null : data.patientPhone || null,
+        specialty: data.professionalId ? null : data.specialty,
+        notes: data.notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      toast({ title: "Paciente incluído na lista de espera" });
+      form.reset(defaultValues);
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao incluir na lista de espera", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="patientId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Paciente</FormLabel>
+              <Select
+                value={field.value ? field.value.toString() : "none"}
+                onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o paciente" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="none">Pré-cadastro (nome e telefone)</SelectItem>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id.toString()}>
+                      {patient.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {!patientId && (
+          <div className="grid grid-cols-2 gap-3">
+            <FormField
+              control={form.control}
+              name="patientName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome*</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="patientPhone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Telefone</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="professionalId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Profissional</FormLabel>
+              <Select
+                value={field.value ? field.value.toString() : "any"}
+                onValueChange={(value) => field.onChange(value === "any" ? null : parseInt(value))}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o profissional" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="any">Qualquer profissional da especialidade</SelectItem>
+                  {professionals.map((professional) => (
+                    <SelectItem key={professional.id} value={professional.id.toString()}>
+                      {professional.user?.name} ({professional.specialty})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {!professionalId && (
+          <FormField
+            control={form.control}
+            name="specialty"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Especialidade*</FormLabel>
+                <FormControl>
+                  <Input placeholder="Ex.: Gastroenterologia" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="procedureIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Procedimentos*</FormLabel>
+              <div className="border rounded-md p-3 max-h-40 overflow-y-auto space-y-2">
+                {procedures.map((procedure) => (
+                  <div key={procedure.id} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`waitlist-procedure-${procedure.id}`}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                      checked={field.value.includes(procedure.id)}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.checked
+                            ? [...field.value, procedure.id]
+                            : field.value.filter((id) => id !== procedure.id)
+                        )
+                      }
+                    />
+                    <label htmlFor={`waitlist-procedure-${procedure.id}`} className="text-sm">
+                      {procedure.name}
+                    </label>
+                  </div>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <FormLabel>Horários preferidos</FormLabel>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => windows.append({ weekday: null, startTime: "08:00", endTime: "12:00" })}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Adicionar
+            </Button>
+          </div>
+          {windows.fields.length === 0 && (
+            <p className="text-sm text-muted-foreground">Sem preferência: qualquer horário serve.</p>
+          )}
+          {windows.fields.map((window, index) => (
+            <div key={window.id} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-start">
+              <FormField
+                control={form.control}
+                name={`windows.${index}.weekday`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select
+                      value={field.value === null || field.value === undefined ? "any" : field.value.toString()}
+                      onValueChange={(value) => field.onChange(value === "any" ? null : parseInt(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="any">Qualquer dia</SelectItem>
+                        {WEEKDAY_LABELS.map((label, weekday) => (
+                          <SelectItem key={weekday} value={weekday.toString()}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`windows.${index}.startTime`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`windows.${index}.endTime`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => windows.remove(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Observações</FormLabel>
+              <FormControl>
+                <Textarea {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={createMutation.isPending}>
+            {createMutation.isPending ? "Salvando..." : "Incluir na lista"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { invalidatePaymentQueries } from "@/components/cashier/PaymentDialog";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Consultas que mostram agendamentos (listas, agenda, fila, detalhes, caixa e painel da sala de espera)
+const APPOINTMENT_QUERY_PREFIXES = ["/api/appointments", "/api/queue", "/api/display", "/api/cashier"];
+
+function invalidateAppointmentQueries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const [key] = query.queryKey;
+      return typeof key === "string" && APPOINTMENT_QUERY_PREFIXES.some((prefix) => key.startsWith(prefix));
+    },
+  });
+}
+
+function handleRealtimeEvent(event: RealtimeEvent) {
+  invalidateAppointmentQueries();
+  // Cancelamentos podem gerar ofertas para a lista de espera
+  if (event.type === "appointment.status" && event.status === "cancelled") {
+    queryClient.invalidateQueries({ queryKey: ["/api/waitlist/offers"] });
+  }
+  // Conclusões geram registros financeiros (e entram nos repasses)
+  if (event.type === "appointment.status" && event.status === "completed") {
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const [key] = query.queryKey;
+        return typeof key === "string" && (key.startsWith("/api/financial") || key.startsWith("/api/payouts"));
+      },
+    });
+  }
+  // Pagamentos mudam o caixa, o fechamento e os saldos dos pacientes
+  if (event.type === "payment.captured" || event.type === "payment.cancelled") {
+    invalidatePaymentQueries();
+  }
+}
+
+// Mantém a conexão com o canal de tempo real enquanto o usuário está logado e invalida
+// as consultas afetadas a cada evento. Ao reconectar, recarrega tudo o que pode ter mudado.
+// O painel da sala de espera conecta sem login, informando o token do painel
+export function useRealtimeUpdates(enabled: boolean, displayToken?: string) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    let reconnecting = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const query = displayToken ? `?displayToken=${encodeURIComponent(displayToken)}` : "";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}${query}`);
+
+      socket.onopen = () => {
+        if (reconnecting) invalidateAppointmentQueries();
+      };
+      socket.onmessage = (message) => {
+        try {
+          handleRealtimeEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error("Evento de tempo real inválido:", error);
+        }
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        reconnecting = true;
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [enabled, displayToken]);
+}
@@ -5,6 +5,7 @@ import { ptBR } from "date-fns/locale";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { Link } from "wouter";
 import {
   Plus,
   Calendar as CalendarIcon,
@@ -69,12 +70,22 @@ import {
   Appointment,
   appointmentFormSchema,
   type AppointmentFormData,
+  type WaitlistOffer,
 } from "@shared/schema";
 
 import AppointmentForm from "@/components/appointments/AppointmentForm";
+import SeriesDialog from "@/components/appointments/SeriesDialog";
+import { canTransitionStatus, CANCELLATION_REASON_LABELS, type AppointmentStatus } from "@shared/appointment-status";
+import RescheduleDialog from "@/components/appointments/RescheduleDialog";
+import CancelAppointmentDialog from "@/components/appointments/CancelAppointmentDialog";
 
 export default function Appointments() {
   const [isNewAppointmentOpen, setIsNewAppointmentOpen] = useState(false);
+  // Sessão recorrente cuja série está sendo alterada/cancelada
+  const [seriesAppointment, setSeriesAppointment] = useState<Pick<Appointment, "id" | "date"> | null>(null);
+  // Agendamento sendo remarcado/editado
+  const [reschedulingId, setReschedulingId] = useState<number | null>(null);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
   // Cria uma data formatada corretamente para hoje
   const today = new Date();
   const [selectedDate, setSelectedDate] = useState<Date>(today);
@@ -125,6 +136,13 @@ export default function Appointments() {
     };
   };
   
+  // Horários liberados por cancelamentos aguardando oferta à lista de espera
+  const canManageWaitlist = user?.role === "admin" || user?.role === "recepcionista";
+  const { data: waitlistOffers = [] } = useQuery<WaitlistOffer[]>({
+    queryKey: ["/api/waitlist/offers"],
+    enabled: canManageWaitlist,
+  });
+
   const { data: appointments, isLoading, refetch } = useQuery<AppointmentWithDetails[]>({
     queryKey: ["/api/appointments", selectedDate, selectedStatus, selectedType],
     queryFn: async () => {
@@ -215,11 +233,11 @@ export default function Appointments() {
     },
   });
 
-  const handleStatusUpdate = (id: number, status: "scheduled" | "waiting" | "in_progress" | "completed" | "cancelled") => {
+  const handleStatusUpdate = (id: number, status: AppointmentStatus) => {
     updateStatusMutation.mutate({ id, status });
   };
 
-  const getStatusBadge = (status: "scheduled" | "waiting" | "in_progress" | "completed" | "cancelled") => {
+  const getStatusBadge = (status: AppointmentStatus) => {
     return <BadgeStatus status={status} />;
   };
 
@@ -235,6 +253,16 @@ export default function Appointments() {
 
   return (
     <div className="container mx-auto py-8">
+      {canManageWaitlist && waitlistOffers.length > 0 && (
+        <div className="mb-6 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm flex items-center justify-between">
+          <span>
+            {waitlistOffers.length} horário(s) liberado(s) por cancelamento podem ser oferecidos à lista de espera.
+          </span>
+          <Link href="/waitlist">
+            <Button size="sm" variant="outline">Ver lista de espera</Button>
+          </Link>
+        </div>
+      )}
       <div className="mb-8 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
           <h1 className="text-3xl font-bold">Agendamentos</h1>
@@ -315,6 +343,7 @@ export default function Appointments() {
                   <SelectItem value="in_progress">Em Atendimento</SelectItem>
                   <SelectItem value="completed">Concluído</SelectItem>
                   <SelectItem value="cancelled">Cancelado</SelectItem>
+                  <SelectItem value="no_show">Não compareceu</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -381,10 +410,18 @@ export default function Appointments() {
                   </TableCell>
                   <TableCell>
                     {getStatusBadge(appointment.status)}
+                    {appointment.seriesId && (
+                      <Badge variant="outline" className="ml-2">Recorrente</Badge>
+                    )}
+                    {appointment.cancellationReason && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {CANCELLATION_REASON_LABELS[appointment.cancellationReason]}
+                      </p>
+                    )}
                   </TableCell>
                   <TableCell>
                     {/* O botão de check-in foi removido desta tela e mantido apenas na fila de espera */}
-                    {(user?.role === "admin" || user?.role === "medico") && appointment.status === "waiting" && (
+                    {(user?.role === "admin" || user?.role === "medico") && canTransitionStatus(appointment.status, "in_progress") && (
                       <Button
                         size="sm"
                         variant="outline"
@@ -395,7 +432,7 @@ export default function Appointments() {
                         Iniciar
                       </Button>
                     )}
-                    {(user?.role === "admin" || user?.role === "medico") && appointment.status === "in_progress" && (
+                    {(user?.role === "admin" || user?.role === "medico") && canTransitionStatus(appointment.status, "completed") && (
                       <Button
                         size="sm"
                         variant="outline"
@@ -406,16 +443,44 @@ export default function Appointments() {
                         Concluir
                       </Button>
                     )}
-                    {(user?.role === "admin" || user?.role === "recepcionista") && (appointment.status === "scheduled" || appointment.status === "waiting") && (
+                    {(user?.role === "admin" || user?.role === "recepcionista") && canTransitionStatus(appointment.status, "cancelled") && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive"
+                        onClick={() => setCancellingId(appointment.id)}
+                      >
+                        Cancelar
+                      </Button>
+                    )}
+                    {(user?.role === "admin" || user?.role === "recepcionista") && canTransitionStatus(appointment.status, "no_show") && new Date(appointment.date) <= new Date() && (
                       <Button
                         size="sm"
                         variant="ghost"
                         className="text-destructive"
                         onClick={() =>
-                          handleStatusUpdate(appointment.id, "cancelled")
+                          handleStatusUpdate(appointment.id, "no_show")
                         }
                       >
-                        Cancelar
+                        Faltou
+                      </Button>
+                    )}
+                    {(user?.role === "admin" || user?.role === "recepcionista") && appointment.status === "scheduled" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setReschedulingId(appointment.id)}
+                      >
+                        Remarcar
+                      </Button>
+                    )}
+                    {(user?.role === "admin" || user?.role === "recepcionista") && appointment.seriesId && appointment.status === "scheduled" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setSeriesAppointment(appointment)}
+                      >
+                        Série
                       </Button>
                     )}
                   </TableCell>
@@ -425,6 +490,21 @@ export default function Appointments() {
           </Table>
         )}
       </div>
+
+      <SeriesDialog
+        appointment={seriesAppointment}
+        onOpenChange={(open) => !open && setSeriesAppointment(null)}
+      />
+
+      <RescheduleDialog
+        appointmentId={reschedulingId}
+        onOpenChange={(open) => !open && setReschedulingId(null)}
+      />
+
+      <CancelAppointmentDialog
+        appointmentId={cancellingId}
+        onOpenChange={(open) => !open && setCancellingId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
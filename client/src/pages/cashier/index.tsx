@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { PAYMENT_METHOD_LABELS, type CashClosingReport, type CashierEntry } from '@shared/payments';
+import { formatMoney } from '@shared/money';
+import type { PaymentMethod } from '@shared/schema';
+import PaymentDialog from '@/components/cashier/PaymentDialog';
+import { BadgeStatus } from '@/components/ui/badge-status';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Printer } from 'lucide-react';
+
+function Loading() {
+  return (
+    <div className="flex justify-center py-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+    </div>
+  );
+}
+
+// Caixa da recepção: recebimentos dos atendimentos do dia e fechamento diário
+export default function Cashier() {
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [selected, setSelected] = useState<CashierEntry | null>(null);
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery<CashierEntry[]>({
+    queryKey: [`/api/cashier?date=${date}`],
+    enabled: !!date,
+  });
+
+  const { data: closing, isLoading: closingLoading } = useQuery<CashClosingReport>({
+    queryKey: [`/api/reports/cash-closing?date=${date}`],
+    enabled: !!date,
+  });
+
+  // Mantém o diálogo com os valores atualizados após cada pagamento
+  const current = selected
+    ? entries.find((entry) => entry.appointmentId === selected.appointmentId) ?? selected
+    : null;
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Caixa</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Recebimentos dos atendimentos e fechamento do caixa do dia
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Data</label>
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-6">
+        <Tabs defaultValue="payments">
+          <TabsList className="mb-4">
+            <TabsTrigger value="payments">Recebimentos</TabsTrigger>
+            <TabsTrigger value="closing">Fechamento do caixa</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="payments">
+            <Card>
+              <CardContent className="pt-6">
+                {entriesLoading ? (
+                  <Loading />
+                ) : entries.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Horário</TableHead>
+                        <TableHead>Paciente</TableHead>
+                        <TableHead>Profissional</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Valor</TableHead>
+                        <TableHead className="text-right">Pago</TableHead>
+                        <TableHead className="text-right">Saldo</TableHead>
+                        <TableHead className="text-right">Em aberto (outros dias)</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.map((entry) => (
+                        <TableRow key={entry.appointmentId}>
+                          <TableCell>{format(new Date(entry.date), 'HH:mm')}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{entry.patientName}</div>
+                            {entry.healthPlanName && (
+                              <div className="text-xs text-gray-500">Convênio: {entry.healthPlanName}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{entry.professionalName}</TableCell>
+                          <TableCell><BadgeStatus status={entry.status} /></TableCell>
+                          <TableCell className="text-right">{formatMoney(entry.charge)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(entry.paid)}</TableCell>
+                          <TableCell className={`text-right ${entry.balance > 0 ? 'text-amber-700 font-medium' : ''}`}>
+                            {formatMoney(entry.balance)}
+                          </TableCell>
+                          <TableCell className={`text-right ${entry.previousOutstanding > 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                            {formatMoney(entry.previousOutstanding)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              variant={entry.balance > 0 ? 'default' : 'outline'}
+                              onClick={() => setSelected(entry)}
+                            >
+                              {entry.balance > 0 ? 'Receber' : 'Detalhes'}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center py-6 text-gray-500">Nenhum atendimento nesta data.</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="closing">
+            {closingLoading || !closing ? (
+              <Loading />
+            ) : (
+              <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-lg font-medium text-gray-900">
+                    Fechamento de {format(new Date(`${closing.date}T00:00:00`), 'dd/MM/yyyy')}
+                  </h2>
+                  <Button variant="outline" onClick={() => window.print()}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    Imprimir
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Total recebido</CardDescription>
+                      <CardTitle className="text-2xl">{formatMoney(closing.total)}</CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Pagamentos</CardDescription>
+                      <CardTitle className="text-2xl">
+                        {closing.payments.length - closing.cancelled.count}
+                      </CardTitle>
+                    </CardHeader>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardDescription>Estornados</CardDescription>
+                      <CardTitle className="text-2xl">
+                        {closing.cancelled.count} · {formatMoney(closing.cancelled.amount)}
+                      </CardTitle>
+                    </CardHeader>
+                  </Card>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Por forma de pagamento</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Forma</TableHead>
+                            <TableHead className="text-right">Qtd.</TableHead>
+                            <TableHead className="text-right">Valor</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {(Object.entries(closing.byMethod) as [PaymentMethod, { count: number; amount: number }][]).map(
+                            ([method, summary]) => (
+                              <TableRow key={method}>
+                                <TableCell>{PAYMENT_METHOD_LABELS[method]}</TableCell>
+                                <TableCell className="text-right">{summary.count}</TableCell>
+                                <TableCell className="text-right">{formatMoney(summary.amount)}</TableCell>
+                              </TableRow>
+                            )
+                          )}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Por atendente</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {closing.byReceiver.length > 0 ? (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Atendente</TableHead>
+                              <TableHead className="text-right">Qtd.</TableHead>
+                              <TableHead className="text-right">Valor</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {closing.byReceiver.map((receiver) => (
+                              <TableRow key={receiver.userId}>
+                                <TableCell>{receiver.name}</TableCell>
+                                <TableCell className="text-right">{receiver.count}</TableCell>
+                                <TableCell className="text-right">{formatMoney(receiver.amount)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      ) : (
+                        <p className="text-center py-6 text-gray-500">Nenhum recebimento nesta data.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Pagamentos do dia</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {closing.payments.length > 0 ? (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Horário</TableHead>
+                            <TableHead>Paciente</TableHead>
+                            <TableHead>Profissional</TableHead>
+                            <TableHead>Forma</TableHead>
+                            <TableHead>Recebido por</TableHead>
+                            <TableHead className="text-right">Valor</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {closing.payments.map((payment) => (
+                            <TableRow key={payment.id} className={payment.cancelledAt ? 'text-gray-400' : ''}>
+                              <TableCell>{format(new Date(payment.receivedAt), 'HH:mm')}</TableCell>
+                              <TableCell>{payment.patientName}</TableCell>
+                              <TableCell>{payment.professionalName}</TableCell>
+                              <TableCell>
+                                {PAYMENT_METHOD_LABELS[payment.method]}
+                                {payment.installments > 1 && ` (${payment.installments}x)`}
+                              </TableCell>
+                              <TableCell>{payment.receivedByName}</TableCell>
+                              <TableCell className="text-right">
+                                <span className={payment.cancelledAt ? 'line-through' : ''}>
+                                  {formatMoney(payment.amount)}
+                                </span>
+                                {payment.cancelledAt && <span className="ml-2 text-xs text-red-600">Estornado</span>}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    ) : (
+                      <p className="text-center py-6 text-gray-500">Nenhum recebimento nesta data.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <PaymentDialog entry={current} onClose={() => setSelected(null)} />
+    </div>
+  );
+}
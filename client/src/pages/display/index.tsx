@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useRealtimeUpdates } from '@/hooks/use-realtime';
+import type { DisplayQueue } from '@shared/display';
+import { Button } from '@/components/ui/button';
+import { Megaphone, Volume2, VolumeX } from 'lucide-react';
+
+// Tempo que o aviso "Chamando agora" fica em destaque
+const CALL_BANNER_MS = 15000;
+
+interface DisplayCallBanner {
+  appointmentId: number;
+  patientName: string;
+  professionalName: string;
+  room: string | null;
+}
+
+function announce(call: DisplayCallBanner) {
+  if (!('speechSynthesis' in window)) return;
+  const text = call.room ? `${call.patientName}, ${call.room}` : `${call.patientName}, ${call.professionalName}`;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'pt-BR';
+  window.speechSynthesis.speak(utterance);
+}
+
+// Painel da sala de espera para a TV da recepção. Abre sem login em /display?token=...
+// e se atualiza pelo canal de tempo real quando um médico inicia um atendimento
+export default function WaitingRoomDisplay() {
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+  const [now, setNow] = useState(new Date());
+  const [banner, setBanner] = useState<DisplayCallBanner | null>(null);
+  // A voz só pode ser ativada por um clique (exigência dos navegadores)
+  const [speechEnabled, setSpeechEnabled] = useState(false);
+  // Chamadas já exibidas; as que estavam na tela ao abrir o painel não são anunciadas
+  const announcedRef = useRef<Set<number> | null>(null);
+
+  useRealtimeUpdates(!!token, token);
+
+  const { data, error } = useQuery<DisplayQueue[]>({
+    queryKey: [`/api/display/queue?token=${encodeURIComponent(token)}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const queues = data ?? [];
+
+  useEffect(() => {
+    if (!data) return;
+    const calls = data.flatMap((queue) =>
+      queue.current
+        ? [{
+            appointmentId: queue.current.appointmentId,
+            patientName: queue.current.patientName,
+            professionalName: queue.professionalName,
+            room: queue.current.room,
+          }]
+        : []
+    );
+
+    if (!announcedRef.current) {
+      announcedRef.current = new Set(calls.map((call) => call.appointmentId));
+      return;
+    }
+
+    const announced = announcedRef.current;
+    for (const call of calls.filter((call) => !announced.has(call.appointmentId))) {
+      announced.add(call.appointmentId);
+      setBanner(call);
+      if (speechEnabled) announce(call);
+    }
+  }, [data, speechEnabled]);
+
+  useEffect(() => {
+    if (!banner) return;
+    const timer = setTimeout(() => setBanner(null), CALL_BANNER_MS);
+    return () => clearTimeout(timer);
+  }, [banner]);
+
+  // Outros erros (rede, servidor) mantêm a última fila na tela até a próxima atualização
+  if (!token || error?.message.startsWith('401')) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-900 text-white text-2xl">
+        Painel não autorizado. Verifique o endereço configurado nesta tela.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-4xl font-bold">Sala de Espera</h1>
+        <div className="flex items-center space-x-6">
+          <span className="text-3xl font-light">
+            {format(now, "EEEE, dd 'de' MMMM · HH:mm", { locale: ptBR })}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-gray-400 hover:text-white hover:bg-gray-800"
+            title={speechEnabled ? 'Desativar chamada por voz' : 'Ativar chamada por voz'}
+            onClick={() => setSpeechEnabled((enabled) => !enabled)}
+          >
+            {speechEnabled ? <Volume2 className="h-6 w-6" /> : <VolumeX className="h-6 w-6" />}
+          </Button>
+        </div>
+      </div>
+
+      {banner && (
+        <div className="mb-8 rounded-xl bg-primary p-8 text-center animate-pulse">
+          <div className="flex items-center justify-center text-2xl uppercase tracking-wide">
+            <Megaphone className="mr-3 h-8 w-8" />
+            Chamando agora
+          </div>
+          <div className="mt-4 text-6xl font-bold">{banner.patientName}</div>
+          <div className="mt-4 text-3xl">
+            {banner.room ?? banner.professionalName}
+            {banner.room && <span className="text-white/80"> · {banner.professionalName}</span>}
+          </div>
+        </div>
+      )}
+
+      {queues.length > 0 ? (
+        <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+          {queues.map((queue) => (
+            <div key={queue.professionalId} className="rounded-xl bg-gray-800 p-6">
+              <div className="text-2xl font-semibold">{queue.professionalName}</div>
+              {queue.room && <div className="text-lg text-gray-400">{queue.room}</div>}
+
+              <div className="mt-6">
+                <div className="text-sm uppercase tracking-wide text-gray-400">Em atendimento</div>
+                <div className="text-3xl font-bold mt-1">
+                  {queue.current ? queue.current.patientName : '—'}
+                </div>
+              </div>
+
+              <div className="mt-6">
+                <div className="text-sm uppercase tracking-wide text-gray-400">
+                  Próximos ({queue.waiting.length})
+                </div>
+                <ol className="mt-2 space-y-1 text-2xl">
+                  {queue.waiting.slice(0, 5).map((waiting, index) => (
+                    <li key={index} className="flex justify-between">
+                      <span>{index + 1}. {waiting.patientName}</span>
+                      {waiting.estimatedWaitMinutes !== null && (
+                        <span className="text-gray-400">~{waiting.estimatedWaitMinutes} min</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+                {queue.waiting.length > 5 && (
+                  <div className="mt-1 text-lg text-gray-400">e mais {queue.waiting.length - 5}</div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center text-3xl text-gray-400 py-24">Nenhum paciente aguardando no momento.</div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { evolutionFormSchema } from "@shared/schema";
+import type { FinancialQuote } from "@shared/financial";
+import { formatMoney } from "@shared/money";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -134,7 +136,8 @@ export default function DoctorConsultation() {
     id: proc.id,
     name: proc.name,
     value: proc.value,
-    checked: proc.id === (appointment?.procedureId || 0)
+    // Começa com os procedimentos agendados; os marcados ao concluir substituem a lista do agendamento
+    checked: (appointment?.procedures || []).some((booked: any) => booked.id === proc.id)
   }));
 
   // Form setup
@@ -176,6 +179,7 @@ export default function DoctorConsultation() {
       const dataToSave = {
         ...evolutionData,
         appointmentId,
+        procedureIds: (procedures || []).filter((procedure) => procedure.checked).map((procedure) => procedure.id),
         patientId: appointment?.patientId || evolutionData.patientId,
         professionalId: appointment?.professionalId || evolutionData.professionalId,
         // SOAP fields
@@ -208,33 +212,8 @@ export default function DoctorConsultation() {
         });
         console.log("Resposta da atualização de status:", statusResponse.status);
         
-        // Módulo financeiro temporariamente desativado
-        /* MÓDULO FINANCEIRO - Comentado para implementação futura
-        // Calculate financial values
-        const selectedProcedures = procedures?.filter(p => p.checked) || [];
-        const totalValue = selectedProcedures.reduce((sum, proc) => sum + proc.value, 0);
-        
-        // Get professional commission rate
-        const professional = appointment?.professional;
-        const commissionRate = professional?.commission || 0.2; // Default 20% if not set
-        
-        const clinicCommission = totalValue * commissionRate;
-        const professionalValue = totalValue - clinicCommission;
-        */
-        
-        // Create simplified financial record (apenas para finalizar o atendimento)
-        const financialRecord = {
-          appointmentId,
-          professionalId: evolution.professionalId,
-          totalValue: 0,
-          clinicCommission: 0,
-          professionalValue: 0
-        };
-        
-        console.log("Registro para finalizar atendimento:", financialRecord);
-        
-        // Envia para a API temporária que apenas finaliza o atendimento
-        const financialResponse = await apiRequest("POST", "/api/financial-records", financialRecord);
+        // Registro financeiro do atendimento, calculado no servidor a partir dos procedimentos
+        const financialResponse = await apiRequest("POST", "/api/financial-records", { appointmentId });
         console.log("Resposta da criação financeira:", financialResponse.status);
         
         return evolution;
@@ -298,13 +277,15 @@ export default function DoctorConsultation() {
     saveEvolutionMutation.mutate(form.getValues());
   };
 
-  // Calculate total from selected procedures
-  const calculateTotal = () => {
-    const procedures = form.getValues().procedures || [];
-    return procedures
-      .filter(p => p.checked)
-      .reduce((sum, proc) => sum + proc.value, 0);
-  };
+  // Valor dos procedimentos marcados, calculado no servidor pelas mesmas regras da conclusão
+  const checkedProcedureIds = (form.watch("procedures") || [])
+    .filter(p => p.checked)
+    .map(p => p.id);
+  const { data: quote } = useQuery<FinancialQuote>({
+    queryKey: [`/api/appointments/${appointmentId}/quote?procedureIds=${checkedProcedureIds.join(",")}`],
+    enabled: !!appointmentId && checkedProcedureIds.length > 0,
+  });
+  const totalValue = checkedProcedureIds.length > 0 ? quote?.totalValue ?? 0 : 0;
 
   // Calculate age from birthdate
   function calculateAge(birthdate?: string) {
@@ -655,14 +636,14 @@ export default function DoctorConsultation() {
                               />
                             </div>
                             <div className="text-sm font-medium">
-                              R$ {procedure.value.toFixed(2)}
+                              {formatMoney(procedure.value)}
                             </div>
                           </div>
                         ))}
                         
                         <div className="flex justify-between pt-2 border-t border-gray-200">
                           <span className="font-semibold">Total</span>
-                          <span className="font-semibold">R$ {calculateTotal().toFixed(2)}</span>
+                          <span className="font-semibold">{formatMoney(totalValue)}</span>
                         </div>
                       </CardContent>
                     </Card>
@@ -804,7 +785,7 @@ export default function DoctorConsultation() {
                 <div className="col-span-2">
                   <p className="text-muted-foreground mb-1">Valor</p>
                   <p className="font-medium">
-                    R$ {appointment.procedure?.value?.toFixed(2) || '0.00'}
+                    {formatMoney(appointment.procedure?.value ?? 0)}
                   </p>
                 </div>
               </div>
@@ -934,7 +915,7 @@ export default function DoctorConsultation() {
             </div>
             <div className="flex items-center justify-between text-primary">
               <span className="font-medium">Valor total:</span>
-              <span className="font-medium">R$ {calculateTotal().toFixed(2)}</span>
+              <span className="font-medium">{formatMoney(totalValue)}</span>
             </div>
           </div>
           <DialogFooter>
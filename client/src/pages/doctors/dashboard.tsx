@@ -5,6 +5,8 @@ import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Link } from "wouter";
+import type { FinancialSummary } from "@shared/financial";
+import { formatMoney } from "@shared/money";
 
 import {
   Card,
@@ -59,10 +61,9 @@ export default function DoctorDashboard() {
       return await res.json();
     },
     enabled: !!professional?.id,
-    refetchInterval: 30000, // Atualiza a cada 30s
   });
 
-  // Buscar fila de espera
+  // Buscar fila de espera (agendamentos e fila são atualizados pelo canal de tempo real)
   const { data: waitingQueue = [] } = useQuery({
     queryKey: ["/api/queue", formattedDate, professional?.id],
     queryFn: async () => {
@@ -70,17 +71,11 @@ export default function DoctorDashboard() {
       return await res.json();
     },
     enabled: !!professional?.id,
-    refetchInterval: 30000, // Atualiza a cada 30s
   });
 
-  // Buscar dados financeiros
-  const { data: financialRecords = [] } = useQuery({
-    queryKey: ["/api/financial-records/professional", professional?.id, { date: formattedDate }],
-    queryFn: async () => {
-      if (!professional?.id) return [];
-      const res = await apiRequest("GET", `/api/financial-records/professional?date=${formattedDate}`);
-      return await res.json();
-    },
+  // Resumo financeiro do dia, totalizado no servidor (apenas os valores do próprio médico)
+  const { data: financialSummary } = useQuery<FinancialSummary>({
+    queryKey: [`/api/financial/summary?startDate=${formattedDate}&endDate=${formattedDate}`],
     enabled: !!professional?.id,
   });
 
@@ -96,11 +91,6 @@ export default function DoctorDashboard() {
     ? (completedCount / totalAppointments) * 100 
     : 0;
 
-  // Resumo financeiro
-  const totalGross = financialRecords.reduce((sum: number, record: any) => sum + record.totalValue, 0);
-  const totalClinic = financialRecords.reduce((sum: number, record: any) => sum + record.clinicCommission, 0);
-  const totalProfessional = financialRecords.reduce((sum: number, record: any) => sum + record.professionalValue, 0);
-
   // Filtrar pacientes em espera e em atendimento
   const myWaitingPatients = waitingQueue.filter((a: any) => 
     a.professionalId === professional?.id && 
@@ -193,14 +183,14 @@ export default function DoctorDashboard() {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">R$ {totalProfessional.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(financialSummary?.professionalValue ?? 0)}</div>
             <p className="text-xs text-muted-foreground">
-              Bruto: R$ {totalGross.toFixed(2)}
+              Bruto: {formatMoney(financialSummary?.totalValue ?? 0)}
             </p>
             <div className="flex items-center mt-3 text-xs">
               <span className="text-muted-foreground">Taxa clínica</span>
               <Separator className="flex-1 mx-2" />
-              <span className="font-medium">R$ {totalClinic.toFixed(2)}</span>
+              <span className="font-medium">{formatMoney(financialSummary?.clinicValue ?? 0)}</span>
             </div>
           </CardContent>
         </Card>
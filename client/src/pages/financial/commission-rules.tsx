@@ -0,0 +1,366 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { CommissionRule, HealthPlan, Procedure } from '@shared/schema';
+import { formatMoney, parseMoney } from '@shared/money';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { ArrowLeft, Plus } from 'lucide-react';
+
+// apiRequest lança "<status>: {json}"; extrai a mensagem do servidor
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return 'Não foi possível concluir a operação';
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message;
+  } catch {
+    return error.message;
+  }
+}
+
+function ruleStatus(rule: CommissionRule) {
+  const now = new Date();
+  if (new Date(rule.effectiveFrom) > now) return { label: 'Futura', variant: 'outline' as const };
+  if (rule.effectiveUntil && new Date(rule.effectiveUntil) < now) return { label: 'Encerrada', variant: 'secondary' as const };
+  return { label: 'Vigente', variant: 'default' as const };
+}
+
+const emptyRule = {
+  professionalId: 'all',
+  procedureId: 'all',
+  healthPlanId: 'all',
+  type: 'percentage' as CommissionRule['type'],
+  value: '',
+  effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+  effectiveUntil: '',
+};
+
+// Regras de comissão da clínica por profissional, procedimento e convênio, com vigência.
+// Sem regra aplicável, vale a comissão padrão do cadastro do profissional
+export default function CommissionRules() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [rule, setRule] = useState(emptyRule);
+  const [ending, setEnding] = useState<CommissionRule | null>(null);
+  const [endDate, setEndDate] = useState('');
+
+  const { data: rules = [], isLoading } = useQuery<CommissionRule[]>({
+    queryKey: ['/api/commission-rules'],
+  });
+  const { data: professionals = [] } = useQuery<any[]>({ queryKey: ['/api/professionals'] });
+  const { data: procedures = [] } = useQuery<Procedure[]>({ queryKey: ['/api/procedures'] });
+  const { data: healthPlans = [] } = useQuery<HealthPlan[]>({ queryKey: ['/api/health-plans'] });
+
+  const professionalName = (id: number | null) =>
+    id === null ? 'Todos' : professionals.find((professional) => professional.id === id)?.user?.name ?? `Profissional ${id}`;
+  const procedureName = (id: number | null) =>
+    id === null ? 'Todos' : procedures.find((procedure) => procedure.id === id)?.name ?? `Procedimento ${id}`;
+  const healthPlanLabel = (id: number | null) =>
+    id === null ? 'Todos' : healthPlans.find((healthPlan) => healthPlan.id === id)?.name ?? `Convênio ${id}`;
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () => {
+      const optionalId = (value: string) => (value === 'all' ? null : parseInt(value));
+      const res = await apiRequest('POST', '/api/commission-rules', {
+        professionalId: optionalId(rule.professionalId),
+        procedureId: optionalId(rule.procedureId),
+        healthPlanId: optionalId(rule.healthPlanId),
+        type: rule.type,
+        // Porcentagem como número; valor fixo em centavos
+        value: rule.type === 'percentage' ? parseFloat(rule.value.replace(',', '.')) : parseMoney(rule.value),
+        effectiveFrom: rule.effectiveFrom,
+        effectiveUntil: rule.effectiveUntil || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/commission-rules'] });
+      setIsDialogOpen(false);
+      toast({ title: 'Regra cadastrada' });
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao cadastrar regra', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const endRuleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/commission-rules/${ending!.id}/end`, { effectiveUntil: endDate });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/commission-rules'] });
+      setEnding(null);
+      toast({ title: 'Vigência encerrada' });
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao encerrar regra', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <Link href="/financial" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Financeiro
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">Regras de Comissão</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Parte da clínica em cada procedimento. Sem regra aplicável, vale a comissão do cadastro do profissional.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setRule(emptyRule);
+            setIsDialogOpen(true);
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Nova Regra
+        </Button>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Regras</CardTitle>
+            <CardDescription>
+              Vale a regra vigente na data do atendimento que atende mais critérios. Regras não são
+              editadas: encerre a vigência e cadastre uma nova. Os convênios são cadastrados
+              em <Link href="/health-plans" className="underline">Convênios</Link>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : rules.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Profissional</TableHead>
+                    <TableHead>Procedimento</TableHead>
+                    <TableHead>Convênio</TableHead>
+                    <TableHead>Comissão da clínica</TableHead>
+                    <TableHead>Vigência</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((item) => {
+                    const status = ruleStatus(item);
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>{professionalName(item.professionalId)}</TableCell>
+                        <TableCell>{procedureName(item.procedureId)}</TableCell>
+                        <TableCell>{healthPlanLabel(item.healthPlanId)}</TableCell>
+                        <TableCell className="font-medium">
+                          {item.type === 'percentage' ? `${item.value}%` : `${formatMoney(item.value)} por procedimento`}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(item.effectiveFrom), 'dd/MM/yyyy')} a{' '}
+                          {item.effectiveUntil ? format(new Date(item.effectiveUntil), 'dd/MM/yyyy') : 'sem término'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {status.label !== 'Encerrada' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEnding(item);
+                                setEndDate(format(new Date(), 'yyyy-MM-dd'));
+                              }}
+                            >
+                              Encerrar
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center py-6 text-gray-500">
+                Nenhuma regra cadastrada. Todos os atendimentos usam a comissão do cadastro do profissional.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Nova Regra de Comissão</DialogTitle>
+            <DialogDescription>
+              Deixe "Todos" nos critérios que a regra não deve restringir.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createRuleMutation.mutate();
+            }}
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Profissional</label>
+              <Select value={rule.professionalId} onValueChange={(value) => setRule({ ...rule, professionalId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {professionals.map((professional) => (
+                    <SelectItem key={professional.id} value={professional.id.toString()}>
+                      {professional.user?.name || `Profissional ${professional.id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Procedimento</label>
+              <Select value={rule.procedureId} onValueChange={(value) => setRule({ ...rule, procedureId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {procedures.map((procedure) => (
+                    <SelectItem key={procedure.id} value={procedure.id.toString()}>
+                      {procedure.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Convênio</label>
+              <Select value={rule.healthPlanId} onValueChange={(value) => setRule({ ...rule, healthPlanId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos (inclusive particular)</SelectItem>
+                  {healthPlans.filter((healthPlan) => healthPlan.isActive).map((healthPlan) => (
+                    <SelectItem key={healthPlan.id} value={healthPlan.id.toString()}>
+                      {healthPlan.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Tipo</label>
+                <Select
+                  value={rule.type}
+                  onValueChange={(value) => setRule({ ...rule, type: value as CommissionRule['type'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Porcentagem</SelectItem>
+                    <SelectItem value="fixed">Valor fixo</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {rule.type === 'percentage' ? 'Clínica (%)' : 'Clínica (R$ por procedimento)'}
+                </label>
+                <Input inputMode="decimal" value={rule.value} onChange={(e) => setRule({ ...rule, value: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Início da vigência</label>
+                <Input
+                  type="date"
+                  value={rule.effectiveFrom}
+                  onChange={(e) => setRule({ ...rule, effectiveFrom: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Fim da vigência</label>
+                <Input
+                  type="date"
+                  value={rule.effectiveUntil}
+                  onChange={(e) => setRule({ ...rule, effectiveUntil: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={!rule.value || !rule.effectiveFrom || createRuleMutation.isPending}>
+                {createRuleMutation.isPending ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!ending} onOpenChange={(open) => !open && setEnding(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Encerrar vigência</DialogTitle>
+            <DialogDescription>
+              A regra deixa de valer para atendimentos após a data informada. Registros já
+              lançados não mudam.
+            </DialogDescription>
+          </DialogHeader>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEnding(null)}>Cancelar</Button>
+            <Button disabled={!endDate || endRuleMutation.isPending} onClick={() => endRuleMutation.mutate()}>
+              Encerrar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
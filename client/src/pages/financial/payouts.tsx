@@ -0,0 +1,502 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { PayoutOverviewRow, PayoutStatement } from '@shared/payouts';
+import { formatMoney, parseMoney } from '@shared/money';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { ArrowLeft, Download, Lock, Trash2 } from 'lucide-react';
+
+// apiRequest lança "<status>: {json}"; extrai a mensagem do servidor
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return 'Não foi possível concluir a operação';
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message;
+  } catch {
+    return error.message;
+  }
+}
+
+function invalidatePayoutQueries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const [key] = query.queryKey;
+      return typeof key === 'string' && key.startsWith('/api/payouts');
+    },
+  });
+}
+
+function Loading() {
+  return (
+    <div className="flex justify-center py-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+    </div>
+  );
+}
+
+function PayoutStatus({ payout, locked }: Pick<PayoutStatement, 'payout' | 'locked'>) {
+  if (payout) {
+    return (
+      <span className="inline-flex items-center text-sm text-green-700">
+        <Lock className="mr-1 h-4 w-4" />
+        Fechado em {format(new Date(payout.closedAt), 'dd/MM/yyyy HH:mm')}
+      </span>
+    );
+  }
+  if (locked) {
+    return <span className="text-sm text-amber-700">Período com repasse já fechado</span>;
+  }
+  return <span className="text-sm text-gray-500">Em aberto</span>;
+}
+
+interface StatementViewProps {
+  statement: PayoutStatement;
+  isAdmin: boolean;
+  downloadUrl: (format: 'csv' | 'pdf') => string;
+  startDate: string;
+  endDate: string;
+}
+
+function StatementView({ statement, isAdmin, downloadUrl, startDate, endDate }: StatementViewProps) {
+  const { toast } = useToast();
+  const [confirmClose, setConfirmClose] = useState(false);
+  const [adjustmentDate, setAdjustmentDate] = useState(endDate);
+  const [adjustmentKind, setAdjustmentKind] = useState<'credit' | 'debit'>('debit');
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentDescription, setAdjustmentDescription] = useState('');
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/payouts', {
+        professionalId: statement.professional.id,
+        startDate,
+        endDate,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidatePayoutQueries();
+      setConfirmClose(false);
+      toast({ title: 'Repasse fechado' });
+    },
+    onError: (error) => {
+      setConfirmClose(false);
+      toast({ title: 'Erro ao fechar repasse', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const adjustmentMutation = useMutation({
+    mutationFn: async () => {
+      const amount = Math.abs(parseMoney(adjustmentAmount) ?? 0);
+      const res = await apiRequest('POST', '/api/payout-adjustments', {
+        professionalId: statement.professional.id,
+        date: adjustmentDate,
+        amount: adjustmentKind === 'debit' ? -amount : amount,
+        description: adjustmentDescription,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidatePayoutQueries();
+      setAdjustmentAmount('');
+      setAdjustmentDescription('');
+      toast({ title: 'Ajuste lançado' });
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao lançar ajuste', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const deleteAdjustmentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/payout-adjustments/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePayoutQueries();
+      toast({ title: 'Ajuste removido' });
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao remover ajuste', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">{statement.professional.name}</h2>
+          <PayoutStatus payout={statement.payout} locked={statement.locked} />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={downloadUrl('pdf')} download>
+              <Download className="mr-2 h-4 w-4" />
+              PDF
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={downloadUrl('csv')} download>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </a>
+          </Button>
+          {isAdmin && !statement.locked && (
+            <Button onClick={() => setConfirmClose(true)}>
+              <Lock className="mr-2 h-4 w-4" />
+              Fechar repasse
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Atendimentos</CardDescription>
+            <CardTitle className="text-2xl">{statement.appointmentsCount}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Valor bruto</CardDescription>
+            <CardTitle className="text-2xl">{formatMoney(statement.grossValue)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Ajustes</CardDescription>
+            <CardTitle className="text-2xl">{formatMoney(statement.adjustmentsValue)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Valor líquido</CardDescription>
+            <CardTitle className="text-2xl text-green-700">{formatMoney(statement.netValue)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Atendimentos</CardTitle>
+          <CardDescription>Atendimentos concluídos no período</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {statement.items.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Paciente</TableHead>
+                  <TableHead>Procedimentos</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead className="text-right">Comissão Clínica</TableHead>
+                  <TableHead className="text-right">Valor Profissional</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.items.map((item) => (
+                  <TableRow key={item.appointmentId}>
+                    <TableCell>{format(new Date(item.date), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>{item.patientName ?? `Agendamento ${item.appointmentId}`}</TableCell>
+                    <TableCell>{item.procedures.join(', ') || 'Procedimento não especificado'}</TableCell>
+                    <TableCell className="text-right">{formatMoney(item.totalValue)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(item.clinicCommission)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(item.professionalValue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center py-6 text-gray-500">Nenhum atendimento concluído no período.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ajustes</CardTitle>
+          <CardDescription>Créditos e descontos aplicados ao repasse</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {statement.adjustments.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  {isAdmin && !statement.locked && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statement.adjustments.map((adjustment) => (
+                  <TableRow key={adjustment.id}>
+                    <TableCell>{format(new Date(adjustment.date), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>{adjustment.description}</TableCell>
+                    <TableCell className={`text-right ${adjustment.amount < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                      {formatMoney(adjustment.amount)}
+                    </TableCell>
+                    {isAdmin && !statement.locked && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Remover ajuste"
+                          disabled={deleteAdjustmentMutation.isPending}
+                          onClick={() => deleteAdjustmentMutation.mutate(adjustment.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-center py-6 text-gray-500">Nenhum ajuste no período.</p>
+          )}
+
+          {isAdmin && !statement.locked && (
+            <form
+              className="flex flex-wrap gap-3 items-end border-t pt-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                adjustmentMutation.mutate();
+              }}
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Data</label>
+                <Input
+                  type="date"
+                  min={startDate}
+                  max={endDate}
+                  value={adjustmentDate}
+                  onChange={(e) => setAdjustmentDate(e.target.value)}
+                />
+              </div>
+              <div className="w-36">
+                <label className="block text-sm font-medium text-gray-700">Tipo</label>
+                <Select value={adjustmentKind} onValueChange={(value) => setAdjustmentKind(value as 'credit' | 'debit')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="debit">Desconto</SelectItem>
+                    <SelectItem value="credit">Crédito</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-32">
+                <label className="block text-sm font-medium text-gray-700">Valor</label>
+                <Input inputMode="decimal" value={adjustmentAmount} onChange={(e) => setAdjustmentAmount(e.target.value)} />
+              </div>
+              <div className="flex-1 min-w-[200px]">
+                <label className="block text-sm font-medium text-gray-700">Descrição</label>
+                <Input value={adjustmentDescription} onChange={(e) => setAdjustmentDescription(e.target.value)} />
+              </div>
+              <Button
+                type="submit"
+                disabled={!parseMoney(adjustmentAmount) || !adjustmentDescription.trim() || adjustmentMutation.isPending}
+              >
+                Lançar ajuste
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={confirmClose} onOpenChange={setConfirmClose}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Fechar repasse</DialogTitle>
+            <DialogDescription>
+              O repasse de {statement.professional.name} de {format(new Date(statement.startDate), 'dd/MM/yyyy')} a{' '}
+              {format(new Date(statement.endDate), 'dd/MM/yyyy')} será fechado em {formatMoney(statement.netValue)}.
+              Depois de fechado, o período não aceita novos ajustes.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmClose(false)}>Cancelar</Button>
+            <Button disabled={closeMutation.isPending} onClick={() => closeMutation.mutate()}>
+              {closeMutation.isPending ? 'Fechando...' : 'Confirmar fechamento'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Repasse médico: o administrador acompanha todos os profissionais, lança ajustes e fecha
+// o período; o médico consulta e baixa o próprio extrato
+export default function Payouts() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const lastMonth = subMonths(new Date(), 1);
+  const [startDate, setStartDate] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [professionalFilter, setProfessionalFilter] = useState('all');
+
+  const { data: professionals = [] } = useQuery<any[]>({
+    queryKey: ['/api/professionals'],
+    enabled: isAdmin,
+  });
+
+  const showOverview = isAdmin && professionalFilter === 'all';
+  const statementUrl = (type: 'json' | 'csv' | 'pdf') => {
+    const params = new URLSearchParams({ startDate, endDate, format: type });
+    if (isAdmin && professionalFilter !== 'all') params.append('professionalId', professionalFilter);
+    return `/api/payouts/statement?${params.toString()}`;
+  };
+
+  const { data: overview = [], isLoading: overviewLoading } = useQuery<PayoutOverviewRow[]>({
+    queryKey: [`/api/payouts/overview?${new URLSearchParams({ startDate, endDate }).toString()}`],
+    enabled: showOverview && !!startDate && !!endDate,
+  });
+
+  const { data: statement, isLoading: statementLoading } = useQuery<PayoutStatement>({
+    queryKey: [statementUrl('json')],
+    enabled: !showOverview && !!startDate && !!endDate,
+  });
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <Link href="/financial" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Financeiro
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">Repasses</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {isAdmin ? 'Valores devidos aos profissionais por período' : 'Seus valores a receber por período'}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">De</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Até</label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          {isAdmin && (
+            <div className="w-64">
+              <label className="block text-sm font-medium text-gray-700">Profissional</label>
+              <Select value={professionalFilter} onValueChange={setProfessionalFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os profissionais</SelectItem>
+                  {professionals.map((professional) => (
+                    <SelectItem key={professional.id} value={professional.id.toString()}>
+                      {professional.user?.name || `Profissional ${professional.id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-6">
+        {showOverview ? (
+          <Card>
+            <CardContent className="pt-6">
+              {overviewLoading ? (
+                <Loading />
+              ) : overview.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Profissional</TableHead>
+                      <TableHead className="text-right">Atendimentos</TableHead>
+                      <TableHead className="text-right">Valor bruto</TableHead>
+                      <TableHead className="text-right">Ajustes</TableHead>
+                      <TableHead className="text-right">Valor líquido</TableHead>
+                      <TableHead>Situação</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overview.map((row) => (
+                      <TableRow key={row.professional.id}>
+                        <TableCell className="font-medium">{row.professional.name}</TableCell>
+                        <TableCell className="text-right">{row.appointmentsCount}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.grossValue)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(row.adjustmentsValue)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatMoney(row.netValue)}</TableCell>
+                        <TableCell><PayoutStatus payout={row.payout} locked={row.locked} /></TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setProfessionalFilter(row.professional.id.toString())}
+                          >
+                            Ver extrato
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-center py-6 text-gray-500">Nenhum repasse no período.</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : statementLoading || !statement ? (
+          <Loading />
+        ) : (
+          <StatementView
+            key={`${statement.professional.id}-${startDate}-${endDate}`}
+            statement={statement}
+            isAdmin={isAdmin}
+            downloadUrl={statementUrl}
+            startDate={startDate}
+            endDate={endDate}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { HealthPlan, HealthPlanPrice, HealthPlanTier, Procedure } from '@shared/schema';
+import { formatMoney, formatMoneyInput, parseMoney } from '@shared/money';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Plus } from 'lucide-react';
+
+// apiRequest lança "<status>: {json}"; extrai a mensagem do servidor
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return 'Não foi possível concluir a operação';
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message;
+  } catch {
+    return error.message;
+  }
+}
+
+const emptyHealthPlan = { name: '', operator: '', ansRegistry: '' };
+
+// Convênios aceitos pela clínica: operadora, planos e tabela de preços dos procedimentos.
+// Procedimentos fora da tabela são cobrados pelo preço particular
+export default function HealthPlans() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [healthPlan, setHealthPlan] = useState(emptyHealthPlan);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [tierName, setTierName] = useState('');
+  // Preços digitados e ainda não salvos, por procedimento
+  const [priceDrafts, setPriceDrafts] = useState<Record<number, string>>({});
+
+  const { data: healthPlans = [], isLoading } = useQuery<HealthPlan[]>({
+    queryKey: ['/api/health-plans'],
+  });
+  const { data: procedures = [] } = useQuery<Procedure[]>({ queryKey: ['/api/procedures'] });
+  const { data: tiers = [] } = useQuery<HealthPlanTier[]>({
+    queryKey: [`/api/health-plans/${selectedId}/tiers`],
+    enabled: !!selectedId,
+  });
+  const { data: prices = [] } = useQuery<HealthPlanPrice[]>({
+    queryKey: [`/api/health-plans/${selectedId}/prices`],
+    enabled: !!selectedId,
+  });
+
+  const selected = healthPlans.find((item) => item.id === selectedId);
+
+  const openDialog = (item?: HealthPlan) => {
+    setEditingId(item?.id ?? null);
+    setHealthPlan(item
+      ? { name: item.name, operator: item.operator ?? '', ansRegistry: item.ansRegistry ?? '' }
+      : emptyHealthPlan);
+    setIsDialogOpen(true);
+  };
+
+  const saveHealthPlanMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: healthPlan.name.trim(),
+        operator: healthPlan.operator.trim() || null,
+        ansRegistry: healthPlan.ansRegistry.trim() || null,
+      };
+      return editingId
+        ? apiRequest('PUT', `/api/health-plans/${editingId}`, payload)
+        : apiRequest('POST', '/api/health-plans', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/health-plans'] });
+      toast({ title: editingId ? 'Convênio atualizado' : 'Convênio cadastrado' });
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao salvar convênio', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  // Convênios e planos não são excluídos, apenas desativados, pois ficam nos atendimentos e carteirinhas
+  const toggleHealthPlanMutation = useMutation({
+    mutationFn: async (item: HealthPlan) =>
+      apiRequest('PUT', `/api/health-plans/${item.id}`, { isActive: !item.isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/health-plans'] });
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao salvar convênio', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const saveTierMutation = useMutation({
+    mutationFn: async (tier: { id?: number; name?: string; isActive?: boolean }) => {
+      const { id, ...data } = tier;
+      return id
+        ? apiRequest('PUT', `/api/health-plan-tiers/${id}`, data)
+        : apiRequest('POST', `/api/health-plans/${selectedId}/tiers`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/health-plans/${selectedId}/tiers`] });
+      setTierName('');
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao salvar plano', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const savePriceMutation = useMutation({
+    mutationFn: async ({ procedureId, value }: { procedureId: number; value: number | null }) =>
+      value === null
+        ? apiRequest('DELETE', `/api/health-plans/${selectedId}/prices/${procedureId}`)
+        : apiRequest('PUT', `/api/health-plans/${selectedId}/prices/${procedureId}`, { value }),
+    onSuccess: (_, { procedureId }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/health-plans/${selectedId}/prices`] });
+      setPriceDrafts(({ [procedureId]: _saved, ...rest }) => rest);
+    },
+    onError: (error) => {
+      toast({ title: 'Erro ao salvar preço', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const planPrice = (procedureId: number) => prices.find((price) => price.procedureId === procedureId);
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Convênios</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              {healthPlans.length} convênios cadastrados
+            </p>
+          </div>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Convênio
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Lista de Convênios</CardTitle>
+            <CardDescription>
+              Selecione um convênio para ver os planos e a tabela de preços.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : healthPlans.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Operadora</TableHead>
+                    <TableHead>Registro ANS</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {healthPlans.map((item) => (
+                    <TableRow
+                      key={item.id}
+                      className={`cursor-pointer ${item.id === selectedId ? 'bg-gray-50' : ''}`}
+                      onClick={() => {
+                        setSelectedId(item.id);
+                        setPriceDrafts({});
+                      }}
+                    >
+                      <TableCell className="font-medium">{item.name}</TableCell>
+                      <TableCell>{item.operator || '-'}</TableCell>
+                      <TableCell>{item.ansRegistry || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant={item.isActive ? 'default' : 'secondary'}>
+                          {item.isActive ? 'Ativo' : 'Inativo'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2" onClick={(e) => e.stopPropagation()}>
+                        <Button variant="outline" size="sm" onClick={() => openDialog(item)}>
+                          Editar
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={toggleHealthPlanMutation.isPending}
+                          onClick={() => toggleHealthPlanMutation.mutate(item)}
+                        >
+                          {item.isActive ? 'Desativar' : 'Ativar'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Nenhum convênio cadastrado. Todos os atendimentos são particulares.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Planos</CardTitle>
+                <CardDescription>Categorias do {selected.name}, ex.: Enfermaria, Apartamento</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {tiers.length > 0 ? (
+                  <div className="space-y-2">
+                    {tiers.map((tier) => (
+                      <div key={tier.id} className="flex items-center justify-between rounded-md border px-3 py-1 text-sm">
+                        <span className={tier.isActive ? '' : 'text-gray-400 line-through'}>{tier.name}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={saveTierMutation.isPending}
+                          onClick={() => saveTierMutation.mutate({ id: tier.id, isActive: !tier.isActive })}
+                        >
+                          {tier.isActive ? 'Desativar' : 'Ativar'}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Nenhum plano cadastrado.</p>
+                )}
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveTierMutation.mutate({ name: tierName.trim() });
+                  }}
+                >
+                  <Input placeholder="Nome do plano" value={tierName} onChange={(e) => setTierName(e.target.value)} />
+                  <Button type="submit" variant="outline" disabled={!tierName.trim() || saveTierMutation.isPending}>
+                    Adicionar
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Tabela de Preços</CardTitle>
+                <CardDescription>
+                  Valor pago pelo {selected.name} em cada procedimento. Deixe em branco para cobrar o preço particular.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Procedimento</TableHead>
+                      <TableHead className="text-right">Particular</TableHead>
+                      <TableHead className="w-40">Convênio (R$)</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {procedures.map((procedure) => {
+                      const price = planPrice(procedure.id);
+                      const draft = priceDrafts[procedure.id];
+                      const text = draft ?? (price ? formatMoneyInput(price.value) : '');
+                      const value = text.trim() ? parseMoney(text) : null;
+                      const invalid = !!text.trim() && (value === null || value < 0);
+                      return (
+                        <TableRow key={procedure.id}>
+                          <TableCell>{procedure.name}</TableCell>
+                          <TableCell className="text-right">{formatMoney(procedure.value)}</TableCell>
+                          <TableCell>
+                            <Input
+                              inputMode="decimal"
+                              placeholder={formatMoneyInput(procedure.value)}
+                              className={invalid ? 'border-red-500' : ''}
+                              value={text}
+                              onChange={(e) => setPriceDrafts({ ...priceDrafts, [procedure.id]: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {draft !== undefined && (
+                              <Button
+                                size="sm"
+                                disabled={invalid || (!price && value === null) || savePriceMutation.isPending}
+                                onClick={() => savePriceMutation.mutate({ procedureId: procedure.id, value })}
+                              >
+                                Salvar
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar Convênio' : 'Novo Convênio'}</DialogTitle>
+            <DialogDescription>
+              Os dados da operadora constam no cartão do beneficiário e no site da ANS.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveHealthPlanMutation.mutate();
+            }}
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Nome*</label>
+              <Input
+                placeholder="Ex.: Unimed"
+                value={healthPlan.name}
+                onChange={(e) => setHealthPlan({ ...healthPlan, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Operadora (razão social)</label>
+              <Input
+                value={healthPlan.operator}
+                onChange={(e) => setHealthPlan({ ...healthPlan, operator: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Registro ANS</label>
+              <Input
+                inputMode="numeric"
+                maxLength={6}
+                placeholder="000000"
+                value={healthPlan.ansRegistry}
+                onChange={(e) => setHealthPlan({ ...healthPlan, ansRegistry: e.target.value })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={!healthPlan.name.trim() || saveHealthPlanMutation.isPending}>
+                {saveHealthPlanMutation.isPending ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import type { KioskCheckInResult, KioskLookupResult } from '@shared/kiosk';
+import type { KioskIdentity } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CheckCircle, QrCode, UserRound } from 'lucide-react';
+
+// Tempo até o totem voltar à tela inicial depois de concluir ou encaminhar à recepção
+const RESET_AFTER_MS = 10000;
+
+type KioskFound = Extract<KioskLookupResult, { status: 'found' }>;
+
+type KioskStep =
+  | { step: 'identify' }
+  | { step: 'confirm'; identity: KioskIdentity; result: KioskFound }
+  | { step: 'done'; result: KioskCheckInResult }
+  | { step: 'front_desk'; message: string };
+
+// apiRequest lança "<status>: {json}"; extrai a mensagem do servidor
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return 'Não foi possível concluir. Procure a recepção.';
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message;
+  } catch {
+    return 'Não foi possível concluir. Procure a recepção.';
+  }
+}
+
+// Totem de autoatendimento da recepção. Abre sem login em /kiosk?token=...; o paciente
+// se identifica, confirma os contatos e faz o próprio check-in
+export default function Kiosk() {
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+  const [state, setState] = useState<KioskStep>({ step: 'identify' });
+  const [useCode, setUseCode] = useState(false);
+  const [cpf, setCpf] = useState('');
+  const [birthDate, setBirthDate] = useState('');
+  const [code, setCode] = useState('');
+  const [updateContacts, setUpdateContacts] = useState(false);
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setState({ step: 'identify' });
+    setCpf('');
+    setBirthDate('');
+    setCode('');
+    setUpdateContacts(false);
+    setPhone('');
+    setEmail('');
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (state.step !== 'done' && state.step !== 'front_desk') return;
+    const timer = setTimeout(reset, RESET_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [state.step]);
+
+  const lookupMutation = useMutation({
+    mutationFn: async (identity: KioskIdentity) => {
+      const res = await apiRequest('POST', `/api/kiosk/lookup?token=${encodeURIComponent(token)}`, identity);
+      return { identity, result: (await res.json()) as KioskLookupResult };
+    },
+    onSuccess: ({ identity, result }) => {
+      setError(null);
+      setState(result.status === 'found'
+        ? { step: 'confirm', identity, result }
+        : { step: 'front_desk', message: result.message });
+    },
+    onError: (error) => setError(errorMessage(error)),
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async ({ identity, appointmentId }: { identity: KioskIdentity; appointmentId: number }) => {
+      const res = await apiRequest('POST', `/api/kiosk/check-in?token=${encodeURIComponent(token)}`, {
+        ...identity,
+        appointmentId,
+        phone: updateContacts && phone ? phone : undefined,
+        email: updateContacts && email ? email : undefined,
+      });
+      return (await res.json()) as KioskCheckInResult;
+    },
+    onSuccess: (result) => {
+      setError(null);
+      setState({ step: 'done', result });
+    },
+    onError: (error) => setError(errorMessage(error)),
+  });
+
+  const handleIdentify = (e: React.FormEvent) => {
+    e.preventDefault();
+    lookupMutation.mutate(useCode ? { code } : { cpf, birthDate });
+  };
+
+  if (!token) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-100 text-2xl text-gray-700">
+        Totem não autorizado. Verifique o endereço configurado neste equipamento.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-8">
+      <div className="w-full max-w-2xl bg-white rounded-2xl shadow-lg p-10 space-y-8">
+        {state.step === 'identify' && (
+          <form onSubmit={handleIdentify} className="space-y-6">
+            <div className="text-center">
+              <h1 className="text-3xl font-semibold text-gray-900">Bem-vindo! Faça seu check-in</h1>
+              <p className="mt-2 text-lg text-gray-500">
+                {useCode
+                  ? 'Aproxime o QR code da confirmação do leitor ou digite o código.'
+                  : 'Informe seu CPF e sua data de nascimento.'}
+              </p>
+            </div>
+
+            {useCode ? (
+              <Input
+                autoFocus
+                className="h-14 text-2xl text-center"
+                placeholder="Código de check-in"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            ) : (
+              <div className="space-y-4">
+                <Input
+                  autoFocus
+                  inputMode="numeric"
+                  className="h-14 text-2xl"
+                  placeholder="CPF"
+                  value={cpf}
+                  onChange={(e) => setCpf(e.target.value)}
+                />
+                <Input
+                  type="date"
+                  className="h-14 text-2xl"
+                  value={birthDate}
+                  onChange={(e) => setBirthDate(e.target.value)}
+                />
+              </div>
+            )}
+
+            {error && <p className="text-center text-lg text-destructive">{error}</p>}
+
+            <Button
+              type="submit"
+              className="w-full h-14 text-xl"
+              disabled={lookupMutation.isPending || (useCode ? !code : !cpf || !birthDate)}
+            >
+              {lookupMutation.isPending ? 'Buscando...' : 'Continuar'}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full text-lg"
+              onClick={() => {
+                setUseCode(!useCode);
+                setError(null);
+              }}
+            >
+              {useCode ? (
+                <><UserRound className="mr-2 h-5 w-5" /> Usar CPF e data de nascimento</>
+              ) : (
+                <><QrCode className="mr-2 h-5 w-5" /> Tenho o QR code da confirmação</>
+              )}
+            </Button>
+          </form>
+        )}
+
+        {state.step === 'confirm' && (
+          <div className="space-y-6">
+            <div className="text-center">
+              <h1 className="text-3xl font-semibold text-gray-900">Olá, {state.result.patientName}!</h1>
+              <p className="mt-2 text-lg text-gray-500">Confira seus contatos e confirme sua chegada.</p>
+            </div>
+
+            <div className="rounded-lg border p-4 space-y-2 text-lg">
+              <div>Telefone: {state.result.maskedPhone ?? 'não informado'}</div>
+              <div>E-mail: {state.result.maskedEmail ?? 'não informado'}</div>
+              {updateContacts ? (
+                <div className="space-y-3 pt-2">
+                  <Input
+                    inputMode="tel"
+                    className="h-12 text-lg"
+                    placeholder="Novo telefone (opcional)"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                  />
+                  <Input
+                    type="email"
+                    className="h-12 text-lg"
+                    placeholder="Novo e-mail (opcional)"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <Button variant="link" className="px-0 text-lg" onClick={() => setUpdateContacts(true)}>
+                  Meus contatos mudaram
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              {state.result.appointments.map((appointment) => (
+                <div key={appointment.id} className="flex items-center justify-between rounded-lg border p-4">
+                  <div>
+                    <div className="text-2xl font-semibold">{format(new Date(appointment.date), 'HH:mm')}</div>
+                    <div className="text-lg text-gray-600">{appointment.professionalName}</div>
+                  </div>
+                  {appointment.status === 'waiting' ? (
+                    <span className="text-lg text-green-700">Check-in já realizado</span>
+                  ) : (
+                    <Button
+                      className="h-14 px-8 text-xl"
+                      disabled={checkInMutation.isPending}
+                      onClick={() =>
+                        checkInMutation.mutate({ identity: state.identity, appointmentId: appointment.id })
+                      }
+                    >
+                      Confirmar chegada
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-center text-lg text-destructive">{error}</p>}
+
+            <Button variant="ghost" className="w-full text-lg" onClick={reset}>
+              Voltar
+            </Button>
+          </div>
+        )}
+
+        {state.step === 'done' && (
+          <div className="text-center space-y-4">
+            <CheckCircle className="mx-auto h-20 w-20 text-green-600" />
+            <h1 className="text-3xl font-semibold text-gray-900">
+              Tudo certo, {state.result.patientName}!
+            </h1>
+            <p className="text-xl text-gray-600">
+              Aguarde ser chamado pelo painel
+              {state.result.appointment.room ? ` para o ${state.result.appointment.room}` : ''}.
+            </p>
+            <Button variant="outline" className="text-lg" onClick={reset}>
+              Concluir
+            </Button>
+          </div>
+        )}
+
+        {state.step === 'front_desk' && (
+          <div className="text-center space-y-4">
+            <UserRound className="mx-auto h-20 w-20 text-amber-500" />
+            <h1 className="text-3xl font-semibold text-gray-900">Procure a recepção</h1>
+            <p className="text-xl text-gray-600">{state.message}</p>
+            <Button variant="outline" className="text-lg" onClick={reset}>
+              Voltar
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
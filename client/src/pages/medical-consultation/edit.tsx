@@ -5,6 +5,8 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { evolutionFormSchema } from "@shared/schema";
+import type { FinancialQuote } from "@shared/financial";
+import { formatMoney } from "@shared/money";
 import { z } from "zod";
 
 import {
@@ -75,7 +77,8 @@ export default function MedicalConsultationEdit() {
     id: proc.id,
     name: proc.name,
     value: proc.value,
-    checked: proc.id === (appointment?.procedureId || 0)
+    // Começa com os procedimentos agendados; os marcados ao concluir substituem a lista do agendamento
+    checked: (appointment?.procedures || []).some((booked: any) => booked.id === proc.id)
   }));
 
   // Form setup
@@ -117,6 +120,7 @@ export default function MedicalConsultationEdit() {
       const dataToSave = {
         ...evolutionData,
         appointmentId,
+        procedureIds: (procedures || []).filter((procedure) => procedure.checked).map((procedure) => procedure.id),
         patientId: appointment?.patientId || evolutionData.patientId,
         professionalId: appointment?.professionalId || evolutionData.professionalId,
         symptoms: evolutionData.symptoms || null,
@@ -139,29 +143,8 @@ export default function MedicalConsultationEdit() {
         });
         console.log("Resposta da atualização de status:", statusResponse.status);
         
-        // Calculate financial values
-        const selectedProcedures = procedures?.filter(p => p.checked) || [];
-        const totalValue = selectedProcedures.reduce((sum, proc) => sum + proc.value, 0);
-        
-        // Get professional commission rate
-        const professional = appointment?.professional;
-        const commissionRate = professional?.commission || 0.2; // Default 20% if not set
-        
-        const clinicCommission = totalValue * commissionRate;
-        const professionalValue = totalValue - clinicCommission;
-        
-        // Create financial record
-        const financialRecord = {
-          appointmentId,
-          professionalId: evolution.professionalId,
-          totalValue,
-          clinicCommission,
-          professionalValue
-        };
-        
-        console.log("Registro financeiro a criar:", financialRecord);
-        
-        const financialResponse = await apiRequest("POST", "/api/financial-records", financialRecord);
+        // Registro financeiro do atendimento, calculado no servidor a partir dos procedimentos
+        const financialResponse = await apiRequest("POST", "/api/financial-records", { appointmentId });
         console.log("Resposta da criação financeira:", financialResponse.status);
         
         return evolution;
@@ -206,13 +189,15 @@ export default function MedicalConsultationEdit() {
     saveEvolutionMutation.mutate(form.getValues());
   };
 
-  // Calculate total from selected procedures
-  const calculateTotal = () => {
-    const procedures = form.getValues().procedures || [];
-    return procedures
-      .filter(p => p.checked)
-      .reduce((sum, proc) => sum + proc.value, 0);
-  };
+  // Valor dos procedimentos marcados, calculado no servidor pelas mesmas regras da conclusão
+  const checkedProcedureIds = (form.watch("procedures") || [])
+    .filter(p => p.checked)
+    .map(p => p.id);
+  const { data: quote } = useQuery<FinancialQuote>({
+    queryKey: [`/api/appointments/${appointmentId}/quote?procedureIds=${checkedProcedureIds.join(",")}`],
+    enabled: !!appointmentId && checkedProcedureIds.length > 0,
+  });
+  const totalValue = checkedProcedureIds.length > 0 ? quote?.totalValue ?? 0 : 0;
 
   if (appointmentLoading || proceduresLoading) {
     return (
@@ -366,7 +351,7 @@ export default function MedicalConsultationEdit() {
                         />
                       </div>
                       <div className="text-sm text-gray-700">
-                        R$ {procedure.value.toFixed(2)}
+                        {formatMoney(procedure.value)}
                       </div>
                     </div>
                   ))}
@@ -376,7 +361,7 @@ export default function MedicalConsultationEdit() {
               {/* Total */}
               <div className="flex justify-end pt-2 border-t border-gray-200">
                 <div className="text-lg font-semibold">
-                  Total: R$ {calculateTotal().toFixed(2)}
+                  Total: {formatMoney(totalValue)}
                 </div>
               </div>
               
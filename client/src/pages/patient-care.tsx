@@ -8,6 +8,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { insertEvolutionSchema, insertFinancialRecordSchema } from '@shared/schema';
+import type { FinancialQuote } from '@shared/financial';
+import { formatMoney } from '@shared/money';
 
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -119,33 +121,8 @@ export default function PatientCare() {
         });
       }
       
-      // Atualizando o status para completado - O módulo financeiro está temporariamente desativado
-      
-      /* MÓDULO FINANCEIRO - Comentado para implementação futura
-      // Calculate financial values
-      const totalValue = selectedProcedures.reduce((sum: number, proc: any) => sum + proc.value, 0);
-      
-      // Get professional commission rate
-      const professional = appointment?.professional;
-      const commissionRate = professional?.commission || 0.2; // Default 20% if not set
-      
-      const clinicCommission = totalValue * commissionRate;
-      const professionalValue = totalValue - clinicCommission;
-      */
-      
-      // Create simplified financial record (apenas para finalizar o atendimento)
-      const financialRecord = {
-        appointmentId,
-        professionalId: evolution.professionalId,
-        totalValue: 0,
-        clinicCommission: 0,
-        professionalValue: 0
-      };
-      
-      console.log("Registro para finalizar atendimento:", financialRecord);
-      
-      // Envia para a API temporária que apenas finaliza o atendimento
-      await apiRequest('POST', '/api/financial-records', financialRecord);
+      // Conclui o atendimento; o servidor gera o registro financeiro a partir dos procedimentos
+      await apiRequest('POST', '/api/financial-records', { appointmentId });
       
       return evolution;
     },
@@ -222,13 +199,15 @@ export default function PatientCare() {
     saveEvolutionMutation.mutate(dataToSubmit);
   };
   
-  // Calculate total from selected procedures
-  const calculateTotal = () => {
-    const procedures = form.getValues().procedures;
-    return procedures
-      .filter(p => p.checked)
-      .reduce((sum, proc) => sum + proc.value, 0);
-  };
+  // Valor dos procedimentos marcados, calculado no servidor pelas mesmas regras da conclusão
+  const checkedProcedureIds = (form.watch('procedures') || [])
+    .filter(p => p.checked)
+    .map(p => p.id);
+  const { data: quote } = useQuery<FinancialQuote>({
+    queryKey: [`/api/appointments/${appointmentId}/quote?procedureIds=${checkedProcedureIds.join(',')}`],
+    enabled: !!appointmentId && checkedProcedureIds.length > 0,
+  });
+  const totalValue = checkedProcedureIds.length > 0 ? quote?.totalValue ?? 0 : 0;
 
   if (appointmentLoading || proceduresLoading) {
     return (
@@ -369,7 +348,7 @@ export default function PatientCare() {
                               />
                             </div>
                             <div className="text-sm text-gray-700">
-                              R$ {procedure.value.toFixed(2)}
+                              {formatMoney(procedure.value)}
                             </div>
                           </div>
                         ))}
@@ -379,7 +358,7 @@ export default function PatientCare() {
                     {/* Total */}
                     <div className="flex justify-end pt-2 border-t border-gray-200">
                       <div className="text-lg font-semibold">
-                        Total: R$ {calculateTotal().toFixed(2)}
+                        Total: {formatMoney(totalValue)}
                       </div>
                     </div>
                     
@@ -11,7 +11,8 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/hooks/use-auth";
-import { Loader2, ArrowLeft, Edit, UserRound, Calendar, Phone, Mail, MapPin, ClipboardList, Briefcase, IdCard } from "lucide-react";
+import HealthPlanCards from "@/components/patients/HealthPlanCards";
+import { Loader2, ArrowLeft, Edit, UserRound, Calendar, Phone, Mail, MapPin, ClipboardList, Briefcase, IdCard, CalendarX } from "lucide-react";
 import { getQueryFn } from "@/lib/queryClient";
 import { Patient } from "@shared/schema";
 import { format } from "date-fns";
@@ -30,6 +31,12 @@ export default function PatientView() {
     enabled: !!patientId && !isNaN(patientId),
   });
 
+  // Frequência do paciente nos agendamentos (faltas e cancelamentos)
+  const { data: attendance } = useQuery<{ total: number; completed: number; noShows: number; cancelled: number }>({
+    queryKey: [`/api/patients/${patientId}/attendance`],
+    enabled: !!patientId && !isNaN(patientId),
+  });
+
   // Função para formatar data legível
   const formatDate = (date: Date | string | null) => {
     if (!date) return "Não informado";
@@ -245,6 +252,46 @@ export default function PatientView() {
             </CardContent>
           </Card>
           
+          <HealthPlanCards
+            patientId={patient.id}
+            canEdit={user?.role === 'admin' || user?.role === 'recepcionista'}
+          />
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center text-base">
+                <CalendarX className="mr-2 h-4 w-4" />
+                Comparecimento
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-3">
+              {attendance ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <h3 className="text-xs font-medium text-muted-foreground">Agendamentos</h3>
+                    <p className="mt-1">{attendance.total}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-medium text-muted-foreground">Atendidos</h3>
+                    <p className="mt-1">{attendance.completed}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-medium text-muted-foreground">Faltas</h3>
+                    <p className={`mt-1 ${attendance.noShows > 0 ? "font-semibold text-destructive" : ""}`}>
+                      {attendance.noShows}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-medium text-muted-foreground">Cancelamentos</h3>
+                    <p className="mt-1">{attendance.cancelled}</p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-muted-foreground">Carregando...</p>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="flex items-center text-base">
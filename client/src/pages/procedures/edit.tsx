@@ -35,6 +35,8 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { ArrowLeft, Loader2 } from "lucide-react";
+import type { Resource } from "@shared/schema";
+import { formatMoneyInput, parseMoney } from "@shared/money";
 
 // Esquema de validação do formulário
 const procedureFormSchema = z.object({
@@ -42,8 +44,12 @@ const procedureFormSchema = z.object({
   type: z.enum(["consultation", "exam", "procedure"], {
     required_error: "O tipo do procedimento é obrigatório",
   }),
-  value: z.coerce.number().min(0, "O valor não pode ser negativo"),
+  // Digitado em reais; enviado em centavos
+  value: z.string().refine((value) => (parseMoney(value) ?? -1) >= 0, "Informe um valor válido"),
   description: z.string().optional(),
+  durationMinutes: z.number().int().min(5, "Duração mínima de 5 minutos").max(720).nullable(),
+  resourceIds: z.array(z.number()),
+  preparationInstructions: z.string().optional(),
 });
 
 type ProcedureFormValues = z.infer<typeof procedureFormSchema>;
@@ -67,34 +73,28 @@ export default function ProcedureEdit() {
 
   // Buscar dados do procedimento
   const { data: procedure, isLoading, error } = useQuery<any>({
-    queryKey: ['/api/procedures', id],
+    queryKey: [`/api/procedures/${id}`],
     queryFn: getQueryFn({ on401: 'throw' }),
   });
 
+  const { data: resources = [] } = useQuery<Resource[]>({
+    queryKey: ['/api/resources'],
+  });
+
   // Configuração do formulário
   const form = useForm<ProcedureFormValues>({
     resolver: zodResolver(procedureFormSchema),
     defaultValues: {
       name: "",
       type: "consultation",
-      value: 0,
+      value: "",
       description: "",
+      durationMinutes: null,
+      resourceIds: [],
+      preparationInstructions: "",
     },
   });
 
-  // Função para formatar valor monetário para exibição
-  const formatCurrency = (value: number): string => {
-    return value.toLocaleString('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    });
-  };
-
-  // Função para converter string monetária para número
-  const parseCurrency = (value: string): number => {
-    return parseFloat(value.replace(/[^\d,.-]/g, '').replace(',', '.')) || 0;
-  };
-
   // Atualizar valores do formulário quando os dados do procedimento forem carregados
   useEffect(() => {
     if (procedure) {
@@ -103,8 +103,11 @@ export default function ProcedureEdit() {
       form.reset({
         name: procedure.name,
         type: procedure.type,
-        value: procedure.value,
+        value: formatMoneyInput(procedure.value),
         description: procedure.description || "",
+        durationMinutes: procedure.durationMinutes ?? null,
+        resourceIds: (procedure.resources || []).map((resource: Resource) => resource.id),
+        preparationInstructions: procedure.preparationInstructions || "",
       });
     }
   }, [procedure, form]);
@@ -112,7 +115,12 @@ export default function ProcedureEdit() {
   // Mutação para atualizar o procedimento
   const updateMutation = useMutation({
     mutationFn: async (data: ProcedureFormValues) => {
-      const response = await apiRequest("PUT", `/api/procedures/${id}`, data);
+      // Campos de texto vazios são gravados como nulos
+      const response = await apiRequest("PUT", `/api/procedures/${id}`, {
+        ...data,
+        value: parseMoney(data.value),
+        preparationInstructions: data.preparationInstructions || null,
+      });
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || "Erro ao atualizar procedimento");
@@ -126,7 +134,7 @@ export default function ProcedureEdit() {
         variant: "default",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/procedures'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/procedures', id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/procedures/${id}`] });
       setLocation("/procedures");
     },
     onError: (error) => {
@@ -260,12 +268,9 @@ export default function ProcedureEdit() {
                       <FormLabel>Valor (R$)</FormLabel>
                       <FormControl>
                         <Input 
-                          type="number" 
-                          min="0" 
-                          step="0.01"
-                          placeholder="Valor do procedimento" 
+                          inputMode="decimal"
+                          placeholder="0,00" 
                           {...field} 
-                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                         />
                       </FormControl>
                       <FormMessage />
@@ -291,6 +296,85 @@ export default function ProcedureEdit() {
                     </FormItem>
                   )}
                 />
+                
+                <FormField
+                  control={form.control}
+                  name="durationMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duração Padrão (min)</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          min="5" 
+                          step="5"
+                          placeholder="Usa a duração da agenda do profissional" 
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Usada para calcular o término dos agendamentos
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="resourceIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Salas e Equipamentos Necessários</FormLabel>
+                      <div className="border border-gray-200 rounded-md p-3 space-y-2 max-h-48 overflow-y-auto">
+                        {resources.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">Nenhum recurso cadastrado.</p>
+                        ) : resources.map((resource) => (
+                          <div key={resource.id} className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              id={`resource-${resource.id}`}
+                              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                              checked={field.value.includes(resource.id)}
+                              onChange={(e) => field.onChange(
+                                e.target.checked
+                                  ? [...field.value, resource.id]
+                                  : field.value.filter((id) => id !== resource.id)
+                              )}
+                            />
+                            <label htmlFor={`resource-${resource.id}`} className="text-sm text-gray-700">
+                              {resource.name} ({resource.type === "room" ? "Sala" : "Equipamento"})
+                              {!resource.isActive && " - desativado"}
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                      <FormDescription>
+                        Reservados automaticamente ao agendar este procedimento
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="preparationInstructions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Instruções de Preparo</FormLabel>
+                      <FormControl>
+                        <Textarea 
+                          placeholder="Orientações ao paciente antes do procedimento" 
+                          className="resize-none" 
+                          {...field} 
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
               
               <div className="flex justify-end">
@@ -60,11 +60,13 @@ import {
   DollarSign
 } from 'lucide-react';
 import { z } from 'zod';
+import { formatMoneyNumber, parseMoney } from '@shared/money';
 
 // Create a form schema
+// O valor é digitado em reais e enviado em centavos
 const procedureFormSchema = insertProcedureSchema.extend({
   value: insertProcedureSchema.shape.value.or(
-    z.string().regex(/^\d*\.?\d*$/).transform(val => parseFloat(val) || 0)
+    z.string().regex(/^\d*[.,]?\d{0,2}$/, 'Informe um valor válido').transform(val => parseMoney(val) ?? 0)
   ),
 });
 
@@ -95,6 +97,8 @@ export default function Procedures() {
       description: '',
       type: 'consultation',
       value: '',
+      durationMinutes: null,
+      preparationInstructions: '',
     },
   });
   
@@ -103,7 +107,8 @@ export default function Procedures() {
     mutationFn: async (data: ProcedureFormValues) => {
       return apiRequest('POST', '/api/procedures', {
         ...data,
-        value: typeof data.value === 'string' ? parseFloat(data.value) : data.value,
+        value: typeof data.value === 'string' ? parseMoney(data.value) ?? 0 : data.value,
+        preparationInstructions: data.preparationInstructions || null,
       });
     },
     onSuccess: () => {
@@ -240,11 +245,11 @@ export default function Procedures() {
                           <FormLabel>Valor (R$)*</FormLabel>
                           <FormControl>
                             <Input 
-                              placeholder="0.00" 
+                              placeholder="0,00" 
                               {...field}
                               onChange={(e) => {
-                                // Allow only numbers and decimal point
-                                const value = e.target.value.replace(/[^0-9.]/g, '');
+                                // Apenas números e separador decimal
+                                const value = e.target.value.replace(/[^0-9.,]/g, '');
                                 field.onChange(value);
                               }}
                             />
@@ -265,6 +270,46 @@ export default function Procedures() {
                               placeholder="Descrição do procedimento" 
                               className="min-h-[100px]"
                               {...field} 
+                              value={field.value || ''}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="durationMinutes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Duração padrão (min)</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number"
+                              min="5"
+                              step="5"
+                              placeholder="Usa a duração da agenda do profissional" 
+                              value={field.value ?? ''}
+                              onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="preparationInstructions"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Instruções de preparo</FormLabel>
+                          <FormControl>
+                            <Textarea 
+                              placeholder="Orientações ao paciente antes do procedimento" 
+                              {...field} 
+                              value={field.value || ''}
                             />
                           </FormControl>
                           <FormMessage />
@@ -337,6 +382,7 @@ export default function Procedures() {
                     <TableHead>Nome</TableHead>
                     <TableHead>Tipo</TableHead>
                     <TableHead>Descrição</TableHead>
+                    <TableHead>Duração</TableHead>
                     <TableHead>Valor</TableHead>
                     {user?.role === 'admin' && (
                       <TableHead className="text-right">Ações</TableHead>
@@ -356,10 +402,13 @@ export default function Procedures() {
                       <TableCell className="max-w-xs truncate">
                         {procedure.description || '-'}
                       </TableCell>
+                      <TableCell>
+                        {procedure.durationMinutes ? `${procedure.durationMinutes} min` : '-'}
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center">
                           <DollarSign className="h-4 w-4 text-gray-500" />
-                          {procedure.value.toFixed(2)}
+                          {formatMoneyNumber(procedure.value)}
                         </div>
                       </TableCell>
                       {user?.role === 'admin' && (
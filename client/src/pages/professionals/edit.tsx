@@ -27,12 +27,14 @@ import {
   CardTitle 
 } from "@/components/ui/card";
 import { ArrowLeft, Loader2 } from "lucide-react";
+import ScheduleEditor from "@/components/professionals/ScheduleEditor";
 
 // Esquema de validação do formulário
 const professionalFormSchema = z.object({
   // Campos do profissional
   specialty: z.string().min(3, "A especialidade deve ter pelo menos 3 caracteres"),
   commission: z.coerce.number().min(0, "A comissão não pode ser negativa").max(100, "A comissão não pode exceder 100%"),
+  room: z.string().optional(),
   
   // Campos do usuário associado
   name: z.string().min(3, "O nome deve ter pelo menos 3 caracteres"),
@@ -60,7 +62,7 @@ export default function ProfessionalEdit() {
 
   // Buscar dados do profissional
   const { data, isLoading, error } = useQuery<any>({
-    queryKey: ['/api/professionals', id],
+    queryKey: [`/api/professionals/${id}`],
     queryFn: getQueryFn({ on401: 'throw' }),
   });
 
@@ -74,6 +76,7 @@ export default function ProfessionalEdit() {
     defaultValues: {
       specialty: "",
       commission: 0,
+      room: "",
       name: "",
       email: ""
     },
@@ -87,6 +90,7 @@ export default function ProfessionalEdit() {
       form.reset({
         specialty: professional.specialty,
         commission: professional.commission,
+        room: professional.room ?? "",
         name: userData.name,
         email: userData.email
       });
@@ -99,7 +103,8 @@ export default function ProfessionalEdit() {
       const payload = {
         professional: {
           specialty: data.specialty,
-          commission: data.commission
+          commission: data.commission,
+          room: data.room || null
         },
         user: {
           name: data.name,
@@ -121,7 +126,7 @@ export default function ProfessionalEdit() {
         variant: "default",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/professionals'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/professionals', id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/professionals/${id}`] });
       setLocation("/professionals");
     },
     onError: (error) => {
@@ -270,6 +275,23 @@ export default function ProfessionalEdit() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="room"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Consultório</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Ex.: Consultório 2" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Anunciado no painel da sala de espera quando o paciente é chamado
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
               
               <div className="flex justify-end">
@@ -295,6 +317,8 @@ export default function ProfessionalEdit() {
           </Form>
         </CardContent>
       </Card>
+
+      <ScheduleEditor professionalId={id} />
     </div>
   );
 }
\ No newline at end of file
@@ -41,7 +41,7 @@ const professionalFormSchema = z.object({
   commission: z
     .number()
     .min(0, "Comissão não pode ser negativa")
-    .max(1, "Comissão não pode ser maior que 100%")
+    .max(100, "Comissão não pode ser maior que 100%")
     .or(
       z
         .string()
@@ -66,7 +66,7 @@ export default function ProfessionalRegister() {
       password: "",
       phone: "",
       specialty: "",
-      commission: 0.2, // Default 20%
+      commission: 20, // Default 20%
     },
   });
 
@@ -280,14 +280,9 @@ export default function ProfessionalRegister() {
                               step="1"
                               onChange={(e) => {
                                 const value = parseInt(e.target.value);
-                                // Convert percentage to decimal
-                                field.onChange(isNaN(value) ? 0 : value / 100);
+                                field.onChange(isNaN(value) ? 0 : value);
                               }}
-                              value={
-                                typeof field.value === "number"
-                                  ? (field.value * 100).toString()
-                                  : field.value
-                              }
+                              value={field.value.toString()}
                             />
                           </FormControl>
                           <FormDescription>
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import type { WaitTimeReport, WaitTimeSummary } from '@shared/wait-metrics';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+
+const minutes = (value: number | null) => (value === null ? '-' : `${value} min`);
+
+function SummaryCells({ summary }: { summary: WaitTimeSummary }) {
+  return (
+    <>
+      <TableCell className="text-right">{summary.attended}</TableCell>
+      <TableCell className="text-right">{minutes(summary.averageWaitMinutes)}</TableCell>
+      <TableCell className="text-right">{minutes(summary.maxWaitMinutes)}</TableCell>
+      <TableCell className="text-right">{minutes(summary.averageConsultationMinutes)}</TableCell>
+    </>
+  );
+}
+
+function SummaryHeads() {
+  return (
+    <>
+      <TableHead className="text-right">Atendidos</TableHead>
+      <TableHead className="text-right">Espera média</TableHead>
+      <TableHead className="text-right">Maior espera</TableHead>
+      <TableHead className="text-right">Consulta média</TableHead>
+    </>
+  );
+}
+
+// Relatório de tempos de espera (chegada até o início do atendimento) e de consulta
+export default function WaitTimesReport() {
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [professionalId, setProfessionalId] = useState('all');
+
+  const { data: professionals = [] } = useQuery<any[]>({ queryKey: ['/api/professionals'] });
+
+  const params = new URLSearchParams({ startDate, endDate });
+  if (professionalId !== 'all') params.append('professionalId', professionalId);
+  const { data: report, isLoading } = useQuery<WaitTimeReport>({
+    queryKey: [`/api/reports/wait-times?${params.toString()}`],
+    enabled: !!startDate && !!endDate,
+  });
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Tempos de Espera</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Espera entre a chegada (check-in) e o início do atendimento, e duração das consultas
+        </p>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-6 space-y-6">
+        <div className="flex flex-wrap gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">De</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Até</label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <div className="w-64">
+            <label className="block text-sm font-medium text-gray-700">Profissional</label>
+            <Select value={professionalId} onValueChange={setProfessionalId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {professionals.map((professional) => (
+                  <SelectItem key={professional.id} value={professional.id.toString()}>
+                    {professional.user?.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Atendidos</CardDescription>
+                  <CardTitle className="text-2xl">{report.overall.attended}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Espera média</CardDescription>
+                  <CardTitle className="text-2xl">{minutes(report.overall.averageWaitMinutes)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Maior espera</CardDescription>
+                  <CardTitle className="text-2xl">{minutes(report.overall.maxWaitMinutes)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Consulta média</CardDescription>
+                  <CardTitle className="text-2xl">{minutes(report.overall.averageConsultationMinutes)}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Por profissional</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.professionals.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Profissional</TableHead>
+                        <SummaryHeads />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.professionals.map((row) => (
+                        <TableRow key={row.professionalId}>
+                          <TableCell className="font-medium">{row.professionalName}</TableCell>
+                          <SummaryCells summary={row} />
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center py-6 text-gray-500">Nenhum atendimento no período.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Por dia</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.daily.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <SummaryHeads />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.daily.map((row) => (
+                        <TableRow key={row.date}>
+                          <TableCell className="font-medium">
+                            {format(new Date(`${row.date}T00:00:00`), 'dd/MM/yyyy')}
+                          </TableCell>
+                          <SummaryCells summary={row} />
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center py-6 text-gray-500">Nenhum atendimento no período.</p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
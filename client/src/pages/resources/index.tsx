@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { insertResourceSchema, type InsertResource, type Resource } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from '@/components/ui/textarea';
+import { DoorOpen, Monitor, Plus } from 'lucide-react';
+
+const emptyResource: InsertResource = {
+  name: '',
+  type: 'room',
+  description: '',
+  isActive: true,
+};
+
+export default function Resources() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: resources = [], isLoading } = useQuery<Resource[]>({
+    queryKey: ['/api/resources'],
+  });
+
+  const form = useForm<InsertResource>({
+    resolver: zodResolver(insertResourceSchema),
+    defaultValues: emptyResource,
+  });
+
+  const openDialog = (resource?: Resource) => {
+    setEditingId(resource?.id ?? null);
+    form.reset(resource
+      ? { name: resource.name, type: resource.type, description: resource.description ?? '', isActive: resource.isActive }
+      : emptyResource);
+    setIsDialogOpen(true);
+  };
+
+  const onMutationError = (error: unknown) => {
+    toast({
+      title: 'Erro',
+      description: error instanceof Error ? error.message : 'Erro ao salvar o recurso',
+      variant: 'destructive',
+    });
+  };
+
+  const saveResourceMutation = useMutation({
+    mutationFn: async (data: InsertResource) => {
+      const payload = { ...data, description: data.description || null };
+      return editingId
+        ? apiRequest('PUT', `/api/resources/${editingId}`, payload)
+        : apiRequest('POST', '/api/resources', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/resources'] });
+      toast({
+        title: editingId ? 'Recurso atualizado' : 'Recurso criado',
+        description: 'A sala/equipamento foi salvo com sucesso.',
+      });
+      setIsDialogOpen(false);
+    },
+    onError: onMutationError,
+  });
+
+  // Recursos não são excluídos, apenas desativados, para manter o histórico de reservas
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (resource: Resource) => {
+      return apiRequest('PUT', `/api/resources/${resource.id}`, { isActive: !resource.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/resources'] });
+    },
+    onError: onMutationError,
+  });
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Salas e Equipamentos</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              {resources.length} recursos cadastrados
+            </p>
+          </div>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Recurso
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Lista de Recursos</CardTitle>
+            <CardDescription>
+              Salas e equipamentos reservados pelos agendamentos. A agenda de cada recurso pode ser vista no calendário de agendamentos.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : resources.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {resources.map((resource) => (
+                    <TableRow key={resource.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center">
+                          {resource.type === 'room'
+                            ? <DoorOpen className="h-4 w-4 text-blue-500" />
+                            : <Monitor className="h-4 w-4 text-green-500" />}
+                          <span className="ml-2">{resource.name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{resource.type === 'room' ? 'Sala' : 'Equipamento'}</TableCell>
+                      <TableCell className="max-w-xs truncate">
+                        {resource.description || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={resource.isActive ? 'default' : 'secondary'}>
+                          {resource.isActive ? 'Ativo' : 'Inativo'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openDialog(resource)}>
+                          Editar
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={toggleActiveMutation.isPending}
+                          onClick={() => toggleActiveMutation.mutate(resource)}
+                        >
+                          {resource.isActive ? 'Desativar' : 'Ativar'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Nenhum recurso cadastrado.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar Recurso' : 'Novo Recurso'}</DialogTitle>
+            <DialogDescription>
+              Cadastre uma sala ou equipamento que precisa ser reservado nos agendamentos.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveResourceMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome*</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex.: Sala de endoscopia" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo*</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o tipo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="room">Sala</SelectItem>
+                        <SelectItem value="equipment">Equipamento</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descrição</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Localização, observações de uso..."
+                        {...field}
+                        value={field.value || ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveResourceMutation.isPending}>
+                  {saveResourceMutation.isPending ? 'Salvando...' : 'Salvar'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
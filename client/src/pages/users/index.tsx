@@ -88,7 +88,7 @@ type UserFormValues = z.infer<typeof userFormSchema>;
 
 const medicalUserSchema = z.object({
   specialty: z.string().min(1, "Especialidade é obrigatória"),
-  commission: z.number().min(0, "Comissão deve ser maior ou igual a 0"),
+  commission: z.coerce.number().min(0, "Comissão deve ser maior ou igual a 0").max(100, "Comissão não pode exceder 100%"),
 });
 
 type MedicalUserValues = z.infer<typeof medicalUserSchema>;
@@ -143,7 +143,7 @@ export default function Users() {
         const professionalData = {
           userId: data.id,
           specialty: specialty || "Clínico Geral", // Use form value or default
-          commission: 0.2 // Default 20% commission
+          commission: 20 // Default 20% commission
         };
 
         try {
@@ -547,7 +547,7 @@ export default function Users() {
                     name="commission"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Comissão da Clínica*</FormLabel>
+                        <FormLabel>Comissão da Clínica (%)*</FormLabel>
                         <FormControl>
                           <Input type="number" placeholder="Comissão" {...field} />
                         </FormControl>
@@ -20,6 +20,8 @@ import {
 } from "@/components/ui/select";
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import type { FinancialSummary } from '@shared/financial';
+import { formatMoney } from '@shared/money';
 import { 
   Table, 
   TableBody, 
@@ -50,13 +52,12 @@ export default function WaitingQueue() {
       }
       return res.json();
     },
-    // Refetch a cada 30 segundos para manter a fila atualizada
-    refetchInterval: 30000,
+    // A fila é atualizada pelo canal de tempo real a cada mudança de status
   });
 
-  // Fetch financial data for summaries
-  const { data: financialData = [] } = useQuery<any[]>({
-    queryKey: ['/api/financial-records/professional', user?.id, { date: selectedDate }],
+  // Resumo financeiro do dia, totalizado no servidor (apenas os valores do próprio médico)
+  const { data: financialSummary } = useQuery<FinancialSummary>({
+    queryKey: [`/api/financial/summary?startDate=${selectedDate}&endDate=${selectedDate}`],
     enabled: user?.role === 'medico',
   });
 
@@ -97,21 +98,6 @@ export default function WaitingQueue() {
     setLocation(`/doctors/consultation/${id}`);
   };
 
-  // Calculate financial summaries
-  const calculateFinancialSummary = () => {
-    const totalGross = financialData.reduce((sum: number, record: any) => sum + record.totalValue, 0);
-    const totalClinic = financialData.reduce((sum: number, record: any) => sum + record.clinicCommission, 0);
-    const totalProfessional = financialData.reduce((sum: number, record: any) => sum + record.professionalValue, 0);
-
-    return {
-      totalGross: totalGross.toFixed(2),
-      totalClinic: totalClinic.toFixed(2),
-      totalProfessional: totalProfessional.toFixed(2),
-    };
-  };
-
-  const { totalGross, totalClinic, totalProfessional } = calculateFinancialSummary();
-
   // Filter appointments based on status
   const filteredQueue = (() => {
     // Primeiro filtra por status se necessário
@@ -257,7 +243,7 @@ export default function WaitingQueue() {
                         <BadgeStatus status={appointment.status} />
                       </TableCell>
                       <TableCell className="text-sm text-gray-500">
-                        R$ {appointment.procedure?.value?.toFixed(2) || '0.00'}
+                        {formatMoney(appointment.procedure?.value ?? 0)}
                       </TableCell>
                       <TableCell className="text-right text-sm font-medium space-x-2">
                         {/* Mostrar botão de Check-in para agendamentos marcados */}
@@ -348,7 +334,7 @@ export default function WaitingQueue() {
                         Total Bruto
                       </dt>
                       <dd className="mt-1 text-3xl font-semibold text-gray-900">
-                        R$ {totalGross}
+                        {formatMoney(financialSummary?.totalValue ?? 0)}
                       </dd>
                     </div>
                     <div className="px-4 py-5 bg-gray-50 shadow rounded-lg overflow-hidden sm:p-6">
@@ -356,7 +342,7 @@ export default function WaitingQueue() {
                         Taxa da Clínica
                       </dt>
                       <dd className="mt-1 text-3xl font-semibold text-gray-900">
-                        R$ {totalClinic}
+                        {formatMoney(financialSummary?.clinicValue ?? 0)}
                       </dd>
                     </div>
                     <div className="px-4 py-5 bg-green-50 shadow rounded-lg overflow-hidden sm:p-6">
@@ -364,7 +350,7 @@ export default function WaitingQueue() {
                         Valor Líquido
                       </dt>
                       <dd className="mt-1 text-3xl font-semibold text-green-700">
-                        R$ {totalProfessional}
+                        {formatMoney(financialSummary?.professionalValue ?? 0)}
                       </dd>
                     </div>
                   </div>
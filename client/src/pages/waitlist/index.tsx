@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import type { Procedure, WaitlistEntry, WaitlistOffer, WaitlistWindow } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarCheck, Plus } from 'lucide-react';
+import WaitlistForm, { WEEKDAY_LABELS } from '@/components/waitlist/WaitlistForm';
+
+type WaitlistEntryDetails = WaitlistEntry & {
+  displayName: string | null;
+  professionalName: string | null;
+  procedures: Procedure[];
+  windows: WaitlistWindow[];
+};
+
+type WaitlistOfferDetails = WaitlistOffer & {
+  entry: WaitlistEntryDetails | null;
+  professionalName: string | null;
+};
+
+function formatWindows(windows: WaitlistWindow[]) {
+  if (windows.length === 0) return 'Qualquer horário';
+  return windows
+    .map((window) => `${window.weekday === null ? 'Qualquer dia' : WEEKDAY_LABELS[window.weekday]} ${window.startTime}-${window.endTime}`)
+    .join('; ');
+}
+
+// apiRequest lança "409: {json}"; extrai a mensagem de conflito de horário
+function parseConflictMessage(error: unknown): string | null {
+  if (!(error instanceof Error) || !error.message.startsWith('409:')) return null;
+  try {
+    return JSON.parse(error.message.slice(4)).message;
+  } catch {
+    return null;
+  }
+}
+
+export default function Waitlist() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // Ofertas cujo horário foi ocupado depois do cancelamento
+  const [conflicts, setConflicts] = useState<Record<number, string>>({});
+
+  const { data: entries = [], isLoading } = useQuery<WaitlistEntryDetails[]>({
+    queryKey: ['/api/waitlist'],
+  });
+
+  const { data: offers = [] } = useQuery<WaitlistOfferDetails[]>({
+    queryKey: ['/api/waitlist/offers'],
+    refetchInterval: 60000,
+  });
+
+  const onMutationError = (error: unknown) => {
+    toast({
+      title: 'Erro',
+      description: error instanceof Error ? error.message : 'Erro ao atualizar a lista de espera',
+      variant: 'destructive',
+    });
+  };
+
+  const acceptOfferMutation = useMutation({
+    mutationFn: async ({ offerId, allowOverlap }: { offerId: number; allowOverlap: boolean }) => {
+      const res = await apiRequest('POST', `/api/waitlist/offers/${offerId}/accept`, { allowOverlap });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      setConflicts({});
+      toast({
+        title: 'Agendamento criado',
+        description: 'O paciente saiu da lista de espera e foi agendado no horário liberado.',
+      });
+    },
+    onError: (error, { offerId }) => {
+      const message = parseConflictMessage(error);
+      if (message) {
+        setConflicts((current) => ({ ...current, [offerId]: message }));
+        return;
+      }
+      onMutationError(error);
+    },
+  });
+
+  const dismissOfferMutation = useMutation({
+    mutationFn: async (offerId: number) => {
+      return apiRequest('POST', `/api/waitlist/offers/${offerId}/dismiss`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist/offers'] });
+    },
+    onError: onMutationError,
+  });
+
+  const removeEntryMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      return apiRequest('DELETE', `/api/waitlist/${entryId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'] });
+      toast({ title: 'Removido da lista de espera' });
+    },
+    onError: onMutationError,
+  });
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Lista de Espera</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              {entries.length} pacientes aguardando horário
+            </p>
+          </div>
+          <Button onClick={() => setIsDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Incluir na Lista
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Horários Liberados</CardTitle>
+            <CardDescription>
+              Horários de agendamentos cancelados que atendem a quem está na lista. Confirme com o paciente antes de agendar.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {offers.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Horário</TableHead>
+                    <TableHead>Profissional</TableHead>
+                    <TableHead>Paciente</TableHead>
+                    <TableHead>Procedimentos</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {offers.map((offer) => (
+                    <TableRow key={offer.id}>
+                      <TableCell className="font-medium">
+                        {format(new Date(offer.date), "EEE, dd/MM 'às' HH:mm", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell>{offer.professionalName ?? '-'}</TableCell>
+                      <TableCell>
+                        {offer.entry?.displayName ?? '-'}
+                        {offer.entry?.patientPhone && (
+                          <div className="text-xs text-muted-foreground">{offer.entry.patientPhone}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {offer.entry?.procedures.map((procedure) => procedure.name).join(', ')}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {conflicts[offer.id] && (
+                          <p className="text-xs text-destructive mb-1">{conflicts[offer.id]}</p>
+                        )}
+                        {conflicts[offer.id] && user?.role === 'admin' ? (
+                          <Button
+                            size="sm"
+                            disabled={acceptOfferMutation.isPending}
+                            onClick={() => acceptOfferMutation.mutate({ offerId: offer.id, allowOverlap: true })}
+                          >
+                            Agendar mesmo assim
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            disabled={acceptOfferMutation.isPending || !!conflicts[offer.id]}
+                            onClick={() => acceptOfferMutation.mutate({ offerId: offer.id, allowOverlap: false })}
+                          >
+                            <CalendarCheck className="mr-1 h-4 w-4" />
+                            Agendar
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={dismissOfferMutation.isPending}
+                          onClick={() => dismissOfferMutation.mutate(offer.id)}
+                        >
+                          Descartar
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-6">
+                <p className="text-gray-500">Nenhum horário liberado no momento.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Aguardando Horário</CardTitle>
+            <CardDescription>
+              Em ordem de inclusão. Ao cancelar um agendamento, o horário é oferecido a quem se encaixa nele.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : entries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Paciente</TableHead>
+                    <TableHead>Profissional</TableHead>
+                    <TableHead>Procedimentos</TableHead>
+                    <TableHead>Preferência</TableHead>
+                    <TableHead>Desde</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">
+                        {entry.displayName}
+                        {entry.patientPhone && (
+                          <div className="text-xs text-muted-foreground">{entry.patientPhone}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{entry.professionalName ?? `Especialidade: ${entry.specialty}`}</TableCell>
+                      <TableCell>{entry.procedures.map((procedure) => procedure.name).join(', ')}</TableCell>
+                      <TableCell className="max-w-xs">{formatWindows(entry.windows)}</TableCell>
+                      <TableCell>{format(new Date(entry.createdAt), 'dd/MM/yyyy')}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          disabled={removeEntryMutation.isPending}
+                          onClick={() => removeEntryMutation.mutate(entry.id)}
+                        >
+                          Remover
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Ninguém na lista de espera.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Incluir na Lista de Espera</DialogTitle>
+            <DialogDescription>
+              Quando um horário compatível for liberado por um cancelamento, ele aparecerá em "Horários Liberados".
+            </DialogDescription>
+          </DialogHeader>
+          <WaitlistForm onSuccess={() => setIsDialogOpen(false)} onCancel={() => setIsDialogOpen(false)} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
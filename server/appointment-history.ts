@@ -0,0 +1,82 @@
+import { Appointment, AppointmentChange, InsertAppointmentChange } from "@shared/schema";
+import { storage } from "./storage";
+
+// Estado do agendamento comparado no histórico; procedimentos e recursos só quando carregados
+export interface AppointmentSnapshot {
+  appointment: Appointment;
+  procedures?: { id: number; name: string }[];
+  resources?: { id: number; name: string }[];
+}
+
+async function professionalName(professionalId: number): Promise<string> {
+  const professional = await storage.getProfessional(professionalId);
+  const user = professional ? await storage.getUser(professional.userId) : undefined;
+  return user?.name ?? `Profissional #${professionalId}`;
+}
+
+function sameItems(a: { id: number }[], b: { id: number }[]): boolean {
+  const ids = new Set(a.map((item) => item.id));
+  return a.length === b.length && b.every((item) => ids.has(item.id));
+}
+
+async function healthPlanName(healthPlanId: number | null): Promise<string> {
+  if (!healthPlanId) return "Particular";
+  return (await storage.getHealthPlan(healthPlanId))?.name ?? `Convênio #${healthPlanId}`;
+}
+
+const names = (items: { name: string }[]) => items.map((item) => item.name).join(", ") || null;
+
+// Registra um item de histórico para cada campo que mudou entre "before" e "after"
+export async function recordAppointmentChanges(
+  before: AppointmentSnapshot,
+  after: AppointmentSnapshot,
+  changedBy: number,
+): Promise<AppointmentChange[]> {
+  const { appointment: old } = before;
+  const { appointment: current } = after;
+  const changes: Omit<InsertAppointmentChange, "appointmentId" | "changedBy">[] = [];
+
+  if (old.date.getTime() !== current.date.getTime()) {
+    changes.push({ field: "date", oldValue: old.date.toISOString(), newValue: current.date.toISOString() });
+  }
+  if (old.professionalId !== current.professionalId) {
+    changes.push({
+      field: "professional",
+      oldValue: await professionalName(old.professionalId),
+      newValue: await professionalName(current.professionalId),
+    });
+  }
+  if (old.durationMinutes !== current.durationMinutes) {
+    changes.push({
+      field: "duration",
+      oldValue: String(old.durationMinutes),
+      newValue: String(current.durationMinutes),
+    });
+  }
+  if ((old.healthPlanId ?? null) !== (current.healthPlanId ?? null)) {
+    changes.push({
+      field: "health_plan",
+      oldValue: await healthPlanName(old.healthPlanId),
+      newValue: await healthPlanName(current.healthPlanId),
+    });
+  }
+  if (before.procedures && after.procedures && !sameItems(before.procedures, after.procedures)) {
+    changes.push({ field: "procedures", oldValue: names(before.procedures), newValue: names(after.procedures) });
+  }
+  if (before.resources && after.resources && !sameItems(before.resources, after.resources)) {
+    changes.push({ field: "resources", oldValue: names(before.resources), newValue: names(after.resources) });
+  }
+  if ((old.notes ?? "") !== (current.notes ?? "")) {
+    changes.push({ field: "notes", oldValue: old.notes, newValue: current.notes });
+  }
+
+  const recorded: AppointmentChange[] = [];
+  for (const change of changes) {
+    recorded.push(await storage.createAppointmentChange({
+      ...change,
+      appointmentId: current.id,
+      changedBy,
+    }));
+  }
+  return recorded;
+}
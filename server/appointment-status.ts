@@ -0,0 +1,56 @@
+import { Appointment, CancellationReason } from "@shared/schema";
+import { type AppointmentStatus } from "@shared/appointment-status";
+import { storage } from "./storage";
+import { offerFreedSlot } from "./waitlist";
+import { recordAppointmentRevenue } from "./financial";
+import { publishRealtimeEvent } from "./realtime";
+
+// Resposta (409) quando a transição perde a corrida para outra alteração do mesmo agendamento
+export const STATUS_CONFLICT_MESSAGE = "O status do agendamento foi alterado por outra pessoa. Atualize e tente novamente";
+
+// Aplica uma transição de status já validada e registra no histórico quem a fez e quando.
+// changedBy nulo indica alteração automática; a falta (no_show) usa o motivo "no_show".
+// Um cancelamento futuro oferece o horário liberado à lista de espera e a conclusão gera o
+// registro financeiro do atendimento; toda transição é enviada às telas conectadas
+// (fila, agenda) pelo canal de tempo real. Se outra requisição alterou o status antes,
+// nada é feito e o retorno é undefined
+export async function changeAppointmentStatus(
+  appointment: Appointment,
+  status: AppointmentStatus,
+  changedBy: number | null,
+  cancellationReason?: CancellationReason,
+): Promise<Appointment | undefined> {
+  const reason = status === "no_show" ? "no_show" : cancellationReason;
+  const cancellation = status === "cancelled" || status === "no_show"
+    ? { cancellationReason: reason ?? null, cancelledBy: changedBy }
+    : undefined;
+
+  let updated = await storage.updateAppointmentStatus(appointment.id, status, appointment.status, cancellation);
+  // Um novo check-in (após desfazer o anterior) volta à ordem calculada da fila
+  if (updated && status === "waiting" && updated.queueRank !== null) {
+    updated = await storage.updateAppointmentQueue(updated.id, { queueRank: null });
+  }
+  if (updated) {
+    await storage.createAppointmentChange({
+      appointmentId: appointment.id,
+      changedBy,
+      field: "status",
+      oldValue: appointment.status,
+      newValue: status,
+    });
+    if (status === "cancelled") {
+      await offerFreedSlot(updated);
+    }
+    if (status === "completed") {
+      await recordAppointmentRevenue(updated);
+    }
+    publishRealtimeEvent({
+      type: "appointment.status",
+      appointmentId: updated.id,
+      professionalId: updated.professionalId,
+      status,
+      previousStatus: appointment.status,
+    });
+  }
+  return updated;
+}
@@ -0,0 +1,134 @@
+import { Appointment, Procedure, ProfessionalSchedule, timeToMinutes } from "@shared/schema";
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+// Período ocupado na agenda; sem "end", ocupa apenas o horário em que começa
+export interface BusyPeriod {
+  start: Date;
+  end?: Date;
+}
+
+// Limite do intervalo consultado, para evitar respostas gigantes
+export const MAX_AVAILABILITY_DAYS = 62;
+
+// Duração usada quando nem o agendamento nem a agenda do profissional definem uma
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+export function appointmentEnd(appointment: Pick<Appointment, "date" | "durationMinutes">): Date {
+  return new Date(appointment.date.getTime() + appointment.durationMinutes * 60 * 1000);
+}
+
+// Soma das durações padrão dos procedimentos; undefined se nenhum define duração
+export function proceduresDuration(
+  procedures: Pick<Procedure, "durationMinutes">[],
+): number | undefined {
+  const durations = procedures
+    .map((procedure) => procedure.durationMinutes)
+    .filter((minutes): minutes is number => minutes !== null && minutes !== undefined);
+  return durations.length > 0
+    ? durations.reduce((total, minutes) => total + minutes, 0)
+    : undefined;
+}
+
+// Duração do horário da agenda em que a data cai, se houver turno cadastrado
+export function scheduleSlotMinutes(
+  schedules: ProfessionalSchedule[],
+  date: Date,
+): number | undefined {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return schedules.find(
+    (schedule) =>
+      schedule.weekday === date.getDay() &&
+      timeToMinutes(schedule.startTime) <= minutes &&
+      minutes < timeToMinutes(schedule.endTime),
+  )?.slotMinutes;
+}
+
+// O atendimento cabe inteiro em um turno do dia, fora do intervalo. Sem agenda cadastrada,
+// o profissional não tem restrição de horário
+export function fitsSchedule(
+  schedules: ProfessionalSchedule[],
+  start: Date,
+  end: Date,
+): boolean {
+  if (schedules.length === 0) return true;
+  const startMinutes = start.getHours() * 60 + start.getMinutes();
+  const endMinutes = startMinutes + Math.ceil((end.getTime() - start.getTime()) / 60000);
+  return schedules.some((schedule) => {
+    if (schedule.weekday !== start.getDay()) return false;
+    if (startMinutes < timeToMinutes(schedule.startTime) || endMinutes > timeToMinutes(schedule.endTime)) {
+      return false;
+    }
+    if (!schedule.breakStart || !schedule.breakEnd) return true;
+    return endMinutes <= timeToMinutes(schedule.breakStart) || startMinutes >= timeToMinutes(schedule.breakEnd);
+  });
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const date = new Date(day);
+  date.setHours(0, minutes, 0, 0);
+  return date;
+}
+
+function overlaps(slot: TimeSlot, busy: BusyPeriod): boolean {
+  if (busy.start >= slot.end) return false;
+  return busy.end ? busy.end > slot.start : busy.start >= slot.start;
+}
+
+// Gera os horários de cada dia entre "from" e "to" a partir dos turnos cadastrados
+export function generateSlots(
+  schedules: ProfessionalSchedule[],
+  from: Date,
+  to: Date,
+): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  for (; day <= to; day.setDate(day.getDate() + 1)) {
+    const daySchedules = schedules.filter(
+      (schedule) => schedule.weekday === day.getDay(),
+    );
+
+    for (const schedule of daySchedules) {
+      const endMinutes = timeToMinutes(schedule.endTime);
+      const breakStart = schedule.breakStart ? timeToMinutes(schedule.breakStart) : null;
+      const breakEnd = schedule.breakEnd ? timeToMinutes(schedule.breakEnd) : null;
+
+      let minutes = timeToMinutes(schedule.startTime);
+      while (minutes + schedule.slotMinutes <= endMinutes) {
+        const slotEnd = minutes + schedule.slotMinutes;
+
+        // Pula para o fim do intervalo quando o horário o invade
+        if (breakStart !== null && breakEnd !== null && minutes < breakEnd && slotEnd > breakStart) {
+          minutes = breakEnd;
+          continue;
+        }
+
+        slots.push({ start: atMinutes(day, minutes), end: atMinutes(day, slotEnd) });
+        minutes = slotEnd;
+      }
+    }
+  }
+
+  return slots
+    .filter((slot) => slot.start >= from && slot.end <= to)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Horários livres: gerados pela agenda, sem conflito com períodos ocupados e ainda não passados
+export function computeAvailableSlots(
+  schedules: ProfessionalSchedule[],
+  busyPeriods: BusyPeriod[],
+  from: Date,
+  to: Date,
+  now = new Date(),
+): TimeSlot[] {
+  return generateSlots(schedules, from, to).filter(
+    (slot) =>
+      slot.start >= now && !busyPeriods.some((busy) => overlaps(slot, busy)),
+  );
+}
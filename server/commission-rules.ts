@@ -0,0 +1,42 @@
+import type { CommissionRule } from "@shared/schema";
+
+export interface CommissionTarget {
+  professionalId: number;
+  procedureId: number;
+  healthPlanId: number | null;
+  date: Date;
+}
+
+export const isRuleEffective = (rule: CommissionRule, date: Date) =>
+  rule.effectiveFrom <= date && (!rule.effectiveUntil || rule.effectiveUntil >= date);
+
+const criteriaCount = (rule: CommissionRule) =>
+  [rule.procedureId, rule.professionalId, rule.healthPlanId].filter((id) => id !== null).length;
+
+// Desempate entre regras com o mesmo número de critérios: procedimento pesa mais que
+// profissional, que pesa mais que convênio
+const specificity = (rule: CommissionRule) =>
+  (rule.procedureId ? 4 : 0) + (rule.professionalId ? 2 : 0) + (rule.healthPlanId ? 1 : 0);
+
+// Regra vigente na data que se aplica ao procedimento: a que atende mais critérios;
+// entre regras igualmente específicas, a de início de vigência mais recente
+export function selectCommissionRule(
+  rules: CommissionRule[],
+  target: CommissionTarget,
+): CommissionRule | undefined {
+  const matching = rules.filter(
+    (rule) =>
+      isRuleEffective(rule, target.date) &&
+      (rule.professionalId === null || rule.professionalId === target.professionalId) &&
+      (rule.procedureId === null || rule.procedureId === target.procedureId) &&
+      (rule.healthPlanId === null || rule.healthPlanId === target.healthPlanId),
+  );
+
+  return matching.sort(
+    (a, b) =>
+      criteriaCount(b) - criteriaCount(a) ||
+      specificity(b) - specificity(a) ||
+      b.effectiveFrom.getTime() - a.effectiveFrom.getTime() ||
+      b.id - a.id,
+  )[0];
+}
@@ -0,0 +1,237 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { createDatabase, type DatabaseConnection } from "./db";
+import { DatabaseStorage } from "./database-storage";
+
+// drizzle-kit/api só é publicado em CommonJS
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api");
+
+// Banco pglite em memória com as tabelas do schema, criadas como no db:push
+async function createTestStorage(): Promise<{ connection: DatabaseConnection; storage: DatabaseStorage }> {
+  const connection = createDatabase("pglite", "memory://");
+  const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await connection.db.execute(sql.raw(statement));
+  }
+  return { connection, storage: new DatabaseStorage(connection.db) };
+}
+
+describe("DatabaseStorage", () => {
+  let connection: DatabaseConnection;
+  let storage: DatabaseStorage;
+  let professionalId: number;
+  let patientId: number;
+  let userId: number;
+
+  before(async () => {
+    ({ connection, storage } = await createTestStorage());
+    const user = await storage.createUser({ email: "medico@teste", password: "123456", name: "Dra. Teste", role: "medico" });
+    userId = user.id;
+    professionalId = (await storage.createProfessional({ userId, specialty: "Clínica geral", commission: 30 })).id;
+    patientId = (await storage.createPatient({
+      name: "Paciente Teste",
+      phone: "11999990000",
+      cpf: "123.456.789-09",
+      birthDate: new Date(1980, 0, 1),
+      gender: "female",
+      createdBy: userId,
+    })).id;
+  });
+
+  after(async () => {
+    await connection.close();
+  });
+
+  const book = (date: Date, durationMinutes: number, status: schema.Appointment["status"] = "scheduled") =>
+    storage.createAppointment({ professionalId, patientId, date, durationMinutes, status });
+
+  describe("getPatientByCpf", () => {
+    it("ignora a pontuação do CPF gravado e do informado", async () => {
+      assert.equal((await storage.getPatientByCpf("12345678909"))?.id, patientId);
+      assert.equal((await storage.getPatientByCpf("123.456.789-09"))?.id, patientId);
+      assert.equal(await storage.getPatientByCpf("98765432100"), undefined);
+    });
+  });
+
+  describe("getOverlappingAppointments", () => {
+    it("encontra agendamentos que se sobrepõem ao intervalo, pela duração de cada um", async () => {
+      const appointment = await book(new Date(2030, 0, 7, 9, 0), 30);
+
+      const overlapping = await storage.getOverlappingAppointments(
+        professionalId, new Date(2030, 0, 7, 9, 15), new Date(2030, 0, 7, 9, 45));
+      assert.deepEqual(overlapping.map((item) => item.id), [appointment.id]);
+
+      // Encostar no fim do agendamento não é conflito
+      assert.deepEqual(await storage.getOverlappingAppointments(
+        professionalId, new Date(2030, 0, 7, 9, 30), new Date(2030, 0, 7, 10, 0)), []);
+      // O próprio agendamento fica de fora ao remarcar
+      assert.deepEqual(await storage.getOverlappingAppointments(
+        professionalId, new Date(2030, 0, 7, 9, 0), new Date(2030, 0, 7, 9, 30), appointment.id), []);
+    });
+
+    it("não considera agendamentos cancelados nem faltas", async () => {
+      await book(new Date(2030, 0, 8, 9, 0), 30, "cancelled");
+      await book(new Date(2030, 0, 8, 10, 0), 30, "no_show");
+      assert.deepEqual(await storage.getOverlappingAppointments(
+        professionalId, new Date(2030, 0, 8, 9, 0), new Date(2030, 0, 8, 10, 30)), []);
+    });
+
+    it("encontra reservas de recurso sobrepostas", async () => {
+      const room = await storage.createResource({ name: "Sala 1", type: "room" });
+      const appointment = await book(new Date(2030, 0, 9, 14, 0), 60);
+      await storage.addResourceToAppointment({ appointmentId: appointment.id, resourceId: room.id });
+
+      const overlapping = await storage.getOverlappingResourceAppointments(
+        room.id, new Date(2030, 0, 9, 14, 30), new Date(2030, 0, 9, 15, 30));
+      assert.deepEqual(overlapping.map((item) => item.id), [appointment.id]);
+    });
+  });
+
+  describe("withScheduleLock", () => {
+    it("não deixa duas reservas simultâneas ocuparem o mesmo horário", async () => {
+      const procedure = await storage.createProcedure({ name: "Avaliação", type: "consultation", value: 20000 });
+      const start = new Date(2030, 0, 9, 9, 0);
+      const end = new Date(2030, 0, 9, 9, 30);
+      const reserve = () => storage.withScheduleLock({ professionalIds: [professionalId], resourceIds: [] }, async () => {
+        if ((await storage.getOverlappingAppointments(professionalId, start, end)).length > 0) return undefined;
+        const appointment = await book(start, 30);
+        // Métodos transacionais também rodam dentro da trava
+        await storage.setAppointmentProcedures(appointment.id, [procedure.id]);
+        return appointment;
+      });
+
+      const results = await Promise.all([reserve(), reserve()]);
+      assert.equal(results.filter(Boolean).length, 1);
+      assert.equal((await storage.getOverlappingAppointments(professionalId, start, end)).length, 1);
+    });
+
+    it("desfaz as gravações quando a seção falha", async () => {
+      const start = new Date(2030, 0, 9, 10, 0);
+      await assert.rejects(storage.withScheduleLock({ professionalIds: [professionalId], resourceIds: [] }, async () => {
+        await book(start, 30);
+        throw new Error("falha");
+      }));
+      assert.deepEqual(await storage.getOverlappingAppointments(professionalId, start, new Date(2030, 0, 9, 10, 30)), []);
+    });
+  });
+
+  describe("updateAppointmentStatus", () => {
+    it("só altera o status se ele ainda for o esperado", async () => {
+      const appointment = await book(new Date(2030, 0, 8, 14, 0), 30);
+
+      const [first, second] = await Promise.all([
+        storage.updateAppointmentStatus(appointment.id, "waiting", "scheduled"),
+        storage.updateAppointmentStatus(appointment.id, "cancelled", "scheduled"),
+      ]);
+      assert.equal([first, second].filter(Boolean).length, 1);
+      assert.equal(await storage.updateAppointmentStatus(appointment.id, "in_progress", "scheduled"), undefined);
+      assert.equal((await storage.getAppointment(appointment.id))?.status, (first ?? second)?.status);
+    });
+  });
+
+  describe("métodos set* transacionais", () => {
+    it("substituem os procedimentos do agendamento sem duplicar", async () => {
+      const consultation = await storage.createProcedure({ name: "Consulta", type: "consultation", value: 25000 });
+      const exam = await storage.createProcedure({ name: "Exame", type: "exam", value: 10000 });
+      const appointment = await book(new Date(2030, 0, 10, 9, 0), 30);
+
+      await storage.setAppointmentProcedures(appointment.id, [consultation.id, consultation.id]);
+      await storage.setAppointmentProcedures(appointment.id, [exam.id, consultation.id]);
+
+      const { procedures } = await storage.getAppointmentWithProcedures(appointment.id);
+      assert.deepEqual(procedures.map((procedure) => procedure.id).sort(), [consultation.id, exam.id].sort());
+    });
+
+    it("substituem os recursos do agendamento e do procedimento", async () => {
+      const room = await storage.createResource({ name: "Sala 2", type: "room" });
+      const device = await storage.createResource({ name: "Ultrassom", type: "equipment" });
+      const procedure = await storage.createProcedure({ name: "Ultrassonografia", type: "exam", value: 30000 });
+      const appointment = await book(new Date(2030, 0, 10, 10, 0), 30);
+
+      await storage.setAppointmentResources(appointment.id, [room.id, device.id]);
+      await storage.setAppointmentResources(appointment.id, [device.id]);
+      assert.deepEqual((await storage.getAppointmentResources(appointment.id)).map((resource) => resource.id), [device.id]);
+
+      await storage.setProcedureResources(procedure.id, [room.id, device.id, room.id]);
+      assert.equal((await storage.getProcedureResources(procedure.id)).length, 2);
+      await storage.setProcedureResources(procedure.id, []);
+      assert.deepEqual(await storage.getProcedureResources(procedure.id), []);
+    });
+
+    it("desfazem a remoção quando a inserção falha", async () => {
+      const room = await storage.createResource({ name: "Sala 3", type: "room" });
+      const appointment = await book(new Date(2030, 0, 10, 11, 0), 30);
+      await storage.setAppointmentResources(appointment.id, [room.id]);
+
+      await assert.rejects(storage.setAppointmentResources(appointment.id, [999999]));
+      assert.deepEqual((await storage.getAppointmentResources(appointment.id)).map((resource) => resource.id), [room.id]);
+    });
+  });
+
+  describe("createFinancialRecord", () => {
+    it("grava o registro e os itens juntos", async () => {
+      const procedure = await storage.createProcedure({ name: "Retorno", type: "consultation", value: 15000 });
+      const appointment = await book(new Date(2030, 0, 11, 9, 0), 30, "completed");
+
+      const record = await storage.createFinancialRecord(
+        { appointmentId: appointment.id, professionalId, totalValue: 15000, clinicCommission: 4500, professionalValue: 10500 },
+        [{
+          procedureId: procedure.id,
+          value: 15000,
+          commissionRuleId: null,
+          commissionType: "percentage",
+          commissionValue: 30,
+          clinicCommission: 4500,
+          professionalValue: 10500,
+        }],
+      );
+
+      assert.equal((await storage.getFinancialRecordByAppointment(appointment.id))?.id, record.id);
+      const items = await storage.getFinancialRecordItems(record.id);
+      assert.deepEqual(items.map((item) => [item.procedureId, item.value, item.clinicCommission]), [[procedure.id, 15000, 4500]]);
+    });
+
+    it("devolve o registro existente em gravações simultâneas do mesmo atendimento", async () => {
+      const procedure = await storage.createProcedure({ name: "Consulta retorno", type: "consultation", value: 20000 });
+      const appointment = await book(new Date(2030, 0, 11, 11, 0), 30, "completed");
+      const create = () => storage.createFinancialRecord(
+        { appointmentId: appointment.id, professionalId, totalValue: 20000, clinicCommission: 6000, professionalValue: 14000 },
+        [{
+          procedureId: procedure.id,
+          value: 20000,
+          commissionRuleId: null,
+          commissionType: "percentage",
+          commissionValue: 30,
+          clinicCommission: 6000,
+          professionalValue: 14000,
+        }],
+      );
+
+      const [first, second] = await Promise.all([create(), create()]);
+      assert.equal(first.id, second.id);
+      assert.equal((await storage.getFinancialRecordItems(first.id)).length, 1);
+    });
+
+    it("não deixa registro sem itens quando um item é inválido", async () => {
+      const appointment = await book(new Date(2030, 0, 11, 10, 0), 30, "completed");
+
+      await assert.rejects(storage.createFinancialRecord(
+        { appointmentId: appointment.id, professionalId, totalValue: 100, clinicCommission: 30, professionalValue: 70 },
+        [{
+          procedureId: 999999,
+          value: 100,
+          commissionRuleId: null,
+          commissionType: "percentage",
+          commissionValue: 30,
+          clinicCommission: 30,
+          professionalValue: 70,
+        }],
+      ));
+      assert.equal(await storage.getFinancialRecordByAppointment(appointment.id), undefined);
+    });
+  });
+});
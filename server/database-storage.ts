@@ -0,0 +1,1362 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  notInArray,
+  lt,
+  lte,
+  ne,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  users,
+  professionals,
+  professionalSchedules,
+  patients,
+  procedures,
+  resources,
+  procedureResources,
+  appointments,
+  appointmentSeries,
+  appointmentProcedures,
+  appointmentResources,
+  appointmentChanges,
+  waitlistEntries,
+  waitlistProcedures,
+  waitlistWindows,
+  waitlistOffers,
+  evolutions,
+  financialRecords,
+  payments,
+  payouts,
+  healthPlans,
+  healthPlanTiers,
+  healthPlanPrices,
+  patientHealthPlans,
+  commissionRules,
+  financialRecordItems,
+  payoutAdjustments,
+  User,
+  InsertUser,
+  Professional,
+  InsertProfessional,
+  ProfessionalSchedule,
+  InsertProfessionalSchedule,
+  Patient,
+  InsertPatient,
+  Procedure,
+  InsertProcedure,
+  Resource,
+  InsertResource,
+  Appointment,
+  InsertAppointment,
+  AppointmentCancellation,
+  AppointmentQueueUpdate,
+  AppointmentSeries,
+  InsertAppointmentSeries,
+  AppointmentProcedure,
+  InsertAppointmentProcedure,
+  AppointmentResource,
+  InsertAppointmentResource,
+  AppointmentChange,
+  InsertAppointmentChange,
+  WaitlistEntry,
+  InsertWaitlistEntry,
+  WaitlistWindow,
+  InsertWaitlistWindow,
+  WaitlistOffer,
+  InsertWaitlistOffer,
+  Evolution,
+  InsertEvolution,
+  FinancialRecord,
+  InsertFinancialRecord,
+  Payment,
+  InsertPayment,
+  PaymentCancellation,
+  Payout,
+  InsertPayout,
+  HealthPlan,
+  InsertHealthPlan,
+  HealthPlanTier,
+  InsertHealthPlanTier,
+  HealthPlanPrice,
+  PatientHealthPlan,
+  InsertPatientHealthPlan,
+  CommissionRule,
+  InsertCommissionRule,
+  FinancialRecordItem,
+  InsertFinancialRecordItem,
+  PayoutAdjustment,
+  InsertPayoutAdjustment,
+} from "@shared/schema";
+import { AsyncLocalStorage } from "node:async_hooks";
+import bcrypt from "bcryptjs";
+import type { Database } from "./db";
+import { NON_BLOCKING_STATUSES, statusTimestampUpdate } from "@shared/appointment-status";
+import { dayRange } from "./date-range";
+import type {
+  AppointmentFilters,
+  AppointmentListOptions,
+  FinancialRecordFilters,
+  IStorage,
+  PaymentFilters,
+  PayoutFilters,
+  ScheduleLock,
+  WaitlistFilters,
+  WaitlistOfferFilters,
+} from "./storage";
+
+// Mesma regra do MemStorage: senhas que já são hash bcrypt (contêm $) não são re-hasheadas
+function hashPasswordIfNeeded(password: string): string {
+  return password.includes("$") ? password : bcrypt.hashSync(password, 10);
+}
+
+// Espaços das travas de agenda (pg_advisory_xact_lock), um para profissionais e outro para recursos
+const PROFESSIONAL_SCHEDULE_LOCK = 1;
+const RESOURCE_SCHEDULE_LOCK = 2;
+
+export class DatabaseStorage implements IStorage {
+  // Transação aberta por withScheduleLock; as chamadas feitas dentro dela a usam no lugar do banco
+  private transaction = new AsyncLocalStorage<Database>();
+
+  constructor(private database: Database) {}
+
+  private get db(): Database {
+    return this.transaction.getStore() ?? this.database;
+  }
+
+  // Cria o usuário administrador padrão quando o banco ainda está vazio
+  async initializeDefaultData(): Promise<void> {
+    const [existingUser] = await this.db.select({ id: users.id }).from(users).limit(1);
+    if (existingUser) return;
+
+    await this.createUser({
+      email: "admin@clinica.com",
+      password: bcrypt.hashSync("admin123", 10),
+      name: "Administrador",
+      role: "admin",
+      isActive: true,
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, password: hashPasswordIfNeeded(insertUser.password) })
+      .returning();
+    return user;
+  }
+
+  async updateUser(
+    id: number,
+    userData: Partial<InsertUser>,
+  ): Promise<User | undefined> {
+    const data = userData.password
+      ? { ...userData, password: hashPasswordIfNeeded(userData.password) }
+      : userData;
+
+    if (Object.keys(data).length === 0) return this.getUser(id);
+
+    const [user] = await this.db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Professional methods
+  async getProfessional(id: number): Promise<Professional | undefined> {
+    const [professional] = await this.db
+      .select()
+      .from(professionals)
+      .where(eq(professionals.id, id));
+    return professional;
+  }
+
+  async getProfessionalByUserId(
+    userId: number,
+  ): Promise<Professional | undefined> {
+    const [professional] = await this.db
+      .select()
+      .from(professionals)
+      .where(eq(professionals.userId, userId));
+    return professional;
+  }
+
+  async getAllProfessionals(): Promise<Professional[]> {
+    return this.db.select().from(professionals).orderBy(professionals.id);
+  }
+
+  async createProfessional(
+    insertProfessional: InsertProfessional,
+  ): Promise<Professional> {
+    const [professional] = await this.db
+      .insert(professionals)
+      .values(insertProfessional)
+      .returning();
+    return professional;
+  }
+
+  async updateProfessional(
+    id: number,
+    professionalData: Partial<InsertProfessional>,
+  ): Promise<Professional | undefined> {
+    if (Object.keys(professionalData).length === 0) return this.getProfessional(id);
+
+    const [professional] = await this.db
+      .update(professionals)
+      .set(professionalData)
+      .where(eq(professionals.id, id))
+      .returning();
+    return professional;
+  }
+
+  // Professional Schedule methods
+  async getProfessionalSchedule(
+    id: number,
+  ): Promise<ProfessionalSchedule | undefined> {
+    const [schedule] = await this.db
+      .select()
+      .from(professionalSchedules)
+      .where(eq(professionalSchedules.id, id));
+    return schedule;
+  }
+
+  async getProfessionalSchedules(
+    professionalId: number,
+  ): Promise<ProfessionalSchedule[]> {
+    return this.db
+      .select()
+      .from(professionalSchedules)
+      .where(eq(professionalSchedules.professionalId, professionalId))
+      .orderBy(professionalSchedules.weekday, professionalSchedules.startTime);
+  }
+
+  async createProfessionalSchedule(
+    insertSchedule: InsertProfessionalSchedule,
+  ): Promise<ProfessionalSchedule> {
+    const [schedule] = await this.db
+      .insert(professionalSchedules)
+      .values(insertSchedule)
+      .returning();
+    return schedule;
+  }
+
+  async updateProfessionalSchedule(
+    id: number,
+    scheduleData: Partial<InsertProfessionalSchedule>,
+  ): Promise<ProfessionalSchedule | undefined> {
+    if (Object.keys(scheduleData).length === 0) return this.getProfessionalSchedule(id);
+
+    const [schedule] = await this.db
+      .update(professionalSchedules)
+      .set(scheduleData)
+      .where(eq(professionalSchedules.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async deleteProfessionalSchedule(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(professionalSchedules)
+      .where(eq(professionalSchedules.id, id))
+      .returning({ id: professionalSchedules.id });
+    return deleted.length > 0;
+  }
+
+  // Patient methods
+  async getPatient(id: number): Promise<Patient | undefined> {
+    const [patient] = await this.db.select().from(patients).where(eq(patients.id, id));
+    return patient;
+  }
+
+  async getAllPatients(): Promise<Patient[]> {
+    return this.db.select().from(patients).orderBy(patients.id);
+  }
+
+  async getPatientByCpf(cpf: string): Promise<Patient | undefined> {
+    const [patient] = await this.db
+      .select()
+      .from(patients)
+      .where(sql`regexp_replace(${patients.cpf}, '\\D', '', 'g') = ${cpf.replace(/\D/g, "")}`);
+    return patient;
+  }
+
+  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
+    const [patient] = await this.db.insert(patients).values(insertPatient).returning();
+    return patient;
+  }
+
+  async updatePatient(
+    id: number,
+    patientUpdate: Partial<InsertPatient>,
+  ): Promise<Patient | undefined> {
+    if (Object.keys(patientUpdate).length === 0) return this.getPatient(id);
+
+    const [patient] = await this.db
+      .update(patients)
+      .set(patientUpdate)
+      .where(eq(patients.id, id))
+      .returning();
+    return patient;
+  }
+
+  // Procedure methods
+  async getProcedure(id: number): Promise<Procedure | undefined> {
+    const [procedure] = await this.db
+      .select()
+      .from(procedures)
+      .where(eq(procedures.id, id));
+    return procedure;
+  }
+
+  async getAllProcedures(): Promise<Procedure[]> {
+    return this.db.select().from(procedures).orderBy(procedures.id);
+  }
+
+  async createProcedure(insertProcedure: InsertProcedure): Promise<Procedure> {
+    const [procedure] = await this.db
+      .insert(procedures)
+      .values(insertProcedure)
+      .returning();
+    return procedure;
+  }
+
+  async updateProcedure(
+    id: number,
+    procedureData: Partial<InsertProcedure>
+  ): Promise<Procedure | undefined> {
+    if (Object.keys(procedureData).length === 0) return this.getProcedure(id);
+
+    const [procedure] = await this.db
+      .update(procedures)
+      .set(procedureData)
+      .where(eq(procedures.id, id))
+      .returning();
+    return procedure;
+  }
+
+  async getProcedureResources(procedureId: number): Promise<Resource[]> {
+    const rows = await this.db
+      .select({ resource: resources })
+      .from(procedureResources)
+      .innerJoin(resources, eq(procedureResources.resourceId, resources.id))
+      .where(eq(procedureResources.procedureId, procedureId))
+      .orderBy(procedureResources.id);
+    return rows.map((row) => row.resource);
+  }
+
+  async setProcedureResources(
+    procedureId: number,
+    resourceIds: number[],
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(procedureResources)
+        .where(eq(procedureResources.procedureId, procedureId));
+
+      const uniqueIds = Array.from(new Set(resourceIds));
+      if (uniqueIds.length > 0) {
+        await tx
+          .insert(procedureResources)
+          .values(uniqueIds.map((resourceId) => ({ procedureId, resourceId })));
+      }
+    });
+  }
+
+  // Resource methods
+  async getResource(id: number): Promise<Resource | undefined> {
+    const [resource] = await this.db
+      .select()
+      .from(resources)
+      .where(eq(resources.id, id));
+    return resource;
+  }
+
+  async getAllResources(): Promise<Resource[]> {
+    return this.db.select().from(resources).orderBy(resources.id);
+  }
+
+  async createResource(insertResource: InsertResource): Promise<Resource> {
+    const [resource] = await this.db
+      .insert(resources)
+      .values(insertResource)
+      .returning();
+    return resource;
+  }
+
+  async updateResource(
+    id: number,
+    resourceData: Partial<InsertResource>,
+  ): Promise<Resource | undefined> {
+    if (Object.keys(resourceData).length === 0) return this.getResource(id);
+
+    const [resource] = await this.db
+      .update(resources)
+      .set(resourceData)
+      .where(eq(resources.id, id))
+      .returning();
+    return resource;
+  }
+
+  // Appointment methods
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await this.db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  private appointmentConditions(filters: AppointmentFilters): SQL | undefined {
+    const {
+      professionalId,
+      patientId,
+      resourceId,
+      seriesId,
+      status,
+      startDate,
+      endDate,
+      procedureType,
+    } = filters;
+    const conditions: SQL[] = [];
+
+    if (professionalId !== undefined) {
+      conditions.push(eq(appointments.professionalId, professionalId));
+    }
+    if (patientId !== undefined) {
+      conditions.push(eq(appointments.patientId, patientId));
+    }
+    if (resourceId !== undefined) {
+      conditions.push(this.reservesResource(resourceId));
+    }
+    if (seriesId !== undefined) {
+      conditions.push(eq(appointments.seriesId, seriesId));
+    }
+    if (status) {
+      conditions.push(inArray(appointments.status, status));
+    }
+    if (startDate) {
+      conditions.push(gte(appointments.date, startDate));
+    }
+    if (endDate) {
+      conditions.push(lte(appointments.date, endDate));
+    }
+    if (procedureType) {
+      conditions.push(
+        inArray(
+          appointments.id,
+          this.db
+            .select({ appointmentId: appointmentProcedures.appointmentId })
+            .from(appointmentProcedures)
+            .innerJoin(procedures, eq(appointmentProcedures.procedureId, procedures.id))
+            .where(eq(procedures.type, procedureType)),
+        ),
+      );
+    }
+
+    return and(...conditions);
+  }
+
+  private reservesResource(resourceId: number): SQL {
+    return inArray(
+      appointments.id,
+      this.db
+        .select({ appointmentId: appointmentResources.appointmentId })
+        .from(appointmentResources)
+        .where(eq(appointmentResources.resourceId, resourceId)),
+    );
+  }
+
+  async getAppointments(
+    filters: AppointmentFilters = {},
+    options: AppointmentListOptions = {},
+  ): Promise<Appointment[]> {
+    const { sortBy = "date", sortOrder = "asc", limit, offset = 0 } = options;
+    const direction = sortOrder === "desc" ? desc : asc;
+    const sortColumn = {
+      date: appointments.date,
+      status: appointments.status,
+      id: appointments.id,
+    }[sortBy];
+
+    const query = this.db
+      .select()
+      .from(appointments)
+      .where(this.appointmentConditions(filters))
+      .orderBy(direction(sortColumn), direction(appointments.id))
+      .offset(offset);
+
+    return limit === undefined ? query : query.limit(limit);
+  }
+
+  async countAppointments(filters: AppointmentFilters = {}): Promise<number> {
+    const [result] = await this.db
+      .select({ total: count() })
+      .from(appointments)
+      .where(this.appointmentConditions(filters));
+    return result.total;
+  }
+
+  async getOverlappingAppointments(
+    professionalId: number,
+    start: Date,
+    end: Date,
+    excludeAppointmentId?: number,
+  ): Promise<Appointment[]> {
+    const conditions = [
+      eq(appointments.professionalId, professionalId),
+      notInArray(appointments.status, [...NON_BLOCKING_STATUSES]),
+      lt(appointments.date, end),
+      sql`${appointments.date} + make_interval(mins => ${appointments.durationMinutes}) > ${start}`,
+    ];
+    if (excludeAppointmentId !== undefined) {
+      conditions.push(ne(appointments.id, excludeAppointmentId));
+    }
+
+    return this.db
+      .select()
+      .from(appointments)
+      .where(and(...conditions))
+      .orderBy(appointments.date);
+  }
+
+  async getOverlappingResourceAppointments(
+    resourceId: number,
+    start: Date,
+    end: Date,
+    excludeAppointmentId?: number,
+  ): Promise<Appointment[]> {
+    const conditions = [
+      this.reservesResource(resourceId),
+      notInArray(appointments.status, [...NON_BLOCKING_STATUSES]),
+      lt(appointments.date, end),
+      sql`${appointments.date} + make_interval(mins => ${appointments.durationMinutes}) > ${start}`,
+    ];
+    if (excludeAppointmentId !== undefined) {
+      conditions.push(ne(appointments.id, excludeAppointmentId));
+    }
+
+    return this.db
+      .select()
+      .from(appointments)
+      .where(and(...conditions))
+      .orderBy(appointments.date);
+  }
+
+  async withScheduleLock<T>(lock: ScheduleLock, fn: () => Promise<T>): Promise<T> {
+    // As travas duram até o fim da transação. A ordem fixa (profissionais e depois recursos,
+    // por id) evita que duas requisições fiquem esperando uma pela outra
+    return this.db.transaction(async (tx) => {
+      const keys = [
+        ...Array.from(new Set(lock.professionalIds)).sort((a, b) => a - b)
+          .map((id) => [PROFESSIONAL_SCHEDULE_LOCK, id]),
+        ...Array.from(new Set(lock.resourceIds)).sort((a, b) => a - b)
+          .map((id) => [RESOURCE_SCHEDULE_LOCK, id]),
+      ];
+      for (const [space, id] of keys) {
+        await tx.execute(sql`select pg_advisory_xact_lock(${space}::int, ${id}::int)`);
+      }
+      return this.transaction.run(tx as unknown as Database, fn);
+    });
+  }
+
+  async getAppointmentsByProfessional(
+    professionalId: number,
+    date?: Date,
+  ): Promise<Appointment[]> {
+    return this.getAppointments({ professionalId, ...dayRange(date) });
+  }
+
+  async getWaitingQueueByProfessional(
+    professionalId: number,
+    date?: Date,
+  ): Promise<Appointment[]> {
+    return this.getAppointments({
+      professionalId,
+      status: ["scheduled", "waiting", "in_progress"],
+      ...dayRange(date),
+    });
+  }
+
+  async createAppointment(
+    insertAppointment: InsertAppointment,
+  ): Promise<Appointment> {
+    const [appointment] = await this.db
+      .insert(appointments)
+      .values(insertAppointment)
+      .returning();
+    return appointment;
+  }
+
+  async updateAppointment(
+    id: number,
+    appointmentData: Partial<InsertAppointment>,
+  ): Promise<Appointment | undefined> {
+    if (Object.keys(appointmentData).length === 0) return this.getAppointment(id);
+
+    const [appointment] = await this.db
+      .update(appointments)
+      .set(appointmentData)
+      .where(eq(appointments.id, id))
+      .returning();
+    return appointment;
+  }
+
+  async updateAppointmentStatus(
+    id: number,
+    status: Appointment["status"],
+    expectedStatus: Appointment["status"],
+    cancellation?: AppointmentCancellation,
+    at = new Date(),
+  ): Promise<Appointment | undefined> {
+    // Compare-and-set: entre duas transições simultâneas, só a primeira altera a linha
+    const [appointment] = await this.db
+      .update(appointments)
+      .set({ status, ...statusTimestampUpdate(status, at), ...cancellation })
+      .where(and(eq(appointments.id, id), eq(appointments.status, expectedStatus)))
+      .returning();
+    return appointment;
+  }
+
+  async updateAppointmentQueue(
+    id: number,
+    changes: AppointmentQueueUpdate,
+  ): Promise<Appointment | undefined> {
+    const [appointment] = await this.db
+      .update(appointments)
+      .set(changes)
+      .where(eq(appointments.id, id))
+      .returning();
+    return appointment;
+  }
+
+  async completeAppointment(
+    id: number,
+    patientId: number,
+  ): Promise<Appointment | undefined> {
+    const [appointment] = await this.db
+      .update(appointments)
+      .set({ patientId, isPending: false })
+      .where(eq(appointments.id, id))
+      .returning();
+    return appointment;
+  }
+
+  // Appointment Series methods
+  async getAppointmentSeries(
+    id: number,
+  ): Promise<AppointmentSeries | undefined> {
+    const [series] = await this.db
+      .select()
+      .from(appointmentSeries)
+      .where(eq(appointmentSeries.id, id));
+    return series;
+  }
+
+  async createAppointmentSeries(
+    insertSeries: InsertAppointmentSeries,
+  ): Promise<AppointmentSeries> {
+    const [series] = await this.db
+      .insert(appointmentSeries)
+      .values(insertSeries)
+      .returning();
+    return series;
+  }
+
+  // Appointment Procedures methods
+  async getAppointmentProcedures(
+    appointmentId: number,
+  ): Promise<AppointmentProcedure[]> {
+    return this.db
+      .select()
+      .from(appointmentProcedures)
+      .where(eq(appointmentProcedures.appointmentId, appointmentId))
+      .orderBy(appointmentProcedures.id);
+  }
+
+  async addProcedureToAppointment(
+    insertAppointmentProcedure: InsertAppointmentProcedure,
+  ): Promise<AppointmentProcedure> {
+    const [appointmentProcedure] = await this.db
+      .insert(appointmentProcedures)
+      .values(insertAppointmentProcedure)
+      .returning();
+    return appointmentProcedure;
+  }
+
+  async getAppointmentWithProcedures(
+    appointmentId: number,
+  ): Promise<{ appointment: Appointment; procedures: Procedure[] }> {
+    const appointment = await this.getAppointment(appointmentId);
+    if (!appointment) {
+      throw new Error(`Appointment with id ${appointmentId} not found`);
+    }
+
+    const rows = await this.db
+      .select({ procedure: procedures })
+      .from(appointmentProcedures)
+      .innerJoin(procedures, eq(appointmentProcedures.procedureId, procedures.id))
+      .where(eq(appointmentProcedures.appointmentId, appointmentId))
+      .orderBy(appointmentProcedures.id);
+
+    return { appointment, procedures: rows.map((row) => row.procedure) };
+  }
+
+  async setAppointmentProcedures(
+    appointmentId: number,
+    procedureIds: number[],
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(appointmentProcedures)
+        .where(eq(appointmentProcedures.appointmentId, appointmentId));
+
+      const uniqueIds = Array.from(new Set(procedureIds));
+      if (uniqueIds.length > 0) {
+        await tx
+          .insert(appointmentProcedures)
+          .values(uniqueIds.map((procedureId) => ({ appointmentId, procedureId })));
+      }
+    });
+  }
+
+  // Appointment Resources methods
+  async getAppointmentResources(appointmentId: number): Promise<Resource[]> {
+    const rows = await this.db
+      .select({ resource: resources })
+      .from(appointmentResources)
+      .innerJoin(resources, eq(appointmentResources.resourceId, resources.id))
+      .where(eq(appointmentResources.appointmentId, appointmentId))
+      .orderBy(appointmentResources.id);
+    return rows.map((row) => row.resource);
+  }
+
+  async addResourceToAppointment(
+    insertAppointmentResource: InsertAppointmentResource,
+  ): Promise<AppointmentResource> {
+    const [appointmentResource] = await this.db
+      .insert(appointmentResources)
+      .values(insertAppointmentResource)
+      .returning();
+    return appointmentResource;
+  }
+
+  async setAppointmentResources(
+    appointmentId: number,
+    resourceIds: number[],
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(appointmentResources)
+        .where(eq(appointmentResources.appointmentId, appointmentId));
+
+      const uniqueIds = Array.from(new Set(resourceIds));
+      if (uniqueIds.length > 0) {
+        await tx
+          .insert(appointmentResources)
+          .values(uniqueIds.map((resourceId) => ({ appointmentId, resourceId })));
+      }
+    });
+  }
+
+  // Appointment Changes methods
+  async getAppointmentChanges(
+    appointmentId: number,
+  ): Promise<AppointmentChange[]> {
+    return this.db
+      .select()
+      .from(appointmentChanges)
+      .where(eq(appointmentChanges.appointmentId, appointmentId))
+      .orderBy(appointmentChanges.changedAt, appointmentChanges.id);
+  }
+
+  async createAppointmentChange(
+    insertChange: InsertAppointmentChange,
+  ): Promise<AppointmentChange> {
+    const [change] = await this.db
+      .insert(appointmentChanges)
+      .values(insertChange)
+      .returning();
+    return change;
+  }
+
+  // Waitlist methods
+  async getWaitlistEntries(filters: WaitlistFilters = {}): Promise<WaitlistEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(inArray(waitlistEntries.status, filters.status));
+    }
+    if (filters.professionalId) {
+      conditions.push(eq(waitlistEntries.professionalId, filters.professionalId));
+    }
+
+    return this.db
+      .select()
+      .from(waitlistEntries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(waitlistEntries.createdAt, waitlistEntries.id);
+  }
+
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(waitlistEntries)
+      .where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+
+  async createWaitlistEntry(
+    insertEntry: InsertWaitlistEntry,
+    procedureIds: number[],
+    windows: Omit<InsertWaitlistWindow, "entryId">[],
+  ): Promise<WaitlistEntry> {
+    return this.db.transaction(async (tx) => {
+      const [entry] = await tx.insert(waitlistEntries).values(insertEntry).returning();
+
+      const uniqueIds = Array.from(new Set(procedureIds));
+      if (uniqueIds.length > 0) {
+        await tx
+          .insert(waitlistProcedures)
+          .values(uniqueIds.map((procedureId) => ({ entryId: entry.id, procedureId })));
+      }
+      if (windows.length > 0) {
+        await tx
+          .insert(waitlistWindows)
+          .values(windows.map((window) => ({ ...window, entryId: entry.id })));
+      }
+      return entry;
+    });
+  }
+
+  async updateWaitlistEntry(
+    id: number,
+    entryData: Partial<InsertWaitlistEntry>,
+  ): Promise<WaitlistEntry | undefined> {
+    const [entry] = await this.db
+      .update(waitlistEntries)
+      .set(entryData)
+      .where(eq(waitlistEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async getWaitlistProcedures(entryId: number): Promise<Procedure[]> {
+    const rows = await this.db
+      .select({ procedure: procedures })
+      .from(waitlistProcedures)
+      .innerJoin(procedures, eq(waitlistProcedures.procedureId, procedures.id))
+      .where(eq(waitlistProcedures.entryId, entryId))
+      .orderBy(waitlistProcedures.id);
+    return rows.map((row) => row.procedure);
+  }
+
+  async getWaitlistWindows(entryId: number): Promise<WaitlistWindow[]> {
+    return this.db
+      .select()
+      .from(waitlistWindows)
+      .where(eq(waitlistWindows.entryId, entryId))
+      .orderBy(waitlistWindows.id);
+  }
+
+  // Waitlist Offers methods
+  async getWaitlistOffers(filters: WaitlistOfferFilters = {}): Promise<WaitlistOffer[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(inArray(waitlistOffers.status, filters.status));
+    }
+    if (filters.entryId) {
+      conditions.push(eq(waitlistOffers.entryId, filters.entryId));
+    }
+    if (filters.sourceAppointmentId) {
+      conditions.push(eq(waitlistOffers.sourceAppointmentId, filters.sourceAppointmentId));
+    }
+
+    return this.db
+      .select()
+      .from(waitlistOffers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(waitlistOffers.createdAt, waitlistOffers.id);
+  }
+
+  async getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined> {
+    const [offer] = await this.db
+      .select()
+      .from(waitlistOffers)
+      .where(eq(waitlistOffers.id, id));
+    return offer;
+  }
+
+  async createWaitlistOffer(insertOffer: InsertWaitlistOffer): Promise<WaitlistOffer> {
+    const [offer] = await this.db
+      .insert(waitlistOffers)
+      .values(insertOffer)
+      .returning();
+    return offer;
+  }
+
+  async updateWaitlistOfferStatus(
+    id: number,
+    status: WaitlistOffer["status"],
+  ): Promise<WaitlistOffer | undefined> {
+    const [offer] = await this.db
+      .update(waitlistOffers)
+      .set({ status })
+      .where(eq(waitlistOffers.id, id))
+      .returning();
+    return offer;
+  }
+
+  // Evolution methods
+  async getEvolution(id: number): Promise<Evolution | undefined> {
+    const [evolution] = await this.db
+      .select()
+      .from(evolutions)
+      .where(eq(evolutions.id, id));
+    return evolution;
+  }
+
+  async getEvolutionsByAppointment(
+    appointmentId: number,
+  ): Promise<Evolution[]> {
+    return this.db
+      .select()
+      .from(evolutions)
+      .where(eq(evolutions.appointmentId, appointmentId))
+      .orderBy(evolutions.createdAt);
+  }
+
+  async getEvolutionsByPatient(patientId: number): Promise<Evolution[]> {
+    return this.db
+      .select()
+      .from(evolutions)
+      .where(eq(evolutions.patientId, patientId))
+      .orderBy(evolutions.createdAt);
+  }
+
+  async createEvolution(insertEvolution: InsertEvolution): Promise<Evolution> {
+    const [evolution] = await this.db
+      .insert(evolutions)
+      .values(insertEvolution)
+      .returning();
+    return evolution;
+  }
+
+  // Financial Record methods
+  async getFinancialRecord(id: number): Promise<FinancialRecord | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(financialRecords)
+      .where(eq(financialRecords.id, id));
+    return record;
+  }
+
+  async getFinancialRecordByAppointment(appointmentId: number): Promise<FinancialRecord | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(financialRecords)
+      .where(eq(financialRecords.appointmentId, appointmentId));
+    return record;
+  }
+
+  async getFinancialRecords(filters: FinancialRecordFilters = {}): Promise<FinancialRecord[]> {
+    const conditions: SQL[] = [];
+    if (filters.professionalId) {
+      conditions.push(eq(financialRecords.professionalId, filters.professionalId));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(financialRecords.createdAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(financialRecords.createdAt, filters.endDate));
+    }
+
+    return this.db
+      .select()
+      .from(financialRecords)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(financialRecords.createdAt, financialRecords.id);
+  }
+
+  async getFinancialRecordsByProfessional(
+    professionalId: number,
+    date?: Date,
+  ): Promise<FinancialRecord[]> {
+    const conditions = [eq(financialRecords.professionalId, professionalId)];
+
+    const { startDate, endDate } = dayRange(date);
+    if (startDate && endDate) {
+      conditions.push(
+        gte(financialRecords.createdAt, startDate),
+        lte(financialRecords.createdAt, endDate),
+      );
+    }
+
+    return this.db
+      .select()
+      .from(financialRecords)
+      .where(and(...conditions))
+      .orderBy(financialRecords.createdAt);
+  }
+
+  async createFinancialRecord(
+    insertRecord: InsertFinancialRecord,
+    items: Omit<InsertFinancialRecordItem, "financialRecordId">[] = [],
+  ): Promise<FinancialRecord> {
+    return this.db.transaction(async (tx) => {
+      // O índice único de appointment_id decide a corrida entre duas gravações;
+      // a que perde devolve o registro da outra
+      const [record] = await tx
+        .insert(financialRecords)
+        .values(insertRecord)
+        .onConflictDoNothing({ target: financialRecords.appointmentId })
+        .returning();
+      if (!record) {
+        const [existing] = await tx
+          .select()
+          .from(financialRecords)
+          .where(eq(financialRecords.appointmentId, insertRecord.appointmentId));
+        return existing;
+      }
+
+      if (items.length > 0) {
+        await tx
+          .insert(financialRecordItems)
+          .values(items.map((item) => ({ ...item, financialRecordId: record.id })));
+      }
+      return record;
+    });
+  }
+
+  async getFinancialRecordItems(financialRecordId: number): Promise<FinancialRecordItem[]> {
+    return this.db
+      .select()
+      .from(financialRecordItems)
+      .where(eq(financialRecordItems.financialRecordId, financialRecordId))
+      .orderBy(financialRecordItems.id);
+  }
+
+  // Health plan methods
+  async getHealthPlan(id: number): Promise<HealthPlan | undefined> {
+    const [healthPlan] = await this.db
+      .select()
+      .from(healthPlans)
+      .where(eq(healthPlans.id, id));
+    return healthPlan;
+  }
+
+  async getAllHealthPlans(): Promise<HealthPlan[]> {
+    return this.db.select().from(healthPlans).orderBy(healthPlans.id);
+  }
+
+  async createHealthPlan(insertHealthPlan: InsertHealthPlan): Promise<HealthPlan> {
+    const [healthPlan] = await this.db
+      .insert(healthPlans)
+      .values(insertHealthPlan)
+      .returning();
+    return healthPlan;
+  }
+
+  async updateHealthPlan(
+    id: number,
+    healthPlanData: Partial<InsertHealthPlan>,
+  ): Promise<HealthPlan | undefined> {
+    if (Object.keys(healthPlanData).length === 0) return this.getHealthPlan(id);
+
+    const [healthPlan] = await this.db
+      .update(healthPlans)
+      .set(healthPlanData)
+      .where(eq(healthPlans.id, id))
+      .returning();
+    return healthPlan;
+  }
+
+  async getHealthPlanTiers(healthPlanId?: number): Promise<HealthPlanTier[]> {
+    return this.db
+      .select()
+      .from(healthPlanTiers)
+      .where(healthPlanId === undefined ? undefined : eq(healthPlanTiers.healthPlanId, healthPlanId))
+      .orderBy(healthPlanTiers.id);
+  }
+
+  async getHealthPlanTier(id: number): Promise<HealthPlanTier | undefined> {
+    const [tier] = await this.db
+      .select()
+      .from(healthPlanTiers)
+      .where(eq(healthPlanTiers.id, id));
+    return tier;
+  }
+
+  async createHealthPlanTier(insertTier: InsertHealthPlanTier): Promise<HealthPlanTier> {
+    const [tier] = await this.db
+      .insert(healthPlanTiers)
+      .values(insertTier)
+      .returning();
+    return tier;
+  }
+
+  async updateHealthPlanTier(
+    id: number,
+    tierData: Partial<InsertHealthPlanTier>,
+  ): Promise<HealthPlanTier | undefined> {
+    if (Object.keys(tierData).length === 0) return this.getHealthPlanTier(id);
+
+    const [tier] = await this.db
+      .update(healthPlanTiers)
+      .set(tierData)
+      .where(eq(healthPlanTiers.id, id))
+      .returning();
+    return tier;
+  }
+
+  async getHealthPlanPrices(healthPlanId: number): Promise<HealthPlanPrice[]> {
+    return this.db
+      .select()
+      .from(healthPlanPrices)
+      .where(eq(healthPlanPrices.healthPlanId, healthPlanId))
+      .orderBy(healthPlanPrices.procedureId);
+  }
+
+  async setHealthPlanPrice(healthPlanId: number, procedureId: number, value: number): Promise<HealthPlanPrice> {
+    const [price] = await this.db
+      .insert(healthPlanPrices)
+      .values({ healthPlanId, procedureId, value })
+      .onConflictDoUpdate({
+        target: [healthPlanPrices.healthPlanId, healthPlanPrices.procedureId],
+        set: { value },
+      })
+      .returning();
+    return price;
+  }
+
+  async deleteHealthPlanPrice(healthPlanId: number, procedureId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(healthPlanPrices)
+      .where(
+        and(
+          eq(healthPlanPrices.healthPlanId, healthPlanId),
+          eq(healthPlanPrices.procedureId, procedureId),
+        ),
+      )
+      .returning({ id: healthPlanPrices.id });
+    return deleted.length > 0;
+  }
+
+  // Patient health plan card methods
+  async getPatientHealthPlans(patientId: number): Promise<PatientHealthPlan[]> {
+    return this.db
+      .select()
+      .from(patientHealthPlans)
+      .where(eq(patientHealthPlans.patientId, patientId))
+      .orderBy(patientHealthPlans.id);
+  }
+
+  async getPatientHealthPlan(id: number): Promise<PatientHealthPlan | undefined> {
+    const [card] = await this.db
+      .select()
+      .from(patientHealthPlans)
+      .where(eq(patientHealthPlans.id, id));
+    return card;
+  }
+
+  async createPatientHealthPlan(insertCard: InsertPatientHealthPlan): Promise<PatientHealthPlan> {
+    const [card] = await this.db
+      .insert(patientHealthPlans)
+      .values(insertCard)
+      .returning();
+    return card;
+  }
+
+  async updatePatientHealthPlan(
+    id: number,
+    cardData: Partial<InsertPatientHealthPlan>,
+  ): Promise<PatientHealthPlan | undefined> {
+    if (Object.keys(cardData).length === 0) return this.getPatientHealthPlan(id);
+
+    const [card] = await this.db
+      .update(patientHealthPlans)
+      .set(cardData)
+      .where(eq(patientHealthPlans.id, id))
+      .returning();
+    return card;
+  }
+
+  // Commission rule methods
+  async getCommissionRule(id: number): Promise<CommissionRule | undefined> {
+    const [rule] = await this.db
+      .select()
+      .from(commissionRules)
+      .where(eq(commissionRules.id, id));
+    return rule;
+  }
+
+  async getAllCommissionRules(): Promise<CommissionRule[]> {
+    return this.db.select().from(commissionRules).orderBy(commissionRules.id);
+  }
+
+  async createCommissionRule(insertRule: InsertCommissionRule): Promise<CommissionRule> {
+    const [rule] = await this.db
+      .insert(commissionRules)
+      .values(insertRule)
+      .returning();
+    return rule;
+  }
+
+  async updateCommissionRule(
+    id: number,
+    ruleData: Partial<InsertCommissionRule>,
+  ): Promise<CommissionRule | undefined> {
+    if (Object.keys(ruleData).length === 0) return this.getCommissionRule(id);
+
+    const [rule] = await this.db
+      .update(commissionRules)
+      .set(ruleData)
+      .where(eq(commissionRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  // Payment methods
+  async getPayments(filters: PaymentFilters = {}): Promise<Payment[]> {
+    const conditions: SQL[] = [];
+    if (filters.appointmentIds) {
+      if (filters.appointmentIds.length === 0) return [];
+      conditions.push(inArray(payments.appointmentId, filters.appointmentIds));
+    }
+    if (filters.receivedBy) {
+      conditions.push(eq(payments.receivedBy, filters.receivedBy));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(payments.receivedAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(payments.receivedAt, filters.endDate));
+    }
+
+    return this.db
+      .select()
+      .from(payments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(payments.receivedAt, payments.id);
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const [payment] = await this.db
+      .select()
+      .from(payments)
+      .where(eq(payments.id, id));
+    return payment;
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const [payment] = await this.db
+      .insert(payments)
+      .values(insertPayment)
+      .returning();
+    return payment;
+  }
+
+  async cancelPayment(
+    id: number,
+    cancellation: PaymentCancellation,
+  ): Promise<Payment | undefined> {
+    const [payment] = await this.db
+      .update(payments)
+      .set({ ...cancellation, cancelledAt: new Date() })
+      .where(eq(payments.id, id))
+      .returning();
+    return payment;
+  }
+
+  // Payout methods
+  async getPayouts(filters: PayoutFilters = {}): Promise<Payout[]> {
+    const conditions: SQL[] = [];
+    if (filters.professionalId) {
+      conditions.push(eq(payouts.professionalId, filters.professionalId));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(payouts.endDate, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(payouts.startDate, filters.endDate));
+    }
+
+    return this.db
+      .select()
+      .from(payouts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(payouts.startDate, payouts.id);
+  }
+
+  async createPayout(insertPayout: InsertPayout): Promise<Payout> {
+    const [payout] = await this.db
+      .insert(payouts)
+      .values(insertPayout)
+      .returning();
+    return payout;
+  }
+
+  async getPayoutAdjustments(filters: PayoutFilters = {}): Promise<PayoutAdjustment[]> {
+    const conditions: SQL[] = [];
+    if (filters.professionalId) {
+      conditions.push(eq(payoutAdjustments.professionalId, filters.professionalId));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(payoutAdjustments.date, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(payoutAdjustments.date, filters.endDate));
+    }
+
+    return this.db
+      .select()
+      .from(payoutAdjustments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(payoutAdjustments.date, payoutAdjustments.id);
+  }
+
+  async getPayoutAdjustment(id: number): Promise<PayoutAdjustment | undefined> {
+    const [adjustment] = await this.db
+      .select()
+      .from(payoutAdjustments)
+      .where(eq(payoutAdjustments.id, id));
+    return adjustment;
+  }
+
+  async createPayoutAdjustment(insertAdjustment: InsertPayoutAdjustment): Promise<PayoutAdjustment> {
+    const [adjustment] = await this.db
+      .insert(payoutAdjustments)
+      .values(insertAdjustment)
+      .returning();
+    return adjustment;
+  }
+
+  async deletePayoutAdjustment(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(payoutAdjustments)
+      .where(eq(payoutAdjustments.id, id))
+      .returning({ id: payoutAdjustments.id });
+    return deleted.length > 0;
+  }
+}
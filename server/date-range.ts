@@ -0,0 +1,18 @@
+// Fica fora de storage.ts para que o DatabaseStorage não dependa do módulo que cria o
+// armazenamento ao ser carregado
+export interface DateRange {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Converte uma data no intervalo do dia inteiro (00:00:00 até 23:59:59)
+export function dayRange(date?: Date): DateRange {
+  if (!date) return {};
+
+  const startDate = new Date(date);
+  startDate.setHours(0, 0, 0, 0);
+  const endDate = new Date(date);
+  endDate.setHours(23, 59, 59, 999);
+
+  return { startDate, endDate };
+}
@@ -1,15 +1,63 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Qualquer cliente drizzle/postgres com o nosso schema (neon, node-postgres, pglite...)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// neon: Postgres serverless (padrão); pg: Postgres comum via node-postgres;
+// pglite: Postgres embutido, em memória ou na pasta indicada em DATABASE_URL
+export const databaseDrivers = ['neon', 'pg', 'pglite'] as const;
+export type DatabaseDriver = typeof databaseDrivers[number];
+
+export interface DatabaseConnection {
+  db: Database;
+  close: () => Promise<void>;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+// A conexão só é criada quando o armazenamento em banco é selecionado,
+// para que o modo em memória continue funcionando sem DATABASE_URL
+export function createDatabase(
+  driver = (process.env.DATABASE_DRIVER || 'neon') as DatabaseDriver,
+  connectionString = process.env.DATABASE_URL,
+): DatabaseConnection {
+  if (!databaseDrivers.includes(driver)) {
+    throw new Error(`DATABASE_DRIVER inválido: ${driver}. Use ${databaseDrivers.map((name) => `"${name}"`).join(', ')}.`);
+  }
+
+  if (driver === 'pglite') {
+    const client = new PGlite(connectionString);
+    return {
+      db: drizzlePglite({ client, schema }) as unknown as Database,
+      close: () => client.close(),
+    };
+  }
+
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  if (driver === 'pg') {
+    const pool = new pg.Pool({ connectionString });
+    return {
+      db: drizzleNodePostgres({ client: pool, schema }) as unknown as Database,
+      close: () => pool.end(),
+    };
+  }
+
+  const pool = new NeonPool({ connectionString });
+  return {
+    db: drizzleNeon({ client: pool, schema }) as unknown as Database,
+    close: () => pool.end(),
+  };
+}
@@ -0,0 +1,11 @@
+import { timingSafeEqual } from "crypto";
+
+// Compara o token enviado por um dispositivo sem login (painel da TV, totem) com o configurado.
+// Sem token configurado o dispositivo fica desativado
+export function matchesDeviceToken(token: unknown, expected: string | undefined): boolean {
+  if (!expected || typeof token !== "string") return false;
+
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
@@ -0,0 +1,85 @@
+import { Appointment } from "@shared/schema";
+import type { DisplayQueue } from "@shared/display";
+import { storage } from "./storage";
+import { dayRange } from "./date-range";
+import { orderQueue } from "./queue-priority";
+import { matchesDeviceToken } from "./device-token";
+import { estimateQueueWaits } from "./wait-metrics";
+
+// Token do painel da sala de espera, definido em DISPLAY_TOKEN; sem ele o painel fica desativado
+export function isValidDisplayToken(token: unknown): boolean {
+  return matchesDeviceToken(token, process.env.DISPLAY_TOKEN);
+}
+
+// "Maria da Silva Souza" -> "Maria S."; o painel fica à vista de todos na recepção
+export function anonymizeName(name: string | null | undefined): string {
+  const parts = (name ?? "").trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "Paciente";
+
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+  const first = capitalize(parts[0]);
+  return parts.length > 1 ? `${first} ${parts[parts.length - 1].charAt(0).toUpperCase()}.` : first;
+}
+
+async function appointmentPatientName(appointment: Appointment): Promise<string> {
+  if (appointment.patientId) {
+    const patient = await storage.getPatient(appointment.patientId);
+    if (patient) return anonymizeName(patient.name);
+  }
+  return anonymizeName(appointment.patientName);
+}
+
+// Sala do atendimento: a sala reservada no agendamento ou, na falta dela, o consultório do profissional
+async function appointmentRoom(appointment: Appointment, defaultRoom: string | null): Promise<string | null> {
+  const resources = await storage.getAppointmentResources(appointment.id);
+  return resources.find((resource) => resource.type === "room")?.name ?? defaultRoom;
+}
+
+// Fila de hoje por profissional: quem está em atendimento e quem aguarda, com nomes abreviados
+export async function buildDisplayQueue(now = new Date()): Promise<DisplayQueue[]> {
+  const appointments = await storage.getAppointments({
+    status: ["waiting", "in_progress"],
+    ...dayRange(now),
+  });
+
+  const byProfessional = new Map<number, Appointment[]>();
+  for (const appointment of appointments) {
+    const list = byProfessional.get(appointment.professionalId) ?? [];
+    list.push(appointment);
+    byProfessional.set(appointment.professionalId, list);
+  }
+
+  const waits = await estimateQueueWaits(Array.from(byProfessional.keys()), now);
+  const queues: DisplayQueue[] = [];
+  for (const [professionalId, list] of Array.from(byProfessional.entries())) {
+    const professional = await storage.getProfessional(professionalId);
+    if (!professional) continue;
+    const user = await storage.getUser(professional.userId);
+    const room = professional.room ?? null;
+
+    // Com mais de um em atendimento, o último iniciado é a chamada atual
+    const current = list
+      .filter((appointment) => appointment.status === "in_progress")
+      .sort((a, b) => (b.startedAt?.getTime() ?? 0) - (a.startedAt?.getTime() ?? 0))[0];
+    const waiting = (await orderQueue(list)).filter((appointment) => appointment.status === "waiting");
+
+    queues.push({
+      professionalId,
+      professionalName: user?.name ?? professional.specialty,
+      room,
+      current: current
+        ? {
+            appointmentId: current.id,
+            patientName: await appointmentPatientName(current),
+            room: await appointmentRoom(current, room),
+            startedAt: current.startedAt?.toISOString() ?? null,
+          }
+        : null,
+      waiting: await Promise.all(waiting.map(async (appointment) => ({
+        patientName: await appointmentPatientName(appointment),
+        estimatedWaitMinutes: waits.estimatedWaitMinutes.get(appointment.id) ?? null,
+      }))),
+    });
+  }
+  return queues.sort((a, b) => a.professionalName.localeCompare(b.professionalName));
+}
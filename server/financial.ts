@@ -0,0 +1,220 @@
+import {
+  Appointment,
+  CommissionRule,
+  FinancialRecord,
+  InsertFinancialRecordItem,
+  Procedure,
+  Professional,
+  appointmentTypeEnum,
+} from "@shared/schema";
+import type {
+  FinancialQuote,
+  FinancialSummary,
+  FinancialTotals,
+  FinancialTransaction,
+  ProfessionalRevenue,
+  RevenueByType,
+} from "@shared/financial";
+import { allocateCents, percentOf, sumCents } from "@shared/money";
+import { storage, type FinancialRecordFilters } from "./storage";
+import { selectCommissionRule } from "./commission-rules";
+import { applyHealthPlanPrices } from "./health-plans";
+
+// Comissão de cada procedimento do atendimento pela regra vigente na data do atendimento ou,
+// sem regra, pela comissão padrão do profissional. Valores fixos não passam do preço do procedimento.
+// Os preços já devem vir da tabela do convênio (applyHealthPlanPrices)
+export function commissionItems(
+  appointment: Appointment,
+  professional: Professional,
+  procedures: Procedure[],
+  rules: CommissionRule[],
+): Omit<InsertFinancialRecordItem, "financialRecordId">[] {
+  return procedures.map((procedure) => {
+    const rule = selectCommissionRule(rules, {
+      professionalId: professional.id,
+      procedureId: procedure.id,
+      healthPlanId: appointment.healthPlanId,
+      date: appointment.date,
+    });
+    const commissionType = rule?.type ?? "percentage";
+    const commissionValue = rule?.value ?? professional.commission;
+    const clinicCommission = commissionType === "fixed"
+      ? Math.min(commissionValue, procedure.value)
+      : percentOf(procedure.value, commissionValue);
+
+    return {
+      procedureId: procedure.id,
+      value: procedure.value,
+      commissionRuleId: rule?.id ?? null,
+      commissionType,
+      commissionValue,
+      clinicCommission,
+      professionalValue: procedure.value - clinicCommission,
+    };
+  });
+}
+
+function itemsTotals(items: Pick<InsertFinancialRecordItem, "value" | "clinicCommission">[]) {
+  const totalValue = sumCents(items.map((item) => item.value));
+  const clinicCommission = sumCents(items.map((item) => item.clinicCommission));
+  return { totalValue, clinicCommission, professionalValue: totalValue - clinicCommission };
+}
+
+// Registro financeiro do atendimento concluído, com a composição por procedimento e a regra
+// de comissão aplicada a cada um. Um único registro por agendamento; chamadas repetidas,
+// mesmo simultâneas, devolvem o já existente
+export async function recordAppointmentRevenue(appointment: Appointment): Promise<FinancialRecord | undefined> {
+  const existing = await storage.getFinancialRecordByAppointment(appointment.id);
+  if (existing) return existing;
+
+  const professional = await storage.getProfessional(appointment.professionalId);
+  if (!professional) return undefined;
+
+  const { procedures: scheduled } = await storage.getAppointmentWithProcedures(appointment.id);
+  const procedures = await applyHealthPlanPrices(appointment.healthPlanId, scheduled);
+  const items = commissionItems(appointment, professional, procedures, await storage.getAllCommissionRules());
+
+  return storage.createFinancialRecord({
+    appointmentId: appointment.id,
+    professionalId: appointment.professionalId,
+    ...itemsTotals(items),
+  }, items);
+}
+
+// Prévia dos valores do atendimento com os procedimentos marcados na tela, calculada como
+// na conclusão. Não grava nada
+export async function appointmentQuote(appointment: Appointment, selected: Procedure[]): Promise<FinancialQuote | undefined> {
+  const professional = await storage.getProfessional(appointment.professionalId);
+  if (!professional) return undefined;
+
+  const procedures = await applyHealthPlanPrices(appointment.healthPlanId, selected);
+
+  const items = commissionItems(appointment, professional, procedures, await storage.getAllCommissionRules());
+  return {
+    ...itemsTotals(items),
+    items: items.map((item, index) => ({
+      procedureId: item.procedureId,
+      name: procedures[index].name,
+      value: item.value,
+      clinicCommission: item.clinicCommission,
+      professionalValue: item.professionalValue,
+    })),
+  };
+}
+
+type FinancialPeriod = Required<Pick<FinancialRecordFilters, "startDate" | "endDate">> &
+  Pick<FinancialRecordFilters, "professionalId">;
+
+function totals(records: FinancialRecord[]): FinancialTotals {
+  return {
+    totalValue: sumCents(records.map((record) => record.totalValue)),
+    clinicValue: sumCents(records.map((record) => record.clinicCommission)),
+    professionalValue: sumCents(records.map((record) => record.professionalValue)),
+    appointmentsCount: records.length,
+  };
+}
+
+const percentageChange = (current: number, previous: number) =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10;
+
+// Totais do período comparados aos do período anterior de mesma duração
+export async function financialSummary(period: FinancialPeriod): Promise<FinancialSummary> {
+  const duration = period.endDate.getTime() - period.startDate.getTime() + 1;
+  const previousPeriod = {
+    professionalId: period.professionalId,
+    startDate: new Date(period.startDate.getTime() - duration),
+    endDate: new Date(period.startDate.getTime() - 1),
+  };
+
+  const current = totals(await storage.getFinancialRecords(period));
+  const previous = totals(await storage.getFinancialRecords(previousPeriod));
+  return {
+    ...current,
+    startDate: period.startDate.toISOString(),
+    endDate: period.endDate.toISOString(),
+    previous: {
+      ...previous,
+      startDate: previousPeriod.startDate.toISOString(),
+      endDate: previousPeriod.endDate.toISOString(),
+    },
+    change: {
+      totalValue: percentageChange(current.totalValue, previous.totalValue),
+      appointmentsCount: percentageChange(current.appointmentsCount, previous.appointmentsCount),
+    },
+  };
+}
+
+// Totais do período por profissional, do maior para o menor faturamento
+export async function revenueByProfessional(period: FinancialPeriod): Promise<ProfessionalRevenue[]> {
+  const records = await storage.getFinancialRecords(period);
+  const professionalIds = Array.from(new Set(records.map((record) => record.professionalId)));
+
+  const rows: ProfessionalRevenue[] = [];
+  for (const professionalId of professionalIds) {
+    const professional = await storage.getProfessional(professionalId);
+    const user = professional ? await storage.getUser(professional.userId) : undefined;
+    rows.push({
+      professional: {
+        id: professionalId,
+        name: user?.name ?? `Profissional #${professionalId}`,
+        specialty: professional?.specialty ?? "",
+      },
+      commission: professional?.commission ?? 0,
+      ...totals(records.filter((record) => record.professionalId === professionalId)),
+    });
+  }
+  return rows.sort((a, b) => b.totalValue - a.totalValue);
+}
+
+// Faturamento do período por tipo de procedimento. O valor de cada atendimento é dividido
+// entre os tipos na proporção do preço dos procedimentos, para que a soma feche com o total
+export async function revenueByType(period: FinancialPeriod): Promise<RevenueByType> {
+  const records = await storage.getFinancialRecords(period);
+  const byType = Object.fromEntries(
+    appointmentTypeEnum.enumValues.map((type) => [type, { count: 0, value: 0, percentage: 0 }]),
+  ) as RevenueByType["byType"];
+
+  for (const record of records) {
+    const { procedures } = await storage.getAppointmentWithProcedures(record.appointmentId);
+    const types = Array.from(new Set(procedures.map((procedure) => procedure.type)));
+    const shares = allocateCents(
+      record.totalValue,
+      types.map((type) => sumCents(procedures.filter((procedure) => procedure.type === type).map((procedure) => procedure.value))),
+    );
+    types.forEach((type, index) => {
+      byType[type].count++;
+      byType[type].value += shares[index];
+    });
+  }
+
+  const totalValue = sumCents(records.map((record) => record.totalValue));
+  for (const entry of Object.values(byType)) {
+    entry.percentage = totalValue > 0 ? Math.round((entry.value / totalValue) * 100) : 0;
+  }
+  return { totalValue, byType };
+}
+
+// Registros do período com profissional, paciente e procedimentos, do mais recente ao mais antigo
+export async function financialTransactions(period: FinancialPeriod): Promise<FinancialTransaction[]> {
+  const records = await storage.getFinancialRecords(period);
+  const transactions: FinancialTransaction[] = [];
+  for (const record of records.reverse()) {
+    const professional = await storage.getProfessional(record.professionalId);
+    const user = professional ? await storage.getUser(professional.userId) : undefined;
+    const { appointment, procedures } = await storage.getAppointmentWithProcedures(record.appointmentId);
+    const patient = appointment.patientId ? await storage.getPatient(appointment.patientId) : undefined;
+    transactions.push({
+      id: record.id,
+      appointmentId: record.appointmentId,
+      professionalId: record.professionalId,
+      professionalName: user?.name ?? `Profissional #${record.professionalId}`,
+      patientName: patient?.name ?? null,
+      procedures: procedures.map((procedure) => procedure.name),
+      totalValue: record.totalValue,
+      clinicCommission: record.clinicCommission,
+      professionalValue: record.professionalValue,
+      createdAt: record.createdAt.toISOString(),
+    });
+  }
+  return transactions;
+}
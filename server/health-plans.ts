@@ -0,0 +1,55 @@
+import { format, startOfDay } from "date-fns";
+import type { HealthPlan, PatientHealthPlan, Procedure } from "@shared/schema";
+import { storage } from "./storage";
+
+// A carteirinha vale até o fim do dia da validade; sem validade, vale sempre
+export const isCardValid = (card: PatientHealthPlan, date: Date) =>
+  !card.validUntil || card.validUntil >= startOfDay(date);
+
+// Carteirinha do paciente no convênio válida na data; entre várias, a cadastrada por último
+export async function findValidCard(
+  patientId: number,
+  healthPlanId: number,
+  date: Date,
+): Promise<PatientHealthPlan | undefined> {
+  const cards = await storage.getPatientHealthPlans(patientId);
+  return cards
+    .filter((card) => card.healthPlanId === healthPlanId && isCardValid(card, date))
+    .sort((a, b) => b.id - a.id)[0];
+}
+
+// Carteirinha que cobre o atendimento pelo convênio na data ou o motivo para recusar o
+// agendamento. Em séries, cada sessão é conferida, pois a carteirinha válida pode mudar entre elas
+export async function coverageCard(
+  healthPlan: HealthPlan,
+  patientId: number | null | undefined,
+  date: Date,
+): Promise<{ card: PatientHealthPlan } | { error: string }> {
+  if (!patientId) {
+    return { error: "Atendimentos por convênio exigem um paciente cadastrado" };
+  }
+  const card = await findValidCard(patientId, healthPlan.id, date);
+  if (!card) {
+    return {
+      error: `O paciente não tem carteirinha do convênio "${healthPlan.name}" válida em ${format(date, "dd/MM/yyyy")}`,
+    };
+  }
+  return { card };
+}
+
+// Procedimentos com o preço da tabela do convênio; os que estão fora da tabela, e todos
+// os atendimentos particulares, ficam com o preço particular
+export async function applyHealthPlanPrices(
+  healthPlanId: number | null,
+  procedures: Procedure[],
+): Promise<Procedure[]> {
+  if (!healthPlanId) return procedures;
+
+  const prices = new Map(
+    (await storage.getHealthPlanPrices(healthPlanId)).map((price) => [price.procedureId, price.value]),
+  );
+  return procedures.map((procedure) => ({
+    ...procedure,
+    value: prices.get(procedure.id) ?? procedure.value,
+  }));
+}
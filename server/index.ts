@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startNoShowSweep } from "./no-show";
 
 const app = express();
 app.use(express.json());
@@ -65,5 +66,6 @@ app.use((req, res, next) => {
     host: "localhost",
   }, () => {
     log(`serving on port ${port}`);
+    startNoShowSweep();
   });
 })();
@@ -0,0 +1,151 @@
+import { createHmac } from "crypto";
+import { Appointment, KioskIdentity, Patient } from "@shared/schema";
+import type { KioskAppointment } from "@shared/kiosk";
+import { storage } from "./storage";
+import { dayRange } from "./date-range";
+import { matchesDeviceToken } from "./device-token";
+
+// Token do totem de check-in, definido em KIOSK_TOKEN; sem ele o totem fica desativado
+export function isValidKioskToken(token: unknown): boolean {
+  return matchesDeviceToken(token, process.env.KIOSK_TOKEN);
+}
+
+// Tentativas de identificação que falharam: por totem (IP) e por CPF, para impedir
+// que alguém descubra datas de nascimento por tentativa e erro
+const ATTEMPT_WINDOW_MS = 10 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS_PER_DEVICE = 20;
+const MAX_FAILED_ATTEMPTS_PER_CPF = 5;
+
+const failedAttempts = new Map<string, { count: number; resetAt: number }>();
+
+function attemptLimits(ip: string | undefined, identity: KioskIdentity): [string, number][] {
+  const limits: [string, number][] = [[`ip:${ip ?? "desconhecido"}`, MAX_FAILED_ATTEMPTS_PER_DEVICE]];
+  if (identity.cpf) limits.push([`cpf:${identity.cpf.replace(/\D/g, "")}`, MAX_FAILED_ATTEMPTS_PER_CPF]);
+  return limits;
+}
+
+// Descarta as janelas já encerradas, para que CPFs tentados uma única vez não fiquem
+// acumulados no mapa
+function discardExpiredAttempts(now: number): void {
+  for (const [key, attempts] of Array.from(failedAttempts)) {
+    if (attempts.resetAt <= now) failedAttempts.delete(key);
+  }
+}
+
+export function isKioskRateLimited(ip: string | undefined, identity: KioskIdentity, now = Date.now()): boolean {
+  return attemptLimits(ip, identity).some(([key, max]) => {
+    const attempts = failedAttempts.get(key);
+    if (attempts && attempts.resetAt <= now) failedAttempts.delete(key);
+    return !!attempts && attempts.resetAt > now && attempts.count >= max;
+  });
+}
+
+export function recordFailedKioskAttempt(ip: string | undefined, identity: KioskIdentity, now = Date.now()): void {
+  discardExpiredAttempts(now);
+  for (const [key] of attemptLimits(ip, identity)) {
+    const attempts = failedAttempts.get(key);
+    if (attempts && attempts.resetAt > now) {
+      attempts.count++;
+    } else {
+      failedAttempts.set(key, { count: 1, resetAt: now + ATTEMPT_WINDOW_MS });
+    }
+  }
+}
+
+// Código de check-in do agendamento (conteúdo do QR da confirmação): id + assinatura,
+// para que não seja possível fazer check-in de outro agendamento trocando o número
+const CHECK_IN_CODE_SECRET = process.env.SESSION_SECRET || "clinica-medica-secret";
+
+export function checkInCode(appointmentId: number): string {
+  const signature = createHmac("sha256", CHECK_IN_CODE_SECRET)
+    .update(`check-in:${appointmentId}`)
+    .digest("hex")
+    .slice(0, 10)
+    .toUpperCase();
+  return `${appointmentId}-${signature}`;
+}
+
+export function parseCheckInCode(code: string): number | undefined {
+  const match = /^(\d+)-[0-9a-f]{10}$/i.exec(code.trim());
+  if (!match) return undefined;
+  const appointmentId = parseInt(match[1]);
+  return matchesDeviceToken(code.trim().toUpperCase(), checkInCode(appointmentId)) ? appointmentId : undefined;
+}
+
+// A data de nascimento é gravada à meia-noite UTC (new Date("AAAA-MM-DD")), então a
+// comparação usa a data em UTC e não depende do fuso do servidor
+function sameBirthDate(birthDate: Date, value: string): boolean {
+  return birthDate.toISOString().slice(0, 10) === value;
+}
+
+const FRONT_DESK_INCOMPLETE = "Seu cadastro precisa ser completado. Por favor, procure a recepção.";
+const FRONT_DESK_NO_APPOINTMENT = "Não encontramos agendamento para hoje. Por favor, procure a recepção.";
+
+export type KioskIdentification =
+  | { status: "found"; patient: Patient; appointments: Appointment[] }
+  | { status: "front_desk"; message: string }
+  | { status: "not_found" };
+
+// Identifica o paciente e os agendamentos de hoje que ainda aceitam check-in (ou já o fizeram).
+// "not_found" é uma identificação que falhou e conta para o limite de tentativas
+export async function identifyKioskPatient(identity: KioskIdentity, now = new Date()): Promise<KioskIdentification> {
+  const { startDate, endDate } = dayRange(now);
+  let patient: Patient | undefined;
+  let appointments: Appointment[];
+
+  if (identity.code) {
+    const appointmentId = parseCheckInCode(identity.code);
+    const appointment = appointmentId ? await storage.getAppointment(appointmentId) : undefined;
+    if (!appointment) return { status: "not_found" };
+    if (!appointment.patientId) return { status: "front_desk", message: FRONT_DESK_INCOMPLETE };
+
+    patient = await storage.getPatient(appointment.patientId);
+    appointments = [appointment];
+  } else {
+    patient = await storage.getPatientByCpf(identity.cpf!);
+    if (!patient || !sameBirthDate(patient.birthDate, identity.birthDate!)) return { status: "not_found" };
+    appointments = await storage.getAppointments({ patientId: patient.id, startDate, endDate });
+  }
+
+  if (!patient) return { status: "not_found" };
+  if (patient.needsCompletion) return { status: "front_desk", message: FRONT_DESK_INCOMPLETE };
+
+  const checkInable = appointments.filter(
+    (appointment) =>
+      (appointment.status === "scheduled" || appointment.status === "waiting") &&
+      appointment.date >= startDate! &&
+      appointment.date <= endDate!,
+  );
+  if (checkInable.length === 0) return { status: "front_desk", message: FRONT_DESK_NO_APPOINTMENT };
+  return { status: "found", patient, appointments: checkInable };
+}
+
+export async function kioskAppointment(appointment: Appointment): Promise<KioskAppointment> {
+  const professional = await storage.getProfessional(appointment.professionalId);
+  const user = professional ? await storage.getUser(professional.userId) : undefined;
+  return {
+    id: appointment.id,
+    date: appointment.date.toISOString(),
+    professionalName: user?.name ?? professional?.specialty ?? "",
+    room: professional?.room ?? null,
+    status: appointment.status === "waiting" ? "waiting" : "scheduled",
+  };
+}
+
+export const firstName = (name: string) => {
+  const first = name.trim().split(/\s+/)[0] ?? "";
+  return first.charAt(0).toUpperCase() + first.slice(1).toLowerCase();
+};
+
+// "(85) 98888-8888" -> "(**) *****-8888"
+export function maskPhone(phone: string | null | undefined): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length >= 4 ? `(**) *****-${digits.slice(-4)}` : null;
+}
+
+// "romulo@email.com" -> "r*****@email.com"
+export function maskEmail(email: string | null | undefined): string | null {
+  if (!email || !email.includes("@")) return null;
+  const [user, domain] = email.split("@");
+  return `${user.charAt(0)}${"*".repeat(Math.max(user.length - 1, 3))}@${domain}`;
+}
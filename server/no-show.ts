@@ -0,0 +1,42 @@
+import { Appointment } from "@shared/schema";
+import { storage } from "./storage";
+import { appointmentEnd } from "./availability";
+import { changeAppointmentStatus } from "./appointment-status";
+import { log } from "./vite";
+
+// Tolerância após o fim do horário agendado antes de considerar que o paciente faltou
+export const NO_SHOW_GRACE_MINUTES = 60;
+const NO_SHOW_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Marca como falta os agendamentos que continuaram "scheduled" (sem check-in) após a tolerância
+export async function markNoShows(now = new Date()): Promise<Appointment[]> {
+  const cutoff = new Date(now.getTime() - NO_SHOW_GRACE_MINUTES * 60 * 1000);
+  const candidates = await storage.getAppointments({ status: ["scheduled"], endDate: cutoff });
+
+  const marked: Appointment[] = [];
+  for (const appointment of candidates) {
+    if (appointmentEnd(appointment) > cutoff) continue;
+    const updated = await changeAppointmentStatus(appointment, "no_show", null);
+    if (updated) marked.push(updated);
+  }
+  return marked;
+}
+
+// Executa a varredura ao iniciar o servidor e depois periodicamente
+export function startNoShowSweep(): NodeJS.Timeout {
+  const sweep = async () => {
+    try {
+      const marked = await markNoShows();
+      if (marked.length > 0) {
+        log(`${marked.length} agendamento(s) marcado(s) como falta`, "no-show");
+      }
+    } catch (error) {
+      log(`falha ao marcar faltas: ${error instanceof Error ? error.message : error}`, "no-show");
+    }
+  };
+
+  void sweep();
+  const timer = setInterval(sweep, NO_SHOW_SWEEP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
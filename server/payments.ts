@@ -0,0 +1,192 @@
+import { Appointment, Payment, paymentMethodEnum } from "@shared/schema";
+import type {
+  AppointmentBalance,
+  AppointmentPayments,
+  CashClosingReport,
+  CashierEntry,
+  PatientBalance,
+  PaymentDetails,
+} from "@shared/payments";
+import { sumCents } from "@shared/money";
+import { storage } from "./storage";
+import { dayRange } from "./date-range";
+import { applyHealthPlanPrices } from "./health-plans";
+
+// Valor devido pelo atendimento: o do registro financeiro, se já concluído; antes disso,
+// a soma dos procedimentos agendados, pela tabela do convênio se houver (para pagamentos na chegada)
+export async function appointmentCharge(appointment: Appointment): Promise<number> {
+  const record = await storage.getFinancialRecordByAppointment(appointment.id);
+  if (record) return record.totalValue;
+
+  const { procedures } = await storage.getAppointmentWithProcedures(appointment.id);
+  const priced = await applyHealthPlanPrices(appointment.healthPlanId, procedures);
+  return sumCents(priced.map((procedure) => procedure.value));
+}
+
+// Soma dos pagamentos que não foram estornados
+const paidAmount = (payments: Payment[]) =>
+  sumCents(payments.filter((payment) => !payment.cancelledAt).map((payment) => payment.amount));
+
+export async function appointmentBalance(appointment: Appointment, payments?: Payment[]): Promise<AppointmentBalance> {
+  const charge = await appointmentCharge(appointment);
+  const paid = paidAmount(payments ?? await storage.getPayments({ appointmentIds: [appointment.id] }));
+  return {
+    appointmentId: appointment.id,
+    charge,
+    paid,
+    balance: Math.max(0, charge - paid),
+  };
+}
+
+// Nomes de usuários, profissionais e convênios consultados uma única vez por relatório
+function nameLookup() {
+  const users = new Map<number, string>();
+  const professionals = new Map<number, string>();
+  const healthPlans = new Map<number, string>();
+  return {
+    async user(id: number) {
+      if (!users.has(id)) users.set(id, (await storage.getUser(id))?.name ?? `Usuário #${id}`);
+      return users.get(id)!;
+    },
+    async professional(id: number) {
+      if (!professionals.has(id)) {
+        const professional = await storage.getProfessional(id);
+        const user = professional ? await storage.getUser(professional.userId) : undefined;
+        professionals.set(id, user?.name ?? `Profissional #${id}`);
+      }
+      return professionals.get(id)!;
+    },
+    async healthPlan(id: number) {
+      if (!healthPlans.has(id)) healthPlans.set(id, (await storage.getHealthPlan(id))?.name ?? `Convênio #${id}`);
+      return healthPlans.get(id)!;
+    },
+  };
+}
+
+async function patientName(appointment: Appointment): Promise<string> {
+  const patient = appointment.patientId ? await storage.getPatient(appointment.patientId) : undefined;
+  return patient?.name ?? appointment.patientName ?? "Paciente não identificado";
+}
+
+export async function appointmentPayments(appointment: Appointment): Promise<AppointmentPayments> {
+  const names = nameLookup();
+  const payments = await storage.getPayments({ appointmentIds: [appointment.id] });
+  const details: PaymentDetails[] = [];
+  for (const payment of payments) {
+    details.push({ ...payment, receivedByName: await names.user(payment.receivedBy) });
+  }
+  return { balance: await appointmentBalance(appointment, payments), payments: details };
+}
+
+// Contas a receber do paciente: atendimentos concluídos ainda não quitados
+export async function patientBalance(patientId: number, excludeAppointmentIds: number[] = []): Promise<PatientBalance> {
+  const names = nameLookup();
+  const completed = (await storage.getAppointments({ patientId, status: ["completed"] }))
+    .filter((appointment) => !excludeAppointmentIds.includes(appointment.id));
+  const payments = await storage.getPayments({ appointmentIds: completed.map((appointment) => appointment.id) });
+
+  const appointments: PatientBalance["appointments"] = [];
+  for (const appointment of completed) {
+    const balance = await appointmentBalance(
+      appointment,
+      payments.filter((payment) => payment.appointmentId === appointment.id),
+    );
+    if (balance.balance > 0) {
+      appointments.push({
+        ...balance,
+        date: appointment.date.toISOString(),
+        professionalName: await names.professional(appointment.professionalId),
+      });
+    }
+  }
+  return {
+    patientId,
+    outstanding: sumCents(appointments.map((appointment) => appointment.balance)),
+    appointments,
+  };
+}
+
+// Atendimentos do dia para o caixa (sem cancelados e faltas), em ordem de horário
+export async function cashierEntries(date: Date): Promise<CashierEntry[]> {
+  const names = nameLookup();
+  const { startDate, endDate } = dayRange(date);
+  const appointments = await storage.getAppointments({
+    status: ["scheduled", "waiting", "in_progress", "completed"],
+    startDate,
+    endDate,
+  });
+  const payments = await storage.getPayments({ appointmentIds: appointments.map((appointment) => appointment.id) });
+  const dayAppointmentIds = appointments.map((appointment) => appointment.id);
+  const previousOutstanding = new Map<number, number>();
+
+  const entries: CashierEntry[] = [];
+  for (const appointment of appointments) {
+    if (appointment.patientId && !previousOutstanding.has(appointment.patientId)) {
+      previousOutstanding.set(
+        appointment.patientId,
+        (await patientBalance(appointment.patientId, dayAppointmentIds)).outstanding,
+      );
+    }
+    entries.push({
+      ...await appointmentBalance(
+        appointment,
+        payments.filter((payment) => payment.appointmentId === appointment.id),
+      ),
+      date: appointment.date.toISOString(),
+      status: appointment.status,
+      patientId: appointment.patientId,
+      patientName: await patientName(appointment),
+      professionalName: await names.professional(appointment.professionalId),
+      healthPlanName: appointment.healthPlanId ? await names.healthPlan(appointment.healthPlanId) : null,
+      previousOutstanding: appointment.patientId ? previousOutstanding.get(appointment.patientId)! : 0,
+    });
+  }
+  return entries;
+}
+
+// Fechamento do caixa: recebimentos do dia por forma de pagamento e por atendente.
+// Pagamentos estornados aparecem na lista, mas ficam fora dos totais
+export async function cashClosingReport(date: Date, receivedBy?: number): Promise<CashClosingReport> {
+  const names = nameLookup();
+  const { startDate, endDate } = dayRange(date);
+  const payments = await storage.getPayments({ receivedBy, startDate, endDate });
+
+  const byMethod = Object.fromEntries(
+    paymentMethodEnum.enumValues.map((method) => [method, { count: 0, amount: 0 }]),
+  ) as CashClosingReport["byMethod"];
+  const byReceiver = new Map<number, CashClosingReport["byReceiver"][number]>();
+  const cancelled = { count: 0, amount: 0 };
+  const details: CashClosingReport["payments"] = [];
+
+  for (const payment of payments) {
+    const appointment = await storage.getAppointment(payment.appointmentId);
+    const receivedByName = await names.user(payment.receivedBy);
+    details.push({
+      ...payment,
+      receivedByName,
+      patientName: appointment ? await patientName(appointment) : "",
+      professionalName: appointment ? await names.professional(appointment.professionalId) : "",
+    });
+
+    if (payment.cancelledAt) {
+      cancelled.count++;
+      cancelled.amount += payment.amount;
+      continue;
+    }
+    byMethod[payment.method].count++;
+    byMethod[payment.method].amount += payment.amount;
+    const receiver = byReceiver.get(payment.receivedBy) ?? { userId: payment.receivedBy, name: receivedByName, count: 0, amount: 0 };
+    receiver.count++;
+    receiver.amount += payment.amount;
+    byReceiver.set(payment.receivedBy, receiver);
+  }
+
+  return {
+    date: startDate!.toISOString(),
+    total: paidAmount(payments),
+    byMethod,
+    byReceiver: Array.from(byReceiver.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    cancelled,
+    payments: details,
+  };
+}
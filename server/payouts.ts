@@ -0,0 +1,204 @@
+import { format } from "date-fns";
+import type { Payout, PayoutAdjustment } from "@shared/schema";
+import type { PayoutOverviewRow, PayoutStatement, PayoutTotals } from "@shared/payouts";
+import { storage } from "./storage";
+import { formatMoney, formatMoneyNumber, sumCents } from "@shared/money";
+import { financialTransactions } from "./financial";
+import { textPdf, type PdfLine } from "./pdf";
+
+export interface PayoutPeriod {
+  professionalId: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+const sameInstant = (a: Date, b: Date) => a.getTime() === b.getTime();
+
+function payoutTotals(payout: Payout): PayoutTotals {
+  return {
+    appointmentsCount: payout.appointmentsCount,
+    grossValue: payout.grossValue,
+    adjustmentsValue: payout.adjustmentsValue,
+    netValue: payout.netValue,
+  };
+}
+
+// Extrato do profissional no período: atendimentos concluídos (do mais antigo ao mais recente)
+// e ajustes. Se o período já foi fechado, os totais são os congelados no fechamento
+export async function payoutStatement(period: PayoutPeriod): Promise<PayoutStatement | undefined> {
+  const professional = await storage.getProfessional(period.professionalId);
+  if (!professional) return undefined;
+  const user = await storage.getUser(professional.userId);
+
+  const transactions = (await financialTransactions(period)).reverse();
+  const adjustments = await storage.getPayoutAdjustments(period);
+  const closedPayouts = await storage.getPayouts(period);
+  const payout = closedPayouts.find(
+    (closed) => sameInstant(closed.startDate, period.startDate) && sameInstant(closed.endDate, period.endDate),
+  ) ?? null;
+
+  const grossValue = sumCents(transactions.map((item) => item.professionalValue));
+  const adjustmentsValue = sumCents(adjustments.map((adjustment) => adjustment.amount));
+  const totals: PayoutTotals = payout ? payoutTotals(payout) : {
+    appointmentsCount: transactions.length,
+    grossValue,
+    adjustmentsValue,
+    netValue: grossValue + adjustmentsValue,
+  };
+
+  return {
+    ...totals,
+    professional: {
+      id: professional.id,
+      name: user?.name ?? `Profissional #${professional.id}`,
+      specialty: professional.specialty,
+    },
+    startDate: period.startDate.toISOString(),
+    endDate: period.endDate.toISOString(),
+    items: transactions.map((transaction) => ({
+      appointmentId: transaction.appointmentId,
+      date: transaction.createdAt,
+      patientName: transaction.patientName,
+      procedures: transaction.procedures,
+      totalValue: transaction.totalValue,
+      clinicCommission: transaction.clinicCommission,
+      professionalValue: transaction.professionalValue,
+    })),
+    adjustments,
+    payout,
+    locked: closedPayouts.length > 0,
+  };
+}
+
+// Repasses do período para todos os profissionais com atendimentos, ajustes ou fechamento
+export async function payoutOverview(startDate: Date, endDate: Date): Promise<PayoutOverviewRow[]> {
+  const rows: PayoutOverviewRow[] = [];
+  for (const professional of await storage.getAllProfessionals()) {
+    const statement = await payoutStatement({ professionalId: professional.id, startDate, endDate });
+    if (!statement) continue;
+    if (statement.items.length === 0 && statement.adjustments.length === 0 && !statement.locked) continue;
+
+    rows.push({
+      professional: statement.professional,
+      appointmentsCount: statement.appointmentsCount,
+      grossValue: statement.grossValue,
+      adjustmentsValue: statement.adjustmentsValue,
+      netValue: statement.netValue,
+      payout: statement.payout,
+      locked: statement.locked,
+    });
+  }
+  return rows.sort((a, b) => b.netValue - a.netValue);
+}
+
+// Repasse já fechado do profissional que cobre a data; ajustes nessa data ficam travados
+export async function closedPayoutOn(professionalId: number, date: Date): Promise<Payout | undefined> {
+  const [payout] = await storage.getPayouts({ professionalId, startDate: date, endDate: date });
+  return payout;
+}
+
+const formatDate = (value: string | Date) => format(new Date(value), "dd/MM/yyyy");
+
+const adjustmentKind = (adjustment: PayoutAdjustment) => (adjustment.amount >= 0 ? "Crédito" : "Desconto");
+
+export function payoutStatementFilename(statement: PayoutStatement, extension: "csv" | "pdf"): string {
+  const period = `${format(new Date(statement.startDate), "yyyy-MM-dd")}_${format(new Date(statement.endDate), "yyyy-MM-dd")}`;
+  return `repasse-${statement.professional.id}-${period}.${extension}`;
+}
+
+function csvCell(value: string | number | null): string {
+  const text = typeof value === "number" ? formatMoneyNumber(value) : value ?? "";
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Extrato em CSV para planilhas: separador ";" e vírgula decimal, como o Excel em português
+export function payoutStatementCsv(statement: PayoutStatement): string {
+  const rows: (string | number | null)[][] = [
+    ["Data", "Tipo", "Paciente", "Descrição", "Valor do atendimento", "Comissão da clínica", "Valor do profissional"],
+    ...statement.items.map((item) => [
+      formatDate(item.date),
+      "Atendimento",
+      item.patientName,
+      item.procedures.join(", "),
+      item.totalValue,
+      item.clinicCommission,
+      item.professionalValue,
+    ]),
+    ...statement.adjustments.map((adjustment) => [
+      formatDate(adjustment.date),
+      adjustmentKind(adjustment),
+      null,
+      adjustment.description,
+      null,
+      null,
+      adjustment.amount,
+    ]),
+    [],
+    [null, null, null, "Valor bruto", null, null, statement.grossValue],
+    [null, null, null, "Ajustes", null, null, statement.adjustmentsValue],
+    [null, null, null, "Valor líquido", null, null, statement.netValue],
+  ];
+  // BOM para o Excel reconhecer o UTF-8
+  return "\uFEFF" + rows.map((row) => row.map(csvCell).join(";")).join("\r\n") + "\r\n";
+}
+
+const column = (text: string, width: number) =>
+  (text.length > width ? `${text.slice(0, width - 1)}.` : text).padEnd(width);
+const amountColumn = (value: number, width = 13) => formatMoneyNumber(value).padStart(width);
+
+export function payoutStatementPdf(statement: PayoutStatement): Buffer {
+  const lines: PdfLine[] = [
+    { text: "Extrato de repasse", font: "bold", size: 16 },
+    { text: `${statement.professional.name} · ${statement.professional.specialty}`, size: 11 },
+    { text: `Período: ${formatDate(statement.startDate)} a ${formatDate(statement.endDate)}` },
+    {
+      text: statement.payout
+        ? `Situação: fechado em ${format(statement.payout.closedAt, "dd/MM/yyyy HH:mm")}`
+        : "Situação: em aberto (prévia, sujeita a alterações)",
+    },
+    { text: "" },
+    { text: `Atendimentos (${statement.items.length})`, font: "bold", size: 12 },
+  ];
+
+  if (statement.items.length > 0) {
+    lines.push({
+      text: `${column("Data", 10)} ${column("Paciente", 24)} ${column("Procedimentos", 26)}` +
+        `${"Atendimento".padStart(13)}${"Clínica".padStart(13)}${"Profissional".padStart(13)}`,
+      font: "mono",
+      size: 8,
+    });
+    for (const item of statement.items) {
+      lines.push({
+        text: `${column(formatDate(item.date), 10)} ${column(item.patientName ?? "-", 24)} ` +
+          `${column(item.procedures.join(", ") || "-", 26)}` +
+          `${amountColumn(item.totalValue)}${amountColumn(item.clinicCommission)}${amountColumn(item.professionalValue)}`,
+        font: "mono",
+        size: 8,
+      });
+    }
+  } else {
+    lines.push({ text: "Nenhum atendimento concluído no período." });
+  }
+
+  lines.push({ text: "" }, { text: `Ajustes (${statement.adjustments.length})`, font: "bold", size: 12 });
+  if (statement.adjustments.length > 0) {
+    for (const adjustment of statement.adjustments) {
+      lines.push({
+        text: `${column(formatDate(adjustment.date), 10)} ${column(adjustmentKind(adjustment), 9)} ` +
+          `${column(adjustment.description, 67)}${amountColumn(adjustment.amount)}`,
+        font: "mono",
+        size: 8,
+      });
+    }
+  } else {
+    lines.push({ text: "Nenhum ajuste no período." });
+  }
+
+  lines.push(
+    { text: "" },
+    { text: `Valor bruto (atendimentos): ${formatMoney(statement.grossValue)}` },
+    { text: `Ajustes: ${formatMoney(statement.adjustmentsValue)}` },
+    { text: `Valor líquido a repassar: ${formatMoney(statement.netValue)}`, font: "bold", size: 12 },
+  );
+  return textPdf(lines);
+}
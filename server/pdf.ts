@@ -0,0 +1,92 @@
+// Gerador mínimo de PDF para extratos e relatórios simples: páginas A4 com linhas de texto
+// nas fontes padrão dos leitores de PDF (sem embutir fontes) e codificação WinAnsi
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+export interface PdfLine {
+  text: string;
+  font?: PdfFont;
+  size?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_SPACING = 1.4;
+const FOOTER_SIZE = 8;
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: "F1", baseFont: "Helvetica" },
+  bold: { resource: "F2", baseFont: "Helvetica-Bold" },
+  mono: { resource: "F3", baseFont: "Courier" },
+};
+
+// String literal do PDF; caracteres fora do Latin-1 viram "?"
+function pdfString(text: string): string {
+  const latin1 = Array.from(text, (char) => (char.charCodeAt(0) <= 0xff ? char : "?")).join("");
+  return `(${latin1.replace(/[\\()]/g, "\\$&")})`;
+}
+
+function textCommand(text: string, font: PdfFont, size: number, y: number): string {
+  return `BT /${FONTS[font].resource} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`;
+}
+
+// Distribui as linhas em páginas, com numeração no rodapé
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const height = size * LINE_SPACING;
+    if (y - height < MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+    if (line.text) pages[pages.length - 1].push(textCommand(line.text, line.font ?? "regular", size, y));
+  }
+
+  return pages.map((commands, index) => [
+    ...commands,
+    textCommand(`Página ${index + 1} de ${pages.length}`, "regular", FOOTER_SIZE, MARGIN / 2),
+  ].join("\n"));
+}
+
+export function textPdf(lines: PdfLine[]): Buffer {
+  const contents = paginate(lines);
+  const fontIds = { regular: 3, bold: 4, mono: 5 };
+  const firstPageId = 6;
+  const pageIds = contents.map((_, index) => firstPageId + index * 2);
+  const fontResources = (Object.keys(FONTS) as PdfFont[])
+    .map((font) => `/${FONTS[font].resource} ${fontIds[font]} 0 R`)
+    .join(" ");
+
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    ...(Object.keys(FONTS) as PdfFont[]).map(
+      (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font].baseFont} /Encoding /WinAnsiEncoding >>`,
+    ),
+  ];
+  contents.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Latin-1 tem um byte por caractere, então o tamanho da string é o deslocamento em bytes
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
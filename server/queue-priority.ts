@@ -0,0 +1,126 @@
+import { Appointment, QueuePriority } from "@shared/schema";
+import { QUEUE_PRIORITY_LABELS, effectivePriorityFlags } from "@shared/queue-priority";
+import { storage } from "./storage";
+import { dayRange } from "./date-range";
+import { publishRealtimeEvent } from "./realtime";
+
+// "strict": prioridades sempre à frente de quem chegou antes;
+// "head_start": prioridades legais ganham alguns minutos de vantagem na ordem de chegada.
+// Urgências vão à frente nas duas políticas
+export type QueuePriorityPolicy =
+  | { type: "strict" }
+  | { type: "head_start"; minutes: number };
+
+const DEFAULT_HEAD_START_MINUTES = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Política definida por QUEUE_PRIORITY_POLICY e QUEUE_PRIORITY_HEAD_START_MINUTES
+export function queuePriorityPolicy(): QueuePriorityPolicy {
+  if (process.env.QUEUE_PRIORITY_POLICY === "head_start") {
+    const minutes = Number(process.env.QUEUE_PRIORITY_HEAD_START_MINUTES);
+    return { type: "head_start", minutes: minutes > 0 ? minutes : DEFAULT_HEAD_START_MINUTES };
+  }
+  return { type: "strict" };
+}
+
+// Vantagem, em ms, sobre o horário de chegada
+function priorityAdvance(flags: QueuePriority[], policy: QueuePriorityPolicy): number {
+  if (flags.includes("urgent")) return 2 * DAY_MS;
+  if (flags.length === 0) return 0;
+  return policy.type === "strict" ? DAY_MS : policy.minutes * 60 * 1000;
+}
+
+export type QueuedAppointment<T extends Appointment> = T & {
+  effectivePriorityFlags: QueuePriority[];
+  // Chave de ordenação de quem já chegou; a posição manual (queueRank) tem precedência
+  queueKey: number | null;
+};
+
+// Em atendimento primeiro, depois quem aguarda pela chave de prioridade e, por fim,
+// quem ainda não chegou, pelo horário agendado
+export async function orderQueue<T extends Appointment>(
+  appointments: T[],
+  policy = queuePriorityPolicy(),
+  now = new Date(),
+): Promise<QueuedAppointment<T>[]> {
+  const queued = await Promise.all(
+    appointments.map(async (appointment) => {
+      const patient = appointment.patientId ? await storage.getPatient(appointment.patientId) : undefined;
+      const flags = effectivePriorityFlags(appointment.priorityFlags ?? [], patient?.birthDate, now);
+      const queueKey = appointment.checkedInAt
+        ? appointment.queueRank ?? appointment.checkedInAt.getTime() - priorityAdvance(flags, policy)
+        : null;
+      return { ...appointment, effectivePriorityFlags: flags, queueKey };
+    }),
+  );
+
+  const stage = (appointment: QueuedAppointment<T>) =>
+    appointment.status === "in_progress" ? 0 : appointment.queueKey !== null ? 1 : 2;
+  return queued.sort((a, b) => {
+    if (stage(a) !== stage(b)) return stage(a) - stage(b);
+    if (a.queueKey !== null && b.queueKey !== null && a.queueKey !== b.queueKey) return a.queueKey - b.queueKey;
+    return a.date.getTime() - b.date.getTime() || a.id - b.id;
+  });
+}
+
+// Move o paciente uma posição na fila de espera do profissional, gravando uma posição manual
+// entre os vizinhos. Retorna undefined se o agendamento não estiver aguardando
+export async function moveInQueue(
+  appointment: Appointment,
+  direction: "up" | "down",
+): Promise<Appointment | undefined> {
+  if (appointment.status !== "waiting" || !appointment.checkedInAt) return undefined;
+
+  const waiting = await orderQueue(await storage.getAppointments({
+    professionalId: appointment.professionalId,
+    status: ["waiting"],
+    ...dayRange(appointment.checkedInAt),
+  }));
+  const keys = waiting.map((queued) => queued.queueKey!);
+  const index = waiting.findIndex((queued) => queued.id === appointment.id);
+  const target = direction === "up" ? index - 1 : index + 1;
+  if (index < 0 || target < 0 || target >= waiting.length) return appointment;
+
+  // Um minuto antes do primeiro (ou depois do último) quando não há vizinho do outro lado
+  const queueRank = direction === "up"
+    ? ((keys[target - 1] ?? keys[target] - 60000) + keys[target]) / 2
+    : (keys[target] + (keys[target + 1] ?? keys[target] + 60000)) / 2;
+  const updated = await storage.updateAppointmentQueue(appointment.id, { queueRank });
+  if (updated) publishQueueChange(updated);
+  return updated;
+}
+
+const priorityNames = (flags: readonly QueuePriority[]) =>
+  flags.map((flag) => QUEUE_PRIORITY_LABELS[flag]).join(", ") || null;
+
+// Grava as prioridades informadas pela recepção (check-in ou correção) e registra no histórico
+export async function updatePriorityFlags(
+  appointment: Appointment,
+  priorityFlags: QueuePriority[],
+  changedBy: number,
+): Promise<Appointment | undefined> {
+  const before = priorityNames(appointment.priorityFlags ?? []);
+  const after = priorityNames(priorityFlags);
+  if (before === after) return appointment;
+
+  const updated = await storage.updateAppointmentQueue(appointment.id, { priorityFlags });
+  if (updated) {
+    await storage.createAppointmentChange({
+      appointmentId: appointment.id,
+      changedBy,
+      field: "priority",
+      oldValue: before,
+      newValue: after,
+    });
+    publishQueueChange(updated);
+  }
+  return updated;
+}
+
+export function publishQueueChange(appointment: Appointment): void {
+  publishRealtimeEvent({
+    type: "appointment.queue",
+    appointmentId: appointment.id,
+    professionalId: appointment.professionalId,
+  });
+}
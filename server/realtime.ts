@@ -0,0 +1,97 @@
+import type { IncomingMessage, Server } from "http";
+import type { RequestHandler } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { Appointment, User } from "@shared/schema";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/realtime";
+import { storage } from "./storage";
+import { isValidDisplayToken } from "./display";
+
+interface RealtimeClient {
+  socket: WebSocket;
+  // "display" é o painel da sala de espera, conectado pelo token em vez de sessão
+  role: User["role"] | "display";
+  // Profissional do médico conectado; médicos só recebem eventos da própria agenda
+  professionalId?: number;
+}
+
+const clients = new Set<RealtimeClient>();
+
+// Usuário logado na requisição de upgrade, lido pelo mesmo middleware de sessão das rotas
+function sessionUserId(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as any, {} as any, () => {
+      resolve((req as any).session?.passport?.user);
+    });
+  });
+}
+
+// Aceita conexões WebSocket em REALTIME_PATH apenas de usuários logados e ativos
+// ou do painel da sala de espera com ?displayToken= válido
+export function setupRealtime(httpServer: Server, sessionMiddleware: RequestHandler): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    // Outros upgrades (ex.: HMR do Vite) ficam com quem os registrou
+    const url = new URL(req.url ?? "", "http://localhost");
+    if (url.pathname !== REALTIME_PATH) return;
+
+    const reject = () => {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+    };
+    const accept = (client: Omit<RealtimeClient, "socket">) => {
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const connected: RealtimeClient = { ...client, socket: ws };
+        clients.add(connected);
+        ws.on("close", () => clients.delete(connected));
+      });
+    };
+
+    try {
+      if (url.searchParams.has("displayToken")) {
+        if (!isValidDisplayToken(url.searchParams.get("displayToken"))) return reject();
+        return accept({ role: "display" });
+      }
+
+      const userId = await sessionUserId(req, sessionMiddleware);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !user.isActive) return reject();
+
+      const professional = user.role === "medico"
+        ? await storage.getProfessionalByUserId(user.id)
+        : undefined;
+      accept({ role: user.role, professionalId: professional?.id });
+    } catch (error) {
+      socket.destroy();
+    }
+  });
+}
+
+// Admin, recepção e o painel recebem todos os eventos (só ids e status);
+// médicos, só os dos próprios agendamentos (inclusive os que saíram da agenda deles)
+export function publishRealtimeEvent(event: RealtimeEvent): void {
+  const message = JSON.stringify(event);
+  const concerns = (professionalId?: number) =>
+    professionalId !== undefined && (
+      professionalId === event.professionalId ||
+      (event.type === "appointment.changed" && professionalId === event.previousProfessionalId)
+    );
+  clients.forEach((client) => {
+    if (client.socket.readyState !== WebSocket.OPEN) return;
+    if (client.role === "medico" && !concerns(client.professionalId)) return;
+    client.socket.send(message);
+  });
+}
+
+// Agendamento criado ou alterado sem troca de status; numa troca de profissional,
+// o anterior também é avisado
+export function publishAppointmentChanged(appointment: Appointment, previous?: Appointment): void {
+  publishRealtimeEvent({
+    type: "appointment.changed",
+    appointmentId: appointment.id,
+    professionalId: appointment.professionalId,
+    ...(previous && previous.professionalId !== appointment.professionalId
+      ? { previousProfessionalId: previous.professionalId }
+      : {}),
+  });
+}
@@ -1,15 +1,82 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { dayRange } from "./date-range";
+import {
+  appointmentEnd,
+  computeAvailableSlots,
+  proceduresDuration,
+  scheduleSlotMinutes,
+  DEFAULT_APPOINTMENT_MINUTES,
+  MAX_AVAILABILITY_DAYS
+} from "./availability";
+import { findScheduleConflict, outsideScheduleError } from "./scheduling";
+import { recordAppointmentChanges } from "./appointment-history";
+import { changeAppointmentStatus, STATUS_CONFLICT_MESSAGE } from "./appointment-status";
+import { markNoShows } from "./no-show";
+import { bookWaitlistOffer, expireRelatedOffers } from "./waitlist";
+import { publishAppointmentChanged, publishRealtimeEvent, setupRealtime } from "./realtime";
+import { buildDisplayQueue, isValidDisplayToken } from "./display";
+import { moveInQueue, orderQueue, updatePriorityFlags } from "./queue-priority";
+import { estimateQueueWaits, waitTimeReport } from "./wait-metrics";
+import { coverageCard } from "./health-plans";
+import {
+  appointmentQuote,
+  financialSummary,
+  financialTransactions,
+  recordAppointmentRevenue,
+  revenueByProfessional,
+  revenueByType,
+} from "./financial";
+import {
+  appointmentBalance,
+  appointmentPayments,
+  cashClosingReport,
+  cashierEntries,
+  patientBalance,
+} from "./payments";
+import {
+  closedPayoutOn,
+  payoutOverview,
+  payoutStatement,
+  payoutStatementCsv,
+  payoutStatementFilename,
+  payoutStatementPdf,
+} from "./payouts";
+import {
+  checkInCode,
+  firstName,
+  identifyKioskPatient,
+  isKioskRateLimited,
+  isValidKioskToken,
+  kioskAppointment,
+  maskEmail,
+  maskPhone,
+  recordFailedKioskAttempt,
+} from "./kiosk";
+import type { KioskCheckInResult, KioskLookupResult } from "@shared/kiosk";
+import { statusTransitionError } from "@shared/appointment-status";
+import { parseRecurrenceRule, expandRecurrence } from "@shared/recurrence";
+import { formatMoney } from "@shared/money";
 import { loginSchema, insertUserSchema, insertProfessionalSchema, insertPatientSchema, 
-  patientFormSchema, insertProcedureSchema, insertAppointmentSchema, appointmentFormSchema,
-  insertEvolutionSchema, insertFinancialRecordSchema, User } from "@shared/schema";
+  patientFormSchema, insertProcedureSchema, insertAppointmentSchema, appointmentFormSchema, refineRecurrenceStart,
+  insertEvolutionSchema, insertFinancialRecordSchema, appointmentQuerySchema, availabilityQuerySchema,
+  professionalScheduleFormSchema, procedureFormSchema, insertResourceSchema,
+  appointmentSeriesUpdateSchema, appointmentSeriesCancelSchema, appointmentUpdateSchema, appointmentStatusEnum, cancellationReasonSchema,
+  waitlistEntryFormSchema, waitlistStatusEnum, WaitlistEntry, appointmentPrioritySchema, queueMoveSchema,
+  kioskIdentitySchema, kioskCheckInSchema, waitTimeReportQuerySchema, financialReportQuerySchema, appointmentQuoteQuerySchema,
+  paymentFormSchema, paymentCancelSchema, cashierQuerySchema,
+  payoutPeriodSchema, payoutStatementQuerySchema, payoutAdjustmentFormSchema,
+  insertHealthPlanSchema, healthPlanTierFormSchema, healthPlanPriceFormSchema, patientHealthPlanFormSchema,
+  commissionRuleFormSchema, commissionRuleEndSchema,
+  User, Appointment, Procedure,
+  Resource, SeriesScope } from "@shared/schema";
 import bcrypt from "bcryptjs";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 
 declare module 'express-session' {
@@ -22,8 +89,8 @@ declare module 'express-session' {
 export async function registerRoutes(app: Express): Promise<Server> {
   const MemoryStore = createMemoryStore(session);
   
-  // Configure express-session
-  app.use(session({
+  // Configure express-session; o mesmo middleware autentica o canal de tempo real
+  const sessionMiddleware = session({
     secret: process.env.SESSION_SECRET || "clinica-medica-secret",
     resave: false,
     saveUninitialized: false,
@@ -31,7 +98,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     store: new MemoryStore({
       checkPeriod: 86400000 // prune expired entries every 24h
     })
-  }));
+  });
+  app.use(sessionMiddleware);
 
   // Initialize passport
   app.use(passport.initialize());
@@ -91,6 +159,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     };
   };
 
+  // Primeiro ID de recurso inexistente na lista recebida, para a mensagem de erro
+  const findMissingResourceId = async (resourceIds: number[]) => {
+    for (const resourceId of resourceIds) {
+      if (!(await storage.getResource(resourceId))) return resourceId;
+    }
+    return undefined;
+  };
+
   // Auth routes
   app.post('/api/auth/register', async (req, res, next) => {
     try {
@@ -230,11 +306,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User routes
   app.get('/api/users', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
     try {
-      // In a real app, we'd get all users from the database
-      // For now, use getMethods to simulate this
-      const admins = Array.from((storage as any).users.values())
-        .filter((user: any) => user.isActive)
-        .map(({ password, ...user }: any) => user);
+      const allUsers = await storage.getAllUsers();
+      const admins = allUsers
+        .filter((user) => user.isActive)
+        .map(({ password, ...user }) => user);
       
       res.status(200).json(admins);
     } catch (error) {
@@ -428,6 +503,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Professional schedule routes (horários de atendimento)
+  app.get('/api/professionals/:id/schedules', isAuthenticated, async (req, res, next) => {
+    try {
+      const professionalId = parseInt(req.params.id);
+      if (isNaN(professionalId)) {
+        return res.status(400).json({ message: 'ID de profissional inválido' });
+      }
+      
+      const professional = await storage.getProfessional(professionalId);
+      if (!professional) {
+        return res.status(404).json({ message: 'Profissional não encontrado' });
+      }
+      
+      const schedules = await storage.getProfessionalSchedules(professionalId);
+      res.status(200).json(schedules);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/professionals/:id/schedules', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const professionalId = parseInt(req.params.id);
+      if (isNaN(professionalId)) {
+        return res.status(400).json({ message: 'ID de profissional inválido' });
+      }
+      
+      const professional = await storage.getProfessional(professionalId);
+      if (!professional) {
+        return res.status(404).json({ message: 'Profissional não encontrado' });
+      }
+      
+      const scheduleData = professionalScheduleFormSchema.parse(req.body);
+      const newSchedule = await storage.createProfessionalSchedule({
+        ...scheduleData,
+        professionalId
+      });
+      
+      res.status(201).json(newSchedule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.put('/api/professionals/:id/schedules/:scheduleId', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const professionalId = parseInt(req.params.id);
+      const scheduleId = parseInt(req.params.scheduleId);
+      if (isNaN(professionalId) || isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'ID de horário inválido' });
+      }
+      
+      const existingSchedule = await storage.getProfessionalSchedule(scheduleId);
+      if (!existingSchedule || existingSchedule.professionalId !== professionalId) {
+        return res.status(404).json({ message: 'Horário não encontrado' });
+      }
+      
+      const scheduleData = professionalScheduleFormSchema.parse(req.body);
+      const updatedSchedule = await storage.updateProfessionalSchedule(scheduleId, {
+        ...scheduleData,
+        breakStart: scheduleData.breakStart ?? null,
+        breakEnd: scheduleData.breakEnd ?? null
+      });
+      
+      res.status(200).json(updatedSchedule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.delete('/api/professionals/:id/schedules/:scheduleId', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const professionalId = parseInt(req.params.id);
+      const scheduleId = parseInt(req.params.scheduleId);
+      if (isNaN(professionalId) || isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'ID de horário inválido' });
+      }
+      
+      const existingSchedule = await storage.getProfessionalSchedule(scheduleId);
+      if (!existingSchedule || existingSchedule.professionalId !== professionalId) {
+        return res.status(404).json({ message: 'Horário não encontrado' });
+      }
+      
+      await storage.deleteProfessionalSchedule(scheduleId);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Horários livres do profissional no período (padrão: próximos 7 dias)
+  app.get('/api/professionals/:id/availability', isAuthenticated, async (req, res, next) => {
+    try {
+      const professionalId = parseInt(req.params.id);
+      if (isNaN(professionalId)) {
+        return res.status(400).json({ message: 'ID de profissional inválido' });
+      }
+      
+      const professional = await storage.getProfessional(professionalId);
+      if (!professional) {
+        return res.status(404).json({ message: 'Profissional não encontrado' });
+      }
+      
+      const query = availabilityQuerySchema.parse(req.query);
+      const from = dayRange(query.from ?? new Date()).startDate!;
+      const defaultTo = new Date(from);
+      defaultTo.setDate(defaultTo.getDate() + 6);
+      const to = dayRange(query.to ?? defaultTo).endDate!;
+      
+      if (from > to) {
+        return res.status(400).json({ message: 'Data inicial deve ser anterior à data final' });
+      }
+      if (to.getTime() - from.getTime() > MAX_AVAILABILITY_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: `O período máximo é de ${MAX_AVAILABILITY_DAYS} dias` });
+      }
+      
+      const schedules = await storage.getProfessionalSchedules(professionalId);
+      const appointments = await storage.getAppointments({
+        professionalId,
+        status: ['scheduled', 'waiting', 'in_progress', 'completed'],
+        startDate: from,
+        endDate: to,
+      });
+      
+      const slots = computeAvailableSlots(
+        schedules,
+        appointments.map((appointment) => ({
+          start: appointment.date,
+          end: appointmentEnd(appointment)
+        })),
+        from,
+        to
+      );
+      
+      res.status(200).json({ professionalId, from, to, slots });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
   // Patient routes
   app.get('/api/patients', isAuthenticated, async (req, res, next) => {
     try {
@@ -456,6 +680,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Frequência do paciente: total de agendamentos, atendidos, faltas e cancelamentos
+  app.get('/api/patients/:id/attendance', isAuthenticated, async (req, res, next) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      if (isNaN(patientId)) {
+        return res.status(400).json({ message: 'ID de paciente inválido' });
+      }
+      
+      const patient = await storage.getPatient(patientId);
+      if (!patient) {
+        return res.status(404).json({ message: 'Paciente não encontrado' });
+      }
+      
+      const [total, completed, noShows, cancelled] = await Promise.all([
+        storage.countAppointments({ patientId }),
+        storage.countAppointments({ patientId, status: ['completed'] }),
+        storage.countAppointments({ patientId, status: ['no_show'] }),
+        storage.countAppointments({ patientId, status: ['cancelled'] }),
+      ]);
+      
+      res.status(200).json({ total, completed, noShows, cancelled });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Rota para criar paciente rápido com apenas nome
   app.post('/api/patients/quick', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
     try {
@@ -561,6 +811,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Carteirinhas de convênio do paciente
+  app.get('/api/patients/:id/health-plans', isAuthenticated, async (req, res, next) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      if (isNaN(patientId)) {
+        return res.status(400).json({ message: 'ID de paciente inválido' });
+      }
+      
+      const cards = await storage.getPatientHealthPlans(patientId);
+      res.status(200).json(cards);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Confere o convênio e se o plano escolhido é dele
+  const cardPlanError = async (healthPlanId: number, tierId: number | null | undefined) => {
+    if (!(await storage.getHealthPlan(healthPlanId))) {
+      return 'Convênio não encontrado';
+    }
+    if (tierId && (await storage.getHealthPlanTier(tierId))?.healthPlanId !== healthPlanId) {
+      return 'Plano não encontrado no convênio';
+    }
+    return null;
+  };
+
+  app.post('/api/patients/:id/health-plans', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const patientId = parseInt(req.params.id);
+      if (isNaN(patientId)) {
+        return res.status(400).json({ message: 'ID de paciente inválido' });
+      }
+      
+      const data = patientHealthPlanFormSchema.parse(req.body);
+      if (!(await storage.getPatient(patientId))) {
+        return res.status(404).json({ message: 'Paciente não encontrado' });
+      }
+      const planError = await cardPlanError(data.healthPlanId, data.tierId);
+      if (planError) {
+        return res.status(400).json({ message: planError });
+      }
+      
+      const card = await storage.createPatientHealthPlan({ ...data, patientId });
+      res.status(201).json(card);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Carteirinhas não são excluídas, pois ficam nos atendimentos; ao trocar de convênio, encerra-se a validade
+  app.put('/api/patient-health-plans/:id', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de carteirinha inválido' });
+      }
+      
+      const data = patientHealthPlanFormSchema.partial().parse(req.body);
+      const card = await storage.getPatientHealthPlan(id);
+      if (!card) {
+        return res.status(404).json({ message: 'Carteirinha não encontrada' });
+      }
+      const healthPlanId = data.healthPlanId ?? card.healthPlanId;
+      const tierId = data.tierId !== undefined ? data.tierId : card.tierId;
+      const planError = await cardPlanError(healthPlanId, tierId);
+      if (planError) {
+        return res.status(400).json({ message: planError });
+      }
+      
+      const updatedCard = await storage.updatePatientHealthPlan(id, data);
+      res.status(200).json(updatedCard);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
   // Procedure routes
   app.get('/api/procedures/:id', isAuthenticated, async (req, res, next) => {
     try {
@@ -574,7 +906,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Procedimento não encontrado' });
       }
       
-      res.status(200).json(procedure);
+      const resources = await storage.getProcedureResources(id);
+      res.status(200).json({ ...procedure, resources });
     } catch (error) {
       next(error);
     }
@@ -587,14 +920,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'ID de procedimento inválido' });
       }
       
-      const procedureData = insertProcedureSchema.partial().parse(req.body);
+      const { resourceIds, ...procedureData } = procedureFormSchema.partial().parse(req.body);
+      
+      const missingResourceId = resourceIds && await findMissingResourceId(resourceIds);
+      if (missingResourceId) {
+        return res.status(400).json({ message: `Recurso #${missingResourceId} não encontrado` });
+      }
+      
       const updatedProcedure = await storage.updateProcedure(id, procedureData);
       
       if (!updatedProcedure) {
         return res.status(404).json({ message: 'Procedimento não encontrado' });
       }
       
-      res.status(200).json(updatedProcedure);
+      // Sem "resourceIds" no corpo, mantém os recursos atuais
+      if (resourceIds) {
+        await storage.setProcedureResources(id, resourceIds);
+      }
+      
+      const resources = await storage.getProcedureResources(id);
+      res.status(200).json({ ...updatedProcedure, resources });
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
@@ -606,7 +951,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/procedures', isAuthenticated, async (req, res, next) => {
     try {
       const procedures = await storage.getAllProcedures();
-      res.status(200).json(procedures);
+      const proceduresWithResources = await Promise.all(
+        procedures.map(async (procedure) => ({
+          ...procedure,
+          resources: await storage.getProcedureResources(procedure.id)
+        }))
+      );
+      res.status(200).json(proceduresWithResources);
     } catch (error) {
       next(error);
     }
@@ -614,10 +965,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/procedures', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
     try {
-      const procedureData = insertProcedureSchema.parse(req.body);
+      const { resourceIds = [], ...procedureData } = procedureFormSchema.parse(req.body);
+      
+      const missingResourceId = await findMissingResourceId(resourceIds);
+      if (missingResourceId) {
+        return res.status(400).json({ message: `Recurso #${missingResourceId} não encontrado` });
+      }
+      
       const newProcedure = await storage.createProcedure(procedureData);
+      await storage.setProcedureResources(newProcedure.id, resourceIds);
       
-      res.status(201).json(newProcedure);
+      const resources = await storage.getProcedureResources(newProcedure.id);
+      res.status(201).json({ ...newProcedure, resources });
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
@@ -626,123 +985,359 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Appointment routes
-  // Get appointment by ID
-  app.get('/api/appointments/:id', isAuthenticated, async (req, res, next) => {
+  // Resource routes (salas e equipamentos)
+  app.get('/api/resources', isAuthenticated, async (req, res, next) => {
     try {
-      const appointmentId = parseInt(req.params.id);
-      if (isNaN(appointmentId)) {
-        return res.status(400).json({ message: 'ID de agendamento inválido' });
-      }
-      
-      const appointment = await storage.getAppointment(appointmentId);
-      if (!appointment) {
-        return res.status(404).json({ message: 'Agendamento não encontrado' });
-      }
-      
-      // Enrich appointment data
-      let patient = null;
-      if (appointment.patientId) {
-        patient = await storage.getPatient(appointment.patientId);
+      const resources = await storage.getAllResources();
+      res.status(200).json(resources);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/resources/:id', isAuthenticated, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de recurso inválido' });
       }
       
-      // Buscar procedimentos associados a este agendamento
-      const appointmentWithProcedures = await storage.getAppointmentWithProcedures(appointmentId);
-      const procedures = appointmentWithProcedures.procedures || [];
-      
-      const professional = await storage.getProfessional(appointment.professionalId);
-      
-      // Buscar dados do usuário associado ao profissional
-      let professionalWithUser = professional;
-      if (professional) {
-        const user = await storage.getUser(professional.userId);
-        if (user) {
-          // Remover dados sensíveis
-          const { password, ...userWithoutPassword } = user;
-          
-          professionalWithUser = {
-            ...professional,
-            user: {
-              id: user.id,
-              name: user.name,
-              email: user.email,
-              role: user.role
-            }
-          };
-        }
+      const resource = await storage.getResource(id);
+      if (!resource) {
+        return res.status(404).json({ message: 'Recurso não encontrado' });
       }
       
-      res.status(200).json({
-        ...appointment,
-        patient,
-        procedures,
-        professional: professionalWithUser
-      });
+      res.status(200).json(resource);
     } catch (error) {
       next(error);
     }
   });
 
-  app.get('/api/appointments', isAuthenticated, async (req, res, next) => {
+  app.post('/api/resources', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
     try {
-      const user = req.user as any;
-      let professionalId: number | undefined;
+      const resourceData = insertResourceSchema.parse(req.body);
+      const newResource = await storage.createResource(resourceData);
       
-      // If user is a medico, get their professional ID
-      if (user.role === 'medico') {
-        const professional = await storage.getProfessionalByUserId(user.id);
-        if (professional) {
-          professionalId = professional.id;
-        }
+      res.status(201).json(newResource);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Recursos não são excluídos, apenas desativados (isActive), para preservar o histórico
+  app.put('/api/resources/:id', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de recurso inválido' });
       }
       
-      // Get date from query params
-      const dateParam = req.query.date as string;
-      let date: Date | undefined;
-      let dateStart: Date | undefined;
-      let dateEnd: Date | undefined;
+      const resourceData = insertResourceSchema.partial().parse(req.body);
+      const updatedResource = await storage.updateResource(id, resourceData);
       
-      if (dateParam) {
-        // Converte a string para um objeto Date
-        date = new Date(dateParam);
-        
-        // Cria data de início (00:00:00) e fim (23:59:59) para o filtro
-        // Usar a data local para evitar problemas com timezone
-        dateStart = new Date(date);
-        dateStart.setHours(0, 0, 0, 0);
-        
-        dateEnd = new Date(date);
-        dateEnd.setHours(23, 59, 59, 999);
-        
-        console.log(`Filtrando agendamentos para a data: ${dateParam}`);
-        console.log(`Data de início: ${dateStart.toISOString()}`);
-        console.log(`Data de fim: ${dateEnd.toISOString()}`);
+      if (!updatedResource) {
+        return res.status(404).json({ message: 'Recurso não encontrado' });
       }
       
-      // Get appointments based on role and filters
-      let appointments;
-      if (professionalId) {
-        appointments = await storage.getAppointmentsByProfessional(professionalId, date);
-      } else {
-        // In a real app, this would get all appointments
-        // For simplicity, we'll get all appointments stored in memory
-        appointments = Array.from((storage as any).appointments.values());
-        
-        // Filter by date if provided
-        if (dateStart && dateEnd) {
-          console.log("Filtrando agendamentos por intervalo de data");
-          
-          appointments = appointments.filter((appointment: any) => {
-            const appointmentDate = new Date(appointment.date);
-            const isInRange = appointmentDate >= dateStart! && appointmentDate <= dateEnd!;
-            console.log(`Verificando: ${appointment.date}, em intervalo: ${isInRange}`);
-            return isInRange;
-          });
-        }
+      res.status(200).json(updatedResource);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
-      
-      // Enrich appointment data with patient, procedure, and professional details
-      const enrichedAppointments = await Promise.all(
+      next(error);
+    }
+  });
+
+  // Health plan routes (convênios)
+  // O registro ANS identifica a operadora e não pode se repetir
+  const duplicateAnsRegistry = async (ansRegistry: string | null | undefined, exceptId?: number) =>
+    !!ansRegistry && (await storage.getAllHealthPlans())
+      .some((plan) => plan.ansRegistry === ansRegistry && plan.id !== exceptId);
+
+  app.get('/api/health-plans', isAuthenticated, async (req, res, next) => {
+    try {
+      const healthPlans = await storage.getAllHealthPlans();
+      res.status(200).json(healthPlans);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/health-plans', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const healthPlanData = insertHealthPlanSchema.parse(req.body);
+      if (await duplicateAnsRegistry(healthPlanData.ansRegistry)) {
+        return res.status(400).json({ message: 'Já existe um convênio com este registro ANS' });
+      }
+      const newHealthPlan = await storage.createHealthPlan(healthPlanData);
+      
+      res.status(201).json(newHealthPlan);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Convênios não são excluídos, apenas desativados, pois ficam nos atendimentos e nas regras de comissão
+  app.put('/api/health-plans/:id', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de convênio inválido' });
+      }
+      
+      const healthPlanData = insertHealthPlanSchema.partial().parse(req.body);
+      if (await duplicateAnsRegistry(healthPlanData.ansRegistry, id)) {
+        return res.status(400).json({ message: 'Já existe um convênio com este registro ANS' });
+      }
+      const updatedHealthPlan = await storage.updateHealthPlan(id, healthPlanData);
+      
+      if (!updatedHealthPlan) {
+        return res.status(404).json({ message: 'Convênio não encontrado' });
+      }
+      
+      res.status(200).json(updatedHealthPlan);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Planos (categorias) do convênio
+  app.get('/api/health-plans/:id/tiers', isAuthenticated, async (req, res, next) => {
+    try {
+      const healthPlanId = parseInt(req.params.id);
+      if (isNaN(healthPlanId)) {
+        return res.status(400).json({ message: 'ID de convênio inválido' });
+      }
+      
+      const tiers = await storage.getHealthPlanTiers(healthPlanId);
+      res.status(200).json(tiers);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/health-plans/:id/tiers', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const healthPlanId = parseInt(req.params.id);
+      if (isNaN(healthPlanId)) {
+        return res.status(400).json({ message: 'ID de convênio inválido' });
+      }
+      
+      const data = healthPlanTierFormSchema.parse(req.body);
+      if (!(await storage.getHealthPlan(healthPlanId))) {
+        return res.status(404).json({ message: 'Convênio não encontrado' });
+      }
+      
+      const tier = await storage.createHealthPlanTier({ ...data, healthPlanId });
+      res.status(201).json(tier);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Planos também só são desativados, pois ficam nas carteirinhas
+  app.put('/api/health-plan-tiers/:id', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de plano inválido' });
+      }
+      
+      const data = healthPlanTierFormSchema.partial().parse(req.body);
+      const updatedTier = await storage.updateHealthPlanTier(id, data);
+      if (!updatedTier) {
+        return res.status(404).json({ message: 'Plano não encontrado' });
+      }
+      
+      res.status(200).json(updatedTier);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Tabela de preços do convênio (valores em centavos)
+  app.get('/api/health-plans/:id/prices', isAuthenticated, async (req, res, next) => {
+    try {
+      const healthPlanId = parseInt(req.params.id);
+      if (isNaN(healthPlanId)) {
+        return res.status(400).json({ message: 'ID de convênio inválido' });
+      }
+      
+      const prices = await storage.getHealthPlanPrices(healthPlanId);
+      res.status(200).json(prices);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put('/api/health-plans/:id/prices/:procedureId', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const healthPlanId = parseInt(req.params.id);
+      const procedureId = parseInt(req.params.procedureId);
+      if (isNaN(healthPlanId) || isNaN(procedureId)) {
+        return res.status(400).json({ message: 'ID de convênio ou procedimento inválido' });
+      }
+      
+      const { value } = healthPlanPriceFormSchema.parse(req.body);
+      if (!(await storage.getHealthPlan(healthPlanId))) {
+        return res.status(404).json({ message: 'Convênio não encontrado' });
+      }
+      if (!(await storage.getProcedure(procedureId))) {
+        return res.status(404).json({ message: 'Procedimento não encontrado' });
+      }
+      
+      const price = await storage.setHealthPlanPrice(healthPlanId, procedureId, value);
+      res.status(200).json(price);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Sem preço na tabela, o procedimento volta a ser cobrado pelo preço particular
+  app.delete('/api/health-plans/:id/prices/:procedureId', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const healthPlanId = parseInt(req.params.id);
+      const procedureId = parseInt(req.params.procedureId);
+      if (isNaN(healthPlanId) || isNaN(procedureId)) {
+        return res.status(400).json({ message: 'ID de convênio ou procedimento inválido' });
+      }
+      
+      const deleted = await storage.deleteHealthPlanPrice(healthPlanId, procedureId);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Preço não encontrado na tabela do convênio' });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Appointment routes
+  // Get appointment by ID
+  app.get('/api/appointments/:id', isAuthenticated, async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      // Enrich appointment data
+      let patient = null;
+      if (appointment.patientId) {
+        patient = await storage.getPatient(appointment.patientId);
+      }
+      
+      // Buscar procedimentos associados a este agendamento
+      const appointmentWithProcedures = await storage.getAppointmentWithProcedures(appointmentId);
+      const procedures = appointmentWithProcedures.procedures || [];
+      const resources = await storage.getAppointmentResources(appointmentId);
+      
+      const professional = await storage.getProfessional(appointment.professionalId);
+      
+      // Buscar dados do usuário associado ao profissional
+      let professionalWithUser = professional;
+      if (professional) {
+        const user = await storage.getUser(professional.userId);
+        if (user) {
+          // Remover dados sensíveis
+          const { password, ...userWithoutPassword } = user;
+          
+          professionalWithUser = {
+            ...professional,
+            user: {
+              id: user.id,
+              name: user.name,
+              email: user.email,
+              role: user.role
+            }
+          };
+        }
+      }
+      
+      res.status(200).json({
+        ...appointment,
+        patient,
+        procedures,
+        resources,
+        professional: professionalWithUser
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/appointments', isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user as any;
+      const query = appointmentQuerySchema.parse(req.query);
+      let professionalId = query.professionalId;
+      
+      // Médicos veem apenas a própria agenda, inclusive ao filtrar por paciente ou sala/equipamento
+      if (user.role === 'medico') {
+        const professional = await storage.getProfessionalByUserId(user.id);
+        if (!professional) {
+          return res.status(404).json({ message: 'Profissional não encontrado para este usuário' });
+        }
+        professionalId = professional.id;
+      }
+      
+      // "date" filtra um único dia; startDate/endDate filtram um intervalo de dias
+      const startDate = dayRange(query.startDate ?? query.date).startDate;
+      const endDate = dayRange(query.endDate ?? query.date).endDate;
+      if (startDate && endDate && startDate > endDate) {
+        return res.status(400).json({ message: 'Data inicial deve ser anterior à data final' });
+      }
+      
+      const filters = {
+        professionalId,
+        patientId: query.patientId,
+        resourceId: query.resourceId,
+        status: query.status,
+        procedureType: query.type,
+        startDate,
+        endDate,
+      };
+      
+      // Get appointments based on role and filters
+      const appointments = await storage.getAppointments(filters, {
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        // Sem "page", retorna todos os resultados (compatível com as telas atuais)
+        ...(query.page
+          ? { limit: query.pageSize, offset: (query.page - 1) * query.pageSize }
+          : {}),
+      });
+      
+      if (query.page) {
+        res.setHeader('X-Total-Count', (await storage.countAppointments(filters)).toString());
+      }
+      
+      // Enrich appointment data with patient, procedure, and professional details
+      const enrichedAppointments = await Promise.all(
         appointments.map(async (appointment: any) => {
           // Buscar paciente se o ID estiver definido
           let patient = null;
@@ -753,6 +1348,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Buscar procedimentos associados ao agendamento
           const appointmentWithProcedures = await storage.getAppointmentWithProcedures(appointment.id);
           const procedures = appointmentWithProcedures.procedures || [];
+          const resources = await storage.getAppointmentResources(appointment.id);
           
           // Buscar dados do profissional
           const professional = await storage.getProfessional(appointment.professionalId);
@@ -778,6 +1374,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             ...appointment,
             patient,
             procedures,
+            resources,
             professional: professionalWithUser
           };
         })
@@ -785,6 +1382,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(200).json(enrichedAppointments);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       next(error);
     }
   });
@@ -816,33 +1416,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const status = req.query.status as string | undefined;
       const type = req.query.type as string | undefined;
       
-      // Get appointments - agora aceita que professionalId seja undefined
-      let appointments;
-      
-      if (professionalId) {
-        appointments = await storage.getWaitingQueueByProfessional(professionalId, date);
-      } else {
-        // Obter todos os agendamentos para a data especificada
-        const allAppointments = Array.from((storage as any).appointments.values());
-        
-        // Filtrar pela data
-        const dateStart = new Date(date || new Date());
-        dateStart.setHours(0, 0, 0, 0);
-        const dateEnd = new Date(date || new Date());
-        dateEnd.setHours(23, 59, 59, 999);
-        
-        // Filtrar por status (agendados, em espera ou em atendimento)
-        appointments = allAppointments.filter((appointment: any) => 
-          appointment.date >= dateStart && 
-          appointment.date <= dateEnd &&
-          ['scheduled', 'waiting', 'in_progress'].includes(appointment.status)
-        );
-      }
-      
-      // Apply status filter if needed
-      if (status && status !== 'all') {
-        appointments = appointments.filter(a => a.status === status);
-      }
+      // Status da fila (agendados, em espera ou em atendimento), restritos pelo filtro de status
+      const queueStatuses: Appointment['status'][] = ['scheduled', 'waiting', 'in_progress'];
+      const statuses = status && status !== 'all'
+        ? queueStatuses.filter((queueStatus) => queueStatus === status)
+        : queueStatuses;
+      
+      // Get appointments - agora aceita que professionalId seja undefined.
+      // Sem profissional, mostra a fila do dia informado (ou de hoje)
+      const appointments = await storage.getAppointments({
+        professionalId,
+        status: statuses,
+        ...dayRange(professionalId ? date : date || new Date()),
+      });
       
       // Enrich appointments with procedure data before filtering by type
       const appointmentsWithProcedure = await Promise.all(
@@ -868,14 +1454,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Ordem da fila: prioridades legais e urgências conforme a política configurada,
+      // depois a chegada; quem ainda não chegou fica no fim, pelo horário agendado
+      const orderedAppointments = await orderQueue(filteredAppointments);
+      
+      // Espera prevista de quem aguarda hoje e duração média de consulta de cada profissional
+      const waits = await estimateQueueWaits(orderedAppointments.map((appointment) => appointment.professionalId));
+      
       // Use the already enriched appointments with procedures for final enrich
       const enrichedAppointments = await Promise.all(
-        filteredAppointments.map(async (appointmentWithProc) => {
-          const patient = await storage.getPatient(appointmentWithProc.patientId);
+        orderedAppointments.map(async (appointmentWithProc) => {
+          const patient = appointmentWithProc.patientId
+            ? await storage.getPatient(appointmentWithProc.patientId)
+            : null;
           const professional = await storage.getProfessional(appointmentWithProc.professionalId);
           
           return {
             ...appointmentWithProc,
+            estimatedWaitMinutes: waits.estimatedWaitMinutes.get(appointmentWithProc.id) ?? null,
+            averageConsultationMinutes: waits.averageConsultationMinutes.get(appointmentWithProc.professionalId) ?? null,
             patient,
             professional: professional ? {
               ...professional,
@@ -892,6 +1489,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Relatório histórico de tempos de espera e de atendimento
+  app.get('/api/reports/wait-times', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const query = waitTimeReportQuerySchema.parse(req.query);
+      const endDate = dayRange(query.endDate ?? new Date()).endDate!;
+      const startDate = dayRange(query.startDate ?? new Date(endDate.getTime() - 29 * 24 * 60 * 60 * 1000)).startDate!;
+      if (startDate > endDate) {
+        return res.status(400).json({ message: 'A data inicial deve ser anterior à final' });
+      }
+      
+      res.json(await waitTimeReport({ startDate, endDate, professionalId: query.professionalId }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
   // Rota legada para compatibilidade
   app.get('/api/appointments/waiting-queue', isAuthenticated, async (req, res, next) => {
     try {
@@ -920,10 +1536,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Rota de fila de espera global removida para evitar duplicação
 
+  // Painel da sala de espera (TV): sem login, autenticado pelo token do painel
+  app.get('/api/display/queue', async (req, res, next) => {
+    try {
+      const token = req.query.token ?? req.headers['x-display-token'];
+      if (!isValidDisplayToken(token)) {
+        return res.status(401).json({ message: "Token do painel inválido" });
+      }
+
+      res.json(await buildDisplayQueue());
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post('/api/appointments', isAuthenticated, async (req, res, next) => {
     try {
-      console.log("Recebendo dados de agendamento:", req.body);
-      
       // Verificar se date já é uma data ou uma string
       let dataToValidate = { ...req.body };
       if (typeof req.body.date === 'string') {
@@ -951,9 +1579,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Remover procedureIds do objeto antes da validação
       delete dataToValidate.procedureIds;
       
+      // Duração, recursos, recorrência e autorização de encaixe são tratados à parte;
+      // quem autorizou o encaixe, a série e a carteirinha do convênio são sempre definidos pelo servidor
+      const {
+        durationMinutes: explicitDuration,
+        allowOverlap,
+        resourceIds: selectedResourceIds = [],
+        recurrenceRule,
+        skipConflicts
+      } = appointmentFormSchema
+        .pick({
+          date: true,
+          durationMinutes: true,
+          allowOverlap: true,
+          resourceIds: true,
+          recurrenceRule: true,
+          skipConflicts: true
+        })
+        .superRefine(refineRecurrenceStart)
+        .parse(dataToValidate);
+      delete dataToValidate.durationMinutes;
+      delete dataToValidate.allowOverlap;
+      delete dataToValidate.resourceIds;
+      delete dataToValidate.recurrenceRule;
+      delete dataToValidate.skipConflicts;
+      delete dataToValidate.seriesId;
+      delete dataToValidate.overlapOverriddenBy;
+      delete dataToValidate.healthPlanCardId;
+      
       // Validar dados do agendamento
       const appointmentData = insertAppointmentSchema.parse(dataToValidate);
-      console.log("Dados validados de agendamento:", appointmentData);
       
       // Validar que o profissional existe
       const professional = await storage.getProfessional(appointmentData.professionalId);
@@ -976,7 +1631,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Validar que todos os procedimentos existem
-      const procedures = [];
+      const procedures: Procedure[] = [];
       for (const procedureId of procedureIds) {
         const procedure = await storage.getProcedure(procedureId);
         if (!procedure) {
@@ -985,121 +1640,375 @@ export async function registerRoutes(app: Express): Promise<Server> {
         procedures.push(procedure);
       }
       
-      // Criar o agendamento base
-      const newAppointment = await storage.createAppointment(appointmentData);
-      
-      // Adicionar relações com os procedimentos
-      const appointmentProcedures = [];
-      for (const procedureId of procedureIds) {
-        const appointmentProcedure = await storage.addProcedureToAppointment({
-          appointmentId: newAppointment.id,
-          procedureId: procedureId
-        });
-        appointmentProcedures.push(appointmentProcedure);
-      }
-      
-      // Enriquecer a resposta com detalhes do paciente, profissional e procedimentos
-      const enrichedAppointment = {
-        ...newAppointment,
-        patient,
-        professional,
-        procedures,
-        appointmentProcedures
-      };
-      
-      res.status(201).json(enrichedAppointment);
-    } catch (error) {
-      console.error("Erro ao criar agendamento:", error);
-      if (error instanceof ZodError) {
-        return res.status(400).json({ message: fromZodError(error).message });
-      }
-      next(error);
-    }
-  });
-
-  // Check-in de paciente (mudar status para waiting)
-  app.post('/api/appointments/:id/check-in', isAuthenticated, hasRole(['medico', 'recepcionista']), async (req, res, next) => {
-    try {
-      const appointmentId = parseInt(req.params.id);
-      if (isNaN(appointmentId)) {
-        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      // Recursos reservados: os exigidos pelos procedimentos e os escolhidos no agendamento
+      const procedureResources = await Promise.all(
+        procedures.map((procedure) => storage.getProcedureResources(procedure.id))
+      );
+      const resourceIds = new Set([
+        ...procedureResources.flat().map((resource) => resource.id),
+        ...selectedResourceIds
+      ]);
+      const resources: Resource[] = [];
+      for (const resourceId of Array.from(resourceIds)) {
+        const resource = await storage.getResource(resourceId);
+        if (!resource) {
+          return res.status(400).json({ message: `Recurso #${resourceId} não encontrado` });
+        }
+        if (!resource.isActive) {
+          return res.status(400).json({ message: `O recurso "${resource.name}" está desativado` });
+        }
+        resources.push(resource);
+      }
+      
+      // Datas a agendar: a informada ou todas as sessões da série recorrente
+      const dates = recurrenceRule
+        ? expandRecurrence(parseRecurrenceRule(recurrenceRule), appointmentData.date)
+        : [appointmentData.date];
+      
+      // Atendimento por convênio: o convênio precisa estar ativo e o paciente, ter carteirinha
+      // válida em cada data (conferida junto com a agenda, abaixo)
+      const healthPlan = appointmentData.healthPlanId
+        ? await storage.getHealthPlan(appointmentData.healthPlanId)
+        : undefined;
+      if (appointmentData.healthPlanId && !healthPlan) {
+        return res.status(400).json({ message: 'Convênio não encontrado' });
+      }
+      if (healthPlan && !healthPlan.isActive) {
+        return res.status(400).json({ message: `O convênio "${healthPlan.name}" está desativado` });
+      }
+      
+      // Duração: a informada, a soma dos procedimentos ou a do horário da agenda do profissional.
+      // Cada data precisa cair nos turnos do profissional e é conferida contra a agenda dele
+      // e a das salas/equipamentos
+      const schedules = await storage.getProfessionalSchedules(professional.id);
+      const slots: { date: Date; durationMinutes: number; end: Date; healthPlanCardId: number | null }[] = [];
+      for (const date of dates) {
+        const durationMinutes = explicitDuration
+          ?? proceduresDuration(procedures)
+          ?? scheduleSlotMinutes(schedules, date)
+          ?? DEFAULT_APPOINTMENT_MINUTES;
+        const end = appointmentEnd({ date, durationMinutes });
+        const scheduleError = outsideScheduleError(schedules, date, end);
+        if (scheduleError) {
+          return res.status(400).json({ message: scheduleError });
+        }
+        // Cada sessão guarda a carteirinha válida na própria data
+        let healthPlanCardId: number | null = null;
+        if (healthPlan) {
+          const coverage = await coverageCard(healthPlan, appointmentData.patientId, date);
+          if ('error' in coverage) {
+            return res.status(400).json({ message: coverage.error });
+          }
+          healthPlanCardId = coverage.card.id;
+        }
+        slots.push({ date, durationMinutes, end, healthPlanCardId });
       }
       
-      const appointment = await storage.getAppointment(appointmentId);
-      if (!appointment) {
-        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      const user = req.user as any;
+      // Em séries, é possível criar só as sessões livres
+      const skipping = !!recurrenceRule && !!skipConflicts;
+      
+      // Conflitos conferidos e sessões gravadas sob a trava da agenda, para que duas requisições
+      // simultâneas não reservem o mesmo horário
+      const booking = await storage.withScheduleLock({
+        professionalIds: [professional.id],
+        resourceIds: resources.map((resource) => resource.id)
+      }, async () => {
+        const occurrences = [];
+        for (const slot of slots) {
+          const conflict = await findScheduleConflict({
+            professionalId: professional.id,
+            resources,
+            start: slot.date,
+            end: slot.end
+          });
+          occurrences.push({ ...slot, conflict });
+        }
+        
+        const conflicted = occurrences
+          .filter((occurrence) => occurrence.conflict)
+          .map(({ date, conflict }) => ({ date, ...conflict }));
+        const conflictReport = recurrenceRule
+          ? {
+              message: `${conflicted.length} de ${occurrences.length} sessões conflitam com outros agendamentos`,
+              occurrences: conflicted
+            }
+          : conflicted[0];
+        
+        if (conflicted.length > 0 && !skipping) {
+          if (!allowOverlap) {
+            return { status: 409, rejection: conflictReport };
+          }
+          if (user.role !== 'admin') {
+            return {
+              status: 403,
+              rejection: { ...conflictReport, message: 'Apenas administradores podem agendar sobre um horário ocupado' }
+            };
+          }
+        }
+        
+        const toCreate = skipping
+          ? occurrences.filter((occurrence) => !occurrence.conflict)
+          : occurrences;
+        if (toCreate.length === 0) {
+          return { status: 409, rejection: { ...conflictReport, message: 'Nenhuma sessão da série está livre' } };
+        }
+        
+        const series = recurrenceRule
+          ? await storage.createAppointmentSeries({ recurrenceRule, createdBy: user.id })
+          : undefined;
+        
+        const created = [];
+        for (const occurrence of toCreate) {
+          // Criar o agendamento base
+          const newAppointment = await storage.createAppointment({
+            ...appointmentData,
+            date: occurrence.date,
+            durationMinutes: occurrence.durationMinutes,
+            overlapOverriddenBy: occurrence.conflict ? user.id : null,
+            seriesId: series?.id ?? null,
+            healthPlanCardId: occurrence.healthPlanCardId
+          });
+          
+          for (const resource of resources) {
+            await storage.addResourceToAppointment({
+              appointmentId: newAppointment.id,
+              resourceId: resource.id
+            });
+          }
+          
+          // Adicionar relações com os procedimentos
+          const appointmentProcedures = [];
+          for (const procedureId of procedureIds) {
+            const appointmentProcedure = await storage.addProcedureToAppointment({
+              appointmentId: newAppointment.id,
+              procedureId: procedureId
+            });
+            appointmentProcedures.push(appointmentProcedure);
+          }
+          
+          // Enriquecer a resposta com detalhes do paciente, profissional e procedimentos
+          created.push({
+            ...newAppointment,
+            patient,
+            professional,
+            procedures,
+            appointmentProcedures,
+            resources
+          });
+        }
+        return { series, created, skipped: skipping ? conflicted : [] };
+      });
+      
+      if (booking.status !== undefined) {
+        return res.status(booking.status).json(booking.rejection);
       }
+      const { series, created, skipped } = booking;
+      created.forEach((appointment) => publishAppointmentChanged(appointment));
       
-      if (appointment.status !== 'scheduled') {
-        return res.status(400).json({ message: 'Agendamento não está com status "scheduled"' });
+      if (!series) {
+        return res.status(201).json(created[0]);
       }
       
-      const updatedAppointment = await storage.updateAppointmentStatus(appointmentId, 'waiting');
-      res.status(200).json(updatedAppointment);
+      res.status(201).json({
+        series,
+        appointments: created,
+        skipped
+      });
     } catch (error) {
+      console.error("Erro ao criar agendamento:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       next(error);
     }
   });
-  
-  // Completar um agendamento com as informações do paciente
-  app.post('/api/appointments/:id/complete-patient-info', isAuthenticated, hasRole(['recepcionista', 'admin']), async (req, res, next) => {
+
+  // Remarca/edita um agendamento: data, profissional, duração, procedimentos, recursos, convênio e observações.
+  // Cada campo alterado fica registrado no histórico do agendamento
+  app.put('/api/appointments/:id', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
     try {
       const appointmentId = parseInt(req.params.id);
       if (isNaN(appointmentId)) {
         return res.status(400).json({ message: 'ID de agendamento inválido' });
       }
       
+      const changes = appointmentUpdateSchema.parse(req.body);
+      
       const appointment = await storage.getAppointment(appointmentId);
       if (!appointment) {
         return res.status(404).json({ message: 'Agendamento não encontrado' });
       }
       
-      // Verificar se já existe um paciente associado
-      if (appointment.patientId) {
-        return res.status(400).json({ 
-          message: 'Este agendamento já possui um paciente associado' 
-        });
+      if (appointment.status !== 'scheduled') {
+        return res.status(400).json({ message: 'Apenas agendamentos ainda não atendidos podem ser alterados' });
       }
       
-      // Obter informações do paciente do corpo da requisição
-      const { patientId } = req.body;
-      
-      if (!patientId) {
-        return res.status(400).json({ message: 'ID do paciente não fornecido' });
+      const professionalId = changes.professionalId ?? appointment.professionalId;
+      const professional = await storage.getProfessional(professionalId);
+      if (!professional) {
+        return res.status(400).json({ message: 'Profissional não encontrado' });
       }
       
-      // Verificar se o paciente existe
-      const patient = await storage.getPatient(parseInt(patientId));
-      if (!patient) {
-        return res.status(404).json({ message: 'Paciente não encontrado' });
+      const { procedures: currentProcedures } = await storage.getAppointmentWithProcedures(appointmentId);
+      const procedures = [];
+      for (const procedureId of changes.procedureIds ?? []) {
+        const procedure = await storage.getProcedure(procedureId);
+        if (!procedure) {
+          return res.status(400).json({ message: `Procedimento #${procedureId} não encontrado` });
+        }
+        procedures.push(procedure);
+      }
+      const newProcedures = changes.procedureIds ? procedures : currentProcedures;
+      
+      // Recursos: os exigidos pelos novos procedimentos e os escolhidos no agendamento.
+      // Sem resourceIds, mantém os escolhidos antes (os que não eram exigidos pelos procedimentos antigos)
+      const requiredIds = async (list: typeof currentProcedures) => (
+        await Promise.all(list.map((procedure) => storage.getProcedureResources(procedure.id)))
+      ).flat().map((resource) => resource.id);
+      const currentResources = await storage.getAppointmentResources(appointmentId);
+      const previouslyRequired = new Set(await requiredIds(currentProcedures));
+      const selectedIds = changes.resourceIds
+        ?? currentResources.map((resource) => resource.id).filter((id) => !previouslyRequired.has(id));
+      const resources: Resource[] = [];
+      for (const resourceId of Array.from(new Set([...(await requiredIds(newProcedures)), ...selectedIds]))) {
+        const resource = await storage.getResource(resourceId);
+        if (!resource) {
+          return res.status(400).json({ message: `Recurso #${resourceId} não encontrado` });
+        }
+        // Um recurso desativado depois da reserva continua reservado
+        if (!resource.isActive && !currentResources.some((current) => current.id === resourceId)) {
+          return res.status(400).json({ message: `O recurso "${resource.name}" está desativado` });
+        }
+        resources.push(resource);
+      }
+      
+      const date = changes.date ?? appointment.date;
+      const durationMinutes = changes.durationMinutes
+        ?? (changes.procedureIds ? proceduresDuration(procedures) : undefined)
+        ?? appointment.durationMinutes;
+      
+      // Convênio: null passa o atendimento para particular. A carteirinha é conferida de novo quando
+      // o convênio ou a data mudam; um convênio desativado depois do agendamento continua valendo
+      const healthPlanId = changes.healthPlanId !== undefined ? changes.healthPlanId : appointment.healthPlanId;
+      let healthPlanCardId = healthPlanId ? appointment.healthPlanCardId : null;
+      if (healthPlanId && (healthPlanId !== appointment.healthPlanId || date.getTime() !== appointment.date.getTime())) {
+        const healthPlan = await storage.getHealthPlan(healthPlanId);
+        if (!healthPlan) {
+          return res.status(400).json({ message: 'Convênio não encontrado' });
+        }
+        if (!healthPlan.isActive && healthPlanId !== appointment.healthPlanId) {
+          return res.status(400).json({ message: `O convênio "${healthPlan.name}" está desativado` });
+        }
+        const coverage = await coverageCard(healthPlan, appointment.patientId, date);
+        if ('error' in coverage) {
+          return res.status(400).json({ message: coverage.error });
+        }
+        healthPlanCardId = coverage.card.id;
+      }
+      
+      // A disponibilidade só é conferida quando o horário ou a reserva mudam
+      const resourcesChanged = resources.length !== currentResources.length
+        || resources.some((resource) => !currentResources.some((current) => current.id === resource.id));
+      const timeChanged = date.getTime() !== appointment.date.getTime()
+        || professionalId !== appointment.professionalId
+        || durationMinutes !== appointment.durationMinutes;
+      const scheduleChanged = timeChanged || resourcesChanged;
+      
+      // O novo horário precisa caber nos turnos do profissional
+      if (timeChanged) {
+        const scheduleError = outsideScheduleError(
+          await storage.getProfessionalSchedules(professionalId),
+          date,
+          appointmentEnd({ date, durationMinutes })
+        );
+        if (scheduleError) {
+          return res.status(400).json({ message: scheduleError });
+        }
       }
       
-      // Atualizar o agendamento com o ID do paciente
-      const updatedAppointment = await storage.completeAppointment(
-        appointmentId, 
-        parseInt(patientId)
-      );
+      const user = req.user as any;
+      // Conferência e gravação sob a trava da agenda, como na criação
+      const update = await storage.withScheduleLock({
+        professionalIds: scheduleChanged ? [professionalId] : [],
+        resourceIds: scheduleChanged ? resources.map((resource) => resource.id) : []
+      }, async () => {
+        const conflict = scheduleChanged
+          ? await findScheduleConflict({
+              professionalId,
+              resources,
+              start: date,
+              end: appointmentEnd({ date, durationMinutes }),
+              excludeAppointmentId: appointmentId
+            })
+          : undefined;
+        if (conflict) {
+          if (!changes.allowOverlap) {
+            return { status: 409, rejection: conflict };
+          }
+          if (user.role !== 'admin') {
+            return {
+              status: 403,
+              rejection: { ...conflict, message: 'Apenas administradores podem agendar sobre um horário ocupado' }
+            };
+          }
+        }
+        
+        const updated = await storage.updateAppointment(appointmentId, {
+          date,
+          professionalId,
+          durationMinutes,
+          healthPlanId,
+          healthPlanCardId,
+          ...(changes.notes !== undefined ? { notes: changes.notes } : {}),
+          // O encaixe autorizado vale para o horário; ao remarcar, passa a valer o novo
+          ...(scheduleChanged ? { overlapOverriddenBy: conflict ? user.id : null } : {})
+        });
+        if (!updated) {
+          return { status: 404, rejection: { message: 'Agendamento não encontrado' } };
+        }
+        
+        if (changes.procedureIds) {
+          await storage.setAppointmentProcedures(appointmentId, changes.procedureIds);
+        }
+        if (resourcesChanged) {
+          await storage.setAppointmentResources(appointmentId, resources.map((resource) => resource.id));
+        }
+        
+        await recordAppointmentChanges(
+          { appointment, procedures: currentProcedures, resources: currentResources },
+          { appointment: updated, procedures: newProcedures, resources },
+          user.id
+        );
+        return { updated };
+      });
       
-      if (!updatedAppointment) {
-        return res.status(500).json({ message: 'Erro ao atualizar agendamento' });
+      if (update.status !== undefined) {
+        return res.status(update.status).json(update.rejection);
       }
+      const updatedAppointment = update.updated;
+      publishAppointmentChanged(updatedAppointment, appointment);
       
-      // Buscar o agendamento com todos os procedimentos relacionados
-      const appointmentWithProcedures = await storage.getAppointmentWithProcedures(appointmentId);
-      
+      const patient = updatedAppointment.patientId
+        ? await storage.getPatient(updatedAppointment.patientId)
+        : null;
       res.status(200).json({
         ...updatedAppointment,
         patient,
-        procedures: appointmentWithProcedures.procedures
+        professional,
+        procedures: newProcedures,
+        resources
       });
     } catch (error) {
-      console.error("Erro ao completar informações do paciente:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       next(error);
     }
   });
-  
-  // Iniciar atendimento (mudar status para in_progress)
-  app.post('/api/appointments/:id/start', isAuthenticated, hasRole(['medico']), async (req, res, next) => {
+
+  // Histórico de alterações do agendamento, com o nome de quem alterou
+  app.get('/api/appointments/:id/history', isAuthenticated, async (req, res, next) => {
     try {
       const appointmentId = parseInt(req.params.id);
       if (isNaN(appointmentId)) {
@@ -1111,193 +2020,888 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Agendamento não encontrado' });
       }
       
-      if (appointment.status !== 'waiting') {
-        return res.status(400).json({ message: 'Paciente não está na fila de espera' });
-      }
-      
-      // Verificar se o médico é o profissional do agendamento
-      const user = req.user as any;
-      const professional = await storage.getProfessionalByUserId(user.id);
-      
-      if (!professional) {
-        return res.status(404).json({ message: 'Profissional não encontrado para este usuário' });
-      }
-      
-      // Verificar se o médico está atribuído ao agendamento
-      if (appointment.professionalId !== professional.id) {
-        return res.status(403).json({ 
-          message: 'Apenas o médico atribuído a este agendamento pode iniciar o atendimento' 
-        });
+      const changes = await storage.getAppointmentChanges(appointmentId);
+      const history = [];
+      for (const change of changes) {
+        // Sem autor: alteração automática do sistema (ex.: falta marcada pela varredura)
+        const changedBy = change.changedBy !== null ? await storage.getUser(change.changedBy) : undefined;
+        history.push({ ...change, changedByName: changedBy?.name ?? (change.changedBy === null ? 'Sistema' : null) });
       }
       
-      const updatedAppointment = await storage.updateAppointmentStatus(appointmentId, 'in_progress');
-      res.status(200).json(updatedAppointment);
+      res.status(200).json(history);
     } catch (error) {
       next(error);
     }
   });
-  
-  // Atualizar status de agendamento
-  app.patch('/api/appointments/:id/status', isAuthenticated, hasRole(['medico', 'recepcionista', 'admin']), async (req, res, next) => {
+
+  // Sessões afetadas por uma alteração de série; apenas as ainda agendadas podem mudar
+  const seriesOccurrences = async (appointment: Appointment, scope: SeriesScope) => {
+    if (!appointment.seriesId || scope === 'this') {
+      return appointment.status === 'scheduled' ? [appointment] : [];
+    }
+    return storage.getAppointments({
+      seriesId: appointment.seriesId,
+      status: ['scheduled'],
+      ...(scope === 'following' ? { startDate: appointment.date } : {})
+    });
+  };
+
+  // Altera horário, profissional, duração ou observações de uma sessão,
+  // desta e das seguintes, ou de todas as sessões da série
+  app.put('/api/appointments/:id/series', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
     try {
       const appointmentId = parseInt(req.params.id);
       if (isNaN(appointmentId)) {
         return res.status(400).json({ message: 'ID de agendamento inválido' });
       }
       
-      const { status } = req.body;
-      if (!status || !['scheduled', 'waiting', 'in_progress', 'completed', 'cancelled'].includes(status)) {
-        return res.status(400).json({ message: 'Status inválido' });
-      }
+      const changes = appointmentSeriesUpdateSchema.parse(req.body);
       
-      // Buscar o agendamento
       const appointment = await storage.getAppointment(appointmentId);
       if (!appointment) {
         return res.status(404).json({ message: 'Agendamento não encontrado' });
       }
       
-      const user = req.user as any;
+      if (changes.professionalId && !(await storage.getProfessional(changes.professionalId))) {
+        return res.status(400).json({ message: 'Profissional não encontrado' });
+      }
       
-      // Regra especial para iniciar atendimento ou marcar como concluído
-      if ((status === 'in_progress' || status === 'completed') && user.role === 'medico') {
-        // Buscar o profissional associado ao usuário
-        const professional = await storage.getProfessionalByUserId(user.id);
-        
-        if (!professional) {
-          return res.status(404).json({ message: 'Profissional não encontrado para este usuário' });
+      const targets = await seriesOccurrences(appointment, changes.scope);
+      if (targets.length === 0) {
+        return res.status(400).json({ message: 'Nenhuma sessão agendada para alterar' });
+      }
+      
+      // O novo horário mantém o dia de cada sessão
+      const slots: {
+        target: Appointment;
+        data: { date: Date; professionalId: number; durationMinutes: number };
+        end: Date;
+        resources: Resource[];
+      }[] = [];
+      for (const target of targets) {
+        const date = new Date(target.date);
+        if (changes.time) {
+          const [hours, minutes] = changes.time.split(':').map(Number);
+          date.setHours(hours, minutes, 0, 0);
         }
+        const professionalId = changes.professionalId ?? target.professionalId;
+        const durationMinutes = changes.durationMinutes ?? target.durationMinutes;
+        const end = appointmentEnd({ date, durationMinutes });
         
-        // Apenas o médico registrado no agendamento pode iniciar ou concluir o atendimento
-        if (appointment.professionalId !== professional.id) {
-          return res.status(403).json({ 
-            message: 'Apenas o médico atribuído a este agendamento pode iniciar ou concluir o atendimento' 
-          });
+        const scheduleError = outsideScheduleError(await storage.getProfessionalSchedules(professionalId), date, end);
+        if (scheduleError) {
+          return res.status(400).json({ message: scheduleError });
         }
+        const resources = await storage.getAppointmentResources(target.id);
+        slots.push({ target, data: { date, professionalId, durationMinutes }, end, resources });
       }
       
-      // Todos (recepcionista, admin e médico responsável) podem fazer check-in (waiting) ou cancelar
-      // Apenas médico responsável pode iniciar (in_progress) ou concluir (completed) o atendimento
-      
-      // Se for check-in (waiting), atualizar o horário para o horário atual
-      // para que os pacientes sejam atendidos por ordem de chegada
-      if (status === 'waiting') {
-        console.log("Check-in realizado, atualizando horário para o momento atual");
-        
-        // Verificar se o paciente tem cadastro completo
-        if (appointment.patientId) {
-          const patient = await storage.getPatient(appointment.patientId);
-          
-          // Se o paciente foi criado no cadastro rápido e tem flags de cadastro incompleto
-          if (patient && (patient.needsCompletion || patient.phone === 'A preencher')) {
-            console.log(`Paciente ${patient.name} precisa completar o cadastro`);
-            // Podemos adicionar alguma lógica adicional aqui se necessário
-          }
+      const user = req.user as any;
+      // Conferência e gravação sob a trava da agenda, como na criação
+      const update = await storage.withScheduleLock({
+        professionalIds: slots.map((slot) => slot.data.professionalId),
+        resourceIds: slots.flatMap((slot) => slot.resources.map((resource) => resource.id))
+      }, async () => {
+        const updates = [];
+        for (const slot of slots) {
+          const conflict = await findScheduleConflict({
+            professionalId: slot.data.professionalId,
+            resources: slot.resources,
+            start: slot.data.date,
+            end: slot.end,
+            excludeAppointmentId: slot.target.id
+          });
+          updates.push({ ...slot, conflict });
         }
         
-        // Criar uma cópia do appointment com a data atualizada para o momento atual
-        const currentTime = new Date();
-        console.log(`Horário original: ${appointment.date}, novo horário: ${currentTime}`);
-        
-        // Atualizar o status e a data
-        const updatedAppointment = await storage.updateAppointmentStatus(
-          appointmentId, 
-          status,
-          currentTime // Passar a data atual para atualizar
-        );
-        
-        if (!updatedAppointment) {
-          return res.status(404).json({ message: 'Agendamento não encontrado' });
+        const conflicted = updates.filter((update) => update.conflict);
+        if (conflicted.length > 0) {
+          const conflictReport = {
+            message: `${conflicted.length} de ${updates.length} sessões conflitam com outros agendamentos`,
+            occurrences: conflicted.map(({ data, conflict }) => ({ date: data.date, ...conflict }))
+          };
+          if (!changes.allowOverlap) {
+            return { status: 409, rejection: conflictReport };
+          }
+          if (user.role !== 'admin') {
+            return {
+              status: 403,
+              rejection: { ...conflictReport, message: 'Apenas administradores podem agendar sobre um horário ocupado' }
+            };
+          }
         }
         
-        res.status(200).json(updatedAppointment);
-      } else {
-        // Para outros status, apenas atualizar o status sem alterar a data
-        const updatedAppointment = await storage.updateAppointmentStatus(appointmentId, status);
-        
-        if (!updatedAppointment) {
-          return res.status(404).json({ message: 'Agendamento não encontrado' });
+        const changed = [];
+        for (const { target, data, conflict } of updates) {
+          const updated = await storage.updateAppointment(target.id, {
+            ...data,
+            ...(changes.notes !== undefined ? { notes: changes.notes } : {}),
+            ...(conflict ? { overlapOverriddenBy: user.id } : {})
+          });
+          if (updated) {
+            await recordAppointmentChanges({ appointment: target }, { appointment: updated }, user.id);
+          }
+          changed.push({ target, updated });
         }
-        
-        res.status(200).json(updatedAppointment);
+        return { changed };
+      });
+      
+      if (update.status !== undefined) {
+        return res.status(update.status).json(update.rejection);
       }
+      const updatedAppointments = update.changed.map(({ target, updated }) => {
+        if (updated) publishAppointmentChanged(updated, target);
+        return updated;
+      });
+      
+      res.status(200).json(updatedAppointments);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       next(error);
     }
   });
 
-  // Rotas para prontuário médico
-  app.get('/api/evolutions/appointment/:appointmentId', isAuthenticated, async (req, res, next) => {
+  // Cancela uma sessão, esta e as seguintes, ou todas as sessões da série
+  app.post('/api/appointments/:id/series/cancel', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
     try {
-      const appointmentId = parseInt(req.params.appointmentId);
+      const appointmentId = parseInt(req.params.id);
       if (isNaN(appointmentId)) {
         return res.status(400).json({ message: 'ID de agendamento inválido' });
       }
       
-      const evolutions = await storage.getEvolutionsByAppointment(appointmentId);
+      const { scope, cancellationReason } = appointmentSeriesCancelSchema.parse(req.body);
       
-      // Enrich evolution data with professional details
-      const enrichedEvolutions = await Promise.all(
-        evolutions.map(async (evolution) => {
-          const professional = await storage.getProfessional(evolution.professionalId);
-          const appointment = await storage.getAppointment(evolution.appointmentId);
-          
-          // Get professional's user details
-          let user = null;
-          if (professional) {
-            user = await storage.getUser(professional.userId);
-            if (user) {
-              // Remove sensitive data
-              const { password, ...userWithoutPassword } = user;
-              user = userWithoutPassword;
-            }
-          }
-          
-          return {
-            ...evolution,
-            professional: professional ? { ...professional, user } : null,
-            appointment
-          };
-        })
-      );
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
       
-      res.status(200).json(enrichedEvolutions);
+      const targets = await seriesOccurrences(appointment, scope);
+      if (targets.length === 0) {
+        return res.status(400).json({ message: 'Nenhuma sessão agendada para cancelar' });
+      }
+      
+      const user = req.user as any;
+      // Sessões alteradas por outra pessoa durante o cancelamento ficam como estão
+      const cancelledAppointments = [];
+      for (const target of targets) {
+        const cancelled = await changeAppointmentStatus(target, 'cancelled', user.id, cancellationReason);
+        if (cancelled) cancelledAppointments.push(cancelled);
+      }
+      if (cancelledAppointments.length === 0) {
+        return res.status(409).json({ message: STATUS_CONFLICT_MESSAGE });
+      }
+      
+      res.status(200).json(cancelledAppointments);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       next(error);
     }
   });
-  
-  app.get('/api/evolutions/patient/:patientId', isAuthenticated, async (req, res, next) => {
+
+  // Check-in de paciente (mudar status para waiting)
+  app.post('/api/appointments/:id/check-in', isAuthenticated, hasRole(['medico', 'recepcionista']), async (req, res, next) => {
     try {
-      const patientId = parseInt(req.params.patientId);
-      console.log("Buscando evoluções para o paciente ID:", patientId);
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
       
-      if (isNaN(patientId)) {
-        return res.status(400).json({ message: 'ID de paciente inválido' });
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
       }
       
-      const evolutions = await storage.getEvolutionsByPatient(patientId);
-      console.log("Evoluções encontradas:", evolutions);
+      const transitionError = statusTransitionError(appointment.status, 'waiting');
+      if (transitionError) {
+        return res.status(400).json({ message: transitionError });
+      }
       
-      // Enrich evolution data with additional details
-      const enrichedEvolutions = await Promise.all(
-        evolutions.map(async (evolution) => {
-          const professional = await storage.getProfessional(evolution.professionalId);
-          const appointment = await storage.getAppointment(evolution.appointmentId);
-          
-          // Get professional's user details
-          let user = null;
-          if (professional) {
-            user = await storage.getUser(professional.userId);
-            if (user) {
-              // Remove sensitive data
-              const { password, ...userWithoutPassword } = user;
-              user = userWithoutPassword;
-            }
-          }
-          
-          // Get appointment procedures if available
-          let procedures = [];
-          if (appointment) {
+      // Prioridades (gestante, PcD, urgência) podem ser informadas na chegada
+      const { priorityFlags } = appointmentPrioritySchema.partial().parse(req.body ?? {});
+      
+      // As prioridades só são gravadas depois que o check-in vence a corrida pelo status
+      const user = req.user as any;
+      const checkedIn = await changeAppointmentStatus(appointment, 'waiting', user.id);
+      if (!checkedIn) {
+        return res.status(409).json({ message: STATUS_CONFLICT_MESSAGE });
+      }
+      const updatedAppointment = priorityFlags
+        ? await updatePriorityFlags(checkedIn, priorityFlags, user.id)
+        : checkedIn;
+      res.status(200).json(updatedAppointment ?? checkedIn);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Código de check-in do agendamento, para o QR da confirmação enviada ao paciente
+  app.get('/api/appointments/:id/check-in-code', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      res.json({ code: checkInCode(appointment.id) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Totem de autoatendimento: sem login, autenticado pelo token do totem. O paciente se
+  // identifica por CPF + data de nascimento (ou o código do QR) e faz o próprio check-in
+  const kioskToken = (req: Request) => req.query.token ?? req.headers['x-kiosk-token'];
+  const KIOSK_NOT_FOUND = "Não encontramos seus dados. Confira o CPF e a data de nascimento ou procure a recepção.";
+  const KIOSK_RATE_LIMITED = "Muitas tentativas. Por favor, procure a recepção.";
+
+  app.post('/api/kiosk/lookup', async (req, res, next) => {
+    try {
+      if (!isValidKioskToken(kioskToken(req))) {
+        return res.status(401).json({ message: "Token do totem inválido" });
+      }
+      
+      const identity = kioskIdentitySchema.parse(req.body);
+      if (isKioskRateLimited(req.ip, identity)) {
+        return res.status(429).json({ message: KIOSK_RATE_LIMITED });
+      }
+      
+      const identification = await identifyKioskPatient(identity);
+      if (identification.status === 'not_found') {
+        recordFailedKioskAttempt(req.ip, identity);
+        return res.status(404).json({ message: KIOSK_NOT_FOUND });
+      }
+      if (identification.status === 'front_desk') {
+        return res.json({ status: 'front_desk', message: identification.message } satisfies KioskLookupResult);
+      }
+      
+      const { patient, appointments } = identification;
+      res.json({
+        status: 'found',
+        patientName: firstName(patient.name),
+        maskedPhone: maskPhone(patient.phone),
+        maskedEmail: maskEmail(patient.email),
+        appointments: await Promise.all(appointments.map(kioskAppointment)),
+      } satisfies KioskLookupResult);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.post('/api/kiosk/check-in', async (req, res, next) => {
+    try {
+      if (!isValidKioskToken(kioskToken(req))) {
+        return res.status(401).json({ message: "Token do totem inválido" });
+      }
+      
+      const { appointmentId, phone, email, ...identity } = kioskCheckInSchema.parse(req.body);
+      if (isKioskRateLimited(req.ip, identity)) {
+        return res.status(429).json({ message: KIOSK_RATE_LIMITED });
+      }
+      
+      // A identidade é conferida de novo: o totem não guarda sessão entre as telas
+      const identification = await identifyKioskPatient(identity);
+      if (identification.status === 'not_found') {
+        recordFailedKioskAttempt(req.ip, identity);
+        return res.status(404).json({ message: KIOSK_NOT_FOUND });
+      }
+      if (identification.status === 'front_desk') {
+        return res.status(409).json({ message: identification.message });
+      }
+      
+      const { patient } = identification;
+      const appointment = identification.appointments.find((candidate) => candidate.id === appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      // Contatos confirmados no totem; só os informados são alterados
+      if ((phone && phone !== patient.phone) || (email && email !== patient.email)) {
+        await storage.updatePatient(patient.id, {
+          ...(phone ? { phone } : {}),
+          ...(email ? { email } : {}),
+        });
+      }
+      
+      // Sem usuário logado: o histórico registra o check-in como automático
+      const checkedIn = appointment.status === 'waiting'
+        ? appointment
+        : await changeAppointmentStatus(appointment, 'waiting', null);
+      if (!checkedIn) {
+        return res.status(409).json({ message: STATUS_CONFLICT_MESSAGE });
+      }
+      
+      res.json({
+        patientName: firstName(patient.name),
+        appointment: await kioskAppointment(checkedIn),
+      } satisfies KioskCheckInResult);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Corrigir as prioridades do paciente na fila
+  app.patch('/api/appointments/:id/priority', isAuthenticated, hasRole(['admin', 'medico', 'recepcionista']), async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      const { priorityFlags } = appointmentPrioritySchema.parse(req.body);
+      const user = req.user as any;
+      res.json(await updatePriorityFlags(appointment, priorityFlags, user.id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Reordenar manualmente a fila de espera (uma posição para cima ou para baixo)
+  app.post('/api/appointments/:id/queue-move', isAuthenticated, hasRole(['admin', 'medico', 'recepcionista']), async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      const { direction } = queueMoveSchema.parse(req.body);
+      const moved = await moveInQueue(appointment, direction);
+      if (!moved) {
+        return res.status(400).json({ message: 'Só é possível reordenar pacientes que aguardam atendimento' });
+      }
+      res.json(moved);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+  
+  // Completar um agendamento com as informações do paciente
+  app.post('/api/appointments/:id/complete-patient-info', isAuthenticated, hasRole(['recepcionista', 'admin']), async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      // Verificar se já existe um paciente associado
+      if (appointment.patientId) {
+        return res.status(400).json({ 
+          message: 'Este agendamento já possui um paciente associado' 
+        });
+      }
+      
+      // Obter informações do paciente do corpo da requisição
+      const { patientId } = req.body;
+      
+      if (!patientId) {
+        return res.status(400).json({ message: 'ID do paciente não fornecido' });
+      }
+      
+      // Verificar se o paciente existe
+      const patient = await storage.getPatient(parseInt(patientId));
+      if (!patient) {
+        return res.status(404).json({ message: 'Paciente não encontrado' });
+      }
+      
+      // Atualizar o agendamento com o ID do paciente
+      const updatedAppointment = await storage.completeAppointment(
+        appointmentId, 
+        parseInt(patientId)
+      );
+      
+      if (!updatedAppointment) {
+        return res.status(500).json({ message: 'Erro ao atualizar agendamento' });
+      }
+      
+      // Buscar o agendamento com todos os procedimentos relacionados
+      const appointmentWithProcedures = await storage.getAppointmentWithProcedures(appointmentId);
+      
+      res.status(200).json({
+        ...updatedAppointment,
+        patient,
+        procedures: appointmentWithProcedures.procedures
+      });
+    } catch (error) {
+      console.error("Erro ao completar informações do paciente:", error);
+      next(error);
+    }
+  });
+  
+  // Iniciar atendimento (mudar status para in_progress)
+  app.post('/api/appointments/:id/start', isAuthenticated, hasRole(['medico']), async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      const transitionError = statusTransitionError(appointment.status, 'in_progress');
+      if (transitionError) {
+        return res.status(400).json({ message: transitionError });
+      }
+      
+      // Verificar se o médico é o profissional do agendamento
+      const user = req.user as any;
+      const professional = await storage.getProfessionalByUserId(user.id);
+      
+      if (!professional) {
+        return res.status(404).json({ message: 'Profissional não encontrado para este usuário' });
+      }
+      
+      // Verificar se o médico está atribuído ao agendamento
+      if (appointment.professionalId !== professional.id) {
+        return res.status(403).json({ 
+          message: 'Apenas o médico atribuído a este agendamento pode iniciar o atendimento' 
+        });
+      }
+      
+      const updatedAppointment = await changeAppointmentStatus(appointment, 'in_progress', user.id);
+      if (!updatedAppointment) {
+        return res.status(409).json({ message: STATUS_CONFLICT_MESSAGE });
+      }
+      res.status(200).json(updatedAppointment);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Atualizar status de agendamento
+  app.patch('/api/appointments/:id/status', isAuthenticated, hasRole(['medico', 'recepcionista', 'admin']), async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const parsedStatus = z.enum(appointmentStatusEnum.enumValues).safeParse(req.body.status);
+      if (!parsedStatus.success) {
+        return res.status(400).json({ message: 'Status inválido' });
+      }
+      const status = parsedStatus.data;
+      
+      // Buscar o agendamento
+      const appointment = await storage.getAppointment(appointmentId);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      // Repetir o status atual não é uma transição; responde sem alterar nada
+      if (appointment.status === status) {
+        return res.status(200).json(appointment);
+      }
+      
+      const transitionError = statusTransitionError(appointment.status, status);
+      if (transitionError) {
+        return res.status(400).json({ message: transitionError });
+      }
+      
+      // Cancelamento exige o motivo; a falta só pode ser marcada depois do horário agendado
+      let cancellationReason;
+      if (status === 'cancelled') {
+        const parsedReason = cancellationReasonSchema.safeParse(req.body.cancellationReason);
+        if (!parsedReason.success) {
+          return res.status(400).json({ message: 'Informe o motivo do cancelamento' });
+        }
+        cancellationReason = parsedReason.data;
+      }
+      if (status === 'no_show' && appointment.date > new Date()) {
+        return res.status(400).json({ message: 'A falta só pode ser registrada após o horário agendado' });
+      }
+      
+      const user = req.user as any;
+      
+      // Regra especial para iniciar atendimento ou marcar como concluído
+      if ((status === 'in_progress' || status === 'completed') && user.role === 'medico') {
+        // Buscar o profissional associado ao usuário
+        const professional = await storage.getProfessionalByUserId(user.id);
+        
+        if (!professional) {
+          return res.status(404).json({ message: 'Profissional não encontrado para este usuário' });
+        }
+        
+        // Apenas o médico registrado no agendamento pode iniciar ou concluir o atendimento
+        if (appointment.professionalId !== professional.id) {
+          return res.status(403).json({ 
+            message: 'Apenas o médico atribuído a este agendamento pode iniciar ou concluir o atendimento' 
+          });
+        }
+      }
+      
+      // Todos (recepcionista, admin e médico responsável) podem fazer check-in (waiting) ou cancelar
+      // Apenas médico responsável pode iniciar (in_progress) ou concluir (completed) o atendimento
+      
+      // O horário de cada transição (ex.: chegada no check-in) é gravado em coluna própria;
+      // "date" continua sendo o horário agendado
+      const updatedAppointment = await changeAppointmentStatus(appointment, status, user.id, cancellationReason);
+      
+      if (!updatedAppointment) {
+        return res.status(409).json({ message: STATUS_CONFLICT_MESSAGE });
+      }
+      
+      res.status(200).json(updatedAppointment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Executa agora a varredura de faltas, que também roda periodicamente no servidor
+  app.post('/api/appointments/no-shows/sweep', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const marked = await markNoShows();
+      res.status(200).json(marked);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Dados exibidos da lista de espera: paciente, profissional, procedimentos e janelas preferidas
+  const describeWaitlistEntry = async (entry: WaitlistEntry) => {
+    const patient = entry.patientId ? await storage.getPatient(entry.patientId) : undefined;
+    const professional = entry.professionalId ? await storage.getProfessional(entry.professionalId) : undefined;
+    const professionalUser = professional ? await storage.getUser(professional.userId) : undefined;
+    return {
+      ...entry,
+      displayName: patient?.name ?? entry.patientName,
+      professionalName: professionalUser?.name ?? null,
+      procedures: await storage.getWaitlistProcedures(entry.id),
+      windows: await storage.getWaitlistWindows(entry.id),
+    };
+  };
+
+  // Lista de espera; por padrão só quem ainda aguarda horário
+  app.get('/api/waitlist', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const status = z.enum(waitlistStatusEnum.enumValues).default('waiting').parse(req.query.status);
+      const professionalId = req.query.professionalId ? parseInt(req.query.professionalId as string) : undefined;
+      
+      const entries = await storage.getWaitlistEntries({ status: [status], professionalId });
+      res.status(200).json(await Promise.all(entries.map(describeWaitlistEntry)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.post('/api/waitlist', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const { procedureIds, windows, ...entryData } = waitlistEntryFormSchema.parse(req.body);
+      
+      if (entryData.patientId && !(await storage.getPatient(entryData.patientId))) {
+        return res.status(400).json({ message: 'Paciente não encontrado' });
+      }
+      if (entryData.professionalId && !(await storage.getProfessional(entryData.professionalId))) {
+        return res.status(400).json({ message: 'Profissional não encontrado' });
+      }
+      for (const procedureId of procedureIds) {
+        if (!(await storage.getProcedure(procedureId))) {
+          return res.status(400).json({ message: `Procedimento #${procedureId} não encontrado` });
+        }
+      }
+      
+      const user = req.user as any;
+      const entry = await storage.createWaitlistEntry(
+        { ...entryData, createdBy: user.id },
+        procedureIds,
+        windows.map((window) => ({ ...window, weekday: window.weekday ?? null }))
+      );
+      
+      res.status(201).json(await describeWaitlistEntry(entry));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Tira da lista de espera; as ofertas pendentes da entrada deixam de valer
+  app.delete('/api/waitlist/:id', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: 'ID da lista de espera inválido' });
+      }
+      
+      const entry = await storage.getWaitlistEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: 'Entrada da lista de espera não encontrada' });
+      }
+      if (entry.status !== 'waiting') {
+        return res.status(400).json({ message: 'Esta entrada não está mais aguardando horário' });
+      }
+      
+      const updatedEntry = await storage.updateWaitlistEntry(entryId, { status: 'removed' });
+      await expireRelatedOffers({ entryId });
+      
+      res.status(200).json(updatedEntry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Horários liberados por cancelamentos, oferecidos a quem está na lista de espera.
+  // Ofertas de horários que já passaram expiram aqui
+  app.get('/api/waitlist/offers', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      // Ofertas de horários que já passaram ficam de fora; são marcadas como expiradas
+      // ao tentar aceitá-las
+      const now = new Date();
+      const pending = await storage.getWaitlistOffers({ status: ['pending'] });
+      
+      const offers = [];
+      for (const offer of pending.filter((offer) => offer.date > now)) {
+        const entry = await storage.getWaitlistEntry(offer.entryId);
+        const professional = await storage.getProfessional(offer.professionalId);
+        const professionalUser = professional ? await storage.getUser(professional.userId) : undefined;
+        offers.push({
+          ...offer,
+          entry: entry ? await describeWaitlistEntry(entry) : null,
+          professionalName: professionalUser?.name ?? null,
+        });
+      }
+      
+      res.status(200).json(offers);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Converte a oferta em agendamento com um clique; o horário é conferido de novo,
+  // pois pode ter sido ocupado depois do cancelamento
+  app.post('/api/waitlist/offers/:id/accept', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const offerId = parseInt(req.params.id);
+      if (isNaN(offerId)) {
+        return res.status(400).json({ message: 'ID da oferta inválido' });
+      }
+      
+      const { allowOverlap } = z.object({ allowOverlap: z.boolean().optional() }).parse(req.body ?? {});
+      
+      const offer = await storage.getWaitlistOffer(offerId);
+      if (!offer) {
+        return res.status(404).json({ message: 'Oferta não encontrada' });
+      }
+      if (offer.status !== 'pending') {
+        return res.status(400).json({ message: 'Esta oferta não está mais disponível' });
+      }
+      if (offer.date <= new Date()) {
+        await storage.updateWaitlistOfferStatus(offer.id, 'expired');
+        return res.status(400).json({ message: 'O horário oferecido já passou' });
+      }
+      
+      const entry = await storage.getWaitlistEntry(offer.entryId);
+      if (!entry || entry.status !== 'waiting') {
+        return res.status(400).json({ message: 'Esta entrada não está mais aguardando horário' });
+      }
+      
+      // Recursos exigidos pelos procedimentos desejados
+      const procedures = await storage.getWaitlistProcedures(entry.id);
+      const procedureResources = await Promise.all(
+        procedures.map((procedure) => storage.getProcedureResources(procedure.id))
+      );
+      const resources: Resource[] = [];
+      for (const resource of procedureResources.flat()) {
+        if (resources.some((selected) => selected.id === resource.id)) continue;
+        if (!resource.isActive) {
+          return res.status(400).json({ message: `O recurso "${resource.name}" está desativado` });
+        }
+        resources.push(resource);
+      }
+      
+      // A agenda do profissional pode ter mudado depois do cancelamento que liberou o horário
+      const scheduleError = outsideScheduleError(
+        await storage.getProfessionalSchedules(offer.professionalId),
+        offer.date,
+        appointmentEnd(offer)
+      );
+      if (scheduleError) {
+        return res.status(400).json({ message: scheduleError });
+      }
+      
+      const user = req.user as any;
+      // Conferência e gravação sob a trava da agenda, como na criação; a oferta é conferida
+      // de novo para não ser aceita duas vezes
+      const booking = await storage.withScheduleLock({
+        professionalIds: [offer.professionalId],
+        resourceIds: resources.map((resource) => resource.id)
+      }, async () => {
+        if ((await storage.getWaitlistOffer(offer.id))?.status !== 'pending') {
+          return { status: 400, rejection: { message: 'Esta oferta não está mais disponível' } };
+        }
+        const conflict = await findScheduleConflict({
+          professionalId: offer.professionalId,
+          resources,
+          start: offer.date,
+          end: appointmentEnd(offer)
+        });
+        if (conflict) {
+          if (!allowOverlap) {
+            return { status: 409, rejection: conflict };
+          }
+          if (user.role !== 'admin') {
+            return {
+              status: 403,
+              rejection: { ...conflict, message: 'Apenas administradores podem agendar sobre um horário ocupado' }
+            };
+          }
+        }
+        return { appointment: await bookWaitlistOffer(offer, entry, procedures, resources, conflict ? user.id : null) };
+      });
+      
+      if (booking.status !== undefined) {
+        return res.status(booking.status).json(booking.rejection);
+      }
+      publishAppointmentChanged(booking.appointment);
+      res.status(201).json(booking.appointment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.post('/api/waitlist/offers/:id/dismiss', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const offerId = parseInt(req.params.id);
+      if (isNaN(offerId)) {
+        return res.status(400).json({ message: 'ID da oferta inválido' });
+      }
+      
+      const offer = await storage.getWaitlistOffer(offerId);
+      if (!offer) {
+        return res.status(404).json({ message: 'Oferta não encontrada' });
+      }
+      if (offer.status !== 'pending') {
+        return res.status(400).json({ message: 'Esta oferta não está mais disponível' });
+      }
+      
+      const updatedOffer = await storage.updateWaitlistOfferStatus(offerId, 'dismissed');
+      res.status(200).json(updatedOffer);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rotas para prontuário médico
+  app.get('/api/evolutions/appointment/:appointmentId', isAuthenticated, async (req, res, next) => {
+    try {
+      const appointmentId = parseInt(req.params.appointmentId);
+      if (isNaN(appointmentId)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const evolutions = await storage.getEvolutionsByAppointment(appointmentId);
+      
+      // Enrich evolution data with professional details
+      const enrichedEvolutions = await Promise.all(
+        evolutions.map(async (evolution) => {
+          const professional = await storage.getProfessional(evolution.professionalId);
+          const appointment = await storage.getAppointment(evolution.appointmentId);
+          
+          // Get professional's user details
+          let user = null;
+          if (professional) {
+            user = await storage.getUser(professional.userId);
+            if (user) {
+              // Remove sensitive data
+              const { password, ...userWithoutPassword } = user;
+              user = userWithoutPassword;
+            }
+          }
+          
+          return {
+            ...evolution,
+            professional: professional ? { ...professional, user } : null,
+            appointment
+          };
+        })
+      );
+      
+      res.status(200).json(enrichedEvolutions);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.get('/api/evolutions/patient/:patientId', isAuthenticated, async (req, res, next) => {
+    try {
+      const patientId = parseInt(req.params.patientId);
+      console.log("Buscando evoluções para o paciente ID:", patientId);
+      
+      if (isNaN(patientId)) {
+        return res.status(400).json({ message: 'ID de paciente inválido' });
+      }
+      
+      const evolutions = await storage.getEvolutionsByPatient(patientId);
+      console.log("Evoluções encontradas:", evolutions);
+      
+      // Enrich evolution data with additional details
+      const enrichedEvolutions = await Promise.all(
+        evolutions.map(async (evolution) => {
+          const professional = await storage.getProfessional(evolution.professionalId);
+          const appointment = await storage.getAppointment(evolution.appointmentId);
+          
+          // Get professional's user details
+          let user = null;
+          if (professional) {
+            user = await storage.getUser(professional.userId);
+            if (user) {
+              // Remove sensitive data
+              const { password, ...userWithoutPassword } = user;
+              user = userWithoutPassword;
+            }
+          }
+          
+          // Get appointment procedures if available
+          let procedures = [];
+          if (appointment) {
             const appointmentWithProcedures = await storage.getAppointmentWithProcedures(appointment.id);
             procedures = appointmentWithProcedures.procedures || [];
           }
@@ -1310,69 +2914,425 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
       );
       
-      // Sort by date (newest first)
-      enrichedEvolutions.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
+      // Sort by date (newest first)
+      enrichedEvolutions.sort((a, b) => 
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+      
+      res.status(200).json(enrichedEvolutions);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.post('/api/evolutions', isAuthenticated, hasRole(['medico']), async (req, res, next) => {
+    try {
+      // procedureIds: procedimentos realizados, marcados na tela da consulta
+      const { procedureIds, ...evolutionData } = req.body;
+      const performedProcedureIds = z.array(z.number().int().positive()).optional().parse(procedureIds);
+      console.log("Recebendo dados de evolução:", evolutionData);
+      
+      // Verify that the appointment exists
+      const appointment = await storage.getAppointment(evolutionData.appointmentId);
+      if (!appointment) {
+        console.log("Agendamento não encontrado:", evolutionData.appointmentId);
+        return res.status(400).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      // A evolução conclui o atendimento; só é aceita durante ou após ele
+      const transitionError = appointment.status !== 'completed'
+        && statusTransitionError(appointment.status, 'completed');
+      if (transitionError) {
+        return res.status(400).json({ message: transitionError });
+      }
+      
+      // Verify that the professional exists
+      const professional = await storage.getProfessional(evolutionData.professionalId);
+      if (!professional) {
+        console.log("Profissional não encontrado:", evolutionData.professionalId);
+        return res.status(400).json({ message: 'Profissional não encontrado' });
+      }
+      
+      // Os procedimentos realizados substituem os agendados antes da conclusão, que calcula o
+      // registro financeiro a partir deles. Depois de concluído, o registro já foi gravado
+      let performedProcedures: Procedure[] | undefined;
+      if (performedProcedureIds && appointment.status !== 'completed') {
+        performedProcedures = [];
+        for (const procedureId of Array.from(new Set(performedProcedureIds))) {
+          const procedure = await storage.getProcedure(procedureId);
+          if (!procedure) {
+            return res.status(400).json({ message: `Procedimento #${procedureId} não encontrado` });
+          }
+          performedProcedures.push(procedure);
+        }
+      }
+      
+      // Add patientId from appointment and ensure all fields have valid values
+      const dataWithPatient = {
+        ...evolutionData,
+        patientId: appointment.patientId,
+        // SOAP fields
+        subjective: evolutionData.subjective || null,
+        objective: evolutionData.objective || null,
+        assessment: evolutionData.assessment || null,
+        plan: evolutionData.plan || null,
+        // Additional fields
+        diagnostics: evolutionData.diagnostics || null,
+        prescription: evolutionData.prescription || null,
+        exams: evolutionData.exams || null,
+        // Legacy fields
+        notes: evolutionData.notes || null,
+        symptoms: evolutionData.symptoms || null,
+        diagnosis: evolutionData.diagnosis || null
+      };
+      
+      console.log("Dados da evolução a ser criada:", dataWithPatient);
+      
+      try {
+        const newEvolution = await storage.createEvolution(dataWithPatient);
+        console.log("Evolução criada com sucesso:", newEvolution);
+        
+        const user = req.user as any;
+        if (performedProcedures) {
+          const { procedures: bookedProcedures } = await storage.getAppointmentWithProcedures(appointment.id);
+          await storage.setAppointmentProcedures(appointment.id, performedProcedures.map((procedure) => procedure.id));
+          await recordAppointmentChanges(
+            { appointment, procedures: bookedProcedures },
+            { appointment, procedures: performedProcedures },
+            user.id
+          );
+        }
+        
+        // Update appointment status to completed
+        if (appointment.status !== 'completed') {
+          await changeAppointmentStatus(appointment, 'completed', user.id);
+        }
+        
+        res.status(201).json(newEvolution);
+      } catch (error) {
+        console.error("Erro ao criar evolução:", error);
+        next(error);
+      }
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Financial Record routes
+  app.get('/api/financial-records/professional/:professionalId', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+    try {
+      const professionalId = parseInt(req.params.professionalId);
+      if (isNaN(professionalId)) {
+        return res.status(400).json({ message: 'ID de profissional inválido' });
+      }
+      
+      // Check if user is allowed to access this professional's data
+      const user = req.user as any;
+      if (user.role === 'medico') {
+        const professional = await storage.getProfessionalByUserId(user.id);
+        if (!professional || professional.id !== professionalId) {
+          return res.status(403).json({ message: 'Acesso negado' });
+        }
+      }
+      
+      // Get date from query params
+      const dateParam = req.query.date as string;
+      let date: Date | undefined;
+      if (dateParam) {
+        date = new Date(dateParam);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({ message: 'Data inválida' });
+        }
+      }
+      
+      const records = await storage.getFinancialRecordsByProfessional(professionalId, date);
+      res.status(200).json(records);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Finaliza o atendimento e devolve o registro financeiro dele. Os valores são calculados
+  // no servidor a partir dos procedimentos do agendamento; os enviados pelo cliente são ignorados
+  app.post('/api/financial-records', isAuthenticated, hasRole(['medico']), async (req, res, next) => {
+    try {
+      const recordData = insertFinancialRecordSchema
+        .pick({ appointmentId: true })
+        .parse(req.body);
+      
+      // Verify that the appointment exists
+      let appointment = await storage.getAppointment(recordData.appointmentId);
+      if (!appointment) {
+        return res.status(400).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      // Check if user is allowed to create this professional's record
+      const user = req.user as any;
+      if (user.role === 'medico') {
+        const userProfessional = await storage.getProfessionalByUserId(user.id);
+        if (!userProfessional || userProfessional.id !== appointment.professionalId) {
+          return res.status(403).json({ message: 'Acesso negado' });
+        }
+      }
+      
+      // A conclusão gera o registro; se a evolução já concluiu o atendimento, apenas o devolve
+      if (appointment.status !== 'completed') {
+        const transitionError = statusTransitionError(appointment.status, 'completed');
+        if (transitionError) {
+          return res.status(400).json({ message: transitionError });
+        }
+        const completed = await changeAppointmentStatus(appointment, 'completed', user.id);
+        if (!completed) {
+          return res.status(409).json({ message: STATUS_CONFLICT_MESSAGE });
+        }
+        appointment = completed;
+      }
+      
+      const newRecord = await recordAppointmentRevenue(appointment);
+      if (!newRecord) {
+        return res.status(400).json({ message: 'Profissional não encontrado' });
+      }
+      
+      res.status(201).json(newRecord);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Prévia dos valores do atendimento com os procedimentos marcados, pelas mesmas regras da conclusão
+  app.get('/api/appointments/:id/quote', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const query = appointmentQuoteQuerySchema.parse(req.query);
+      const appointment = await storage.getAppointment(id);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      
+      const user = req.user as any;
+      if (user.role === 'medico') {
+        const professional = await storage.getProfessionalByUserId(user.id);
+        if (!professional || professional.id !== appointment.professionalId) {
+          return res.status(403).json({ message: 'Acesso negado' });
+        }
+      }
+      
+      let procedures: Procedure[] = [];
+      if (query.procedureIds) {
+        for (const procedureId of query.procedureIds) {
+          const procedure = await storage.getProcedure(procedureId);
+          if (!procedure) {
+            return res.status(400).json({ message: 'Procedimento não encontrado' });
+          }
+          procedures.push(procedure);
+        }
+      } else {
+        procedures = (await storage.getAppointmentWithProcedures(appointment.id)).procedures;
+      }
+      
+      const quote = await appointmentQuote(appointment, procedures);
+      if (!quote) {
+        return res.status(400).json({ message: 'Profissional não encontrado' });
+      }
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Período e profissional dos relatórios financeiros (padrão: últimos 30 dias).
+  // Médicos veem apenas os próprios valores
+  const financialReportPeriod = async (req: Request, res: Response) => {
+    const query = financialReportQuerySchema.parse(req.query);
+    const endDate = dayRange(query.endDate ?? new Date()).endDate!;
+    const startDate = dayRange(query.startDate ?? new Date(endDate.getTime() - 29 * 24 * 60 * 60 * 1000)).startDate!;
+    if (startDate > endDate) {
+      res.status(400).json({ message: 'A data inicial deve ser anterior à final' });
+      return undefined;
+    }
+    
+    let professionalId = query.professionalId;
+    const user = req.user as any;
+    if (user.role === 'medico') {
+      const professional = await storage.getProfessionalByUserId(user.id);
+      if (!professional || (professionalId && professionalId !== professional.id)) {
+        res.status(403).json({ message: 'Acesso negado' });
+        return undefined;
+      }
+      professionalId = professional.id;
+    }
+    return { startDate, endDate, professionalId };
+  };
+
+  app.get('/api/financial-records', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+    try {
+      const period = await financialReportPeriod(req, res);
+      if (!period) return;
+      res.json(await financialTransactions(period));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.get('/api/financial/summary', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+    try {
+      const period = await financialReportPeriod(req, res);
+      if (!period) return;
+      res.json(await financialSummary(period));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.get('/api/financial/by-professional', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+    try {
+      const period = await financialReportPeriod(req, res);
+      if (!period) return;
+      res.json(await revenueByProfessional(period));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.get('/api/financial/by-type', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+    try {
+      const period = await financialReportPeriod(req, res);
+      if (!period) return;
+      res.json(await revenueByType(period));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Caixa: recebimentos por atendimento, contas a receber e fechamento do dia
+  app.get('/api/cashier', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const query = cashierQuerySchema.parse(req.query);
+      res.json(await cashierEntries(query.date ?? new Date()));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.get('/api/appointments/:id/payments', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
+      
+      const appointment = await storage.getAppointment(id);
+      if (!appointment) {
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
       
-      res.status(200).json(enrichedEvolutions);
+      res.json(await appointmentPayments(appointment));
     } catch (error) {
       next(error);
     }
   });
-  
-  app.post('/api/evolutions', isAuthenticated, hasRole(['medico']), async (req, res, next) => {
+
+  app.post('/api/appointments/:id/payments', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
     try {
-      const evolutionData = req.body;
-      console.log("Recebendo dados de evolução:", evolutionData);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de agendamento inválido' });
+      }
       
-      // Verify that the appointment exists
-      const appointment = await storage.getAppointment(evolutionData.appointmentId);
+      const paymentData = paymentFormSchema.parse(req.body);
+      const appointment = await storage.getAppointment(id);
       if (!appointment) {
-        console.log("Agendamento não encontrado:", evolutionData.appointmentId);
-        return res.status(400).json({ message: 'Agendamento não encontrado' });
+        return res.status(404).json({ message: 'Agendamento não encontrado' });
+      }
+      if (appointment.status === 'cancelled' || appointment.status === 'no_show') {
+        return res.status(400).json({ message: 'Não é possível receber por um agendamento cancelado' });
       }
       
-      // Verify that the professional exists
-      const professional = await storage.getProfessional(evolutionData.professionalId);
-      if (!professional) {
-        console.log("Profissional não encontrado:", evolutionData.professionalId);
-        return res.status(400).json({ message: 'Profissional não encontrado' });
+      // Pagamentos parciais são aceitos até quitar o saldo
+      const { balance } = await appointmentBalance(appointment);
+      if (paymentData.amount > balance) {
+        return res.status(400).json({ message: `O valor excede o saldo do atendimento (${formatMoney(balance)})` });
       }
       
-      // Add patientId from appointment and ensure all fields have valid values
-      const dataWithPatient = {
-        ...evolutionData,
-        patientId: appointment.patientId,
-        // SOAP fields
-        subjective: evolutionData.subjective || null,
-        objective: evolutionData.objective || null,
-        assessment: evolutionData.assessment || null,
-        plan: evolutionData.plan || null,
-        // Additional fields
-        diagnostics: evolutionData.diagnostics || null,
-        prescription: evolutionData.prescription || null,
-        exams: evolutionData.exams || null,
-        // Legacy fields
-        notes: evolutionData.notes || null,
-        symptoms: evolutionData.symptoms || null,
-        diagnosis: evolutionData.diagnosis || null
-      };
+      const payment = await storage.createPayment({
+        ...paymentData,
+        appointmentId: id,
+        receivedBy: (req.user as any).id,
+      });
+      publishRealtimeEvent({
+        type: 'payment.captured',
+        paymentId: payment.id,
+        appointmentId: id,
+        professionalId: appointment.professionalId
+      });
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Estorno: o pagamento continua registrado, mas deixa de contar no saldo e no caixa
+  app.post('/api/payments/:id/cancel', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de pagamento inválido' });
+      }
       
-      console.log("Dados da evolução a ser criada:", dataWithPatient);
+      const { reason } = paymentCancelSchema.parse(req.body);
+      const payment = await storage.getPayment(id);
+      if (!payment) {
+        return res.status(404).json({ message: 'Pagamento não encontrado' });
+      }
+      if (payment.cancelledAt) {
+        return res.status(400).json({ message: 'Pagamento já estornado' });
+      }
       
-      try {
-        const newEvolution = await storage.createEvolution(dataWithPatient);
-        console.log("Evolução criada com sucesso:", newEvolution);
-        
-        // Update appointment status to completed
-        await storage.updateAppointmentStatus(evolutionData.appointmentId, 'completed');
-        
-        res.status(201).json(newEvolution);
-      } catch (error) {
-        console.error("Erro ao criar evolução:", error);
-        next(error);
+      const cancelled = await storage.cancelPayment(id, {
+        cancelledBy: (req.user as any).id,
+        cancellationNotes: reason,
+      });
+      const appointment = await storage.getAppointment(payment.appointmentId);
+      if (appointment) {
+        publishRealtimeEvent({
+          type: 'payment.cancelled',
+          paymentId: id,
+          appointmentId: appointment.id,
+          professionalId: appointment.professionalId
+        });
       }
+      res.json(cancelled);
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
@@ -1381,69 +3341,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Financial Record routes - Comentadas para implementação futura
-  /*
-  app.get('/api/financial-records/professional/:professionalId', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+  app.get('/api/patients/:id/balance', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
     try {
-      const professionalId = parseInt(req.params.professionalId);
-      if (isNaN(professionalId)) {
-        return res.status(400).json({ message: 'ID de profissional inválido' });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de paciente inválido' });
       }
       
-      // Check if user is allowed to access this professional's data
-      const user = req.user as any;
-      if (user.role === 'medico') {
-        const professional = await storage.getProfessionalByUserId(user.id);
-        if (!professional || professional.id !== professionalId) {
-          return res.status(403).json({ message: 'Acesso negado' });
-        }
+      const patient = await storage.getPatient(id);
+      if (!patient) {
+        return res.status(404).json({ message: 'Paciente não encontrado' });
       }
       
-      // Get date from query params
-      const dateParam = req.query.date as string;
-      let date: Date | undefined;
-      if (dateParam) {
-        date = new Date(dateParam);
+      res.json(await patientBalance(id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get('/api/reports/cash-closing', isAuthenticated, hasRole(['admin', 'recepcionista']), async (req, res, next) => {
+    try {
+      const query = cashierQuerySchema.parse(req.query);
+      res.json(await cashClosingReport(query.date ?? new Date(), query.receivedBy));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Regras de comissão. Não são editadas nem excluídas: para mudar uma regra, encerra-se a
+  // vigência e cadastra-se outra, e os registros financeiros guardam a regra que aplicaram
+  app.get('/api/commission-rules', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const rules = await storage.getAllCommissionRules();
+      res.json(rules.sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime() || b.id - a.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/commission-rules', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const data = commissionRuleFormSchema.parse(req.body);
+      if (data.professionalId && !(await storage.getProfessional(data.professionalId))) {
+        return res.status(400).json({ message: 'Profissional não encontrado' });
+      }
+      if (data.procedureId && !(await storage.getProcedure(data.procedureId))) {
+        return res.status(400).json({ message: 'Procedimento não encontrado' });
+      }
+      if (data.healthPlanId && !(await storage.getHealthPlan(data.healthPlanId))) {
+        return res.status(400).json({ message: 'Convênio não encontrado' });
       }
       
-      const records = await storage.getFinancialRecordsByProfessional(professionalId, date);
-      res.status(200).json(records);
+      const rule = await storage.createCommissionRule({
+        ...data,
+        effectiveUntil: data.effectiveUntil ? dayRange(data.effectiveUntil).endDate : null,
+        createdBy: (req.user as any).id,
+      });
+      res.status(201).json(rule);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       next(error);
     }
   });
 
-  app.post('/api/financial-records', isAuthenticated, hasRole(['medico']), async (req, res, next) => {
+  // Encerra a vigência no fim do dia informado
+  app.post('/api/commission-rules/:id/end', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
     try {
-      const recordData = insertFinancialRecordSchema.parse(req.body);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de regra inválido' });
+      }
       
-      // Verify that the appointment exists
-      const appointment = await storage.getAppointment(recordData.appointmentId);
-      if (!appointment) {
-        return res.status(400).json({ message: 'Agendamento não encontrado' });
+      const { effectiveUntil } = commissionRuleEndSchema.parse(req.body);
+      const rule = await storage.getCommissionRule(id);
+      if (!rule) {
+        return res.status(404).json({ message: 'Regra não encontrada' });
       }
       
-      // Verify that the professional exists
-      const professional = await storage.getProfessional(recordData.professionalId);
-      if (!professional) {
-        return res.status(400).json({ message: 'Profissional não encontrado' });
+      const endDate = dayRange(effectiveUntil).endDate!;
+      if (endDate < rule.effectiveFrom) {
+        return res.status(400).json({ message: 'O fim da vigência deve ser posterior ao início' });
+      }
+      if (rule.effectiveUntil && rule.effectiveUntil < endDate) {
+        return res.status(400).json({ message: 'A regra já está encerrada antes desta data' });
       }
       
-      // Check if user is allowed to create this professional's record
+      res.json(await storage.updateCommissionRule(id, { effectiveUntil: endDate }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Repasse médico: extrato do profissional no período, ajustes e fechamento
+  app.get('/api/payouts/overview', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const period = await financialReportPeriod(req, res);
+      if (!period) return;
+      res.json(await payoutOverview(period.startDate, period.endDate));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  // Extrato em JSON, CSV ou PDF (?format=). Médicos veem apenas o próprio extrato
+  app.get('/api/payouts/statement', isAuthenticated, hasRole(['admin', 'medico']), async (req, res, next) => {
+    try {
+      const query = payoutStatementQuerySchema.parse(req.query);
+      const startDate = dayRange(query.startDate).startDate!;
+      const endDate = dayRange(query.endDate).endDate!;
+      if (startDate > endDate) {
+        return res.status(400).json({ message: 'A data inicial deve ser anterior à final' });
+      }
+      
+      let professionalId = query.professionalId;
       const user = req.user as any;
       if (user.role === 'medico') {
-        const userProfessional = await storage.getProfessionalByUserId(user.id);
-        if (!userProfessional || userProfessional.id !== recordData.professionalId) {
+        const professional = await storage.getProfessionalByUserId(user.id);
+        if (!professional || (professionalId && professionalId !== professional.id)) {
           return res.status(403).json({ message: 'Acesso negado' });
         }
+        professionalId = professional.id;
+      }
+      if (!professionalId) {
+        return res.status(400).json({ message: 'Informe o profissional' });
       }
       
-      const newRecord = await storage.createFinancialRecord(recordData);
-      
-      // Update appointment status to completed
-      await storage.updateAppointmentStatus(recordData.appointmentId, 'completed');
+      const statement = await payoutStatement({ professionalId, startDate, endDate });
+      if (!statement) {
+        return res.status(404).json({ message: 'Profissional não encontrado' });
+      }
       
-      res.status(201).json(newRecord);
+      if (query.format === 'json') {
+        return res.json(statement);
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="${payoutStatementFilename(statement, query.format)}"`);
+      if (query.format === 'csv') {
+        res.type('text/csv; charset=utf-8').send(payoutStatementCsv(statement));
+      } else {
+        res.type('application/pdf').send(payoutStatementPdf(statement));
+      }
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
@@ -1451,26 +3498,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
       next(error);
     }
   });
-  */
-  
-  // Rota temporária para finalizar consultas sem registro financeiro
-  app.post('/api/financial-records', isAuthenticated, hasRole(['medico']), async (req, res, next) => {
+
+  // Fechamento: congela os totais do extrato e trava o período para novos ajustes
+  app.post('/api/payouts', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
     try {
-      const recordData = insertFinancialRecordSchema.parse(req.body);
+      const data = payoutPeriodSchema.parse(req.body);
+      const startDate = dayRange(data.startDate).startDate!;
+      const endDate = dayRange(data.endDate).endDate!;
+      if (startDate > endDate) {
+        return res.status(400).json({ message: 'A data inicial deve ser anterior à final' });
+      }
+      if (endDate > new Date()) {
+        return res.status(400).json({ message: 'Só é possível fechar períodos já encerrados' });
+      }
       
-      // Apenas atualiza o status do agendamento para completado
-      await storage.updateAppointmentStatus(recordData.appointmentId, 'completed');
+      const statement = await payoutStatement({ professionalId: data.professionalId, startDate, endDate });
+      if (!statement) {
+        return res.status(404).json({ message: 'Profissional não encontrado' });
+      }
+      if (statement.locked) {
+        return res.status(400).json({ message: 'Já existe repasse fechado neste período' });
+      }
       
-      // Retorna um objeto vazio para manter a compatibilidade com o frontend
-      res.status(201).json({
-        id: 0,
-        appointmentId: recordData.appointmentId,
-        professionalId: recordData.professionalId,
-        totalValue: 0,
-        clinicCommission: 0, 
-        professionalValue: 0,
-        createdAt: new Date()
+      const payout = await storage.createPayout({
+        professionalId: data.professionalId,
+        startDate,
+        endDate,
+        appointmentsCount: statement.appointmentsCount,
+        grossValue: statement.grossValue,
+        adjustmentsValue: statement.adjustmentsValue,
+        netValue: statement.netValue,
+        closedBy: (req.user as any).id,
+      });
+      res.status(201).json(payout);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      next(error);
+    }
+  });
+
+  app.post('/api/payout-adjustments', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const data = payoutAdjustmentFormSchema.parse(req.body);
+      const professional = await storage.getProfessional(data.professionalId);
+      if (!professional) {
+        return res.status(400).json({ message: 'Profissional não encontrado' });
+      }
+      if (await closedPayoutOn(data.professionalId, data.date)) {
+        return res.status(400).json({ message: 'O repasse deste período já foi fechado' });
+      }
+      
+      const adjustment = await storage.createPayoutAdjustment({
+        ...data,
+        createdBy: (req.user as any).id,
       });
+      res.status(201).json(adjustment);
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
@@ -1479,6 +3563,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.delete('/api/payout-adjustments/:id', isAuthenticated, hasRole(['admin']), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'ID de ajuste inválido' });
+      }
+      
+      const adjustment = await storage.getPayoutAdjustment(id);
+      if (!adjustment) {
+        return res.status(404).json({ message: 'Ajuste não encontrado' });
+      }
+      if (await closedPayoutOn(adjustment.professionalId, adjustment.date)) {
+        return res.status(400).json({ message: 'O repasse deste período já foi fechado' });
+      }
+      
+      await storage.deletePayoutAdjustment(id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
@@ -0,0 +1,67 @@
+import { format } from "date-fns";
+import { Appointment, ProfessionalSchedule, Resource } from "@shared/schema";
+import { storage } from "./storage";
+import { fitsSchedule } from "./availability";
+
+export interface ScheduleConflict {
+  message: string;
+  conflictingAppointment: Appointment;
+  conflictingResource?: Resource;
+}
+
+interface ScheduleSlot {
+  professionalId: number;
+  resources: Resource[];
+  start: Date;
+  end: Date;
+  // Agendamento sendo alterado, que não conflita consigo mesmo
+  excludeAppointmentId?: number;
+}
+
+// Primeiro conflito do horário com a agenda do profissional ou com as salas/equipamentos reservados
+export async function findScheduleConflict(
+  slot: ScheduleSlot,
+): Promise<ScheduleConflict | undefined> {
+  const { professionalId, resources, start, end, excludeAppointmentId } = slot;
+
+  const [professionalConflict] = await storage.getOverlappingAppointments(
+    professionalId,
+    start,
+    end,
+    excludeAppointmentId,
+  );
+  if (professionalConflict) {
+    return {
+      message: "O profissional já possui um agendamento neste horário",
+      conflictingAppointment: professionalConflict,
+    };
+  }
+
+  for (const resource of resources) {
+    const [resourceConflict] = await storage.getOverlappingResourceAppointments(
+      resource.id,
+      start,
+      end,
+      excludeAppointmentId,
+    );
+    if (resourceConflict) {
+      return {
+        message: `O recurso "${resource.name}" já está reservado neste horário`,
+        conflictingAppointment: resourceConflict,
+        conflictingResource: resource,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+// Motivo para recusar um horário fora dos turnos do profissional, se houver
+export function outsideScheduleError(
+  schedules: ProfessionalSchedule[],
+  start: Date,
+  end: Date,
+): string | undefined {
+  if (fitsSchedule(schedules, start, end)) return undefined;
+  return `O horário de ${format(start, "dd/MM/yyyy HH:mm")} está fora da agenda do profissional`;
+}
@@ -1,28 +1,134 @@
-import { createClient } from "@neondatabase/serverless";
 import {
   User,
   InsertUser,
   Professional,
   InsertProfessional,
+  ProfessionalSchedule,
+  InsertProfessionalSchedule,
   Patient,
   InsertPatient,
   Procedure,
   InsertProcedure,
+  Resource,
+  InsertResource,
+  ProcedureResource,
   Appointment,
   InsertAppointment,
+  AppointmentCancellation,
+  AppointmentQueueUpdate,
+  AppointmentSeries,
+  InsertAppointmentSeries,
   AppointmentProcedure,
   InsertAppointmentProcedure,
+  AppointmentResource,
+  InsertAppointmentResource,
+  AppointmentChange,
+  InsertAppointmentChange,
+  WaitlistEntry,
+  InsertWaitlistEntry,
+  WaitlistWindow,
+  InsertWaitlistWindow,
+  WaitlistOffer,
+  InsertWaitlistOffer,
   Evolution,
   InsertEvolution,
   FinancialRecord,
   InsertFinancialRecord,
+  Payment,
+  InsertPayment,
+  PaymentCancellation,
+  Payout,
+  InsertPayout,
+  HealthPlan,
+  InsertHealthPlan,
+  HealthPlanTier,
+  InsertHealthPlanTier,
+  HealthPlanPrice,
+  PatientHealthPlan,
+  InsertPatientHealthPlan,
+  CommissionRule,
+  InsertCommissionRule,
+  FinancialRecordItem,
+  InsertFinancialRecordItem,
+  PayoutAdjustment,
+  InsertPayoutAdjustment,
+  appointmentStatusEnum,
 } from "@shared/schema";
 import bcrypt from "bcryptjs";
+import { createDatabase } from "./db";
+import { dayRange } from "./date-range";
+import { DatabaseStorage } from "./database-storage";
+import { appointmentEnd, DEFAULT_APPOINTMENT_MINUTES } from "./availability";
+import { NON_BLOCKING_STATUSES, statusTimestampUpdate } from "@shared/appointment-status";
+
+// Filtros para listagem de agendamentos; todos são opcionais e combinados com "E"
+export interface AppointmentFilters {
+  professionalId?: number;
+  patientId?: number;
+  // Agendamentos que reservam este recurso (sala/equipamento)
+  resourceId?: number;
+  seriesId?: number;
+  status?: Appointment["status"][];
+  startDate?: Date;
+  endDate?: Date;
+  // Agendamentos com ao menos um procedimento deste tipo
+  procedureType?: Procedure["type"];
+}
+
+// Filtros da lista de espera
+export interface WaitlistFilters {
+  status?: WaitlistEntry["status"][];
+  professionalId?: number;
+}
+
+// Filtros das ofertas de horário da lista de espera
+export interface WaitlistOfferFilters {
+  status?: WaitlistOffer["status"][];
+  entryId?: number;
+  sourceAppointmentId?: number;
+}
+
+// Filtros dos registros financeiros; o período considera a data do registro (conclusão)
+export interface FinancialRecordFilters {
+  professionalId?: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Filtros dos pagamentos; o período considera a data do recebimento
+export interface PaymentFilters {
+  appointmentIds?: number[];
+  receivedBy?: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Filtros dos repasses (período que se sobrepõe ao informado) e dos ajustes (data no período)
+export interface PayoutFilters {
+  professionalId?: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Ordenação e paginação da listagem de agendamentos
+// Agendas travadas enquanto um horário é conferido e gravado
+export interface ScheduleLock {
+  professionalIds: number[];
+  resourceIds: number[];
+}
+
+export interface AppointmentListOptions {
+  sortBy?: "date" | "status" | "id";
+  sortOrder?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
 
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(
     id: number,
@@ -39,9 +145,23 @@ export interface IStorage {
     professionalData: Partial<InsertProfessional>
   ): Promise<Professional | undefined>;
 
+  // Professional Schedules
+  getProfessionalSchedule(id: number): Promise<ProfessionalSchedule | undefined>;
+  getProfessionalSchedules(professionalId: number): Promise<ProfessionalSchedule[]>;
+  createProfessionalSchedule(
+    schedule: InsertProfessionalSchedule,
+  ): Promise<ProfessionalSchedule>;
+  updateProfessionalSchedule(
+    id: number,
+    scheduleData: Partial<InsertProfessionalSchedule>,
+  ): Promise<ProfessionalSchedule | undefined>;
+  deleteProfessionalSchedule(id: number): Promise<boolean>;
+
   // Patients
   getPatient(id: number): Promise<Patient | undefined>;
   getAllPatients(): Promise<Patient[]>;
+  // Busca pelo CPF ignorando pontuação
+  getPatientByCpf(cpf: string): Promise<Patient | undefined>;
   createPatient(patient: InsertPatient): Promise<Patient>;
   updatePatient(
     id: number,
@@ -56,9 +176,43 @@ export interface IStorage {
     id: number,
     procedureData: Partial<InsertProcedure>
   ): Promise<Procedure | undefined>;
+  getProcedureResources(procedureId: number): Promise<Resource[]>;
+  // Substitui a lista de recursos exigidos pelo procedimento
+  setProcedureResources(procedureId: number, resourceIds: number[]): Promise<void>;
+
+  // Resources
+  getResource(id: number): Promise<Resource | undefined>;
+  getAllResources(): Promise<Resource[]>;
+  createResource(resource: InsertResource): Promise<Resource>;
+  updateResource(
+    id: number,
+    resourceData: Partial<InsertResource>,
+  ): Promise<Resource | undefined>;
 
   // Appointments
   getAppointment(id: number): Promise<Appointment | undefined>;
+  getAppointments(
+    filters?: AppointmentFilters,
+    options?: AppointmentListOptions,
+  ): Promise<Appointment[]>;
+  countAppointments(filters?: AppointmentFilters): Promise<number>;
+  // Agendamentos não cancelados do profissional que ocupam parte de [start, end)
+  getOverlappingAppointments(
+    professionalId: number,
+    start: Date,
+    end: Date,
+    excludeAppointmentId?: number,
+  ): Promise<Appointment[]>;
+  // Agendamentos não cancelados que reservam o recurso em parte de [start, end)
+  getOverlappingResourceAppointments(
+    resourceId: number,
+    start: Date,
+    end: Date,
+    excludeAppointmentId?: number,
+  ): Promise<Appointment[]>;
+  // Executa fn com a agenda dos profissionais e das salas/equipamentos travada, para que a
+  // conferência de conflitos e a gravação não se intercalem com as de outra requisição
+  withScheduleLock<T>(lock: ScheduleLock, fn: () => Promise<T>): Promise<T>;
   getAppointmentsByProfessional(
     professionalId: number,
     date?: Date,
@@ -68,16 +222,36 @@ export interface IStorage {
     date?: Date,
   ): Promise<Appointment[]>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  updateAppointment(
+    id: number,
+    appointmentData: Partial<InsertAppointment>,
+  ): Promise<Appointment | undefined>;
+  // Altera o status e grava o horário da transição (checkedInAt, startedAt...);
+  // ao cancelar ou marcar falta grava também o motivo e quem fez. Só altera se o status
+  // ainda for o esperado; undefined indica que outra requisição mudou antes
   updateAppointmentStatus(
     id: number,
-    status: string,
-    newDate?: Date,
+    status: Appointment["status"],
+    expectedStatus: Appointment["status"],
+    cancellation?: AppointmentCancellation,
+    at?: Date,
+  ): Promise<Appointment | undefined>;
+  // Prioridades do paciente e posição manual na fila
+  updateAppointmentQueue(
+    id: number,
+    changes: AppointmentQueueUpdate,
   ): Promise<Appointment | undefined>;
   completeAppointment(
     id: number,
     patientId: number,
   ): Promise<Appointment | undefined>;
 
+  // Appointment Series
+  getAppointmentSeries(id: number): Promise<AppointmentSeries | undefined>;
+  createAppointmentSeries(
+    series: InsertAppointmentSeries,
+  ): Promise<AppointmentSeries>;
+
   // Appointment Procedures
   getAppointmentProcedures(
     appointmentId: number,
@@ -88,6 +262,45 @@ export interface IStorage {
   getAppointmentWithProcedures(
     appointmentId: number,
   ): Promise<{ appointment: Appointment; procedures: Procedure[] }>;
+  // Substitui os procedimentos do agendamento
+  setAppointmentProcedures(appointmentId: number, procedureIds: number[]): Promise<void>;
+
+  // Appointment Resources
+  getAppointmentResources(appointmentId: number): Promise<Resource[]>;
+  addResourceToAppointment(
+    appointmentResource: InsertAppointmentResource,
+  ): Promise<AppointmentResource>;
+  // Substitui os recursos reservados pelo agendamento
+  setAppointmentResources(appointmentId: number, resourceIds: number[]): Promise<void>;
+
+  // Appointment Changes (histórico, do mais antigo ao mais recente)
+  getAppointmentChanges(appointmentId: number): Promise<AppointmentChange[]>;
+  createAppointmentChange(change: InsertAppointmentChange): Promise<AppointmentChange>;
+
+  // Waitlist (lista de espera, por ordem de cadastro)
+  getWaitlistEntries(filters?: WaitlistFilters): Promise<WaitlistEntry[]>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  // Cria a entrada junto com os procedimentos e as janelas de horário preferidas
+  createWaitlistEntry(
+    entry: InsertWaitlistEntry,
+    procedureIds: number[],
+    windows: Omit<InsertWaitlistWindow, "entryId">[],
+  ): Promise<WaitlistEntry>;
+  updateWaitlistEntry(
+    id: number,
+    entryData: Partial<InsertWaitlistEntry>,
+  ): Promise<WaitlistEntry | undefined>;
+  getWaitlistProcedures(entryId: number): Promise<Procedure[]>;
+  getWaitlistWindows(entryId: number): Promise<WaitlistWindow[]>;
+
+  // Waitlist Offers (da mais antiga para a mais recente)
+  getWaitlistOffers(filters?: WaitlistOfferFilters): Promise<WaitlistOffer[]>;
+  getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined>;
+  createWaitlistOffer(offer: InsertWaitlistOffer): Promise<WaitlistOffer>;
+  updateWaitlistOfferStatus(
+    id: number,
+    status: WaitlistOffer["status"],
+  ): Promise<WaitlistOffer | undefined>;
 
   // Evolutions
   getEvolution(id: number): Promise<Evolution | undefined>;
@@ -97,54 +310,178 @@ export interface IStorage {
 
   // Financial Records
   getFinancialRecord(id: number): Promise<FinancialRecord | undefined>;
+  getFinancialRecordByAppointment(appointmentId: number): Promise<FinancialRecord | undefined>;
+  getFinancialRecords(filters?: FinancialRecordFilters): Promise<FinancialRecord[]>;
   getFinancialRecordsByProfessional(
     professionalId: number,
     date?: Date,
   ): Promise<FinancialRecord[]>;
+  // Grava o registro e a composição por procedimento juntos. Se o atendimento já tem
+  // registro (ex.: gravado por uma conclusão simultânea), devolve o existente sem gravar nada
   createFinancialRecord(
     record: InsertFinancialRecord,
+    items?: Omit<InsertFinancialRecordItem, "financialRecordId">[],
   ): Promise<FinancialRecord>;
+  getFinancialRecordItems(financialRecordId: number): Promise<FinancialRecordItem[]>;
+
+  // Health plans (convênios)
+  getHealthPlan(id: number): Promise<HealthPlan | undefined>;
+  getAllHealthPlans(): Promise<HealthPlan[]>;
+  createHealthPlan(healthPlan: InsertHealthPlan): Promise<HealthPlan>;
+  updateHealthPlan(id: number, healthPlan: Partial<InsertHealthPlan>): Promise<HealthPlan | undefined>;
+  getHealthPlanTiers(healthPlanId?: number): Promise<HealthPlanTier[]>;
+  getHealthPlanTier(id: number): Promise<HealthPlanTier | undefined>;
+  createHealthPlanTier(tier: InsertHealthPlanTier): Promise<HealthPlanTier>;
+  updateHealthPlanTier(id: number, tier: Partial<InsertHealthPlanTier>): Promise<HealthPlanTier | undefined>;
+  getHealthPlanPrices(healthPlanId: number): Promise<HealthPlanPrice[]>;
+  // Cria ou substitui o preço do procedimento na tabela do convênio
+  setHealthPlanPrice(healthPlanId: number, procedureId: number, value: number): Promise<HealthPlanPrice>;
+  deleteHealthPlanPrice(healthPlanId: number, procedureId: number): Promise<boolean>;
+
+  // Carteirinhas de convênio dos pacientes
+  getPatientHealthPlans(patientId: number): Promise<PatientHealthPlan[]>;
+  getPatientHealthPlan(id: number): Promise<PatientHealthPlan | undefined>;
+  createPatientHealthPlan(card: InsertPatientHealthPlan): Promise<PatientHealthPlan>;
+  updatePatientHealthPlan(id: number, card: Partial<InsertPatientHealthPlan>): Promise<PatientHealthPlan | undefined>;
+
+  // Commission rules
+  getCommissionRule(id: number): Promise<CommissionRule | undefined>;
+  getAllCommissionRules(): Promise<CommissionRule[]>;
+  createCommissionRule(rule: InsertCommissionRule): Promise<CommissionRule>;
+  updateCommissionRule(id: number, rule: Partial<InsertCommissionRule>): Promise<CommissionRule | undefined>;
+
+  // Payments (pela data de recebimento, incluindo os estornados)
+  getPayments(filters?: PaymentFilters): Promise<Payment[]>;
+  getPayment(id: number): Promise<Payment | undefined>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  cancelPayment(id: number, cancellation: PaymentCancellation): Promise<Payment | undefined>;
+
+  // Payouts
+  getPayouts(filters?: PayoutFilters): Promise<Payout[]>;
+  createPayout(payout: InsertPayout): Promise<Payout>;
+  getPayoutAdjustments(filters?: PayoutFilters): Promise<PayoutAdjustment[]>;
+  getPayoutAdjustment(id: number): Promise<PayoutAdjustment | undefined>;
+  createPayoutAdjustment(adjustment: InsertPayoutAdjustment): Promise<PayoutAdjustment>;
+  deletePayoutAdjustment(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private professionals: Map<number, Professional>;
+  private professionalSchedules: Map<number, ProfessionalSchedule>;
   private patients: Map<number, Patient>;
   private procedures: Map<number, Procedure>;
+  private resources: Map<number, Resource>;
+  private procedureResources: Map<number, ProcedureResource>;
   private appointments: Map<number, Appointment>;
+  private appointmentSeries: Map<number, AppointmentSeries>;
   private appointmentProcedures: Map<number, AppointmentProcedure>;
+  private appointmentResources: Map<number, AppointmentResource>;
+  private appointmentChanges: Map<number, AppointmentChange>;
+  private waitlistEntries: Map<number, WaitlistEntry>;
+  private waitlistProcedures: Map<number, { id: number; entryId: number; procedureId: number }>;
+  private waitlistWindows: Map<number, WaitlistWindow>;
+  private waitlistOffers: Map<number, WaitlistOffer>;
   private evolutions: Map<number, Evolution>;
   private financialRecords: Map<number, FinancialRecord>;
+  private payments: Map<number, Payment>;
+  private payouts: Map<number, Payout>;
+  private financialRecordItems: Map<number, FinancialRecordItem>;
+  private healthPlans: Map<number, HealthPlan>;
+  private healthPlanTiers: Map<number, HealthPlanTier>;
+  private healthPlanPrices: Map<number, HealthPlanPrice>;
+  private patientHealthPlans: Map<number, PatientHealthPlan>;
+  private commissionRules: Map<number, CommissionRule>;
+  private payoutAdjustments: Map<number, PayoutAdjustment>;
   currentId: {
     users: number;
     professionals: number;
+    professionalSchedules: number;
     patients: number;
     procedures: number;
+    resources: number;
+    procedureResources: number;
     appointments: number;
+    appointmentSeries: number;
     appointmentProcedures: number;
+    appointmentResources: number;
+    appointmentChanges: number;
+    waitlistEntries: number;
+    waitlistProcedures: number;
+    waitlistWindows: number;
+    waitlistOffers: number;
     evolutions: number;
     financialRecords: number;
+    payments: number;
+    payouts: number;
+    financialRecordItems: number;
+    healthPlans: number;
+    healthPlanTiers: number;
+    healthPlanPrices: number;
+    patientHealthPlans: number;
+    commissionRules: number;
+    payoutAdjustments: number;
   };
+  // Fila das seções travadas; em memória, uma de cada vez
+  private scheduleQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.users = new Map();
     this.professionals = new Map();
+    this.professionalSchedules = new Map();
     this.patients = new Map();
     this.procedures = new Map();
+    this.resources = new Map();
+    this.procedureResources = new Map();
     this.appointments = new Map();
+    this.appointmentSeries = new Map();
     this.appointmentProcedures = new Map();
+    this.appointmentResources = new Map();
+    this.appointmentChanges = new Map();
+    this.waitlistEntries = new Map();
+    this.waitlistProcedures = new Map();
+    this.waitlistWindows = new Map();
+    this.waitlistOffers = new Map();
     this.evolutions = new Map();
     this.financialRecords = new Map();
+    this.payments = new Map();
+    this.payouts = new Map();
+    this.financialRecordItems = new Map();
+    this.healthPlans = new Map();
+    this.healthPlanTiers = new Map();
+    this.healthPlanPrices = new Map();
+    this.patientHealthPlans = new Map();
+    this.commissionRules = new Map();
+    this.payoutAdjustments = new Map();
 
     this.currentId = {
       users: 1,
       professionals: 1,
+      professionalSchedules: 1,
       patients: 1,
       procedures: 1,
+      resources: 1,
+      procedureResources: 1,
       appointments: 1,
+      appointmentSeries: 1,
       appointmentProcedures: 1,
+      appointmentResources: 1,
+      appointmentChanges: 1,
+      waitlistEntries: 1,
+      waitlistProcedures: 1,
+      waitlistWindows: 1,
+      waitlistOffers: 1,
       evolutions: 1,
       financialRecords: 1,
+      payments: 1,
+      payouts: 1,
+      financialRecordItems: 1,
+      healthPlans: 1,
+      healthPlanTiers: 1,
+      healthPlanPrices: 1,
+      patientHealthPlans: 1,
+      commissionRules: 1,
+      payoutAdjustments: 1,
     };
 
     // Initialize with admin user and test data
@@ -185,24 +522,54 @@ export class MemStorage implements IStorage {
     const doctor = await this.createProfessional({
       userId: doctorUser.id,
       specialty: "Gastroenterologia",
-      commission: 70, // 70% para o médico, 30% para a clínica
+      commission: 30, // 30% para a clínica, 70% para o médico
+      room: "Consultório 1",
     });
 
+    // Horário de atendimento: segunda a sexta, 08:00-17:00 com almoço
+    for (let weekday = 1; weekday <= 5; weekday++) {
+      await this.createProfessionalSchedule({
+        professionalId: doctor.id,
+        weekday,
+        startTime: "08:00",
+        endTime: "17:00",
+        slotMinutes: 30,
+        breakStart: "12:00",
+        breakEnd: "13:00",
+      });
+    }
+
     // 4. Criar procedimentos
     const consultaProcedure = await this.createProcedure({
       name: "CONSULTA COM GASTRO",
       description: "Consulta padrão com Gastroenterologista",
       type: "consultation",
-      value: 250.0,
+      value: 25000,
+      durationMinutes: 30,
     });
 
     const examProcedure = await this.createProcedure({
       name: "ENDOSCOPIA",
       description: "Endoscopia com teste da bactéria",
       type: "exam",
-      value: 250.0,
+      value: 25000,
+      durationMinutes: 40,
+      preparationInstructions: "Jejum absoluto de 8 horas. Trazer acompanhante maior de idade.",
     });
 
+    // Sala e equipamento exigidos pela endoscopia
+    const endoscopyRoom = await this.createResource({
+      name: "Sala de endoscopia",
+      type: "room",
+      isActive: true,
+    });
+    const endoscope = await this.createResource({
+      name: "Videoendoscópio",
+      type: "equipment",
+      isActive: true,
+    });
+    await this.setProcedureResources(examProcedure.id, [endoscopyRoom.id, endoscope.id]);
+
     // 5. Criar paciente
     const patient = await this.createPatient({
       name: "ROMULO RODRIGUES PINTO",
@@ -211,7 +578,7 @@ export class MemStorage implements IStorage {
       cpf: "123.456.789-00",
       rg: "1234567",
       profession: "Engenheiro",
-      birthDate: new Date(1980, 0, 1), // 1 de Janeiro de 1980
+      birthDate: new Date("1980-01-01"), // 1 de Janeiro de 1980, meia-noite UTC como no cadastro
       gender: "male",
       address: "Rua Principal, 123 - Fortaleza/CE",
       observations: "Nenhuma observação",
@@ -228,6 +595,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find((user) => user.email === email);
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId.users++;
     // Hash password if it's not already hashed (contains no $ which are in bcrypt hashes)
@@ -286,7 +657,7 @@ export class MemStorage implements IStorage {
     insertProfessional: InsertProfessional,
   ): Promise<Professional> {
     const id = this.currentId.professionals++;
-    const professional: Professional = { ...insertProfessional, id };
+    const professional: Professional = { ...insertProfessional, id, room: insertProfessional.room ?? null };
     this.professionals.set(id, professional);
     return professional;
   }
@@ -303,6 +674,55 @@ export class MemStorage implements IStorage {
     return updatedProfessional;
   }
 
+  // Professional Schedule methods
+  async getProfessionalSchedule(
+    id: number,
+  ): Promise<ProfessionalSchedule | undefined> {
+    return this.professionalSchedules.get(id);
+  }
+
+  async getProfessionalSchedules(
+    professionalId: number,
+  ): Promise<ProfessionalSchedule[]> {
+    return Array.from(this.professionalSchedules.values())
+      .filter((schedule) => schedule.professionalId === professionalId)
+      .sort(
+        (a, b) =>
+          a.weekday - b.weekday || a.startTime.localeCompare(b.startTime),
+      );
+  }
+
+  async createProfessionalSchedule(
+    insertSchedule: InsertProfessionalSchedule,
+  ): Promise<ProfessionalSchedule> {
+    const id = this.currentId.professionalSchedules++;
+    const schedule: ProfessionalSchedule = {
+      ...insertSchedule,
+      id,
+      slotMinutes: insertSchedule.slotMinutes ?? 30,
+      breakStart: insertSchedule.breakStart ?? null,
+      breakEnd: insertSchedule.breakEnd ?? null,
+    };
+    this.professionalSchedules.set(id, schedule);
+    return schedule;
+  }
+
+  async updateProfessionalSchedule(
+    id: number,
+    scheduleData: Partial<InsertProfessionalSchedule>,
+  ): Promise<ProfessionalSchedule | undefined> {
+    const existingSchedule = await this.getProfessionalSchedule(id);
+    if (!existingSchedule) return undefined;
+
+    const updatedSchedule = { ...existingSchedule, ...scheduleData };
+    this.professionalSchedules.set(id, updatedSchedule);
+    return updatedSchedule;
+  }
+
+  async deleteProfessionalSchedule(id: number): Promise<boolean> {
+    return this.professionalSchedules.delete(id);
+  }
+
   // Patient methods
   async getPatient(id: number): Promise<Patient | undefined> {
     return this.patients.get(id);
@@ -312,6 +732,13 @@ export class MemStorage implements IStorage {
     return Array.from(this.patients.values());
   }
 
+  async getPatientByCpf(cpf: string): Promise<Patient | undefined> {
+    const digits = cpf.replace(/\D/g, "");
+    return Array.from(this.patients.values()).find(
+      (patient) => !!patient.cpf && patient.cpf.replace(/\D/g, "") === digits,
+    );
+  }
+
   async createPatient(insertPatient: InsertPatient): Promise<Patient> {
     const id = this.currentId.patients++;
     const patient: Patient = { ...insertPatient, id };
@@ -342,7 +769,12 @@ export class MemStorage implements IStorage {
 
   async createProcedure(insertProcedure: InsertProcedure): Promise<Procedure> {
     const id = this.currentId.procedures++;
-    const procedure: Procedure = { ...insertProcedure, id };
+    const procedure: Procedure = {
+      ...insertProcedure,
+      id,
+      durationMinutes: insertProcedure.durationMinutes ?? null,
+      preparationInstructions: insertProcedure.preparationInstructions ?? null,
+    };
     this.procedures.set(id, procedure);
     return procedure;
   }
@@ -359,69 +791,256 @@ export class MemStorage implements IStorage {
     return updatedProcedure;
   }
 
+  async getProcedureResources(procedureId: number): Promise<Resource[]> {
+    return Array.from(this.procedureResources.values())
+      .filter((pr) => pr.procedureId === procedureId)
+      .map((pr) => this.resources.get(pr.resourceId))
+      .filter((resource): resource is Resource => resource !== undefined);
+  }
+
+  async setProcedureResources(
+    procedureId: number,
+    resourceIds: number[],
+  ): Promise<void> {
+    for (const [id, pr] of Array.from(this.procedureResources.entries())) {
+      if (pr.procedureId === procedureId) this.procedureResources.delete(id);
+    }
+
+    for (const resourceId of Array.from(new Set(resourceIds))) {
+      const id = this.currentId.procedureResources++;
+      this.procedureResources.set(id, { id, procedureId, resourceId });
+    }
+  }
+
+  // Resource methods
+  async getResource(id: number): Promise<Resource | undefined> {
+    return this.resources.get(id);
+  }
+
+  async getAllResources(): Promise<Resource[]> {
+    return Array.from(this.resources.values());
+  }
+
+  async createResource(insertResource: InsertResource): Promise<Resource> {
+    const id = this.currentId.resources++;
+    const resource: Resource = {
+      ...insertResource,
+      id,
+      description: insertResource.description ?? null,
+      isActive: insertResource.isActive ?? true,
+    };
+    this.resources.set(id, resource);
+    return resource;
+  }
+
+  async updateResource(
+    id: number,
+    resourceData: Partial<InsertResource>,
+  ): Promise<Resource | undefined> {
+    const existingResource = await this.getResource(id);
+    if (!existingResource) return undefined;
+
+    const updatedResource = { ...existingResource, ...resourceData };
+    this.resources.set(id, updatedResource);
+    return updatedResource;
+  }
+
   // Appointment methods
   async getAppointment(id: number): Promise<Appointment | undefined> {
     return this.appointments.get(id);
   }
 
-  async getAppointmentsByProfessional(
-    professionalId: number,
-    date?: Date,
-  ): Promise<Appointment[]> {
-    const appointments = Array.from(this.appointments.values()).filter(
-      (appointment) => appointment.professionalId === professionalId,
+  private filterAppointments(filters: AppointmentFilters): Appointment[] {
+    const {
+      professionalId,
+      patientId,
+      resourceId,
+      seriesId,
+      status,
+      startDate,
+      endDate,
+      procedureType,
+    } = filters;
+
+    return Array.from(this.appointments.values()).filter(
+      (appointment) =>
+        (professionalId === undefined ||
+          appointment.professionalId === professionalId) &&
+        (patientId === undefined || appointment.patientId === patientId) &&
+        (resourceId === undefined ||
+          this.reservesResource(appointment.id, resourceId)) &&
+        (seriesId === undefined || appointment.seriesId === seriesId) &&
+        (!status || status.includes(appointment.status)) &&
+        (!startDate || appointment.date >= startDate) &&
+        (!endDate || appointment.date <= endDate) &&
+        (!procedureType ||
+          Array.from(this.appointmentProcedures.values()).some(
+            (ap) =>
+              ap.appointmentId === appointment.id &&
+              this.procedures.get(ap.procedureId)?.type === procedureType,
+          )),
     );
+  }
 
-    if (date) {
-      const dateStart = new Date(date);
-      dateStart.setHours(0, 0, 0, 0);
-      const dateEnd = new Date(date);
-      dateEnd.setHours(23, 59, 59, 999);
+  private reservesResource(appointmentId: number, resourceId: number): boolean {
+    return Array.from(this.appointmentResources.values()).some(
+      (ar) => ar.appointmentId === appointmentId && ar.resourceId === resourceId,
+    );
+  }
 
-      return appointments.filter(
+  async getAppointments(
+    filters: AppointmentFilters = {},
+    options: AppointmentListOptions = {},
+  ): Promise<Appointment[]> {
+    const { sortBy = "date", sortOrder = "asc", limit, offset = 0 } = options;
+    const direction = sortOrder === "desc" ? -1 : 1;
+
+    const sorted = this.filterAppointments(filters).sort((a, b) => {
+      let result = 0;
+      if (sortBy === "date") result = a.date.getTime() - b.date.getTime();
+      if (sortBy === "status") {
+        // Mesma ordem do enum no banco
+        result =
+          appointmentStatusEnum.enumValues.indexOf(a.status) -
+          appointmentStatusEnum.enumValues.indexOf(b.status);
+      }
+      return direction * (result || a.id - b.id);
+    });
+
+    return limit === undefined
+      ? sorted.slice(offset)
+      : sorted.slice(offset, offset + limit);
+  }
+
+  async countAppointments(filters: AppointmentFilters = {}): Promise<number> {
+    return this.filterAppointments(filters).length;
+  }
+
+  async getOverlappingAppointments(
+    professionalId: number,
+    start: Date,
+    end: Date,
+    excludeAppointmentId?: number,
+  ): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter(
         (appointment) =>
-          appointment.date >= dateStart && appointment.date <= dateEnd,
-      );
-    }
+          appointment.professionalId === professionalId &&
+          appointment.id !== excludeAppointmentId &&
+          !NON_BLOCKING_STATUSES.includes(appointment.status) &&
+          appointment.date < end &&
+          appointmentEnd(appointment) > start,
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async getOverlappingResourceAppointments(
+    resourceId: number,
+    start: Date,
+    end: Date,
+    excludeAppointmentId?: number,
+  ): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter(
+        (appointment) =>
+          this.reservesResource(appointment.id, resourceId) &&
+          appointment.id !== excludeAppointmentId &&
+          !NON_BLOCKING_STATUSES.includes(appointment.status) &&
+          appointment.date < end &&
+          appointmentEnd(appointment) > start,
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
 
-    return appointments;
+  async withScheduleLock<T>(_lock: ScheduleLock, fn: () => Promise<T>): Promise<T> {
+    const result = this.scheduleQueue.then(fn);
+    this.scheduleQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  async getAppointmentsByProfessional(
+    professionalId: number,
+    date?: Date,
+  ): Promise<Appointment[]> {
+    return this.getAppointments({ professionalId, ...dayRange(date) });
   }
 
   async getWaitingQueueByProfessional(
     professionalId: number,
     date?: Date,
   ): Promise<Appointment[]> {
-    const appointments = await this.getAppointmentsByProfessional(
+    return this.getAppointments({
       professionalId,
-      date,
-    );
-    return appointments.filter((appointment) =>
-      ["scheduled", "waiting", "in_progress"].includes(appointment.status),
-    );
+      status: ["scheduled", "waiting", "in_progress"],
+      ...dayRange(date),
+    });
   }
 
   async createAppointment(
     insertAppointment: InsertAppointment,
   ): Promise<Appointment> {
     const id = this.currentId.appointments++;
-    const appointment: Appointment = { ...insertAppointment, id };
+    const appointment: Appointment = {
+      ...insertAppointment,
+      id,
+      durationMinutes: insertAppointment.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES,
+      overlapOverriddenBy: insertAppointment.overlapOverriddenBy ?? null,
+      seriesId: insertAppointment.seriesId ?? null,
+      checkedInAt: null,
+      startedAt: null,
+      completedAt: null,
+      cancelledAt: null,
+      cancellationReason: null,
+      cancelledBy: null,
+      priorityFlags: insertAppointment.priorityFlags ?? [],
+      queueRank: null,
+      healthPlanId: insertAppointment.healthPlanId ?? null,
+      healthPlanCardId: insertAppointment.healthPlanCardId ?? null,
+    };
     this.appointments.set(id, appointment);
     return appointment;
   }
 
+  async updateAppointment(
+    id: number,
+    appointmentData: Partial<InsertAppointment>,
+  ): Promise<Appointment | undefined> {
+    const existingAppointment = await this.getAppointment(id);
+    if (!existingAppointment) return undefined;
+
+    const updatedAppointment = { ...existingAppointment, ...appointmentData };
+    this.appointments.set(id, updatedAppointment);
+    return updatedAppointment;
+  }
+
   async updateAppointmentStatus(
     id: number,
-    status: string,
-    newDate?: Date,
+    status: Appointment["status"],
+    expectedStatus: Appointment["status"],
+    cancellation?: AppointmentCancellation,
+    at = new Date(),
+  ): Promise<Appointment | undefined> {
+    const appointment = await this.getAppointment(id);
+    if (!appointment || appointment.status !== expectedStatus) return undefined;
+
+    const updatedAppointment = {
+      ...appointment,
+      status,
+      ...statusTimestampUpdate(status, at),
+      ...cancellation,
+    };
+    this.appointments.set(id, updatedAppointment);
+    return updatedAppointment;
+  }
+
+  async updateAppointmentQueue(
+    id: number,
+    changes: AppointmentQueueUpdate,
   ): Promise<Appointment | undefined> {
     const appointment = await this.getAppointment(id);
     if (!appointment) return undefined;
 
-    // Se a nova data for fornecida, atualiza a data do agendamento
-    const updatedAppointment = newDate 
-      ? { ...appointment, status, date: newDate }
-      : { ...appointment, status };
-      
+    const updatedAppointment = { ...appointment, ...changes };
     this.appointments.set(id, updatedAppointment);
     return updatedAppointment;
   }
@@ -442,6 +1061,26 @@ export class MemStorage implements IStorage {
     return updatedAppointment;
   }
 
+  // Appointment Series methods
+  async getAppointmentSeries(
+    id: number,
+  ): Promise<AppointmentSeries | undefined> {
+    return this.appointmentSeries.get(id);
+  }
+
+  async createAppointmentSeries(
+    insertSeries: InsertAppointmentSeries,
+  ): Promise<AppointmentSeries> {
+    const id = this.currentId.appointmentSeries++;
+    const series: AppointmentSeries = {
+      ...insertSeries,
+      id,
+      createdAt: new Date(),
+    };
+    this.appointmentSeries.set(id, series);
+    return series;
+  }
+
   // Appointment Procedures methods
   async getAppointmentProcedures(
     appointmentId: number,
@@ -486,6 +1125,198 @@ export class MemStorage implements IStorage {
     return { appointment, procedures };
   }
 
+  async setAppointmentProcedures(
+    appointmentId: number,
+    procedureIds: number[],
+  ): Promise<void> {
+    for (const [id, ap] of Array.from(this.appointmentProcedures.entries())) {
+      if (ap.appointmentId === appointmentId) this.appointmentProcedures.delete(id);
+    }
+
+    for (const procedureId of Array.from(new Set(procedureIds))) {
+      const id = this.currentId.appointmentProcedures++;
+      this.appointmentProcedures.set(id, { id, appointmentId, procedureId });
+    }
+  }
+
+  // Appointment Resources methods
+  async getAppointmentResources(appointmentId: number): Promise<Resource[]> {
+    return Array.from(this.appointmentResources.values())
+      .filter((ar) => ar.appointmentId === appointmentId)
+      .map((ar) => this.resources.get(ar.resourceId))
+      .filter((resource): resource is Resource => resource !== undefined);
+  }
+
+  async addResourceToAppointment(
+    insertAppointmentResource: InsertAppointmentResource,
+  ): Promise<AppointmentResource> {
+    const id = this.currentId.appointmentResources++;
+    const appointmentResource: AppointmentResource = {
+      ...insertAppointmentResource,
+      id,
+    };
+    this.appointmentResources.set(id, appointmentResource);
+    return appointmentResource;
+  }
+
+  async setAppointmentResources(
+    appointmentId: number,
+    resourceIds: number[],
+  ): Promise<void> {
+    for (const [id, ar] of Array.from(this.appointmentResources.entries())) {
+      if (ar.appointmentId === appointmentId) this.appointmentResources.delete(id);
+    }
+
+    for (const resourceId of Array.from(new Set(resourceIds))) {
+      const id = this.currentId.appointmentResources++;
+      this.appointmentResources.set(id, { id, appointmentId, resourceId });
+    }
+  }
+
+  // Appointment Changes methods
+  async getAppointmentChanges(
+    appointmentId: number,
+  ): Promise<AppointmentChange[]> {
+    return Array.from(this.appointmentChanges.values())
+      .filter((change) => change.appointmentId === appointmentId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime() || a.id - b.id);
+  }
+
+  async createAppointmentChange(
+    insertChange: InsertAppointmentChange,
+  ): Promise<AppointmentChange> {
+    const id = this.currentId.appointmentChanges++;
+    const change: AppointmentChange = {
+      ...insertChange,
+      id,
+      changedAt: new Date(),
+      changedBy: insertChange.changedBy ?? null,
+      oldValue: insertChange.oldValue ?? null,
+      newValue: insertChange.newValue ?? null,
+    };
+    this.appointmentChanges.set(id, change);
+    return change;
+  }
+
+  // Waitlist methods
+  async getWaitlistEntries(filters: WaitlistFilters = {}): Promise<WaitlistEntry[]> {
+    const { status, professionalId } = filters;
+    return Array.from(this.waitlistEntries.values())
+      .filter(
+        (entry) =>
+          (!status || status.includes(entry.status)) &&
+          (!professionalId || entry.professionalId === professionalId),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    return this.waitlistEntries.get(id);
+  }
+
+  async createWaitlistEntry(
+    insertEntry: InsertWaitlistEntry,
+    procedureIds: number[],
+    windows: Omit<InsertWaitlistWindow, "entryId">[],
+  ): Promise<WaitlistEntry> {
+    const id = this.currentId.waitlistEntries++;
+    const entry: WaitlistEntry = {
+      ...insertEntry,
+      id,
+      patientId: insertEntry.patientId ?? null,
+      patientName: insertEntry.patientName ?? null,
+      patientPhone: insertEntry.patientPhone ?? null,
+      professionalId: insertEntry.professionalId ?? null,
+      specialty: insertEntry.specialty ?? null,
+      notes: insertEntry.notes ?? null,
+      status: insertEntry.status ?? "waiting",
+      appointmentId: insertEntry.appointmentId ?? null,
+      createdAt: new Date(),
+    };
+    this.waitlistEntries.set(id, entry);
+
+    for (const procedureId of Array.from(new Set(procedureIds))) {
+      const rowId = this.currentId.waitlistProcedures++;
+      this.waitlistProcedures.set(rowId, { id: rowId, entryId: id, procedureId });
+    }
+    for (const window of windows) {
+      const windowId = this.currentId.waitlistWindows++;
+      this.waitlistWindows.set(windowId, {
+        ...window,
+        id: windowId,
+        entryId: id,
+        weekday: window.weekday ?? null,
+      });
+    }
+    return entry;
+  }
+
+  async updateWaitlistEntry(
+    id: number,
+    entryData: Partial<InsertWaitlistEntry>,
+  ): Promise<WaitlistEntry | undefined> {
+    const entry = this.waitlistEntries.get(id);
+    if (!entry) return undefined;
+
+    const updatedEntry = { ...entry, ...entryData };
+    this.waitlistEntries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+
+  async getWaitlistProcedures(entryId: number): Promise<Procedure[]> {
+    return Array.from(this.waitlistProcedures.values())
+      .filter((row) => row.entryId === entryId)
+      .map((row) => this.procedures.get(row.procedureId))
+      .filter((procedure): procedure is Procedure => !!procedure);
+  }
+
+  async getWaitlistWindows(entryId: number): Promise<WaitlistWindow[]> {
+    return Array.from(this.waitlistWindows.values()).filter(
+      (window) => window.entryId === entryId,
+    );
+  }
+
+  // Waitlist Offers methods
+  async getWaitlistOffers(filters: WaitlistOfferFilters = {}): Promise<WaitlistOffer[]> {
+    const { status, entryId, sourceAppointmentId } = filters;
+    return Array.from(this.waitlistOffers.values())
+      .filter(
+        (offer) =>
+          (!status || status.includes(offer.status)) &&
+          (!entryId || offer.entryId === entryId) &&
+          (!sourceAppointmentId || offer.sourceAppointmentId === sourceAppointmentId),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async getWaitlistOffer(id: number): Promise<WaitlistOffer | undefined> {
+    return this.waitlistOffers.get(id);
+  }
+
+  async createWaitlistOffer(insertOffer: InsertWaitlistOffer): Promise<WaitlistOffer> {
+    const id = this.currentId.waitlistOffers++;
+    const offer: WaitlistOffer = {
+      ...insertOffer,
+      id,
+      status: insertOffer.status ?? "pending",
+      createdAt: new Date(),
+    };
+    this.waitlistOffers.set(id, offer);
+    return offer;
+  }
+
+  async updateWaitlistOfferStatus(
+    id: number,
+    status: WaitlistOffer["status"],
+  ): Promise<WaitlistOffer | undefined> {
+    const offer = this.waitlistOffers.get(id);
+    if (!offer) return undefined;
+
+    const updatedOffer = { ...offer, status };
+    this.waitlistOffers.set(id, updatedOffer);
+    return updatedOffer;
+  }
+
   // Evolution methods
   async getEvolution(id: number): Promise<Evolution | undefined> {
     return this.evolutions.get(id);
@@ -549,6 +1380,24 @@ export class MemStorage implements IStorage {
     return this.financialRecords.get(id);
   }
 
+  async getFinancialRecordByAppointment(appointmentId: number): Promise<FinancialRecord | undefined> {
+    return Array.from(this.financialRecords.values()).find(
+      (record) => record.appointmentId === appointmentId,
+    );
+  }
+
+  async getFinancialRecords(filters: FinancialRecordFilters = {}): Promise<FinancialRecord[]> {
+    const { professionalId, startDate, endDate } = filters;
+    return Array.from(this.financialRecords.values())
+      .filter(
+        (record) =>
+          (!professionalId || record.professionalId === professionalId) &&
+          (!startDate || record.createdAt >= startDate) &&
+          (!endDate || record.createdAt <= endDate),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
   async getFinancialRecordsByProfessional(
     professionalId: number,
     date?: Date,
@@ -574,7 +1423,11 @@ export class MemStorage implements IStorage {
 
   async createFinancialRecord(
     insertRecord: InsertFinancialRecord,
+    items: Omit<InsertFinancialRecordItem, "financialRecordId">[] = [],
   ): Promise<FinancialRecord> {
+    const existing = await this.getFinancialRecordByAppointment(insertRecord.appointmentId);
+    if (existing) return existing;
+
     const id = this.currentId.financialRecords++;
     const record: FinancialRecord = {
       ...insertRecord,
@@ -582,8 +1435,306 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
     };
     this.financialRecords.set(id, record);
+
+    for (const item of items) {
+      const itemId = this.currentId.financialRecordItems++;
+      this.financialRecordItems.set(itemId, {
+        ...item,
+        id: itemId,
+        financialRecordId: id,
+        commissionRuleId: item.commissionRuleId ?? null,
+      });
+    }
     return record;
   }
+
+  async getFinancialRecordItems(financialRecordId: number): Promise<FinancialRecordItem[]> {
+    return Array.from(this.financialRecordItems.values())
+      .filter((item) => item.financialRecordId === financialRecordId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Health plan methods
+  async getHealthPlan(id: number): Promise<HealthPlan | undefined> {
+    return this.healthPlans.get(id);
+  }
+
+  async getAllHealthPlans(): Promise<HealthPlan[]> {
+    return Array.from(this.healthPlans.values());
+  }
+
+  async createHealthPlan(insertHealthPlan: InsertHealthPlan): Promise<HealthPlan> {
+    const id = this.currentId.healthPlans++;
+    const healthPlan: HealthPlan = {
+      ...insertHealthPlan,
+      id,
+      operator: insertHealthPlan.operator ?? null,
+      ansRegistry: insertHealthPlan.ansRegistry ?? null,
+      isActive: insertHealthPlan.isActive ?? true,
+    };
+    this.healthPlans.set(id, healthPlan);
+    return healthPlan;
+  }
+
+  async updateHealthPlan(
+    id: number,
+    healthPlanData: Partial<InsertHealthPlan>,
+  ): Promise<HealthPlan | undefined> {
+    const existingHealthPlan = await this.getHealthPlan(id);
+    if (!existingHealthPlan) return undefined;
+
+    const updatedHealthPlan = { ...existingHealthPlan, ...healthPlanData };
+    this.healthPlans.set(id, updatedHealthPlan);
+    return updatedHealthPlan;
+  }
+
+  async getHealthPlanTiers(healthPlanId?: number): Promise<HealthPlanTier[]> {
+    return Array.from(this.healthPlanTiers.values())
+      .filter((tier) => healthPlanId === undefined || tier.healthPlanId === healthPlanId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getHealthPlanTier(id: number): Promise<HealthPlanTier | undefined> {
+    return this.healthPlanTiers.get(id);
+  }
+
+  async createHealthPlanTier(insertTier: InsertHealthPlanTier): Promise<HealthPlanTier> {
+    const id = this.currentId.healthPlanTiers++;
+    const tier: HealthPlanTier = {
+      ...insertTier,
+      id,
+      isActive: insertTier.isActive ?? true,
+    };
+    this.healthPlanTiers.set(id, tier);
+    return tier;
+  }
+
+  async updateHealthPlanTier(
+    id: number,
+    tierData: Partial<InsertHealthPlanTier>,
+  ): Promise<HealthPlanTier | undefined> {
+    const existingTier = await this.getHealthPlanTier(id);
+    if (!existingTier) return undefined;
+
+    const updatedTier = { ...existingTier, ...tierData };
+    this.healthPlanTiers.set(id, updatedTier);
+    return updatedTier;
+  }
+
+  async getHealthPlanPrices(healthPlanId: number): Promise<HealthPlanPrice[]> {
+    return Array.from(this.healthPlanPrices.values())
+      .filter((price) => price.healthPlanId === healthPlanId)
+      .sort((a, b) => a.procedureId - b.procedureId);
+  }
+
+  async setHealthPlanPrice(healthPlanId: number, procedureId: number, value: number): Promise<HealthPlanPrice> {
+    const existing = Array.from(this.healthPlanPrices.values()).find(
+      (price) => price.healthPlanId === healthPlanId && price.procedureId === procedureId,
+    );
+    const price: HealthPlanPrice = {
+      id: existing?.id ?? this.currentId.healthPlanPrices++,
+      healthPlanId,
+      procedureId,
+      value,
+    };
+    this.healthPlanPrices.set(price.id, price);
+    return price;
+  }
+
+  async deleteHealthPlanPrice(healthPlanId: number, procedureId: number): Promise<boolean> {
+    const existing = Array.from(this.healthPlanPrices.values()).find(
+      (price) => price.healthPlanId === healthPlanId && price.procedureId === procedureId,
+    );
+    return existing ? this.healthPlanPrices.delete(existing.id) : false;
+  }
+
+  // Patient health plan card methods
+  async getPatientHealthPlans(patientId: number): Promise<PatientHealthPlan[]> {
+    return Array.from(this.patientHealthPlans.values())
+      .filter((card) => card.patientId === patientId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getPatientHealthPlan(id: number): Promise<PatientHealthPlan | undefined> {
+    return this.patientHealthPlans.get(id);
+  }
+
+  async createPatientHealthPlan(insertCard: InsertPatientHealthPlan): Promise<PatientHealthPlan> {
+    const id = this.currentId.patientHealthPlans++;
+    const card: PatientHealthPlan = {
+      ...insertCard,
+      id,
+      tierId: insertCard.tierId ?? null,
+      validUntil: insertCard.validUntil ?? null,
+      createdAt: new Date(),
+    };
+    this.patientHealthPlans.set(id, card);
+    return card;
+  }
+
+  async updatePatientHealthPlan(
+    id: number,
+    cardData: Partial<InsertPatientHealthPlan>,
+  ): Promise<PatientHealthPlan | undefined> {
+    const existingCard = await this.getPatientHealthPlan(id);
+    if (!existingCard) return undefined;
+
+    const updatedCard = { ...existingCard, ...cardData };
+    this.patientHealthPlans.set(id, updatedCard);
+    return updatedCard;
+  }
+
+  // Commission rule methods
+  async getCommissionRule(id: number): Promise<CommissionRule | undefined> {
+    return this.commissionRules.get(id);
+  }
+
+  async getAllCommissionRules(): Promise<CommissionRule[]> {
+    return Array.from(this.commissionRules.values());
+  }
+
+  async createCommissionRule(insertRule: InsertCommissionRule): Promise<CommissionRule> {
+    const id = this.currentId.commissionRules++;
+    const rule: CommissionRule = {
+      ...insertRule,
+      id,
+      professionalId: insertRule.professionalId ?? null,
+      procedureId: insertRule.procedureId ?? null,
+      healthPlanId: insertRule.healthPlanId ?? null,
+      effectiveUntil: insertRule.effectiveUntil ?? null,
+      createdAt: new Date(),
+    };
+    this.commissionRules.set(id, rule);
+    return rule;
+  }
+
+  async updateCommissionRule(
+    id: number,
+    ruleData: Partial<InsertCommissionRule>,
+  ): Promise<CommissionRule | undefined> {
+    const existingRule = await this.getCommissionRule(id);
+    if (!existingRule) return undefined;
+
+    const updatedRule = { ...existingRule, ...ruleData };
+    this.commissionRules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  // Payment methods
+  async getPayments(filters: PaymentFilters = {}): Promise<Payment[]> {
+    const { appointmentIds, receivedBy, startDate, endDate } = filters;
+    return Array.from(this.payments.values())
+      .filter(
+        (payment) =>
+          (!appointmentIds || appointmentIds.includes(payment.appointmentId)) &&
+          (!receivedBy || payment.receivedBy === receivedBy) &&
+          (!startDate || payment.receivedAt >= startDate) &&
+          (!endDate || payment.receivedAt <= endDate),
+      )
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime() || a.id - b.id);
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const id = this.currentId.payments++;
+    const payment: Payment = {
+      ...insertPayment,
+      id,
+      installments: insertPayment.installments ?? 1,
+      notes: insertPayment.notes ?? null,
+      receivedAt: new Date(),
+      cancelledAt: null,
+      cancelledBy: null,
+      cancellationNotes: null,
+    };
+    this.payments.set(id, payment);
+    return payment;
+  }
+
+  async cancelPayment(
+    id: number,
+    cancellation: PaymentCancellation,
+  ): Promise<Payment | undefined> {
+    const payment = this.payments.get(id);
+    if (!payment) return undefined;
+
+    const updatedPayment = { ...payment, ...cancellation, cancelledAt: new Date() };
+    this.payments.set(id, updatedPayment);
+    return updatedPayment;
+  }
+
+  // Payout methods
+  async getPayouts(filters: PayoutFilters = {}): Promise<Payout[]> {
+    const { professionalId, startDate, endDate } = filters;
+    return Array.from(this.payouts.values())
+      .filter(
+        (payout) =>
+          (!professionalId || payout.professionalId === professionalId) &&
+          (!startDate || payout.endDate >= startDate) &&
+          (!endDate || payout.startDate <= endDate),
+      )
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime() || a.id - b.id);
+  }
+
+  async createPayout(insertPayout: InsertPayout): Promise<Payout> {
+    const id = this.currentId.payouts++;
+    const payout: Payout = { ...insertPayout, id, closedAt: new Date() };
+    this.payouts.set(id, payout);
+    return payout;
+  }
+
+  async getPayoutAdjustments(filters: PayoutFilters = {}): Promise<PayoutAdjustment[]> {
+    const { professionalId, startDate, endDate } = filters;
+    return Array.from(this.payoutAdjustments.values())
+      .filter(
+        (adjustment) =>
+          (!professionalId || adjustment.professionalId === professionalId) &&
+          (!startDate || adjustment.date >= startDate) &&
+          (!endDate || adjustment.date <= endDate),
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id);
+  }
+
+  async getPayoutAdjustment(id: number): Promise<PayoutAdjustment | undefined> {
+    return this.payoutAdjustments.get(id);
+  }
+
+  async createPayoutAdjustment(insertAdjustment: InsertPayoutAdjustment): Promise<PayoutAdjustment> {
+    const id = this.currentId.payoutAdjustments++;
+    const adjustment: PayoutAdjustment = { ...insertAdjustment, id, createdAt: new Date() };
+    this.payoutAdjustments.set(id, adjustment);
+    return adjustment;
+  }
+
+  async deletePayoutAdjustment(id: number): Promise<boolean> {
+    return this.payoutAdjustments.delete(id);
+  }
+}
+
+// Seleciona o armazenamento pela configuração: STORAGE_DRIVER=database|memory.
+// Sem STORAGE_DRIVER, usa o banco quando DATABASE_URL estiver definida; o cliente do
+// banco é escolhido por DATABASE_DRIVER (ver createDatabase).
+function createStorage(): IStorage {
+  const driver =
+    process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "database" : "memory");
+
+  if (driver === "database") {
+    const { db } = createDatabase();
+    const databaseStorage = new DatabaseStorage(db);
+    databaseStorage.initializeDefaultData().catch((error) => {
+      console.error("Erro ao inicializar dados padrão no banco:", error);
+    });
+    return databaseStorage;
+  }
+
+  if (driver !== "memory") {
+    throw new Error(`STORAGE_DRIVER inválido: ${driver}. Use "database" ou "memory".`);
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,135 @@
+import { Appointment } from "@shared/schema";
+import type { WaitTimeReport, WaitTimeSummary } from "@shared/wait-metrics";
+import { storage } from "./storage";
+import { dayRange } from "./date-range";
+import { orderQueue } from "./queue-priority";
+
+// Janela de atendimentos concluídos usada na duração média de consulta
+export const CONSULTATION_HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const minutesBetween = (start: Date, end: Date) => (end.getTime() - start.getTime()) / 60000;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const roundMinutes = (value: number | null) => (value === null ? null : Math.round(value));
+
+// Duração média (min) dos atendimentos concluídos do profissional nos últimos 30 dias;
+// null sem histórico, caso em que vale a duração reservada na agenda
+export async function averageConsultationMinutes(professionalId: number, now = new Date()): Promise<number | null> {
+  const completed = await storage.getAppointments({
+    professionalId,
+    status: ["completed"],
+    startDate: new Date(now.getTime() - CONSULTATION_HISTORY_DAYS * DAY_MS),
+    endDate: now,
+  });
+  return average(
+    completed
+      .filter((appointment) => appointment.startedAt && appointment.completedAt)
+      .map((appointment) => minutesBetween(appointment.startedAt!, appointment.completedAt!)),
+  );
+}
+
+export interface QueueWaitEstimates {
+  averageConsultationMinutes: Map<number, number | null>;
+  // Por agendamento aguardando hoje; quem ainda não chegou ou está em atendimento fica de fora
+  estimatedWaitMinutes: Map<number, number>;
+}
+
+// Espera prevista de cada paciente na fila de hoje dos profissionais: o que falta do
+// atendimento em curso mais a duração prevista de cada um que está à frente
+export async function estimateQueueWaits(professionalIds: number[], now = new Date()): Promise<QueueWaitEstimates> {
+  const estimates: QueueWaitEstimates = {
+    averageConsultationMinutes: new Map(),
+    estimatedWaitMinutes: new Map(),
+  };
+
+  for (const professionalId of Array.from(new Set(professionalIds))) {
+    const averageMinutes = await averageConsultationMinutes(professionalId, now);
+    estimates.averageConsultationMinutes.set(professionalId, roundMinutes(averageMinutes));
+    const expectedMinutes = (appointment: Appointment) => averageMinutes ?? appointment.durationMinutes;
+
+    const queue = await orderQueue(await storage.getAppointments({
+      professionalId,
+      status: ["waiting", "in_progress"],
+      ...dayRange(now),
+    }), undefined, now);
+
+    let ahead = 0;
+    for (const appointment of queue) {
+      if (appointment.status === "in_progress") {
+        const elapsed = appointment.startedAt ? minutesBetween(appointment.startedAt, now) : 0;
+        ahead += Math.max(0, expectedMinutes(appointment) - elapsed);
+      } else {
+        estimates.estimatedWaitMinutes.set(appointment.id, Math.round(ahead));
+        ahead += expectedMinutes(appointment);
+      }
+    }
+  }
+  return estimates;
+}
+
+function summarize(appointments: Appointment[]): WaitTimeSummary {
+  const waits = appointments.map((appointment) => minutesBetween(appointment.checkedInAt!, appointment.startedAt!));
+  const consultations = appointments
+    .filter((appointment) => appointment.completedAt)
+    .map((appointment) => minutesBetween(appointment.startedAt!, appointment.completedAt!));
+  return {
+    attended: appointments.length,
+    averageWaitMinutes: roundMinutes(average(waits)),
+    maxWaitMinutes: waits.length > 0 ? Math.round(Math.max(...waits)) : null,
+    averageConsultationMinutes: roundMinutes(average(consultations)),
+  };
+}
+
+function groupBy<K>(appointments: Appointment[], key: (appointment: Appointment) => K): Map<K, Appointment[]> {
+  const groups = new Map<K, Appointment[]>();
+  for (const appointment of appointments) {
+    const list = groups.get(key(appointment)) ?? [];
+    list.push(appointment);
+    groups.set(key(appointment), list);
+  }
+  return groups;
+}
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// Tempos de espera e de atendimento no período, no total, por profissional e por dia.
+// Considera os atendimentos com chegada e início registrados
+export async function waitTimeReport(filters: {
+  startDate: Date;
+  endDate: Date;
+  professionalId?: number;
+}): Promise<WaitTimeReport> {
+  const appointments = (await storage.getAppointments({
+    professionalId: filters.professionalId,
+    status: ["in_progress", "completed"],
+    startDate: filters.startDate,
+    endDate: filters.endDate,
+  })).filter((appointment) => appointment.checkedInAt && appointment.startedAt);
+
+  const professionals: WaitTimeReport["professionals"] = [];
+  for (const [professionalId, list] of Array.from(groupBy(appointments, (a) => a.professionalId).entries())) {
+    const professional = await storage.getProfessional(professionalId);
+    const user = professional ? await storage.getUser(professional.userId) : undefined;
+    professionals.push({
+      professionalId,
+      professionalName: user?.name ?? `Profissional #${professionalId}`,
+      ...summarize(list),
+    });
+  }
+
+  const daily = Array.from(groupBy(appointments, (a) => localDate(a.date)).entries())
+    .map(([date, list]) => ({ date, ...summarize(list) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    startDate: filters.startDate.toISOString(),
+    endDate: filters.endDate.toISOString(),
+    overall: summarize(appointments),
+    professionals: professionals.sort((a, b) => a.professionalName.localeCompare(b.professionalName)),
+    daily,
+  };
+}
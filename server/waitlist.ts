@@ -0,0 +1,119 @@
+import {
+  Appointment,
+  Procedure,
+  Resource,
+  WaitlistEntry,
+  WaitlistOffer,
+  WaitlistWindow,
+  timeToMinutes,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { appointmentEnd, proceduresDuration } from "./availability";
+
+// O horário [start, end) cabe em alguma janela preferida? Sem janelas, qualquer horário serve
+export function fitsWaitlistWindows(windows: WaitlistWindow[], start: Date, end: Date): boolean {
+  if (windows.length === 0) return true;
+
+  const startMinutes = start.getHours() * 60 + start.getMinutes();
+  const endMinutes = startMinutes + (end.getTime() - start.getTime()) / 60000;
+  return windows.some(
+    (window) =>
+      (window.weekday === null || window.weekday === start.getDay()) &&
+      timeToMinutes(window.startTime) <= startMinutes &&
+      endMinutes <= timeToMinutes(window.endTime),
+  );
+}
+
+const sameSpecialty = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Ao cancelar um agendamento futuro, oferece o horário liberado a quem está na lista de espera:
+// mesmo profissional (ou a especialidade dele), janela preferida e duração dos procedimentos
+export async function offerFreedSlot(cancelled: Appointment, now = new Date()): Promise<WaitlistOffer[]> {
+  if (cancelled.date <= now) return [];
+
+  const professional = await storage.getProfessional(cancelled.professionalId);
+  if (!professional) return [];
+
+  const entries = await storage.getWaitlistEntries({ status: ["waiting"] });
+  const offers: WaitlistOffer[] = [];
+  for (const entry of entries) {
+    const wantsProfessional = entry.professionalId
+      ? entry.professionalId === professional.id
+      : !!entry.specialty && sameSpecialty(entry.specialty, professional.specialty);
+    if (!wantsProfessional) continue;
+
+    const procedures = await storage.getWaitlistProcedures(entry.id);
+    const durationMinutes = proceduresDuration(procedures) ?? cancelled.durationMinutes;
+    if (durationMinutes > cancelled.durationMinutes) continue;
+
+    const windows = await storage.getWaitlistWindows(entry.id);
+    const end = appointmentEnd({ date: cancelled.date, durationMinutes });
+    if (!fitsWaitlistWindows(windows, cancelled.date, end)) continue;
+
+    // O mesmo horário pode ser liberado mais de uma vez; não repete a oferta pendente
+    const pending = await storage.getWaitlistOffers({ entryId: entry.id, status: ["pending"] });
+    const alreadyOffered = pending.some(
+      (offer) => offer.professionalId === professional.id && offer.date.getTime() === cancelled.date.getTime(),
+    );
+    if (alreadyOffered) continue;
+
+    offers.push(await storage.createWaitlistOffer({
+      entryId: entry.id,
+      sourceAppointmentId: cancelled.id,
+      professionalId: professional.id,
+      date: cancelled.date,
+      durationMinutes,
+    }));
+  }
+  return offers;
+}
+
+// Expira as ofertas pendentes da entrada e as do mesmo horário liberado, exceto a informada
+export async function expireRelatedOffers(
+  filters: { entryId?: number; sourceAppointmentId?: number },
+  keepOfferId?: number,
+): Promise<void> {
+  const pending = await storage.getWaitlistOffers({ ...filters, status: ["pending"] });
+  for (const offer of pending) {
+    if (offer.id !== keepOfferId) {
+      await storage.updateWaitlistOfferStatus(offer.id, "expired");
+    }
+  }
+}
+
+// Converte a oferta em agendamento (a checagem de conflito fica com quem chama)
+// e tira a entrada da lista de espera
+export async function bookWaitlistOffer(
+  offer: WaitlistOffer,
+  entry: WaitlistEntry,
+  procedures: Procedure[],
+  resources: Resource[],
+  overlapOverriddenBy: number | null,
+): Promise<Appointment> {
+  const appointment = await storage.createAppointment({
+    patientId: entry.patientId,
+    patientName: entry.patientName,
+    patientPhone: entry.patientPhone,
+    professionalId: offer.professionalId,
+    date: offer.date,
+    durationMinutes: offer.durationMinutes,
+    status: "scheduled",
+    notes: entry.notes,
+    isPending: !entry.patientId,
+    overlapOverriddenBy,
+    seriesId: null,
+  });
+
+  for (const resource of resources) {
+    await storage.addResourceToAppointment({ appointmentId: appointment.id, resourceId: resource.id });
+  }
+  for (const procedure of procedures) {
+    await storage.addProcedureToAppointment({ appointmentId: appointment.id, procedureId: procedure.id });
+  }
+
+  await storage.updateWaitlistEntry(entry.id, { status: "scheduled", appointmentId: appointment.id });
+  await storage.updateWaitlistOfferStatus(offer.id, "accepted");
+  await expireRelatedOffers({ entryId: entry.id }, offer.id);
+  await expireRelatedOffers({ sourceAppointmentId: offer.sourceAppointmentId }, offer.id);
+  return appointment;
+}
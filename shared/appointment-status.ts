@@ -0,0 +1,64 @@
+import type { Appointment, CancellationReason } from "./schema";
+
+export type AppointmentStatus = Appointment["status"];
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: "Agendado",
+  waiting: "Aguardando",
+  in_progress: "Em Atendimento",
+  completed: "Concluído",
+  cancelled: "Cancelado",
+  no_show: "Não compareceu",
+};
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  patient_request: "A pedido do paciente",
+  professional_absence: "Ausência do profissional",
+  no_show: "Paciente não compareceu",
+  clinic_error: "Erro da clínica",
+};
+
+// Transições permitidas a partir de cada status; concluído, cancelado e falta são finais.
+// Voltar de "waiting" para "scheduled" desfaz um check-in feito por engano
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, readonly AppointmentStatus[]> = {
+  scheduled: ["waiting", "cancelled", "no_show"],
+  waiting: ["in_progress", "scheduled", "cancelled"],
+  in_progress: ["completed"],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+// Status que liberam o horário: não ocupam a agenda do profissional nem as salas/equipamentos
+export const NON_BLOCKING_STATUSES: readonly AppointmentStatus[] = ["cancelled", "no_show"];
+
+export function canTransitionStatus(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return APPOINTMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Mensagem para uma transição não permitida; null quando é permitida
+export function statusTransitionError(from: AppointmentStatus, to: AppointmentStatus): string | null {
+  if (canTransitionStatus(from, to)) return null;
+  return `Não é possível alterar o status de "${APPOINTMENT_STATUS_LABELS[from]}" para "${APPOINTMENT_STATUS_LABELS[to]}"`;
+}
+
+type StatusTimestampField = "checkedInAt" | "startedAt" | "completedAt" | "cancelledAt";
+
+// Coluna que guarda o momento em que o agendamento entrou em cada status
+export const STATUS_TIMESTAMP_FIELDS: Partial<Record<AppointmentStatus, StatusTimestampField>> = {
+  waiting: "checkedInAt",
+  in_progress: "startedAt",
+  completed: "completedAt",
+  cancelled: "cancelledAt",
+  no_show: "cancelledAt",
+};
+
+// Horários a gravar ao entrar no status; desfazer o check-in apaga a chegada
+export function statusTimestampUpdate(
+  status: AppointmentStatus,
+  at: Date,
+): Partial<Record<StatusTimestampField, Date | null>> {
+  if (status === "scheduled") return { checkedInAt: null };
+  const field = STATUS_TIMESTAMP_FIELDS[status];
+  return field ? { [field]: at } : {};
+}
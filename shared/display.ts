@@ -0,0 +1,23 @@
+// Painel da sala de espera (TV): só nomes abreviados, nunca dados do paciente
+
+export interface DisplayCall {
+  appointmentId: number;
+  patientName: string;
+  room: string | null;
+  startedAt: string | null;
+}
+
+export interface DisplayWaiting {
+  patientName: string;
+  estimatedWaitMinutes: number | null;
+}
+
+export interface DisplayQueue {
+  professionalId: number;
+  professionalName: string;
+  room: string | null;
+  // Paciente em atendimento (o último chamado)
+  current: DisplayCall | null;
+  // Pacientes que já fizeram check-in, na ordem da fila (prioridades primeiro)
+  waiting: DisplayWaiting[];
+}
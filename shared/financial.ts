@@ -0,0 +1,68 @@
+import type { Procedure } from "./schema";
+
+// Relatórios financeiros: agregados dos registros de atendimentos concluídos no período.
+// Valores em centavos (ver shared/money.ts)
+
+export interface FinancialTotals {
+  totalValue: number;
+  clinicValue: number;
+  professionalValue: number;
+  appointmentsCount: number;
+}
+
+export interface FinancialSummary extends FinancialTotals {
+  startDate: string;
+  endDate: string;
+  // Período imediatamente anterior, com a mesma duração
+  previous: FinancialTotals & { startDate: string; endDate: string };
+  // Variação percentual em relação ao período anterior; null quando o anterior é zero
+  change: {
+    totalValue: number | null;
+    appointmentsCount: number | null;
+  };
+}
+
+export interface ProfessionalRevenue extends FinancialTotals {
+  professional: { id: number; name: string; specialty: string };
+  // % que fica com a clínica
+  commission: number;
+}
+
+export interface RevenueByTypeEntry {
+  count: number;
+  value: number;
+  percentage: number;
+}
+
+export interface RevenueByType {
+  totalValue: number;
+  byType: Record<Procedure["type"], RevenueByTypeEntry>;
+}
+
+// Registro financeiro com os nomes exibidos na lista de transações
+export interface FinancialTransaction {
+  id: number;
+  appointmentId: number;
+  professionalId: number;
+  professionalName: string;
+  patientName: string | null;
+  procedures: string[];
+  totalValue: number;
+  clinicCommission: number;
+  professionalValue: number;
+  createdAt: string;
+}
+
+// Prévia dos valores de um atendimento antes da conclusão, por procedimento
+export interface FinancialQuote {
+  totalValue: number;
+  clinicCommission: number;
+  professionalValue: number;
+  items: {
+    procedureId: number;
+    name: string;
+    value: number;
+    clinicCommission: number;
+    professionalValue: number;
+  }[];
+}
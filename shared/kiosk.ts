@@ -0,0 +1,25 @@
+// Respostas do totem de check-in; sem dados do paciente além do primeiro nome e contatos mascarados
+
+export interface KioskAppointment {
+  id: number;
+  date: string;
+  professionalName: string;
+  room: string | null;
+  status: "scheduled" | "waiting";
+}
+
+export type KioskLookupResult =
+  | {
+      status: "found";
+      patientName: string;
+      maskedPhone: string | null;
+      maskedEmail: string | null;
+      appointments: KioskAppointment[];
+    }
+  // Cadastro incompleto ou sem agendamento hoje: o paciente é encaminhado à recepção
+  | { status: "front_desk"; message: string };
+
+export interface KioskCheckInResult {
+  patientName: string;
+  appointment: KioskAppointment;
+}
@@ -0,0 +1,62 @@
+// Valores monetários circulam como inteiros em centavos (banco, API e telas). Reais só
+// aparecem na digitação (parseMoney) e na exibição (formatMoney), o que evita as
+// diferenças de centavos da aritmética em ponto flutuante
+
+// Arredonda para o centavo mais próximo; meio centavo arredonda para longe de zero.
+// A tolerância absorve o erro de representação de porcentagens como 33,3
+export function roundCents(value: number): number {
+  const rounded = Math.round(Math.abs(value) + 1e-6);
+  return value < 0 ? -rounded : rounded;
+}
+
+export const sumCents = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+// Parte de um valor dada pela porcentagem (0-100), arredondada ao centavo
+export const percentOf = (cents: number, percentage: number) => roundCents((cents * percentage) / 100);
+
+// Divide o total na proporção dos pesos sem perder centavos: cada parte é arredondada para
+// baixo e os centavos que sobram vão para as maiores frações
+export function allocateCents(total: number, weights: number[]): number[] {
+  const weightSum = sumCents(weights);
+  if (weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((weight) => (total * weight) / weightSum);
+  const parts = exact.map(Math.floor);
+  let remainder = total - sumCents(parts);
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - parts[index] }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    parts[index]++;
+    remainder--;
+  }
+  return parts;
+}
+
+// Converte o texto digitado ("1.234,56", "1234.56", "R$ 50") em centavos; null se inválido
+export function parseMoney(text: string): number | null {
+  let normalized = text.replace(/R\$|\s/g, "");
+  if (normalized.includes(",")) {
+    normalized = normalized.replace(/\./g, "").replace(",", ".");
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, "");
+  }
+
+  const match = /^(-?)(\d+)(?:\.(\d{1,2}))?$/.exec(normalized);
+  if (!match) return null;
+  const cents = parseInt(match[2]) * 100 + parseInt((match[3] ?? "").padEnd(2, "0"));
+  return match[1] ? -cents : cents;
+}
+
+const numberFormat = new Intl.NumberFormat("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const currencyFormat = new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" });
+
+// "R$ 1.234,56"
+export const formatMoney = (cents: number) => currencyFormat.format(cents / 100);
+
+// "1.234,56", para colunas de valores em relatórios e planilhas
+export const formatMoneyNumber = (cents: number) => numberFormat.format(cents / 100);
+
+// "1234,56", para preencher campos de valor
+export const formatMoneyInput = (cents: number) => (cents / 100).toFixed(2).replace(".", ",");
@@ -0,0 +1,62 @@
+import type { Appointment, Payment, PaymentMethod } from "./schema";
+
+// Caixa e contas a receber: valor devido por atendimento, pagamentos e fechamento diário. Valores em centavos
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Dinheiro",
+  pix: "PIX",
+  debit: "Cartão de débito",
+  credit: "Cartão de crédito",
+  health_plan: "Convênio",
+};
+
+export interface AppointmentBalance {
+  appointmentId: number;
+  // Valor do atendimento: o registro financeiro, se já concluído, ou a soma dos procedimentos
+  charge: number;
+  paid: number;
+  balance: number;
+}
+
+export interface PaymentDetails extends Payment {
+  receivedByName: string;
+}
+
+export interface AppointmentPayments {
+  balance: AppointmentBalance;
+  payments: PaymentDetails[];
+}
+
+// Atendimentos concluídos com saldo a pagar
+export interface PatientBalance {
+  patientId: number;
+  outstanding: number;
+  appointments: (AppointmentBalance & { date: string; professionalName: string })[];
+}
+
+// Linha do caixa: atendimento do dia com o saldo dele e o saldo em aberto de outros dias
+export interface CashierEntry extends AppointmentBalance {
+  date: string;
+  status: Appointment["status"];
+  patientId: number | null;
+  patientName: string;
+  professionalName: string;
+  // Convênio do atendimento; null = particular
+  healthPlanName: string | null;
+  previousOutstanding: number;
+}
+
+export interface CashClosingPayment extends PaymentDetails {
+  patientName: string;
+  professionalName: string;
+}
+
+export interface CashClosingReport {
+  date: string;
+  // Recebido no dia, sem os estornados
+  total: number;
+  byMethod: Record<PaymentMethod, { count: number; amount: number }>;
+  byReceiver: { userId: number; name: string; count: number; amount: number }[];
+  cancelled: { count: number; amount: number };
+  payments: CashClosingPayment[];
+}
@@ -0,0 +1,40 @@
+import type { Payout, PayoutAdjustment } from "./schema";
+
+// Repasse médico: valor devido ao profissional no período (parte dele nos atendimentos
+// concluídos, mais créditos e menos descontos lançados como ajustes). Valores em centavos
+
+export interface PayoutStatementItem {
+  appointmentId: number;
+  date: string; // Conclusão do atendimento (data do registro financeiro)
+  patientName: string | null;
+  procedures: string[];
+  totalValue: number;
+  clinicCommission: number;
+  professionalValue: number;
+}
+
+export interface PayoutTotals {
+  appointmentsCount: number;
+  grossValue: number;
+  adjustmentsValue: number;
+  netValue: number;
+}
+
+export interface PayoutStatement extends PayoutTotals {
+  professional: { id: number; name: string; specialty: string };
+  startDate: string;
+  endDate: string;
+  items: PayoutStatementItem[];
+  adjustments: PayoutAdjustment[];
+  // Fechamento exato deste período; os totais passam a ser os congelados no fechamento
+  payout: Payout | null;
+  // Período coberto, total ou parcialmente, por um repasse já fechado
+  locked: boolean;
+}
+
+// Linha da visão geral dos repasses do período (administração)
+export interface PayoutOverviewRow extends PayoutTotals {
+  professional: { id: number; name: string; specialty: string };
+  payout: Payout | null;
+  locked: boolean;
+}
@@ -0,0 +1,30 @@
+import type { QueuePriority } from "./schema";
+
+export const QUEUE_PRIORITY_LABELS: Record<QueuePriority, string> = {
+  elderly: "Idoso",
+  pregnant: "Gestante",
+  disabled: "PcD",
+  urgent: "Urgência",
+};
+
+// Idade a partir da qual o atendimento prioritário é garantido (Estatuto da Pessoa Idosa)
+export const ELDERLY_PRIORITY_AGE = 60;
+
+export function ageAt(birthDate: Date, at: Date): number {
+  const age = at.getFullYear() - birthDate.getFullYear();
+  const hadBirthday =
+    at.getMonth() > birthDate.getMonth() ||
+    (at.getMonth() === birthDate.getMonth() && at.getDate() >= birthDate.getDate());
+  return hadBirthday ? age : age - 1;
+}
+
+// Prioridades informadas mais a de idoso, deduzida da data de nascimento do paciente
+export function effectivePriorityFlags(
+  flags: readonly QueuePriority[],
+  birthDate: Date | null | undefined,
+  at: Date,
+): QueuePriority[] {
+  const effective = new Set(flags);
+  if (birthDate && ageAt(birthDate, at) >= ELDERLY_PRIORITY_AGE) effective.add("elderly");
+  return (Object.keys(QUEUE_PRIORITY_LABELS) as QueuePriority[]).filter((flag) => effective.has(flag));
+}
@@ -0,0 +1,40 @@
+import type { AppointmentStatus } from "./appointment-status";
+
+// Caminho do WebSocket de atualizações em tempo real, no mesmo servidor HTTP da API
+export const REALTIME_PATH = "/ws";
+
+// Enviado quando o status de um agendamento muda (check-in, início, conclusão, cancelamento, falta)
+export interface AppointmentStatusEvent {
+  type: "appointment.status";
+  appointmentId: number;
+  professionalId: number;
+  status: AppointmentStatus;
+  previousStatus: AppointmentStatus;
+}
+
+// Enviado quando a ordem da fila muda sem troca de status (prioridades, reordenação manual)
+export interface AppointmentQueueEvent {
+  type: "appointment.queue";
+  appointmentId: number;
+  professionalId: number;
+}
+
+// Enviado quando um agendamento é criado ou alterado sem troca de status
+// (remarcação, troca de profissional, procedimentos, salas/equipamentos)
+export interface AppointmentChangedEvent {
+  type: "appointment.changed";
+  appointmentId: number;
+  professionalId: number;
+  // Profissional de antes da troca, que também precisa tirar o agendamento da agenda
+  previousProfessionalId?: number;
+}
+
+// Enviado quando um pagamento é recebido ou estornado no caixa
+export interface PaymentEvent {
+  type: "payment.captured" | "payment.cancelled";
+  paymentId: number;
+  appointmentId: number;
+  professionalId: number;
+}
+
+export type RealtimeEvent = AppointmentStatusEvent | AppointmentQueueEvent | AppointmentChangedEvent | PaymentEvent;
@@ -0,0 +1,130 @@
+// Subconjunto do RRULE (RFC 5545) aceito nos agendamentos recorrentes:
+// FREQ=DAILY|WEEKLY, INTERVAL, BYDAY (apenas com WEEKLY) e COUNT ou UNTIL (yyyyMMdd).
+// Ex.: "FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10" = toda terça e quinta, 10 sessões.
+
+export const RECURRENCE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+// Limite de sessões geradas por série
+export const MAX_OCCURRENCES = 100;
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay?: number[]; // 0 = domingo ... 6 = sábado
+  count?: number;
+  until?: Date; // último dia (inclusive)
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} deve ser um número inteiro positivo`);
+  }
+  return parsed;
+}
+
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Trecho inválido na regra de recorrência: ${part}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+    throw new Error('FREQ deve ser DAILY ou WEEKLY');
+  }
+
+  const unsupported = Array.from(parts.keys()).filter(
+    (key) => !['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key),
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`Parâmetros de recorrência não suportados: ${unsupported.join(', ')}`);
+  }
+
+  const result: RecurrenceRule = {
+    freq,
+    interval: parts.has('INTERVAL') ? parsePositiveInt(parts.get('INTERVAL')!, 'INTERVAL') : 1,
+  };
+
+  const byDay = parts.get('BYDAY');
+  if (byDay !== undefined) {
+    if (freq !== 'WEEKLY') {
+      throw new Error('BYDAY só é aceito com FREQ=WEEKLY');
+    }
+    result.byDay = byDay.split(',').map((day) => {
+      const index = RECURRENCE_WEEKDAYS.indexOf(day as typeof RECURRENCE_WEEKDAYS[number]);
+      if (index === -1) throw new Error(`Dia da semana inválido: ${day}`);
+      return index;
+    });
+  }
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+  if ((count === undefined) === (until === undefined)) {
+    throw new Error('Informe o número de sessões (COUNT) ou a data final (UNTIL)');
+  }
+  if (count !== undefined) {
+    result.count = parsePositiveInt(count, 'COUNT');
+    if (result.count > MAX_OCCURRENCES) {
+      throw new Error(`A série pode ter no máximo ${MAX_OCCURRENCES} sessões`);
+    }
+  }
+  if (until !== undefined) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(until);
+    if (!match) throw new Error('UNTIL deve estar no formato yyyyMMdd');
+    result.until = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59, 59, 999);
+  }
+
+  return result;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => RECURRENCE_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const { until } = rule;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    parts.push(`UNTIL=${until.getFullYear()}${pad(until.getMonth() + 1)}${pad(until.getDate())}`);
+  }
+  return parts.join(';');
+}
+
+// Datas das sessões a partir da primeira, mantendo o horário dela (no fuso local)
+export function expandRecurrence(rule: RecurrenceRule, start: Date): Date[] {
+  const weekdays = rule.freq === 'WEEKLY'
+    ? Array.from(new Set(rule.byDay?.length ? rule.byDay : [start.getDay()])).sort((a, b) => a - b)
+    : [];
+  const dates: Date[] = [];
+
+  const atOffset = (days: number) => {
+    const date = new Date(start);
+    date.setDate(start.getDate() + days);
+    return date;
+  };
+
+  for (let period = 0; ; period++) {
+    const candidates = rule.freq === 'DAILY'
+      ? [atOffset(period * rule.interval)]
+      // Semanas começam no domingo; dias anteriores à primeira sessão são ignorados
+      : weekdays.map((weekday) => atOffset(period * rule.interval * 7 + weekday - start.getDay()));
+
+    for (const date of candidates) {
+      if (date < start) continue;
+      if (rule.until && date > rule.until) return dates;
+      // Só acontece com UNTIL: ainda há sessões além do limite
+      if (dates.length === MAX_OCCURRENCES) {
+        throw new Error(`A série pode ter no máximo ${MAX_OCCURRENCES} sessões`);
+      }
+      dates.push(date);
+      if (dates.length === rule.count) return dates;
+    }
+  }
+}
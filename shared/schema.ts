@@ -1,12 +1,24 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, pgEnum, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parseRecurrenceRule, expandRecurrence } from "./recurrence";
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['admin', 'medico', 'recepcionista']);
-export const appointmentStatusEnum = pgEnum('appointment_status', ['scheduled', 'waiting', 'in_progress', 'completed', 'cancelled']);
+export const appointmentStatusEnum = pgEnum('appointment_status', ['scheduled', 'waiting', 'in_progress', 'completed', 'cancelled', 'no_show']);
+export const cancellationReasonEnum = pgEnum('cancellation_reason', ['patient_request', 'professional_absence', 'no_show', 'clinic_error']);
+// Atendimento prioritário: idosos, gestantes e pessoas com deficiência (lei) e urgências clínicas
+export const queuePriorityEnum = pgEnum('queue_priority', ['elderly', 'pregnant', 'disabled', 'urgent']);
 export const appointmentTypeEnum = pgEnum('appointment_type', ['consultation', 'exam', 'procedure']);
 export const genderEnum = pgEnum('gender', ['male', 'female', 'other']);
+export const resourceTypeEnum = pgEnum('resource_type', ['room', 'equipment']);
+export const waitlistStatusEnum = pgEnum('waitlist_status', ['waiting', 'scheduled', 'removed']);
+export const waitlistOfferStatusEnum = pgEnum('waitlist_offer_status', ['pending', 'accepted', 'dismissed', 'expired']);
+// Formas de pagamento aceitas no caixa; "health_plan" = coberto pelo convênio
+export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'pix', 'debit', 'credit', 'health_plan']);
+// Regra de comissão: porcentagem do valor do procedimento ou valor fixo por procedimento
+export const commissionTypeEnum = pgEnum('commission_type', ['percentage', 'fixed']);
+export const appointmentChangeFieldEnum = pgEnum('appointment_change_field', ['date', 'professional', 'duration', 'procedures', 'resources', 'notes', 'status', 'priority', 'health_plan']);
 
 // Users table
 export const users = pgTable("users", {
@@ -24,7 +36,20 @@ export const professionals = pgTable("professionals", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   specialty: text("specialty").notNull(),
-  commission: doublePrecision("commission").notNull(), // percentage that goes to clinic
+  commission: doublePrecision("commission").notNull(), // percentage (0-100) that goes to clinic
+  room: text("room"), // Consultório/sala de atendimento anunciado no painel da sala de espera
+});
+
+// Horários de atendimento dos profissionais (um registro por dia da semana/turno)
+export const professionalSchedules = pgTable("professional_schedules", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").notNull().references(() => professionals.id),
+  weekday: integer("weekday").notNull(), // 0 = domingo ... 6 = sábado
+  startTime: text("start_time").notNull(), // HH:mm
+  endTime: text("end_time").notNull(), // HH:mm
+  slotMinutes: integer("slot_minutes").notNull().default(30), // duração de cada horário
+  breakStart: text("break_start"), // intervalo opcional (HH:mm)
+  breakEnd: text("break_end"),
 });
 
 // Patients table
@@ -50,7 +75,33 @@ export const procedures = pgTable("procedures", {
   name: text("name").notNull(),
   description: text("description"),
   type: appointmentTypeEnum("type").notNull(),
-  value: doublePrecision("value").notNull(), // price of the procedure
+  value: integer("value").notNull(), // Preço em centavos
+  durationMinutes: integer("duration_minutes"), // duração padrão; vazio = duração do horário da agenda
+  preparationInstructions: text("preparation_instructions"), // orientações de preparo ao paciente
+});
+
+// Salas e equipamentos reservados pelos agendamentos
+export const resources = pgTable("resources", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: resourceTypeEnum("type").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+});
+
+// Recursos exigidos por cada procedimento (ex.: endoscopia -> sala de endoscopia + videoendoscópio)
+export const procedureResources = pgTable("procedure_resources", {
+  id: serial("id").primaryKey(),
+  procedureId: integer("procedure_id").notNull().references(() => procedures.id),
+  resourceId: integer("resource_id").notNull().references(() => resources.id),
+});
+
+// Séries de agendamentos recorrentes (ex.: fisioterapia toda terça e quinta às 10:00)
+export const appointmentSeries = pgTable("appointment_series", {
+  id: serial("id").primaryKey(),
+  recurrenceRule: text("recurrence_rule").notNull(), // RRULE usada para gerar as sessões
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Appointments table
@@ -64,6 +115,20 @@ export const appointments = pgTable("appointments", {
   patientName: text("patient_name"), // Para pré-agendamentos
   patientPhone: text("patient_phone"), // Para pré-agendamentos
   isPending: boolean("is_pending").notNull().default(true), // Indica se o cadastro de paciente está completo
+  durationMinutes: integer("duration_minutes").notNull().default(30), // Tempo reservado na agenda
+  overlapOverriddenBy: integer("overlap_overridden_by").references(() => users.id), // Admin que autorizou encaixe sobre outro horário
+  seriesId: integer("series_id").references(() => appointmentSeries.id), // Sessão de uma série recorrente
+  // Momento de cada transição de status; "date" continua sendo o horário agendado
+  checkedInAt: timestamp("checked_in_at"), // Chegada do paciente (check-in)
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  cancelledAt: timestamp("cancelled_at"), // Cancelamento ou falta (no_show)
+  cancellationReason: cancellationReasonEnum("cancellation_reason"),
+  cancelledBy: integer("cancelled_by").references(() => users.id), // Nulo quando a falta foi marcada automaticamente
+  priorityFlags: queuePriorityEnum("priority_flags").array().notNull().default([]), // Prioridades informadas no agendamento/check-in
+  queueRank: doublePrecision("queue_rank"), // Posição na fila definida manualmente pela recepção; substitui a ordem calculada
+  healthPlanId: integer("health_plan_id").references(() => healthPlans.id), // Convênio do atendimento; vazio = particular
+  healthPlanCardId: integer("health_plan_card_id").references(() => patientHealthPlans.id), // Carteirinha usada no atendimento por convênio
 });
 
 // Tabela de relação entre agendamentos e procedimentos
@@ -73,6 +138,68 @@ export const appointmentProcedures = pgTable("appointment_procedures", {
   procedureId: integer("procedure_id").notNull().references(() => procedures.id),
 });
 
+// Recursos reservados por um agendamento, durante todo o período do agendamento
+export const appointmentResources = pgTable("appointment_resources", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id),
+  resourceId: integer("resource_id").notNull().references(() => resources.id),
+});
+
+// Histórico de alterações de agendamentos: um registro por campo alterado
+export const appointmentChanges = pgTable("appointment_changes", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id),
+  changedBy: integer("changed_by").references(() => users.id), // Nulo para alterações automáticas (ex.: falta)
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+  field: appointmentChangeFieldEnum("field").notNull(),
+  oldValue: text("old_value"), // Datas em ISO; profissional e procedimentos pelo nome; status pelo código
+  newValue: text("new_value"),
+});
+
+// Lista de espera para profissionais sem horário livre: paciente cadastrado ou pré-cadastro
+// (nome/telefone), para um profissional específico ou para qualquer um da especialidade
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").references(() => patients.id),
+  patientName: text("patient_name"),
+  patientPhone: text("patient_phone"),
+  professionalId: integer("professional_id").references(() => professionals.id),
+  specialty: text("specialty"),
+  notes: text("notes"),
+  status: waitlistStatusEnum("status").notNull().default('waiting'),
+  appointmentId: integer("appointment_id").references(() => appointments.id), // Agendamento gerado a partir da lista
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Procedimentos desejados por quem está na lista de espera
+export const waitlistProcedures = pgTable("waitlist_procedures", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => waitlistEntries.id),
+  procedureId: integer("procedure_id").notNull().references(() => procedures.id),
+});
+
+// Janelas de horário preferidas; sem janelas, qualquer horário serve
+export const waitlistWindows = pgTable("waitlist_windows", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => waitlistEntries.id),
+  weekday: integer("weekday"), // 0 = domingo ... 6 = sábado; nulo = qualquer dia
+  startTime: text("start_time").notNull(), // HH:mm
+  endTime: text("end_time").notNull(), // HH:mm
+});
+
+// Horário liberado por um cancelamento oferecido a quem está na lista de espera
+export const waitlistOffers = pgTable("waitlist_offers", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => waitlistEntries.id),
+  sourceAppointmentId: integer("source_appointment_id").notNull().references(() => appointments.id), // Agendamento cancelado
+  professionalId: integer("professional_id").notNull().references(() => professionals.id),
+  date: timestamp("date").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  status: waitlistOfferStatusEnum("status").notNull().default('pending'),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Patient evolutions/medical records
 export const evolutions = pgTable("evolutions", {
   id: serial("id").primaryKey(),
@@ -95,14 +222,125 @@ export const evolutions = pgTable("evolutions", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Convênios (planos de saúde) aceitos pela clínica
+export const healthPlans = pgTable("health_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  operator: text("operator"), // Razão social da operadora
+  ansRegistry: text("ans_registry").unique(), // Registro da operadora na ANS (6 dígitos)
+  isActive: boolean("is_active").notNull().default(true),
+});
+
+// Planos (categorias) de cada convênio, ex.: Enfermaria, Apartamento
+export const healthPlanTiers = pgTable("health_plan_tiers", {
+  id: serial("id").primaryKey(),
+  healthPlanId: integer("health_plan_id").notNull().references(() => healthPlans.id),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+});
+
+// Tabela de preços do convênio: valor de cada procedimento, em centavos. Procedimentos
+// fora da tabela são cobrados pelo preço particular
+export const healthPlanPrices = pgTable("health_plan_prices", {
+  id: serial("id").primaryKey(),
+  healthPlanId: integer("health_plan_id").notNull().references(() => healthPlans.id),
+  procedureId: integer("procedure_id").notNull().references(() => procedures.id),
+  value: integer("value").notNull(),
+}, (table) => [unique().on(table.healthPlanId, table.procedureId)]);
+
+// Carteirinhas de convênio dos pacientes
+export const patientHealthPlans = pgTable("patient_health_plans", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => patients.id),
+  healthPlanId: integer("health_plan_id").notNull().references(() => healthPlans.id),
+  tierId: integer("tier_id").references(() => healthPlanTiers.id),
+  cardNumber: text("card_number").notNull(),
+  validUntil: timestamp("valid_until"), // Vazio = sem data de validade
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Financial records
 export const financialRecords = pgTable("financial_records", {
+  id: serial("id").primaryKey(),
+  appointmentId: integer("appointment_id").notNull().unique().references(() => appointments.id), // um registro por atendimento
+  professionalId: integer("professional_id").notNull().references(() => professionals.id),
+  // Valores em centavos
+  totalValue: integer("total_value").notNull(),
+  clinicCommission: integer("clinic_commission").notNull(),
+  professionalValue: integer("professional_value").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Regras de comissão da clínica. Campos vazios valem para todos (profissionais, procedimentos
+// ou convênios). Vale a regra mais específica vigente na data do atendimento; sem regra,
+// a comissão padrão do profissional
+export const commissionRules = pgTable("commission_rules", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").references(() => professionals.id),
+  procedureId: integer("procedure_id").references(() => procedures.id),
+  healthPlanId: integer("health_plan_id").references(() => healthPlans.id),
+  type: commissionTypeEnum("type").notNull(),
+  value: doublePrecision("value").notNull(), // % da clínica (0-100) ou valor fixo da clínica por procedimento, em centavos
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveUntil: timestamp("effective_until"), // Vazio = sem data de término
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Composição do registro financeiro por procedimento, com a comissão aplicada. Tipo e valor
+// são copiados da regra para que o histórico não mude quando as regras mudarem
+export const financialRecordItems = pgTable("financial_record_items", {
+  id: serial("id").primaryKey(),
+  financialRecordId: integer("financial_record_id").notNull().references(() => financialRecords.id),
+  procedureId: integer("procedure_id").notNull().references(() => procedures.id),
+  value: integer("value").notNull(), // Valores em centavos, exceto commissionValue (como em commissionRules.value)
+  commissionRuleId: integer("commission_rule_id").references(() => commissionRules.id), // Vazio = comissão padrão do profissional
+  commissionType: commissionTypeEnum("commission_type").notNull(),
+  commissionValue: doublePrecision("commission_value").notNull(),
+  clinicCommission: integer("clinic_commission").notNull(),
+  professionalValue: integer("professional_value").notNull(),
+});
+
+// Pagamentos recebidos no caixa; um atendimento pode ser pago em várias partes.
+// Estornos não apagam o pagamento: ficam registrados com data, autor e motivo
+export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
   appointmentId: integer("appointment_id").notNull().references(() => appointments.id),
+  amount: integer("amount").notNull(), // Centavos
+  method: paymentMethodEnum("method").notNull(),
+  installments: integer("installments").notNull().default(1), // Parcelas no cartão de crédito
+  notes: text("notes"),
+  receivedBy: integer("received_by").notNull().references(() => users.id),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: integer("cancelled_by").references(() => users.id),
+  cancellationNotes: text("cancellation_notes"),
+});
+
+// Repasse ao profissional: fechamento do valor devido em um período. Os totais ficam
+// congelados e o período travado (sem novos ajustes nem outro fechamento sobreposto)
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
   professionalId: integer("professional_id").notNull().references(() => professionals.id),
-  totalValue: doublePrecision("total_value").notNull(),
-  clinicCommission: doublePrecision("clinic_commission").notNull(),
-  professionalValue: doublePrecision("professional_value").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  appointmentsCount: integer("appointments_count").notNull(),
+  // Valores em centavos; o bruto é a soma de professionalValue dos atendimentos
+  grossValue: integer("gross_value").notNull(),
+  adjustmentsValue: integer("adjustments_value").notNull(),
+  netValue: integer("net_value").notNull(),
+  closedBy: integer("closed_by").notNull().references(() => users.id),
+  closedAt: timestamp("closed_at").notNull().defaultNow(),
+});
+
+// Ajustes do repasse: créditos (valor positivo) e descontos (valor negativo) em uma data
+export const payoutAdjustments = pgTable("payout_adjustments", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").notNull().references(() => professionals.id),
+  date: timestamp("date").notNull(),
+  amount: integer("amount").notNull(), // Centavos
+  description: text("description").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -110,6 +348,46 @@ export const financialRecords = pgTable("financial_records", {
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 export const insertProfessionalSchema = createInsertSchema(professionals).omit({ id: true });
 
+export const insertProfessionalScheduleSchema = createInsertSchema(professionalSchedules).omit({ id: true });
+
+// Converte "HH:mm" em minutos desde a meia-noite
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Horário deve estar no formato HH:mm");
+
+// Esquema do formulário de horário de atendimento (o profissional vem da URL)
+export const professionalScheduleFormSchema = insertProfessionalScheduleSchema
+  .omit({ professionalId: true })
+  .extend({
+    weekday: z.coerce.number().int().min(0).max(6),
+    startTime: timeSchema,
+    endTime: timeSchema,
+    slotMinutes: z.coerce.number().int().min(5, "Duração mínima de 5 minutos").max(480),
+    breakStart: timeSchema.nullable().optional(),
+    breakEnd: timeSchema.nullable().optional(),
+  })
+  .refine((data) => timeToMinutes(data.startTime) < timeToMinutes(data.endTime), {
+    message: "O horário de início deve ser anterior ao de término",
+    path: ["endTime"],
+  })
+  .refine((data) => !data.breakStart === !data.breakEnd, {
+    message: "Informe o início e o fim do intervalo",
+    path: ["breakEnd"],
+  })
+  .refine((data) => !data.breakStart || !data.breakEnd || (
+    timeToMinutes(data.startTime) <= timeToMinutes(data.breakStart) &&
+    timeToMinutes(data.breakStart) < timeToMinutes(data.breakEnd) &&
+    timeToMinutes(data.breakEnd) <= timeToMinutes(data.endTime)
+  ), {
+    message: "O intervalo deve estar dentro do horário de atendimento",
+    path: ["breakStart"],
+  });
+
+export type ProfessionalScheduleFormData = z.infer<typeof professionalScheduleFormSchema>;
+
 export const insertPatientSchema = createInsertSchema(patients).omit({ id: true });
 
 // Extend the patient schema to handle date transformation
@@ -119,9 +397,109 @@ export const patientFormSchema = insertPatientSchema.extend({
     z.date()
   ),
 });
-export const insertProcedureSchema = createInsertSchema(procedures).omit({ id: true });
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({ id: true });
+export const insertProcedureSchema = createInsertSchema(procedures).omit({ id: true }).extend({
+  value: z.number().int("Informe o preço em centavos").min(0, "O preço não pode ser negativo"),
+  durationMinutes: z.number().int().min(5, "Duração mínima de 5 minutos").max(720).nullable().optional(),
+});
+// Procedimento com os recursos (salas/equipamentos) que ele exige
+export const procedureFormSchema = insertProcedureSchema.extend({
+  resourceIds: z.array(z.coerce.number().int().positive()).optional(),
+});
+export const insertResourceSchema = createInsertSchema(resources).omit({ id: true }).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+});
+export const insertProcedureResourceSchema = createInsertSchema(procedureResources).omit({ id: true });
+export const insertAppointmentResourceSchema = createInsertSchema(appointmentResources).omit({ id: true });
+// Os horários das transições de status são preenchidos pelo servidor
+export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+  id: true,
+  checkedInAt: true,
+  startedAt: true,
+  completedAt: true,
+  cancelledAt: true,
+  cancellationReason: true,
+  cancelledBy: true,
+  queueRank: true,
+});
 export const insertAppointmentProcedureSchema = createInsertSchema(appointmentProcedures).omit({ id: true });
+export const insertAppointmentSeriesSchema = createInsertSchema(appointmentSeries).omit({ id: true, createdAt: true });
+export const insertAppointmentChangeSchema = createInsertSchema(appointmentChanges).omit({ id: true, changedAt: true });
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).omit({ id: true, createdAt: true });
+export const insertWaitlistWindowSchema = createInsertSchema(waitlistWindows).omit({ id: true });
+export const insertWaitlistOfferSchema = createInsertSchema(waitlistOffers).omit({ id: true, createdAt: true });
+
+// Janela preferida informada no cadastro da lista de espera
+export const waitlistWindowFormSchema = z.object({
+  weekday: z.coerce.number().int().min(0).max(6).nullable().optional(),
+  startTime: timeSchema,
+  endTime: timeSchema,
+}).refine((window) => timeToMinutes(window.startTime) < timeToMinutes(window.endTime), {
+  message: "O início da janela deve ser anterior ao fim",
+  path: ["endTime"],
+});
+
+// Cadastro na lista de espera: status, agendamento gerado e autor são definidos pelo servidor
+export const waitlistEntryFormSchema = insertWaitlistEntrySchema
+  .omit({ status: true, appointmentId: true, createdBy: true })
+  .extend({
+    patientId: z.coerce.number().int().positive().nullable().optional(),
+    professionalId: z.coerce.number().int().positive().nullable().optional(),
+    procedureIds: z.array(z.coerce.number().int().positive()).min(1, "Selecione ao menos um procedimento"),
+    windows: z.array(waitlistWindowFormSchema).default([]),
+  })
+  .refine((entry) => !!entry.patientId || !!entry.patientName?.trim(), {
+    message: "Informe o paciente ou o nome para pré-cadastro",
+    path: ["patientName"],
+  })
+  .refine((entry) => !!entry.professionalId || !!entry.specialty?.trim(), {
+    message: "Informe o profissional ou a especialidade",
+    path: ["specialty"],
+  });
+
+export type WaitlistEntryFormData = z.infer<typeof waitlistEntryFormSchema>;
+
+// Regra de recorrência validada pelo mesmo parser usado para gerar as sessões
+export const recurrenceRuleSchema = z.string().superRefine((rule, ctx) => {
+  try {
+    parseRecurrenceRule(rule);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : "Regra de recorrência inválida",
+    });
+  }
+});
+
+// As sessões dependem da data da primeira: um UNTIL anterior a ela não gera nenhuma, e um
+// início retroativo com UNTIL distante pode passar do limite de sessões. Use com superRefine
+// no agendamento, depois de validar a regra em si
+export function refineRecurrenceStart(
+  data: { date?: Date; recurrenceRule?: string },
+  ctx: z.RefinementCtx,
+) {
+  if (!data.recurrenceRule || !(data.date instanceof Date) || isNaN(data.date.getTime())) return;
+  let rule;
+  try {
+    rule = parseRecurrenceRule(data.recurrenceRule);
+  } catch {
+    return; // Já apontado por recurrenceRuleSchema
+  }
+  try {
+    if (expandRecurrence(rule, data.date).length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["recurrenceRule"],
+        message: "A regra de recorrência não gera nenhuma sessão a partir da data inicial",
+      });
+    }
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["recurrenceRule"],
+      message: error instanceof Error ? error.message : "Regra de recorrência inválida",
+    });
+  }
+}
 
 // Extend the appointment schema to handle date transformation and procedures
 export const appointmentFormSchema = insertAppointmentSchema.extend({
@@ -131,9 +509,167 @@ export const appointmentFormSchema = insertAppointmentSchema.extend({
   ),
   // Campo para multiplos procedimentos
   procedureIds: z.array(z.number()).optional(),
+  // Recursos reservados além dos exigidos pelos procedimentos
+  resourceIds: z.array(z.coerce.number().int().positive()).optional(),
+  durationMinutes: z.coerce.number().int().min(5).max(720).optional(),
+  // Permite (somente admin) agendar sobre um horário já ocupado
+  allowOverlap: z.boolean().optional(),
+  // Série recorrente: gera uma sessão por data da regra, a partir de "date"
+  recurrenceRule: recurrenceRuleSchema.optional(),
+  // Cria apenas as sessões sem conflito, ignorando as demais
+  skipConflicts: z.boolean().optional(),
 });
 
 export type AppointmentFormData = z.infer<typeof appointmentFormSchema>;
+
+// Sessões afetadas ao alterar uma série: só esta, esta e as seguintes, ou todas
+export const seriesScopeSchema = z.enum(['this', 'following', 'all']);
+
+export type SeriesScope = z.infer<typeof seriesScopeSchema>;
+
+// Alteração de sessões de uma série; o novo horário mantém o dia de cada sessão
+export const appointmentSeriesUpdateSchema = z.object({
+  scope: seriesScopeSchema,
+  time: timeSchema.optional(),
+  professionalId: z.coerce.number().int().positive().optional(),
+  durationMinutes: z.coerce.number().int().min(5).max(720).optional(),
+  notes: z.string().nullable().optional(),
+  allowOverlap: z.boolean().optional(),
+});
+
+export type AppointmentSeriesUpdate = z.infer<typeof appointmentSeriesUpdateSchema>;
+
+export const cancellationReasonSchema = z.enum(cancellationReasonEnum.enumValues, {
+  errorMap: () => ({ message: "Informe o motivo do cancelamento" }),
+});
+
+export type CancellationReason = z.infer<typeof cancellationReasonSchema>;
+
+export const queuePrioritySchema = z.enum(queuePriorityEnum.enumValues);
+
+export type QueuePriority = z.infer<typeof queuePrioritySchema>;
+
+// Prioridades do paciente na fila, enviadas no check-in ou ao corrigi-las depois
+export const appointmentPrioritySchema = z.object({
+  priorityFlags: z.array(queuePrioritySchema),
+});
+
+// Mover o paciente uma posição na fila de espera
+export const queueMoveSchema = z.object({
+  direction: z.enum(['up', 'down']),
+});
+
+// Identificação no totem de check-in: CPF + data de nascimento ou o código (QR) da confirmação
+const kioskIdentityFields = z.object({
+  cpf: z.string().trim().optional(),
+  birthDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data de nascimento inválida").optional(),
+  code: z.string().trim().optional(),
+});
+
+const hasKioskIdentity = (data: z.infer<typeof kioskIdentityFields>) =>
+  !!data.code || (!!data.cpf && !!data.birthDate);
+
+export const kioskIdentitySchema = kioskIdentityFields.refine(hasKioskIdentity, {
+  message: "Informe o CPF e a data de nascimento",
+});
+
+// Check-in pelo totem; telefone e e-mail só quando o paciente os corrigiu
+export const kioskCheckInSchema = kioskIdentityFields.extend({
+  appointmentId: z.coerce.number().int().positive(),
+  phone: z.string().trim().min(8, "Telefone inválido").optional(),
+  email: z.string().trim().email("Email inválido").optional(),
+}).refine(hasKioskIdentity, {
+  message: "Informe o CPF e a data de nascimento",
+});
+
+export type KioskIdentity = z.infer<typeof kioskIdentitySchema>;
+export type KioskCheckIn = z.infer<typeof kioskCheckInSchema>;
+
+export const appointmentSeriesCancelSchema = z.object({
+  scope: seriesScopeSchema,
+  cancellationReason: cancellationReasonSchema,
+});
+
+// Remarcação/edição de um agendamento; campos ausentes ficam como estão
+export const appointmentUpdateSchema = z.object({
+  date: z.preprocess(
+    (arg) => typeof arg === 'string' ? new Date(arg) : arg,
+    z.date()
+  ).optional(),
+  professionalId: z.coerce.number().int().positive().optional(),
+  procedureIds: z.array(z.coerce.number().int().positive())
+    .min(1, "É necessário selecionar pelo menos um procedimento")
+    .optional(),
+  // Recursos reservados além dos exigidos pelos procedimentos
+  resourceIds: z.array(z.coerce.number().int().positive()).optional(),
+  durationMinutes: z.coerce.number().int().min(5).max(720).optional(),
+  notes: z.string().nullable().optional(),
+  healthPlanId: z.coerce.number().int().positive().nullable().optional(), // null = particular
+  allowOverlap: z.boolean().optional(),
+});
+
+export type AppointmentUpdate = z.infer<typeof appointmentUpdateSchema>;
+
+// Datas só com dia (yyyy-MM-dd) são interpretadas no fuso local, não em UTC
+const queryDateSchema = z.preprocess(
+  (arg) => typeof arg === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(arg) ? new Date(`${arg}T00:00:00`) : arg,
+  z.coerce.date()
+);
+
+// "all" ou vazio equivale a não filtrar; aceita lista separada por vírgula
+const queryListSchema = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  (arg) => {
+    if (arg === undefined || arg === '' || arg === 'all') return undefined;
+    return typeof arg === 'string' ? arg.split(',') : arg;
+  },
+  z.array(item).optional()
+);
+
+// Parâmetros de consulta de GET /api/appointments
+export const appointmentQuerySchema = z.object({
+  date: queryDateSchema.optional(),
+  startDate: queryDateSchema.optional(),
+  endDate: queryDateSchema.optional(),
+  professionalId: z.coerce.number().int().positive().optional(),
+  patientId: z.coerce.number().int().positive().optional(),
+  resourceId: z.coerce.number().int().positive().optional(),
+  status: queryListSchema(z.enum(appointmentStatusEnum.enumValues)),
+  type: z.preprocess(
+    (arg) => arg === '' || arg === 'all' ? undefined : arg,
+    z.enum(appointmentTypeEnum.enumValues).optional()
+  ),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+  sortBy: z.enum(['date', 'status', 'id']).default('date'),
+  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+});
+
+export type AppointmentQuery = z.infer<typeof appointmentQuerySchema>;
+
+// Parâmetros de GET /api/professionals/:id/availability
+export const availabilityQuerySchema = z.object({
+  from: queryDateSchema.optional(),
+  to: queryDateSchema.optional(),
+});
+
+// Parâmetros de GET /api/reports/wait-times (padrão: últimos 30 dias)
+export const waitTimeReportQuerySchema = z.object({
+  startDate: queryDateSchema.optional(),
+  endDate: queryDateSchema.optional(),
+  professionalId: z.coerce.number().int().positive().optional(),
+});
+
+// Filtros dos relatórios financeiros (período pela data de conclusão do atendimento)
+export const financialReportQuerySchema = z.object({
+  startDate: queryDateSchema.optional(),
+  endDate: queryDateSchema.optional(),
+  professionalId: z.coerce.number().int().positive().optional(),
+});
+
+// Prévia dos valores do atendimento; sem procedimentos, usa os do agendamento
+export const appointmentQuoteQuerySchema = z.object({
+  procedureIds: queryListSchema(z.coerce.number().int().positive()),
+});
 export const insertEvolutionSchema = createInsertSchema(evolutions).omit({ id: true, createdAt: true });
 
 // Esquema para evolução com validação
@@ -165,6 +701,107 @@ export const evolutionFormSchema = z.object({
   ).optional(),
 });
 export const insertFinancialRecordSchema = createInsertSchema(financialRecords).omit({ id: true, createdAt: true });
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  receivedAt: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  cancellationNotes: true,
+});
+
+export const paymentMethodSchema = z.enum(paymentMethodEnum.enumValues);
+
+// Recebimento no caixa: atendimento e responsável vêm da rota e da sessão
+export const paymentFormSchema = z.object({
+  amount: z.coerce.number().int("Informe o valor em centavos").positive("Informe um valor maior que zero"),
+  method: paymentMethodSchema,
+  installments: z.coerce.number().int().min(1).max(12).default(1),
+  notes: z.string().trim().max(500).nullable().optional(),
+}).refine((payment) => payment.method === "credit" || payment.installments === 1, {
+  message: "Parcelamento só é permitido no cartão de crédito",
+  path: ["installments"],
+});
+
+export const paymentCancelSchema = z.object({
+  reason: z.string().trim().min(1, "Informe o motivo do estorno").max(500),
+});
+
+// Caixa e fechamento de um dia (padrão: hoje), opcionalmente de um único atendente
+export const cashierQuerySchema = z.object({
+  date: queryDateSchema.optional(),
+  receivedBy: z.coerce.number().int().positive().optional(),
+});
+
+export const insertHealthPlanSchema = createInsertSchema(healthPlans).omit({ id: true }).extend({
+  name: z.string().trim().min(1, "Informe o nome do convênio"),
+  operator: z.string().trim().nullable().optional(),
+  ansRegistry: z.string().trim().regex(/^\d{6}$/, "O registro ANS tem 6 dígitos").nullable().optional(),
+});
+export const insertHealthPlanTierSchema = createInsertSchema(healthPlanTiers).omit({ id: true }).extend({
+  name: z.string().trim().min(1, "Informe o nome do plano"),
+});
+// Plano do convênio; o convênio vem da rota
+export const healthPlanTierFormSchema = insertHealthPlanTierSchema.omit({ healthPlanId: true });
+export const insertHealthPlanPriceSchema = createInsertSchema(healthPlanPrices).omit({ id: true });
+export const healthPlanPriceFormSchema = z.object({
+  value: z.coerce.number().int("Informe o valor em centavos").min(0, "O valor não pode ser negativo"),
+});
+export const insertPatientHealthPlanSchema = createInsertSchema(patientHealthPlans).omit({ id: true, createdAt: true });
+// Carteirinha do paciente; o paciente vem da rota
+export const patientHealthPlanFormSchema = z.object({
+  healthPlanId: z.coerce.number().int().positive(),
+  tierId: z.coerce.number().int().positive().nullable().optional(),
+  cardNumber: z.string().trim().min(1, "Informe o número da carteirinha").max(30),
+  validUntil: queryDateSchema.nullable().optional(),
+});
+export const insertCommissionRuleSchema = createInsertSchema(commissionRules).omit({ id: true, createdAt: true });
+export const insertFinancialRecordItemSchema = createInsertSchema(financialRecordItems).omit({ id: true });
+
+// Nova regra de comissão; o autor vem da sessão. Regras não são editadas, apenas encerradas
+export const commissionRuleFormSchema = z.object({
+  professionalId: z.coerce.number().int().positive().nullable().optional(),
+  procedureId: z.coerce.number().int().positive().nullable().optional(),
+  healthPlanId: z.coerce.number().int().positive().nullable().optional(),
+  type: z.enum(commissionTypeEnum.enumValues),
+  value: z.coerce.number().min(0, "O valor não pode ser negativo"),
+  effectiveFrom: queryDateSchema,
+  effectiveUntil: queryDateSchema.nullable().optional(),
+}).refine((rule) => rule.type !== "percentage" || rule.value <= 100, {
+  message: "A porcentagem deve estar entre 0 e 100",
+  path: ["value"],
+}).refine((rule) => rule.type !== "fixed" || Number.isInteger(rule.value), {
+  message: "Informe o valor fixo em centavos",
+  path: ["value"],
+}).refine((rule) => !rule.effectiveUntil || rule.effectiveUntil >= rule.effectiveFrom, {
+  message: "O fim da vigência deve ser posterior ao início",
+  path: ["effectiveUntil"],
+});
+
+export const commissionRuleEndSchema = z.object({
+  effectiveUntil: queryDateSchema,
+});
+
+export const insertPayoutSchema = createInsertSchema(payouts).omit({ id: true, closedAt: true });
+export const insertPayoutAdjustmentSchema = createInsertSchema(payoutAdjustments).omit({ id: true, createdAt: true });
+
+// Extrato de repasse de um profissional no período (datas inclusivas)
+export const payoutPeriodSchema = z.object({
+  professionalId: z.coerce.number().int().positive(),
+  startDate: queryDateSchema,
+  endDate: queryDateSchema,
+});
+
+export const payoutStatementQuerySchema = payoutPeriodSchema.extend({
+  professionalId: z.coerce.number().int().positive().optional(),
+  format: z.enum(["json", "csv", "pdf"]).default("json"),
+});
+
+export const payoutAdjustmentFormSchema = z.object({
+  professionalId: z.coerce.number().int().positive(),
+  date: queryDateSchema,
+  amount: z.coerce.number().int("Informe o valor em centavos").refine((amount) => amount !== 0, "Informe um valor diferente de zero"),
+  description: z.string().trim().min(1, "Informe a descrição do ajuste").max(500),
+});
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -173,24 +810,84 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Professional = typeof professionals.$inferSelect;
 export type InsertProfessional = z.infer<typeof insertProfessionalSchema>;
 
+export type ProfessionalSchedule = typeof professionalSchedules.$inferSelect;
+export type InsertProfessionalSchedule = z.infer<typeof insertProfessionalScheduleSchema>;
+
 export type Patient = typeof patients.$inferSelect;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
 
 export type Procedure = typeof procedures.$inferSelect;
 export type InsertProcedure = z.infer<typeof insertProcedureSchema>;
 
+export type Resource = typeof resources.$inferSelect;
+export type InsertResource = z.infer<typeof insertResourceSchema>;
+
+export type ProcedureResource = typeof procedureResources.$inferSelect;
+export type InsertProcedureResource = z.infer<typeof insertProcedureResourceSchema>;
+
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+// Motivo e responsável gravados ao cancelar ou marcar falta
+export type AppointmentCancellation = Pick<Appointment, "cancellationReason" | "cancelledBy">;
+export type AppointmentQueueUpdate = Partial<Pick<Appointment, "priorityFlags" | "queueRank">>;
+
+export type AppointmentSeries = typeof appointmentSeries.$inferSelect;
+export type InsertAppointmentSeries = z.infer<typeof insertAppointmentSeriesSchema>;
 
 export type AppointmentProcedure = typeof appointmentProcedures.$inferSelect;
 export type InsertAppointmentProcedure = z.infer<typeof insertAppointmentProcedureSchema>;
 
+export type AppointmentResource = typeof appointmentResources.$inferSelect;
+export type InsertAppointmentResource = z.infer<typeof insertAppointmentResourceSchema>;
+
+export type AppointmentChange = typeof appointmentChanges.$inferSelect;
+export type InsertAppointmentChange = z.infer<typeof insertAppointmentChangeSchema>;
+
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+
+export type WaitlistWindow = typeof waitlistWindows.$inferSelect;
+export type InsertWaitlistWindow = z.infer<typeof insertWaitlistWindowSchema>;
+
+export type WaitlistOffer = typeof waitlistOffers.$inferSelect;
+export type InsertWaitlistOffer = z.infer<typeof insertWaitlistOfferSchema>;
+
 export type Evolution = typeof evolutions.$inferSelect;
 export type InsertEvolution = z.infer<typeof insertEvolutionSchema>;
 
 export type FinancialRecord = typeof financialRecords.$inferSelect;
 export type InsertFinancialRecord = z.infer<typeof insertFinancialRecordSchema>;
 
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+export type PaymentFormData = z.infer<typeof paymentFormSchema>;
+export type PaymentCancellation = Pick<Payment, "cancelledBy" | "cancellationNotes">;
+
+export type HealthPlan = typeof healthPlans.$inferSelect;
+export type InsertHealthPlan = z.infer<typeof insertHealthPlanSchema>;
+export type HealthPlanTier = typeof healthPlanTiers.$inferSelect;
+export type InsertHealthPlanTier = z.infer<typeof insertHealthPlanTierSchema>;
+export type HealthPlanPrice = typeof healthPlanPrices.$inferSelect;
+export type InsertHealthPlanPrice = z.infer<typeof insertHealthPlanPriceSchema>;
+export type PatientHealthPlan = typeof patientHealthPlans.$inferSelect;
+export type InsertPatientHealthPlan = z.infer<typeof insertPatientHealthPlanSchema>;
+export type PatientHealthPlanFormData = z.infer<typeof patientHealthPlanFormSchema>;
+
+export type CommissionRule = typeof commissionRules.$inferSelect;
+export type InsertCommissionRule = z.infer<typeof insertCommissionRuleSchema>;
+export type CommissionRuleFormData = z.infer<typeof commissionRuleFormSchema>;
+
+export type FinancialRecordItem = typeof financialRecordItems.$inferSelect;
+export type InsertFinancialRecordItem = z.infer<typeof insertFinancialRecordItemSchema>;
+
+export type Payout = typeof payouts.$inferSelect;
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+
+export type PayoutAdjustment = typeof payoutAdjustments.$inferSelect;
+export type InsertPayoutAdjustment = z.infer<typeof insertPayoutAdjustmentSchema>;
+export type PayoutAdjustmentFormData = z.infer<typeof payoutAdjustmentFormSchema>;
+
 // Extended schemas for form validation
 export const loginSchema = z.object({
   email: z.string().email("Email inválido"),
@@ -0,0 +1,17 @@
+// Relatório histórico de tempos de espera (chegada até o início) e de atendimento (início até a conclusão)
+
+export interface WaitTimeSummary {
+  attended: number;
+  averageWaitMinutes: number | null;
+  maxWaitMinutes: number | null;
+  averageConsultationMinutes: number | null;
+}
+
+export interface WaitTimeReport {
+  startDate: string;
+  endDate: string;
+  overall: WaitTimeSummary;
+  professionals: (WaitTimeSummary & { professionalId: number; professionalName: string })[];
+  // Um item por dia com atendimentos, em ordem cronológica (yyyy-MM-dd)
+  daily: (WaitTimeSummary & { date: string })[];
+}